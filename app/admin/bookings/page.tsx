@@ -1,74 +1,135 @@
 'use client';
 
+import Link from "next/link";
 import { useCallback, useEffect, useMemo, useState } from "react";
+import { getAllergenLabel, getUncoveredAllergens } from "../../../lib/allergens";
+import { getPackageLabel } from "../../../lib/packages";
+import { formatMoney } from "../../../lib/pricing";
+import { formatDietaryNeeds } from "../../../lib/production";
+import { getPackages, getPizzasByPackage } from "../../../lib/queries";
+import { formatServiceWindow, formatTimeRange, getServiceWindows } from "../../../lib/schedule";
 import supabase from "../../../lib/supabaseClient";
-import { buildIcs } from "../../../lib/ics";
-import type { PackageId } from "../../../lib/types";
-
-type Booking = {
-  id: string;
-  customer_name: string;
-  customer_email: string | null;
-  customer_phone: string | null;
-  event_date: string | null;
-  address: string;
-  package: PackageId | null;
-  guests: number | null;
-  status: "requested" | "approved" | "rejected" | "converted";
-  notes: string | null;
-  created_at: string | null;
-  event_id?: string | null;
-};
+import { getZonedDayKey, resolveTimeZone } from "../../../lib/timezone";
+import type { BookingAmendment, BookingRequest, Package, Pizza } from "../../../lib/types";
+import { useAuthRole } from "../../../lib/useAuthRole";
+import AmendmentReviewModal from "../../components/AmendmentReviewModal";
+import ApproveBookingModal from "../../components/ApproveBookingModal";
+
+type Booking = BookingRequest;
 
-type StatusFilter = "all" | "requested" | "approved" | "rejected" | "converted";
+type StatusFilter = "all" | "requested" | "approved" | "rejected" | "converted" | "cancelled";
 
 const statusOptions: Array<{ value: StatusFilter; label: string }> = [
   { value: "all", label: "All statuses" },
   { value: "requested", label: "Requested" },
   { value: "approved", label: "Approved" },
   { value: "rejected", label: "Rejected" },
-  { value: "converted", label: "Converted" }
+  { value: "converted", label: "Converted" },
+  { value: "cancelled", label: "Cancelled" }
 ];
 
-// TODO: replace stub with real admin check using Supabase admins table.
-async function isAdmin(): Promise<boolean> {
-  return true;
-}
+const renderSchedule = (booking: Booking) => {
+  const windows = getServiceWindows(booking);
+  if (windows.length === 0) {
+    return "—";
+  }
+  return (
+    <>
+      <div>
+        {formatTimeRange(
+          windows[0].starts_at,
+          windows[windows.length - 1].ends_at,
+          booking.timezone
+        )}
+      </div>
+      {windows.length > 1 && (
+        <div className="text-xs text-slate-400">
+          {windows.map((window) => formatServiceWindow(window, booking.timezone)).join(" · ")}
+        </div>
+      )}
+      {booking.proposed_event_date && (
+        <div className="text-xs text-amber-300">
+          Proposed:{" "}
+          {formatTimeRange(
+            booking.proposed_event_date,
+            booking.proposed_ends_at ?? booking.proposed_event_date,
+            booking.timezone
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+const OTHER_REASON = "other";
+
+const rejectionReasons = [
+  "We are fully booked on that date.",
+  "The venue is outside our service area.",
+  "The guest count is more than we can cater for.",
+  "We could not reach you to confirm the details."
+];
 
 export default function AdminBookingsPage() {
-  const [authorized, setAuthorized] = useState<boolean | null>(null);
+  const { role, loading: roleLoading } = useAuthRole();
+  // Coordinators may review requests; only admins can approve them. RLS
+  // enforces the same split on booking_requests and events.
+  const authorized = roleLoading ? null : role === "admin" || role === "coordinator";
+  const canApprove = role === "admin";
   const [bookings, setBookings] = useState<Booking[]>([]);
+  // Pending customer changes to converted bookings, by booking id.
+  const [amendments, setAmendments] = useState<Record<string, BookingAmendment>>({});
+  const [packages, setPackages] = useState<Package[]>([]);
+  const [pizzasByPackage, setPizzasByPackage] = useState<Record<string, Pizza[]>>({});
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
   const [dateFilter, setDateFilter] = useState<string>("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const [approveModalOpen, setApproveModalOpen] = useState(false);
-  const [approveLoading, setApproveLoading] = useState(false);
-  const [approveError, setApproveError] = useState<string | null>(null);
-  const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
-  const [approveForm, setApproveForm] = useState({
-    name: "",
-    event_date: "",
-    address: ""
-  });
+  const [approveTarget, setApproveTarget] = useState<Booking | null>(null);
+  const [reviewTarget, setReviewTarget] = useState<Booking | null>(null);
+
+  const [rejectTarget, setRejectTarget] = useState<Booking | null>(null);
+  const [rejectChoice, setRejectChoice] = useState<string>(rejectionReasons[0]);
+  const [rejectCustomReason, setRejectCustomReason] = useState("");
+  const [rejectLoading, setRejectLoading] = useState(false);
+  const [rejectError, setRejectError] = useState<string | null>(null);
+  const [reopeningId, setReopeningId] = useState<string | null>(null);
 
   const fetchBookings = useCallback(async () => {
     setLoading(true);
     setError(null);
 
     try {
-      const { data, error: queryError } = await supabase
-        .from("booking_requests")
-        .select("*")
-        .filter("status", "in", "(requested,approved,rejected,converted)")
-        .order("event_date", { ascending: true });
-
-      if (queryError) {
-        throw queryError;
+      const [bookingsResult, amendmentsResult, packageRows, packagePizzas] = await Promise.all([
+        supabase
+          .from("booking_requests")
+          .select("*")
+          .filter("status", "in", "(requested,approved,rejected,converted,cancelled)")
+          .order("event_date", { ascending: true }),
+        supabase.from("booking_amendments").select("*").eq("status", "pending"),
+        getPackages(),
+        getPizzasByPackage()
+      ]);
+
+      if (bookingsResult.error) {
+        throw bookingsResult.error;
+      }
+      if (amendmentsResult.error) {
+        throw amendmentsResult.error;
       }
 
-      setBookings((data as Booking[]) ?? []);
+      setBookings((bookingsResult.data as Booking[]) ?? []);
+      setPackages(packageRows);
+      setPizzasByPackage(packagePizzas);
+      setAmendments(
+        Object.fromEntries(
+          ((amendmentsResult.data as BookingAmendment[]) ?? []).map((amendment) => [
+            amendment.booking_id,
+            amendment
+          ])
+        )
+      );
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unable to load bookings.");
     } finally {
@@ -77,14 +138,10 @@ export default function AdminBookingsPage() {
   }, []);
 
   useEffect(() => {
-    void (async () => {
-      const admin = await isAdmin();
-      setAuthorized(admin);
-      if (admin) {
-        await fetchBookings();
-      }
-    })();
-  }, [fetchBookings]);
+    if (authorized) {
+      void fetchBookings();
+    }
+  }, [authorized, fetchBookings]);
 
   const filteredBookings = useMemo(() => {
     return bookings.filter((booking) => {
@@ -92,155 +149,130 @@ export default function AdminBookingsPage() {
         return false;
       }
 
-      if (dateFilter) {
-        const filterDate = new Date(dateFilter);
-        const bookingDate = booking.event_date ? new Date(booking.event_date) : null;
-
-        if (!bookingDate) {
-          return false;
-        }
-
-        const sameDay =
-          bookingDate.getFullYear() === filterDate.getFullYear() &&
-          bookingDate.getMonth() === filterDate.getMonth() &&
-          bookingDate.getDate() === filterDate.getDate();
-
-        if (!sameDay) {
-          return false;
-        }
+      // The filter is a day at the venue, whatever the admin's own zone is.
+      if (
+        dateFilter &&
+        (!booking.event_date ||
+          getZonedDayKey(booking.event_date, resolveTimeZone(booking.timezone)) !== dateFilter)
+      ) {
+        return false;
       }
 
       return true;
     });
   }, [bookings, statusFilter, dateFilter]);
 
-  const toLocalDateTimeValue = (value: string | null) => {
-    if (!value) return "";
-    const date = new Date(value);
-    if (Number.isNaN(date.getTime())) return "";
-    const offset = date.getTimezoneOffset();
-    const local = new Date(date.getTime() - offset * 60000);
-    return local.toISOString().slice(0, 16);
-  };
+  const handleApproved = useCallback(async () => {
+    setApproveTarget(null);
+    await fetchBookings();
+  }, [fetchBookings]);
 
-  const handleApproveOpen = (booking: Booking) => {
-    setSelectedBooking(booking);
-    setApproveForm({
-      name: `${booking.customer_name} Event`,
-      event_date: toLocalDateTimeValue(booking.event_date),
-      address: booking.address
-    });
-    setApproveError(null);
-    setApproveModalOpen(true);
-  };
+  const handleAmendmentDecided = useCallback(async () => {
+    setReviewTarget(null);
+    await fetchBookings();
+  }, [fetchBookings]);
 
-  const handleApproveClose = () => {
-    setApproveModalOpen(false);
-    setApproveLoading(false);
-    setApproveError(null);
-    setSelectedBooking(null);
+  const handleRejectOpen = (booking: Booking) => {
+    setRejectTarget(booking);
+    setRejectChoice(rejectionReasons[0]);
+    setRejectCustomReason("");
+    setRejectError(null);
   };
 
-  const handleApproveConfirm = useCallback(async () => {
-    if (!selectedBooking) return;
+  const handleRejectClose = () => {
+    setRejectTarget(null);
+    setRejectLoading(false);
+    setRejectError(null);
+  };
 
-    if (!approveForm.name.trim()) {
-      setApproveError("Event name is required.");
-      return;
-    }
+  const handleRejectConfirm = useCallback(async () => {
+    if (!rejectTarget) return;
 
-    if (!approveForm.event_date) {
-      setApproveError("Event date is required.");
-      return;
-    }
+    const reason =
+      rejectChoice === OTHER_REASON ? rejectCustomReason.trim() : rejectChoice;
 
-    if (!approveForm.address.trim()) {
-      setApproveError("Event address is required.");
+    if (!reason) {
+      setRejectError("Enter a reason for the customer.");
       return;
     }
 
-    setApproveLoading(true);
-    setApproveError(null);
-
-    const isoEventDate = new Date(approveForm.event_date).toISOString();
-
-    let eventId: string | null = null;
+    setRejectLoading(true);
+    setRejectError(null);
 
     try {
-      const { data: insertedEvent, error: insertEventError } = await supabase
-        .from("events")
-        .insert([
-          {
-            name: approveForm.name.trim(),
-            event_date: isoEventDate,
-            address: approveForm.address.trim(),
-            status: "approved",
-            package_id: selectedBooking?.package ?? null,
-            guests: selectedBooking?.guests ?? null
-          }
-        ])
-        .select("id")
-        .single();
-
-      if (insertEventError || !insertedEvent) {
-        throw insertEventError ?? new Error("Event creation failed.");
-      }
-
-      eventId = insertedEvent.id as unknown as string;
-
-      const { error: updateBookingError } = await supabase
-        .from("booking_requests")
-        .update({
-          status: "converted",
-          event_id: eventId
-        })
-        .eq("id", selectedBooking.id);
-
-      if (updateBookingError) {
-        throw updateBookingError;
+      const response = await fetch(`/api/admin/bookings/${rejectTarget.id}/reject`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ reason })
+      });
+      const result = (await response.json().catch(() => ({}))) as {
+        error?: string;
+        errors?: { reason?: string };
+      };
+
+      if (!response.ok) {
+        throw new Error(
+          result.errors?.reason ?? result.error ?? "Unable to reject this booking."
+        );
       }
 
-      handleApproveClose();
+      setRejectTarget(null);
       await fetchBookings();
     } catch (err) {
-      if (eventId) {
-        void supabase.from("events").delete().eq("id", eventId);
-      }
-      setApproveError(
-        err instanceof Error ? err.message : "Unable to approve this booking. Try again."
-      );
+      setRejectError(err instanceof Error ? err.message : "Unable to reject this booking.");
     } finally {
-      setApproveLoading(false);
+      setRejectLoading(false);
     }
-  }, [approveForm, fetchBookings, selectedBooking]);
+  }, [fetchBookings, rejectChoice, rejectCustomReason, rejectTarget]);
 
-  const handleDownloadIcs = useCallback((booking: Booking) => {
-    if (!booking.event_date) {
-      return;
-    }
+  const handleReopen = useCallback(
+    async (booking: Booking) => {
+      setReopeningId(booking.id);
+      setError(null);
 
-    try {
-      const ics = buildIcs({
-        name: `${booking.customer_name} Event`,
-        start: booking.event_date,
-        address: booking.address,
-        description: booking.notes ?? undefined
-      });
+      try {
+        const response = await fetch(`/api/admin/bookings/${booking.id}/reopen`, {
+          method: "POST"
+        });
+        const result = (await response.json().catch(() => ({}))) as { error?: string };
 
-      const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      const safeName = booking.customer_name.replace(/\s+/g, '_') || 'event';
-      link.href = url;
-      link.download = `${safeName}.ics`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-    } catch (icsError) {
-      console.error('Failed to generate ICS file', icsError);
-    }
-  }, []);
+        if (!response.ok) {
+          throw new Error(result.error ?? "Unable to reopen this booking.");
+        }
+
+        await fetchBookings();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unable to reopen this booking.");
+      } finally {
+        setReopeningId(null);
+      }
+    },
+    [fetchBookings]
+  );
+
+  const renderAllergenNeeds = (booking: Booking) => {
+    const needs = booking.allergen_needs ?? [];
+    if (needs.length === 0) return null;
+    const uncovered = booking.package
+      ? getUncoveredAllergens(needs, pizzasByPackage[booking.package] ?? [])
+      : [];
+
+    return (
+      <div className="mt-1 space-y-0.5 text-xs">
+        <div className="text-slate-400">
+          Allergies: {needs.map((allergen) => getAllergenLabel(allergen)).join(", ")}
+        </div>
+        {uncovered.length > 0 && (
+          <div className="text-amber-300">
+            Not covered by this package:{" "}
+            {uncovered.map((allergen) => getAllergenLabel(allergen)).join(", ")}
+          </div>
+        )}
+      </div>
+    );
+  };
 
   if (authorized === false) {
     return (
@@ -271,14 +303,22 @@ export default function AdminBookingsPage() {
             Review and manage incoming booking requests.
           </p>
         </div>
-        <button
-          type="button"
-          onClick={() => void fetchBookings()}
-          disabled={loading}
-          className="inline-flex items-center justify-center rounded-lg border border-white/10 px-4 py-2 text-sm font-medium text-slate-100 transition hover:border-blue-400/60 hover:text-blue-300 disabled:cursor-not-allowed disabled:opacity-60"
-        >
-          {loading ? "Refreshing…" : "Refresh"}
-        </button>
+        <div className="flex gap-2">
+          <Link
+            href="/admin/calendar"
+            className="inline-flex items-center justify-center rounded-lg border border-white/10 px-4 py-2 text-sm font-medium text-slate-100 transition hover:border-blue-400/60 hover:text-blue-300"
+          >
+            Calendar view
+          </Link>
+          <button
+            type="button"
+            onClick={() => void fetchBookings()}
+            disabled={loading}
+            className="inline-flex items-center justify-center rounded-lg border border-white/10 px-4 py-2 text-sm font-medium text-slate-100 transition hover:border-blue-400/60 hover:text-blue-300 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {loading ? "Refreshing…" : "Refresh"}
+          </button>
+        </div>
       </header>
 
       {error && (
@@ -323,6 +363,7 @@ export default function AdminBookingsPage() {
                 <th className="px-4 py-3">Customer</th>
                 <th className="px-4 py-3">Address</th>
                 <th className="px-4 py-3">Package</th>
+                <th className="px-4 py-3">Quote</th>
                 <th className="px-4 py-3">Status</th>
                 <th className="px-4 py-3">Actions</th>
               </tr>
@@ -331,7 +372,7 @@ export default function AdminBookingsPage() {
               {filteredBookings.length === 0 ? (
                 <tr>
                   <td
-                    colSpan={6}
+                    colSpan={7}
                     className="px-4 py-8 text-center text-sm text-slate-400"
                   >
                     {loading ? "Loading bookings…" : "No bookings found."}
@@ -341,9 +382,7 @@ export default function AdminBookingsPage() {
                 filteredBookings.map((booking) => (
                   <tr key={booking.id} className="hover:bg-white/5">
                     <td className="px-4 py-3 text-sm text-slate-200">
-                      {booking.event_date
-                        ? new Date(booking.event_date).toLocaleString()
-                        : "—"}
+                      {renderSchedule(booking)}
                     </td>
                     <td className="px-4 py-3 text-sm text-slate-200">
                       <div className="font-semibold">{booking.customer_name}</div>
@@ -356,34 +395,109 @@ export default function AdminBookingsPage() {
                     <td className="px-4 py-3 text-sm text-slate-200">
                       {booking.address}
                     </td>
-                    <td className="px-4 py-3 text-sm text-slate-200 capitalize">
-                      {booking.package ?? "\u2014"}
+                    <td className="px-4 py-3 text-sm text-slate-200">
+                      {getPackageLabel(packages, booking.package) ?? "\u2014"}
+                      {formatDietaryNeeds(booking) && (
+                        <div className="mt-1 text-xs text-slate-400">
+                          Diets: {formatDietaryNeeds(booking)}
+                        </div>
+                      )}
+                      {renderAllergenNeeds(booking)}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-slate-200">
+                      {booking.quote ? (
+                        <>
+                          <div className="tabular-nums">
+                            {formatMoney(booking.quote.total_cents, booking.quote.currency)}
+                          </div>
+                          <div className="text-xs text-slate-400">
+                            {booking.quote.guests} guests
+                            {booking.quote.weekend ? " · weekend" : ""}
+                          </div>
+                        </>
+                      ) : (
+                        "\u2014"
+                      )}
                     </td>
-                    <td className="px-4 py-3 text-sm font-medium capitalize text-slate-200">
-                      {booking.status}
+                    <td className="px-4 py-3 text-sm font-medium text-slate-200">
+                      <div className="capitalize">{booking.status}</div>
+                      {booking.status === "rejected" && booking.rejection_reason && (
+                        <div className="max-w-[16rem] text-xs font-normal text-slate-400">
+                          {booking.rejection_reason}
+                        </div>
+                      )}
+                      {booking.status !== "rejected" &&
+                        booking.reopened_at &&
+                        booking.rejection_reason && (
+                          <div className="max-w-[16rem] text-xs font-normal text-slate-400">
+                            Reopened after rejection: {booking.rejection_reason}
+                          </div>
+                        )}
+                      {booking.status === "cancelled" && booking.cancellation_reason && (
+                        <div className="max-w-[16rem] text-xs font-normal text-slate-400">
+                          {booking.cancellation_reason}
+                        </div>
+                      )}
+                      {amendments[booking.id] && (
+                        <span className="mt-1 inline-flex items-center rounded-full border border-amber-400/40 px-2 py-0.5 text-xs font-medium text-amber-300">
+                          Change requested
+                        </span>
+                      )}
                     </td>
                     <td className="px-4 py-3 text-sm text-slate-300">
                       <div className="flex items-center gap-2">
-                        <button
-                          type="button"
-                          onClick={() => handleApproveOpen(booking)}
-                          disabled={
-                            approveLoading ||
-                            booking.status === "converted" ||
-                            booking.status === "rejected"
-                          }
-                          className="inline-flex items-center justify-center rounded-lg border border-white/10 px-3 py-1.5 text-xs font-medium text-slate-100 transition hover:border-emerald-400/60 hover:text-emerald-300 disabled:cursor-not-allowed disabled:opacity-60"
-                        >
-                          Approve
-                        </button>
-                        {booking.status === "converted" && booking.event_date && (
+                        {canApprove && (
+                          <button
+                            type="button"
+                            onClick={() => setApproveTarget(booking)}
+                            disabled={
+                              booking.status === "converted" ||
+                              booking.status === "rejected" ||
+                              booking.status === "cancelled"
+                            }
+                            className="inline-flex items-center justify-center rounded-lg border border-white/10 px-3 py-1.5 text-xs font-medium text-slate-100 transition hover:border-emerald-400/60 hover:text-emerald-300 disabled:cursor-not-allowed disabled:opacity-60"
+                          >
+                            Approve
+                          </button>
+                        )}
+                        {canApprove &&
+                          (booking.status === "requested" || booking.status === "approved") && (
+                            <button
+                              type="button"
+                              onClick={() => handleRejectOpen(booking)}
+                              disabled={rejectLoading}
+                              className="inline-flex items-center justify-center rounded-lg border border-white/10 px-3 py-1.5 text-xs font-medium text-slate-100 transition hover:border-rose-400/60 hover:text-rose-300 disabled:cursor-not-allowed disabled:opacity-60"
+                            >
+                              Reject
+                            </button>
+                          )}
+                        {canApprove && booking.status === "rejected" && (
+                          <button
+                            type="button"
+                            onClick={() => void handleReopen(booking)}
+                            disabled={reopeningId !== null}
+                            className="inline-flex items-center justify-center rounded-lg border border-white/10 px-3 py-1.5 text-xs font-medium text-slate-100 transition hover:border-amber-400/60 hover:text-amber-300 disabled:cursor-not-allowed disabled:opacity-60"
+                          >
+                            {reopeningId === booking.id ? "Reopening…" : "Reopen"}
+                          </button>
+                        )}
+                        {canApprove && amendments[booking.id] && (
                           <button
                             type="button"
-                            onClick={() => handleDownloadIcs(booking)}
+                            onClick={() => setReviewTarget(booking)}
+                            className="inline-flex items-center justify-center rounded-lg border border-amber-400/40 px-3 py-1.5 text-xs font-medium text-amber-300 transition hover:border-amber-300 hover:text-amber-200"
+                          >
+                            Review change
+                          </button>
+                        )}
+                        {booking.status === "converted" && booking.event_id && (
+                          <a
+                            href={`/api/events/${booking.event_id}/ics`}
+                            download
                             className="inline-flex items-center justify-center rounded-lg border border-white/10 px-3 py-1.5 text-xs font-medium text-slate-100 transition hover:border-blue-400/60 hover:text-blue-300"
                           >
                             Download .ics
-                          </button>
+                          </a>
                         )}
                       </div>
                     </td>
@@ -395,78 +509,86 @@ export default function AdminBookingsPage() {
         </div>
       </section>
 
-      {approveModalOpen && (
+      {approveTarget && (
+        <ApproveBookingModal
+          booking={approveTarget}
+          onClose={() => setApproveTarget(null)}
+          onApproved={handleApproved}
+        />
+      )}
+
+      {reviewTarget && amendments[reviewTarget.id] && (
+        <AmendmentReviewModal
+          booking={reviewTarget}
+          amendment={amendments[reviewTarget.id]}
+          onClose={() => setReviewTarget(null)}
+          onDecided={handleAmendmentDecided}
+        />
+      )}
+
+      {rejectTarget && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4 py-6 backdrop-blur-sm">
           <div className="w-full max-w-lg rounded-2xl border border-white/10 bg-slate-950/90 p-6">
-            <h2 className="text-lg font-semibold text-slate-100">Approve booking</h2>
+            <h2 className="text-lg font-semibold text-slate-100">Reject booking</h2>
             <p className="mt-1 text-sm text-slate-400">
-              Create an event and convert this booking request.
+              {rejectTarget.customer_name} will be emailed this reason.
             </p>
 
-            <div className="mt-6 space-y-4 text-sm text-slate-100">
-              <label className="space-y-1">
-                <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
-                  Event name
-                </span>
-                <input
-                  value={approveForm.name}
-                  onChange={(event) =>
-                    setApproveForm((prev) => ({ ...prev, name: event.target.value }))
-                  }
-                  className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm focus:border-blue-400/60 focus:outline-none"
-                />
-              </label>
-
-              <label className="space-y-1">
-                <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
-                  Event date &amp; time
-                </span>
-                <input
-                  type="datetime-local"
-                  value={approveForm.event_date}
-                  onChange={(event) =>
-                    setApproveForm((prev) => ({ ...prev, event_date: event.target.value }))
-                  }
-                  className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm focus:border-blue-400/60 focus:outline-none"
-                />
-              </label>
-
-              <label className="space-y-1">
-                <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
-                  Address
-                </span>
-                <input
-                  value={approveForm.address}
-                  onChange={(event) =>
-                    setApproveForm((prev) => ({ ...prev, address: event.target.value }))
-                  }
+            <fieldset className="mt-6 space-y-2 text-sm text-slate-100">
+              <legend className="mb-2 text-xs font-medium uppercase tracking-wide text-slate-400">
+                Reason
+              </legend>
+              {[...rejectionReasons, OTHER_REASON].map((reason) => (
+                <label
+                  key={reason}
+                  className="flex items-start gap-3 rounded-lg border border-white/10 px-3 py-2 hover:border-white/20"
+                >
+                  <input
+                    type="radio"
+                    name="rejection_reason"
+                    value={reason}
+                    checked={rejectChoice === reason}
+                    onChange={() => setRejectChoice(reason)}
+                    className="mt-1"
+                  />
+                  <span>{reason === OTHER_REASON ? "Other (write your own)" : reason}</span>
+                </label>
+              ))}
+
+              {rejectChoice === OTHER_REASON && (
+                <textarea
+                  value={rejectCustomReason}
+                  onChange={(event) => setRejectCustomReason(event.target.value)}
+                  rows={3}
+                  maxLength={500}
+                  placeholder="Explain why we can't take this booking."
                   className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm focus:border-blue-400/60 focus:outline-none"
                 />
-              </label>
+              )}
 
-              {approveError && (
+              {rejectError && (
                 <div className="rounded-xl border border-rose-500/40 bg-rose-950/40 px-4 py-3 text-xs text-rose-200">
-                  {approveError}
+                  {rejectError}
                 </div>
               )}
-            </div>
+            </fieldset>
 
             <div className="mt-6 flex flex-col gap-2 sm:flex-row sm:justify-end">
               <button
                 type="button"
-                onClick={handleApproveClose}
-                disabled={approveLoading}
+                onClick={handleRejectClose}
+                disabled={rejectLoading}
                 className="inline-flex items-center justify-center rounded-lg border border-white/10 px-4 py-2 text-sm font-medium text-slate-300 transition hover:border-slate-400/60 hover:text-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
               >
                 Cancel
               </button>
               <button
                 type="button"
-                onClick={() => void handleApproveConfirm()}
-                disabled={approveLoading}
-                className="inline-flex items-center justify-center rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-70"
+                onClick={() => void handleRejectConfirm()}
+                disabled={rejectLoading}
+                className="inline-flex items-center justify-center rounded-lg bg-rose-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-rose-400 disabled:cursor-not-allowed disabled:opacity-70"
               >
-                {approveLoading ? "Approving…" : "Approve & create event"}
+                {rejectLoading ? "Rejecting…" : "Reject & notify customer"}
               </button>
             </div>
           </div>
@@ -0,0 +1,684 @@
+'use client';
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState, type DragEvent } from "react";
+import {
+  CALENDAR_VIEWS,
+  FIRST_HOUR,
+  LAST_HOUR,
+  getViewDays,
+  moveWindows,
+  shiftAnchor,
+  type CalendarView
+} from "../../../lib/calendarView";
+import {
+  CAPACITY_OVERRIDE_COLUMNS,
+  CAPACITY_RULE_COLUMNS,
+  DEFAULT_CAPACITY_RULES,
+  getDayRules,
+  getLoadLevel,
+  getLoadRatio,
+  type CapacityOverride,
+  type CapacityRules,
+  type DayLoad,
+  type LoadLevel
+} from "../../../lib/capacity";
+import { getServiceWindows, type ServiceWindow } from "../../../lib/schedule";
+import supabase from "../../../lib/supabaseClient";
+import {
+  DEFAULT_TIMEZONE,
+  getDayKeysQueryRange,
+  getZonedDayKey,
+  resolveTimeZone,
+  toZonedLocalValue
+} from "../../../lib/timezone";
+import type { BookingRequest } from "../../../lib/types";
+import { useAuthRole } from "../../../lib/useAuthRole";
+import ApproveBookingModal from "../../components/ApproveBookingModal";
+
+type CalendarEvent = {
+  id: string;
+  name: string;
+  event_date: string;
+  ends_at: string | null;
+  service_windows: ServiceWindow[] | null;
+  timezone: string | null;
+  guests: number | null;
+  finalized_at: string | null;
+  cancelled_at: string | null;
+};
+
+type CalendarItem = {
+  key: string;
+  title: string;
+  windows: ServiceWindow[];
+  timeZone: string;
+  /** Venue day and hour of the first service window. */
+  day: string;
+  hour: number;
+  guests: number;
+} & (
+  | { kind: "booking"; booking: BookingRequest; proposed: boolean }
+  | { kind: "event"; event: CalendarEvent }
+);
+
+const VIEW_LABELS: Record<CalendarView, string> = {
+  month: "Month",
+  week: "Week",
+  day: "Day"
+};
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const HOURS = Array.from({ length: LAST_HOUR - FIRST_HOUR + 1 }, (_, index) => FIRST_HOUR + index);
+
+const LOAD_STYLES: Record<LoadLevel, { bar: string; text: string }> = {
+  open: { bar: "bg-emerald-400", text: "text-emerald-300" },
+  busy: { bar: "bg-amber-400", text: "text-amber-300" },
+  full: { bar: "bg-rose-500", text: "text-rose-300" }
+};
+
+// A proposal replaces the requested times on the calendar until the booking
+// is approved or the proposal is withdrawn.
+const getBookingWindows = (booking: BookingRequest) =>
+  booking.proposed_service_windows?.length
+    ? booking.proposed_service_windows
+    : getServiceWindows(booking);
+
+const toItem = (
+  windows: ServiceWindow[],
+  timeZone: string
+): Pick<CalendarItem, "windows" | "timeZone" | "day" | "hour"> | null => {
+  if (windows.length === 0) return null;
+  const day = getZonedDayKey(windows[0].starts_at, timeZone);
+  if (!day) return null;
+  return {
+    windows,
+    timeZone,
+    day,
+    hour: Number(toZonedLocalValue(windows[0].starts_at, timeZone).slice(11, 13))
+  };
+};
+
+const formatStartTime = (item: CalendarItem) =>
+  new Intl.DateTimeFormat(undefined, {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: item.timeZone
+  }).format(new Date(item.windows[0].starts_at));
+
+const formatDayKey = (dayKey: string, options: Intl.DateTimeFormatOptions) =>
+  new Intl.DateTimeFormat(undefined, { ...options, timeZone: "UTC" }).format(
+    new Date(`${dayKey}T00:00:00Z`)
+  );
+
+const getViewTitle = (view: CalendarView, anchor: string, days: string[]) => {
+  if (view === "month") {
+    return formatDayKey(anchor, { month: "long", year: "numeric" });
+  }
+  if (view === "day") {
+    return formatDayKey(anchor, { weekday: "long", month: "long", day: "numeric", year: "numeric" });
+  }
+  return `${formatDayKey(days[0], { month: "short", day: "numeric" })} – ${formatDayKey(
+    days[days.length - 1],
+    { month: "short", day: "numeric", year: "numeric" }
+  )}`;
+};
+
+const sameWindows = (a: ServiceWindow[], b: ServiceWindow[]) =>
+  a.length === b.length &&
+  a.every(
+    (window, index) =>
+      Date.parse(window.starts_at) === Date.parse(b[index].starts_at) &&
+      Date.parse(window.ends_at) === Date.parse(b[index].ends_at)
+  );
+
+// Finalised and past events are done counting, so they open on the summary.
+const getEventHref = (event: CalendarEvent) => {
+  const endsAt = event.ends_at ?? event.event_date;
+  return event.finalized_at || Date.parse(endsAt) < Date.now()
+    ? `/events/${event.id}/summary`
+    : `/counter/${event.id}`;
+};
+
+export default function AdminCalendarPage() {
+  const { role, loading: roleLoading } = useAuthRole();
+  const authorized = roleLoading ? null : role === "admin" || role === "coordinator";
+  // Coordinators see the calendar; only admins can move or approve bookings.
+  const canApprove = role === "admin";
+  const today = useMemo(() => getZonedDayKey(new Date(), DEFAULT_TIMEZONE) ?? "", []);
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(today);
+  const [bookings, setBookings] = useState<BookingRequest[]>([]);
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [rules, setRules] = useState<CapacityRules>(DEFAULT_CAPACITY_RULES);
+  const [overrides, setOverrides] = useState<CapacityOverride[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [dragging, setDragging] = useState<BookingRequest | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [proposingId, setProposingId] = useState<string | null>(null);
+  const [approveTarget, setApproveTarget] = useState<BookingRequest | null>(null);
+
+  const days = useMemo(() => getViewDays(view, anchor), [view, anchor]);
+
+  const fetchCalendar = useCallback(async () => {
+    if (days.length === 0) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { startISO, endISO } = getDayKeysQueryRange(days[0], days[days.length - 1]);
+      const [eventsResult, bookingsResult, rulesResult, overridesResult] = await Promise.all([
+        supabase
+          .from("events")
+          .select(
+            "id, name, event_date, ends_at, service_windows, timezone, guests, finalized_at, cancelled_at"
+          )
+          .gte("event_date", startISO)
+          .lt("event_date", endISO)
+          .is("cancelled_at", null)
+          .order("event_date", { ascending: true }),
+        supabase
+          .from("booking_requests")
+          .select("*")
+          .in("status", ["requested", "approved"])
+          .or(
+            `and(event_date.gte."${startISO}",event_date.lt."${endISO}"),and(proposed_event_date.gte."${startISO}",proposed_event_date.lt."${endISO}")`
+          )
+          .order("event_date", { ascending: true }),
+        supabase.from("capacity_settings").select(CAPACITY_RULE_COLUMNS).maybeSingle(),
+        supabase
+          .from("capacity_overrides")
+          .select(CAPACITY_OVERRIDE_COLUMNS)
+          .gte("day", days[0])
+          .lte("day", days[days.length - 1])
+      ]);
+
+      if (eventsResult.error) {
+        throw eventsResult.error;
+      }
+      if (bookingsResult.error) {
+        throw bookingsResult.error;
+      }
+      if (rulesResult.error) {
+        throw rulesResult.error;
+      }
+      if (overridesResult.error) {
+        throw overridesResult.error;
+      }
+
+      setEvents((eventsResult.data as CalendarEvent[]) ?? []);
+      setBookings((bookingsResult.data as BookingRequest[]) ?? []);
+      setRules((rulesResult.data as CapacityRules | null) ?? DEFAULT_CAPACITY_RULES);
+      setOverrides((overridesResult.data as CapacityOverride[]) ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load the calendar.");
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    if (authorized) {
+      void fetchCalendar();
+    }
+  }, [authorized, fetchCalendar]);
+
+  const itemsByDay = useMemo(() => {
+    const items: CalendarItem[] = [];
+
+    for (const event of events) {
+      const timeZone = resolveTimeZone(event.timezone);
+      const placed = toItem(getServiceWindows(event), timeZone);
+      if (!placed) continue;
+      items.push({
+        ...placed,
+        key: `event-${event.id}`,
+        title: event.name,
+        guests: event.guests ?? 0,
+        kind: "event",
+        event
+      });
+    }
+
+    for (const booking of bookings) {
+      const timeZone = resolveTimeZone(booking.timezone);
+      const placed = toItem(getBookingWindows(booking), timeZone);
+      if (!placed) continue;
+      items.push({
+        ...placed,
+        key: `booking-${booking.id}`,
+        title: booking.customer_name,
+        guests: booking.guests ?? 0,
+        kind: "booking",
+        booking,
+        proposed: Boolean(booking.proposed_service_windows?.length)
+      });
+    }
+
+    const grouped = new Map<string, CalendarItem[]>();
+    for (const item of items) {
+      const list = grouped.get(item.day) ?? [];
+      list.push(item);
+      grouped.set(item.day, list);
+    }
+    grouped.forEach((list) =>
+      list.sort((a, b) => Date.parse(a.windows[0].starts_at) - Date.parse(b.windows[0].starts_at))
+    );
+    return grouped;
+  }, [bookings, events]);
+
+  const getDayLoads = useCallback(
+    (day: string) => {
+      const confirmed: DayLoad = { events: 0, guests: 0 };
+      const pending: DayLoad = { events: 0, guests: 0 };
+      for (const item of itemsByDay.get(day) ?? []) {
+        const load = item.kind === "event" ? confirmed : pending;
+        load.events += 1;
+        load.guests += item.guests;
+      }
+      return { confirmed, pending };
+    },
+    [itemsByDay]
+  );
+
+  const handleDrop = useCallback(
+    async (day: string, hour?: number) => {
+      const booking = dragging;
+      setDragging(null);
+      setDropTarget(null);
+      if (!booking) return;
+
+      const timeZone = resolveTimeZone(booking.timezone);
+      const current = getBookingWindows(booking);
+      const moved = moveWindows(current, timeZone, day, hour);
+      if (moved.length === 0 || sameWindows(moved, current)) return;
+
+      // Dropping a booking back on the customer's own times withdraws the
+      // proposal instead of proposing what they already asked for.
+      const withdraw = sameWindows(moved, getServiceWindows(booking));
+
+      setProposingId(booking.id);
+      setError(null);
+      setNotice(null);
+
+      try {
+        const response = await fetch(`/api/admin/bookings/${booking.id}/propose-time`, {
+          method: withdraw ? "DELETE" : "POST",
+          headers: {
+            "Content-Type": "application/json"
+          },
+          body: withdraw
+            ? undefined
+            : JSON.stringify({
+                service_windows: moved,
+                timezone: timeZone,
+                setup_minutes: booking.setup_minutes ?? undefined,
+                teardown_minutes: booking.teardown_minutes ?? undefined
+              })
+        });
+        const result = (await response.json().catch(() => ({}))) as {
+          booking?: BookingRequest;
+          error?: string;
+          errors?: Record<string, string>;
+        };
+
+        if (!response.ok) {
+          const fieldError = result.errors ? Object.values(result.errors)[0] : undefined;
+          throw new Error(fieldError ?? result.error ?? "Unable to propose a new time.");
+        }
+
+        if (result.booking) {
+          const updated = result.booking;
+          setBookings((prev) => prev.map((row) => (row.id === updated.id ? updated : row)));
+        }
+        setNotice(
+          withdraw
+            ? `Withdrew the proposal for ${booking.customer_name}.`
+            : `Proposed a new time to ${booking.customer_name}. They will be emailed.`
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unable to propose a new time.");
+      } finally {
+        setProposingId(null);
+      }
+    },
+    [dragging]
+  );
+
+  const handleApproved = useCallback(async () => {
+    setApproveTarget(null);
+    await fetchCalendar();
+  }, [fetchCalendar]);
+
+  const dropProps = (target: string, day: string, hour?: number) =>
+    dragging
+      ? {
+          onDragOver: (event: DragEvent<HTMLElement>) => {
+            event.preventDefault();
+            event.dataTransfer.dropEffect = "move";
+            if (dropTarget !== target) setDropTarget(target);
+          },
+          onDragLeave: () => setDropTarget((prev) => (prev === target ? null : prev)),
+          onDrop: (event: DragEvent<HTMLElement>) => {
+            event.preventDefault();
+            void handleDrop(day, hour);
+          }
+        }
+      : {};
+
+  const renderItem = (item: CalendarItem) => {
+    const label = (
+      <>
+        <span className="font-semibold">{formatStartTime(item)}</span>{" "}
+        <span className="truncate">{item.title}</span>
+        {item.guests > 0 && <span className="text-slate-400"> · {item.guests}</span>}
+      </>
+    );
+
+    if (item.kind === "event") {
+      return (
+        <Link
+          key={item.key}
+          href={getEventHref(item.event)}
+          className="block truncate rounded-md border border-blue-400/30 bg-blue-500/15 px-2 py-1 text-xs text-blue-100 transition hover:border-blue-300/60"
+        >
+          {label}
+        </Link>
+      );
+    }
+
+    const { booking } = item;
+    const draggable = canApprove && booking.status === "requested" && proposingId === null;
+    return (
+      <button
+        key={item.key}
+        type="button"
+        draggable={draggable}
+        onDragStart={(event) => {
+          event.dataTransfer.effectAllowed = "move";
+          event.dataTransfer.setData("text/plain", booking.id);
+          setDragging(booking);
+        }}
+        onDragEnd={() => {
+          setDragging(null);
+          setDropTarget(null);
+        }}
+        onClick={() => canApprove && setApproveTarget(booking)}
+        disabled={proposingId === booking.id}
+        title={
+          item.proposed
+            ? "Proposed time, waiting for the customer"
+            : draggable
+              ? "Drag to propose another time"
+              : undefined
+        }
+        className={`block w-full truncate rounded-md border border-dashed px-2 py-1 text-left text-xs transition disabled:opacity-50 ${
+          item.proposed
+            ? "border-amber-400/60 bg-amber-500/10 text-amber-100"
+            : "border-slate-400/50 bg-slate-500/10 text-slate-100"
+        } ${draggable ? "cursor-grab" : canApprove ? "cursor-pointer" : "cursor-default"}`}
+      >
+        {label}
+        {item.proposed && <span className="text-amber-300"> · proposed</span>}
+      </button>
+    );
+  };
+
+  const renderLoad = (day: string) => {
+    const { confirmed, pending } = getDayLoads(day);
+    const override = overrides.find((entry) => entry.day === day);
+    if (confirmed.events + pending.events === 0 && !override) return null;
+    const dayRules = getDayRules(rules, overrides, day);
+    const level = getLoadLevel(confirmed, dayRules);
+    const withPending = getLoadLevel(
+      {
+        events: confirmed.events + pending.events,
+        guests: confirmed.guests + pending.guests
+      },
+      dayRules
+    );
+    return (
+      <div
+        className="space-y-0.5"
+        title={`${confirmed.events} events · ${confirmed.guests}/${dayRules.max_guests_per_day} guests confirmed${
+          pending.events > 0 ? `; ${pending.events} requested (${pending.guests} guests)` : ""
+        }${override?.note ? ` · ${override.note}` : ""}`}
+      >
+        <div className="h-1 overflow-hidden rounded-full bg-white/10">
+          <div
+            className={`h-full ${LOAD_STYLES[level].bar}`}
+            style={{ width: `${Math.min(100, getLoadRatio(confirmed, dayRules) * 100)}%` }}
+          />
+        </div>
+        {override && (
+          <p className="text-[0.65rem] text-amber-300">
+            {dayRules.ovens} ovens · {dayRules.crews} crews
+          </p>
+        )}
+        {withPending !== level && (
+          <p className={`text-[0.65rem] ${LOAD_STYLES[withPending].text}`}>
+            {withPending === "full" ? "Full if approved" : "Busy if approved"}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  if (authorized === false) {
+    return (
+      <div className="mx-auto w-full max-w-4xl px-6 py-12">
+        <div className="rounded-xl border border-rose-500/40 bg-rose-950/40 px-4 py-3 text-sm text-rose-200">
+          Not authorized to view this page.
+        </div>
+      </div>
+    );
+  }
+
+  if (authorized === null) {
+    return (
+      <div className="mx-auto w-full max-w-4xl px-6 py-12 text-sm text-slate-300">
+        Checking access…
+      </div>
+    );
+  }
+
+  const navButton =
+    "inline-flex items-center justify-center rounded-lg border border-white/10 px-3 py-2 text-sm font-medium text-slate-100 transition hover:border-blue-400/60 hover:text-blue-300 disabled:cursor-not-allowed disabled:opacity-60";
+
+  return (
+    <div className="mx-auto w-full max-w-6xl space-y-6 px-6 py-12">
+      <header className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold tracking-tight text-slate-100">
+            {getViewTitle(view, anchor, days)}
+          </h1>
+          <p className="text-sm text-slate-400">
+            Confirmed events and open booking requests, in each venue&apos;s time.
+            {canApprove && " Drag a request to propose another time."}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="inline-flex overflow-hidden rounded-lg border border-white/10">
+            {CALENDAR_VIEWS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                aria-pressed={view === option}
+                className={`px-3 py-2 text-sm font-medium transition ${
+                  view === option
+                    ? "bg-blue-500 text-white"
+                    : "text-slate-300 hover:text-blue-300"
+                }`}
+              >
+                {VIEW_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setAnchor((prev) => shiftAnchor(view, prev, -1))}
+            aria-label="Previous"
+            className={navButton}
+          >
+            ‹
+          </button>
+          <button type="button" onClick={() => setAnchor(today)} className={navButton}>
+            Today
+          </button>
+          <button
+            type="button"
+            onClick={() => setAnchor((prev) => shiftAnchor(view, prev, 1))}
+            aria-label="Next"
+            className={navButton}
+          >
+            ›
+          </button>
+          <button
+            type="button"
+            onClick={() => void fetchCalendar()}
+            disabled={loading}
+            className={navButton}
+          >
+            {loading ? "Refreshing…" : "Refresh"}
+          </button>
+        </div>
+      </header>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+        <span className="inline-flex items-center gap-1.5">
+          <span className="h-3 w-3 rounded-sm border border-blue-400/30 bg-blue-500/15" />
+          Event
+        </span>
+        <span className="inline-flex items-center gap-1.5">
+          <span className="h-3 w-3 rounded-sm border border-dashed border-slate-400/50 bg-slate-500/10" />
+          Requested
+        </span>
+        <span className="inline-flex items-center gap-1.5">
+          <span className="h-3 w-3 rounded-sm border border-dashed border-amber-400/60 bg-amber-500/10" />
+          Proposed
+        </span>
+        <span>
+          Up to {rules.max_guests_per_day} guests a day, {rules.max_events_per_slot} events at once
+          ({rules.ovens} ovens, {rules.crews} crews)
+        </span>
+      </div>
+
+      {error && (
+        <div className="rounded-xl border border-rose-500/40 bg-rose-950/40 px-4 py-3 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <div className="rounded-xl border border-emerald-500/40 bg-emerald-950/40 px-4 py-3 text-sm text-emerald-200">
+          {notice}
+        </div>
+      )}
+
+      {view === "month" ? (
+        <section className="overflow-hidden rounded-2xl border border-white/10 bg-slate-900/70">
+          <div className="grid grid-cols-7 border-b border-white/10 bg-white/5 text-center text-xs uppercase tracking-wide text-slate-400">
+            {WEEKDAYS.map((weekday) => (
+              <div key={weekday} className="px-2 py-2">
+                {weekday}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7">
+            {days.map((day) => {
+              const inMonth = day.slice(0, 7) === anchor.slice(0, 7);
+              return (
+                <div
+                  key={day}
+                  {...dropProps(day, day)}
+                  className={`min-h-[7.5rem] space-y-1 border-b border-r border-white/5 p-2 ${
+                    inMonth ? "" : "bg-slate-950/40 text-slate-500"
+                  } ${dropTarget === day ? "bg-blue-500/10 ring-1 ring-inset ring-blue-400/60" : ""}`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setAnchor(day);
+                      setView("day");
+                    }}
+                    className={`text-xs font-semibold ${
+                      day === today ? "rounded-full bg-blue-500 px-1.5 text-white" : "text-slate-300"
+                    }`}
+                  >
+                    {Number(day.slice(8))}
+                  </button>
+                  {renderLoad(day)}
+                  <div className="space-y-1">{(itemsByDay.get(day) ?? []).map(renderItem)}</div>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      ) : (
+        <section className="overflow-x-auto rounded-2xl border border-white/10 bg-slate-900/70">
+          <div
+            className="grid min-w-[40rem]"
+            style={{ gridTemplateColumns: `4rem repeat(${days.length}, minmax(0, 1fr))` }}
+          >
+            <div className="border-b border-white/10 bg-white/5" />
+            {days.map((day) => (
+              <div
+                key={day}
+                {...dropProps(day, day)}
+                className={`space-y-1 border-b border-l border-white/10 bg-white/5 px-2 py-2 ${
+                  dropTarget === day ? "ring-1 ring-inset ring-blue-400/60" : ""
+                }`}
+              >
+                <div
+                  className={`text-xs font-semibold uppercase tracking-wide ${
+                    day === today ? "text-blue-300" : "text-slate-300"
+                  }`}
+                >
+                  {formatDayKey(day, { weekday: "short", day: "numeric", month: "short" })}
+                </div>
+                {renderLoad(day)}
+              </div>
+            ))}
+            {HOURS.map((hour) => (
+              <div key={hour} className="contents">
+                <div className="border-b border-white/5 px-2 py-2 text-right text-xs text-slate-500">
+                  {String(hour).padStart(2, "0")}:00
+                </div>
+                {days.map((day) => {
+                  const target = `${day}T${hour}`;
+                  // Anything before the first row is listed there.
+                  const items = (itemsByDay.get(day) ?? []).filter(
+                    (item) => Math.max(item.hour, FIRST_HOUR) === hour
+                  );
+                  return (
+                    <div
+                      key={target}
+                      {...dropProps(target, day, hour)}
+                      className={`min-h-[2.75rem] space-y-1 border-b border-l border-white/5 p-1 ${
+                        dropTarget === target ? "bg-blue-500/10 ring-1 ring-inset ring-blue-400/60" : ""
+                      }`}
+                    >
+                      {items.map(renderItem)}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {approveTarget && (
+        <ApproveBookingModal
+          booking={approveTarget}
+          onClose={() => setApproveTarget(null)}
+          onApproved={handleApproved}
+        />
+      )}
+    </div>
+  );
+}
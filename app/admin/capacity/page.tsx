@@ -0,0 +1,366 @@
+'use client';
+
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+import type {
+  CapacityOverride,
+  CapacityOverrideField,
+  CapacityRuleField,
+  CapacityRules
+} from "../../../lib/capacity";
+import { useAuthRole } from "../../../lib/useAuthRole";
+
+const ruleFields: Array<{ field: CapacityRuleField; label: string; help: string }> = [
+  {
+    field: "max_events_per_slot",
+    label: "Events at once",
+    help: "Events that may overlap, counting setup and teardown."
+  },
+  { field: "max_guests_per_day", label: "Guests per day", help: "Across all events on a venue day." },
+  { field: "ovens", label: "Ovens", help: "Ovens available on a normal day." },
+  { field: "crews", label: "Crews", help: "Each running event needs one crew." },
+  { field: "guests_per_oven", label: "Guests per oven", help: "Bigger events take more ovens." }
+];
+
+type RulesDraft = Record<CapacityRuleField, string>;
+
+const toRulesDraft = (rules: CapacityRules): RulesDraft => ({
+  max_events_per_slot: String(rules.max_events_per_slot),
+  max_guests_per_day: String(rules.max_guests_per_day),
+  ovens: String(rules.ovens),
+  crews: String(rules.crews),
+  guests_per_oven: String(rules.guests_per_oven)
+});
+
+const emptyOverride = { day: "", ovens: "", crews: "", max_guests: "", note: "" };
+
+const inputClass =
+  "w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none";
+
+const describeOverride = (override: CapacityOverride) =>
+  [
+    override.ovens !== null ? `${override.ovens} ovens` : null,
+    override.crews !== null ? `${override.crews} crews` : null,
+    override.max_guests !== null ? `${override.max_guests} guests` : null
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+export default function AdminCapacityPage() {
+  const { role, loading: roleLoading } = useAuthRole();
+  const authorized = roleLoading ? null : role === "admin";
+  const [rules, setRules] = useState<RulesDraft | null>(null);
+  const [ruleErrors, setRuleErrors] = useState<Partial<Record<CapacityRuleField, string>>>({});
+  const [overrides, setOverrides] = useState<CapacityOverride[]>([]);
+  const [overrideForm, setOverrideForm] = useState(emptyOverride);
+  const [overrideErrors, setOverrideErrors] = useState<
+    Partial<Record<CapacityOverrideField, string>>
+  >({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [removingDay, setRemovingDay] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/capacity", { cache: "no-store" });
+      const result = (await response.json().catch(() => ({}))) as {
+        rules?: CapacityRules;
+        overrides?: CapacityOverride[];
+        error?: string;
+      };
+
+      if (!response.ok || !result.rules) {
+        throw new Error(result.error ?? "Unable to load capacity settings.");
+      }
+
+      setRules(toRulesDraft(result.rules));
+      setOverrides(result.overrides ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load capacity settings.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (authorized) {
+      void fetchSettings();
+    }
+  }, [authorized, fetchSettings]);
+
+  const handleSaveRules = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!rules) return;
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    setRuleErrors({});
+
+    try {
+      const response = await fetch("/api/admin/capacity", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(rules)
+      });
+      const result = (await response.json().catch(() => ({}))) as {
+        rules?: CapacityRules;
+        errors?: Partial<Record<CapacityRuleField, string>>;
+        error?: string;
+      };
+
+      if (response.status === 422 && result.errors) {
+        setRuleErrors(result.errors);
+        return;
+      }
+
+      if (!response.ok || !result.rules) {
+        throw new Error(result.error ?? "Unable to save capacity settings.");
+      }
+
+      setRules(toRulesDraft(result.rules));
+      setNotice("Capacity limits saved.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save capacity settings.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddOverride = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    setOverrideErrors({});
+
+    try {
+      const response = await fetch("/api/admin/capacity/overrides", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(overrideForm)
+      });
+      const result = (await response.json().catch(() => ({}))) as {
+        override?: CapacityOverride;
+        errors?: Partial<Record<CapacityOverrideField, string>>;
+        error?: string;
+      };
+
+      if (response.status === 422 && result.errors) {
+        setOverrideErrors(result.errors);
+        return;
+      }
+
+      if (!response.ok || !result.override) {
+        throw new Error(result.error ?? "Unable to save the override.");
+      }
+
+      const saved = result.override;
+      setOverrides((current) =>
+        [...current.filter((entry) => entry.day !== saved.day), saved].sort((a, b) =>
+          a.day.localeCompare(b.day)
+        )
+      );
+      setOverrideForm(emptyOverride);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save the override.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveOverride = async (day: string) => {
+    setRemovingDay(day);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/capacity/overrides?day=${encodeURIComponent(day)}`, {
+        method: "DELETE"
+      });
+      const result = (await response.json().catch(() => ({}))) as { error?: string };
+
+      if (!response.ok) {
+        throw new Error(result.error ?? "Unable to remove the override.");
+      }
+
+      setOverrides((current) => current.filter((entry) => entry.day !== day));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to remove the override.");
+    } finally {
+      setRemovingDay(null);
+    }
+  };
+
+  if (authorized === false) {
+    return (
+      <div className="mx-auto w-full max-w-4xl px-6 py-12">
+        <div className="rounded-xl border border-rose-500/40 bg-rose-950/40 px-4 py-3 text-sm text-rose-200">
+          Not authorized to view this page.
+        </div>
+      </div>
+    );
+  }
+
+  if (authorized === null) {
+    return (
+      <div className="mx-auto w-full max-w-4xl px-6 py-12 text-sm text-slate-300">
+        Checking access…
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-4xl space-y-8 px-6 py-12">
+      <header>
+        <h1 className="text-3xl font-semibold tracking-tight text-slate-100">Capacity</h1>
+        <p className="text-sm text-slate-400">
+          Approvals over these limits are blocked; overlapping events within them need a second
+          confirmation. Customers see a &quot;limited availability&quot; hint for the same slots.
+        </p>
+      </header>
+
+      {error && (
+        <div className="rounded-xl border border-rose-500/40 bg-rose-950/40 px-4 py-3 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <div className="rounded-xl border border-emerald-500/40 bg-emerald-950/40 px-4 py-3 text-sm text-emerald-200">
+          {notice}
+        </div>
+      )}
+
+      <form
+        onSubmit={handleSaveRules}
+        className="space-y-4 rounded-2xl border border-white/10 bg-slate-900/70 p-6"
+      >
+        <h2 className="text-lg font-semibold text-slate-100">Standing limits</h2>
+        {!rules ? (
+          <p className="text-sm text-slate-400">{loading ? "Loading…" : "No settings loaded."}</p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {ruleFields.map(({ field, label, help }) => (
+              <label key={field} className="space-y-1 text-sm font-medium text-slate-200">
+                <span>{label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={rules[field]}
+                  onChange={(event) =>
+                    setRules((prev) => (prev ? { ...prev, [field]: event.target.value } : prev))
+                  }
+                  aria-invalid={Boolean(ruleErrors[field])}
+                  className={inputClass}
+                />
+                <p className="text-xs font-normal text-slate-400">{help}</p>
+                {ruleErrors[field] && (
+                  <p className="text-xs font-normal text-rose-300">{ruleErrors[field]}</p>
+                )}
+              </label>
+            ))}
+          </div>
+        )}
+        <button
+          type="submit"
+          disabled={saving || !rules}
+          className="inline-flex items-center justify-center rounded-lg bg-blue-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-blue-400 disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {saving ? "Saving…" : "Save limits"}
+        </button>
+      </form>
+
+      <section className="space-y-4 rounded-2xl border border-white/10 bg-slate-900/70 p-6">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-100">Day overrides</h2>
+          <p className="text-sm text-slate-400">
+            For days with fewer ovens or crew, or a different guest limit. Empty fields keep the
+            standing limit.
+          </p>
+        </div>
+
+        <form onSubmit={handleAddOverride} className="grid gap-3 sm:grid-cols-5">
+          <label className="space-y-1 text-xs font-medium uppercase tracking-wide text-slate-400">
+            Day
+            <input
+              type="date"
+              value={overrideForm.day}
+              onChange={(event) => setOverrideForm((prev) => ({ ...prev, day: event.target.value }))}
+              aria-invalid={Boolean(overrideErrors.day)}
+              className={inputClass}
+            />
+          </label>
+          {(["ovens", "crews", "max_guests"] as const).map((field) => (
+            <label
+              key={field}
+              className="space-y-1 text-xs font-medium uppercase tracking-wide text-slate-400"
+            >
+              {field === "max_guests" ? "Guests" : field}
+              <input
+                type="number"
+                min={0}
+                value={overrideForm[field]}
+                onChange={(event) =>
+                  setOverrideForm((prev) => ({ ...prev, [field]: event.target.value }))
+                }
+                aria-invalid={Boolean(overrideErrors[field])}
+                className={inputClass}
+              />
+            </label>
+          ))}
+          <label className="space-y-1 text-xs font-medium uppercase tracking-wide text-slate-400">
+            Note
+            <input
+              value={overrideForm.note}
+              onChange={(event) => setOverrideForm((prev) => ({ ...prev, note: event.target.value }))}
+              placeholder="Oven 2 in repair"
+              className={inputClass}
+            />
+          </label>
+          {Object.values(overrideErrors).length > 0 && (
+            <p className="text-xs text-rose-300 sm:col-span-5">
+              {Object.values(overrideErrors).join(" ")}
+            </p>
+          )}
+          <div className="sm:col-span-5">
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center justify-center rounded-lg border border-white/10 px-4 py-2 text-sm font-medium text-slate-100 transition hover:border-blue-400/60 hover:text-blue-300 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Save override
+            </button>
+          </div>
+        </form>
+
+        {overrides.length === 0 ? (
+          <p className="text-sm text-slate-400">No upcoming overrides.</p>
+        ) : (
+          <ul className="divide-y divide-white/10 text-sm text-slate-200">
+            {overrides.map((override) => (
+              <li key={override.day} className="flex items-center justify-between gap-4 py-2">
+                <div>
+                  <div className="font-medium">{override.day}</div>
+                  <div className="text-xs text-slate-400">
+                    {[describeOverride(override), override.note].filter(Boolean).join(" — ")}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => void handleRemoveOverride(override.day)}
+                  disabled={removingDay !== null}
+                  className="inline-flex items-center justify-center rounded-lg border border-white/10 px-3 py-1.5 text-xs font-medium text-slate-300 transition hover:border-rose-400/60 hover:text-rose-300 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {removingDay === override.day ? "Removing…" : "Remove"}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
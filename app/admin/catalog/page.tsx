@@ -0,0 +1,703 @@
+'use client';
+
+import { useCallback, useEffect, useState, type DragEvent, type FormEvent } from "react";
+import {
+  ALLERGENS,
+  DIETARY_TAGS,
+  type AllergenId,
+  type DietaryTagId
+} from "../../../lib/allergens";
+import {
+  getPizzaPackageIds,
+  type CounterRemoval,
+  type PackagePizza,
+  type PizzaField
+} from "../../../lib/catalog";
+import { getPackageLabel } from "../../../lib/packages";
+import type { CatalogPizza, Package } from "../../../lib/types";
+import { useAuthRole } from "../../../lib/useAuthRole";
+import AllergenInfo from "../../components/AllergenInfo";
+import DietBadge from "../../components/DietBadge";
+import PizzaThumbnail from "../../components/PizzaThumbnail";
+
+type PizzaDraft = {
+  name: string;
+  description: string;
+  image_url: string;
+  vegetarian: boolean;
+  vegan: boolean;
+  allergens: AllergenId[];
+  dietary_tags: DietaryTagId[];
+  active: boolean;
+  sort_order: string;
+};
+
+type CatalogResult = {
+  pizza?: CatalogPizza;
+  package_ids?: string[];
+  removals?: CounterRemoval[];
+  errors?: Partial<Record<PizzaField, string>>;
+  error?: string;
+};
+
+// A change waiting on the server. When upcoming events still serve the pizza
+// the server answers 409 with the events, and the admin can send it again
+// with acknowledge_removals. Deleting such a pizza cannot be acknowledged.
+type CatalogChange = {
+  summary: string;
+  failure: string;
+  send: (acknowledge: boolean) => Promise<Response>;
+  onDone: (result: CatalogResult) => void;
+  canAcknowledge: boolean;
+  removals?: CounterRemoval[];
+  /** The server's explanation for the 409. */
+  warning?: string;
+};
+
+type Dragging = { pizzaId: string; fromPackageId: string | null };
+
+const LIBRARY = "library";
+
+const emptyDraft: PizzaDraft = {
+  name: "",
+  description: "",
+  image_url: "",
+  vegetarian: false,
+  vegan: false,
+  allergens: [],
+  dietary_tags: [],
+  active: true,
+  sort_order: "0"
+};
+
+const toDraft = (pizza: CatalogPizza): PizzaDraft => ({
+  name: pizza.name,
+  description: pizza.description ?? "",
+  image_url: pizza.image_url ?? "",
+  vegetarian: pizza.vegetarian,
+  vegan: pizza.vegan,
+  allergens: pizza.allergens ?? [],
+  dietary_tags: pizza.dietary_tags ?? [],
+  active: pizza.active,
+  sort_order: String(pizza.sort_order)
+});
+
+function toggle<T>(list: T[], value: T, on: boolean) {
+  return on ? [...list, value] : list.filter((entry) => entry !== value);
+}
+
+const sortPizzas = (pizzas: CatalogPizza[]) =>
+  [...pizzas].sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
+
+const inputClass =
+  "w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none";
+
+const formatEventDate = (removal: CounterRemoval) =>
+  new Date(removal.event_date).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: removal.timezone
+  });
+
+export default function AdminCatalogPage() {
+  const { role, loading: roleLoading } = useAuthRole();
+  const authorized = roleLoading ? null : role === "admin";
+  const [pizzas, setPizzas] = useState<CatalogPizza[]>([]);
+  const [packages, setPackages] = useState<Package[]>([]);
+  const [assignments, setAssignments] = useState<PackagePizza[]>([]);
+  const [draft, setDraft] = useState<PizzaDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formErrors, setFormErrors] = useState<Partial<Record<PizzaField, string>>>({});
+  const [dragging, setDragging] = useState<Dragging | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [pendingChange, setPendingChange] = useState<CatalogChange | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchCatalog = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/pizzas", { cache: "no-store" });
+      const result = (await response.json().catch(() => ({}))) as {
+        pizzas?: CatalogPizza[];
+        packages?: Package[];
+        assignments?: PackagePizza[];
+        error?: string;
+      };
+
+      if (!response.ok || !result.pizzas) {
+        throw new Error(result.error ?? "Unable to load the catalog.");
+      }
+
+      setPizzas(result.pizzas);
+      setPackages(result.packages ?? []);
+      setAssignments(result.assignments ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load the catalog.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (authorized) {
+      void fetchCatalog();
+    }
+  }, [authorized, fetchCatalog]);
+
+  const runChange = async (change: CatalogChange, acknowledge = false) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    setPendingChange(null);
+
+    try {
+      const response = await change.send(acknowledge);
+      const result = (await response.json().catch(() => ({}))) as CatalogResult;
+
+      if (response.status === 409 && result.removals) {
+        setPendingChange({ ...change, removals: result.removals, warning: result.error });
+        return;
+      }
+      if (response.status === 422 && result.errors) {
+        setFormErrors(result.errors);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(result.error ?? change.failure);
+      }
+
+      change.onDone(result);
+      setNotice(change.summary);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : change.failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const resetForm = () => {
+    setDraft(emptyDraft);
+    setEditingId(null);
+    setFormErrors({});
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setFormErrors({});
+    const pizzaId = editingId;
+    void runChange({
+      summary: pizzaId ? `Saved ${draft.name}.` : `Added ${draft.name}.`,
+      failure: "Unable to save the pizza.",
+      canAcknowledge: true,
+      send: (acknowledge) =>
+        fetch(pizzaId ? `/api/admin/pizzas/${pizzaId}` : "/api/admin/pizzas", {
+          method: pizzaId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...draft, acknowledge_removals: acknowledge })
+        }),
+      onDone: (result) => {
+        const saved = result.pizza;
+        if (saved) {
+          setPizzas((current) =>
+            sortPizzas([...current.filter((pizza) => pizza.id !== saved.id), saved])
+          );
+        }
+        resetForm();
+      }
+    });
+  };
+
+  const handleDelete = (pizza: CatalogPizza) => {
+    if (!window.confirm(`Delete ${pizza.name}? This cannot be undone.`)) return;
+    void runChange({
+      summary: `Deleted ${pizza.name}.`,
+      failure: "Unable to delete this pizza.",
+      canAcknowledge: false,
+      send: () => fetch(`/api/admin/pizzas/${pizza.id}`, { method: "DELETE" }),
+      onDone: () => {
+        setPizzas((current) => current.filter((entry) => entry.id !== pizza.id));
+        setAssignments((current) => current.filter((entry) => entry.pizza_id !== pizza.id));
+        if (editingId === pizza.id) resetForm();
+      }
+    });
+  };
+
+  const setPizzaPackages = (pizza: CatalogPizza, packageIds: string[], summary: string) => {
+    void runChange({
+      summary,
+      failure: "Unable to change the packages for this pizza.",
+      canAcknowledge: true,
+      send: (acknowledge) =>
+        fetch(`/api/admin/pizzas/${pizza.id}/packages`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ package_ids: packageIds, acknowledge_removals: acknowledge })
+        }),
+      onDone: (result) => {
+        const saved = result.package_ids ?? packageIds;
+        setAssignments((current) => [
+          ...current.filter((entry) => entry.pizza_id !== pizza.id),
+          ...saved.map((packageId) => ({ package_id: packageId, pizza_id: pizza.id }))
+        ]);
+      }
+    });
+  };
+
+  // Library → package adds the pizza, package → package moves it, and
+  // package → library takes it out of that package.
+  const handleDrop = (target: string) => {
+    const drag = dragging;
+    setDragging(null);
+    setDropTarget(null);
+    if (!drag || drag.fromPackageId === target) return;
+
+    const pizza = pizzas.find((entry) => entry.id === drag.pizzaId);
+    if (!pizza) return;
+
+    const current = getPizzaPackageIds(assignments, pizza.id);
+    const withoutSource = current.filter((packageId) => packageId !== drag.fromPackageId);
+    if (target === LIBRARY) {
+      if (!drag.fromPackageId) return;
+      setPizzaPackages(
+        pizza,
+        withoutSource,
+        `Removed ${pizza.name} from ${getPackageLabel(packages, drag.fromPackageId)}.`
+      );
+      return;
+    }
+
+    if (current.includes(target) && !drag.fromPackageId) return;
+    const next = withoutSource.includes(target) ? withoutSource : [...withoutSource, target];
+    setPizzaPackages(
+      pizza,
+      next,
+      drag.fromPackageId
+        ? `Moved ${pizza.name} from ${getPackageLabel(packages, drag.fromPackageId)} to ${getPackageLabel(packages, target)}.`
+        : `Added ${pizza.name} to ${getPackageLabel(packages, target)}.`
+    );
+  };
+
+  const dragProps = (pizzaId: string, fromPackageId: string | null) => ({
+    draggable: !busy,
+    onDragStart: (event: DragEvent<HTMLElement>) => {
+      event.dataTransfer.effectAllowed = "move";
+      event.dataTransfer.setData("text/plain", pizzaId);
+      setDragging({ pizzaId, fromPackageId });
+    },
+    onDragEnd: () => {
+      setDragging(null);
+      setDropTarget(null);
+    }
+  });
+
+  const dropProps = (target: string) =>
+    dragging
+      ? {
+          onDragOver: (event: DragEvent<HTMLElement>) => {
+            event.preventDefault();
+            event.dataTransfer.dropEffect = "move";
+            if (dropTarget !== target) setDropTarget(target);
+          },
+          onDragLeave: () => setDropTarget((prev) => (prev === target ? null : prev)),
+          onDrop: (event: DragEvent<HTMLElement>) => {
+            event.preventDefault();
+            handleDrop(target);
+          }
+        }
+      : {};
+
+  const dropClass = (target: string) =>
+    dropTarget === target ? "border-blue-400/70 bg-blue-500/10" : "border-white/10 bg-slate-900/70";
+
+  if (authorized === false) {
+    return (
+      <div className="mx-auto w-full max-w-6xl px-6 py-12">
+        <div className="rounded-xl border border-rose-500/40 bg-rose-950/40 px-4 py-3 text-sm text-rose-200">
+          Not authorized to view this page.
+        </div>
+      </div>
+    );
+  }
+
+  if (authorized === null) {
+    return (
+      <div className="mx-auto w-full max-w-6xl px-6 py-12 text-sm text-slate-300">
+        Checking access…
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-6xl space-y-8 px-6 py-12">
+      <header>
+        <h1 className="text-3xl font-semibold tracking-tight text-slate-100">Catalog</h1>
+        <p className="text-sm text-slate-400">
+          Pizzas and the packages that offer them. Drag a pizza onto a package to add it, between
+          packages to move it, or back to the list to take it out. Events keep the menu they were
+          created with; re-sync an upcoming event from its summary page.
+        </p>
+      </header>
+
+      {error && (
+        <div className="rounded-xl border border-rose-500/40 bg-rose-950/40 px-4 py-3 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <div className="rounded-xl border border-emerald-500/40 bg-emerald-950/40 px-4 py-3 text-sm text-emerald-200">
+          {notice}
+        </div>
+      )}
+
+      {pendingChange?.removals && (
+        <div className="space-y-3 rounded-xl border border-amber-500/40 bg-amber-950/40 px-4 py-3 text-sm text-amber-100">
+          <p className="font-medium">{pendingChange.warning}</p>
+          <p>
+            {pendingChange.removals.length === 1
+              ? "This upcoming event keeps"
+              : `These ${pendingChange.removals.length} upcoming events keep`}{" "}
+            the pizza until its menu is re-synced from the event summary:
+          </p>
+          <ul className="space-y-1 text-amber-200">
+            {pendingChange.removals.map((removal) => (
+              <li key={removal.event_id}>
+                {removal.name} · {formatEventDate(removal)} ·{" "}
+                {getPackageLabel(packages, removal.package_id)}
+                {removal.counted > 0 && ` · ${removal.counted} already counted`}
+              </li>
+            ))}
+          </ul>
+          <div className="flex flex-wrap gap-3">
+            {pendingChange.canAcknowledge && (
+              <button
+                type="button"
+                onClick={() => void runChange(pendingChange, true)}
+                disabled={busy}
+                className="inline-flex items-center justify-center rounded-lg bg-amber-500 px-4 py-2 text-sm font-medium text-slate-950 transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Continue anyway
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setPendingChange(null)}
+              disabled={busy}
+              className="inline-flex items-center justify-center rounded-lg border border-white/10 px-4 py-2 text-sm font-medium text-slate-300 transition hover:border-white/30"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid gap-8 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.4fr)]">
+        <div className="space-y-8">
+          <form
+            onSubmit={handleSubmit}
+            className="space-y-4 rounded-2xl border border-white/10 bg-slate-900/70 p-6"
+          >
+            <h2 className="text-lg font-semibold text-slate-100">
+              {editingId ? "Edit pizza" : "New pizza"}
+            </h2>
+            <label className="block space-y-1 text-sm font-medium text-slate-200">
+              <span>Name</span>
+              <input
+                value={draft.name}
+                onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+                aria-invalid={Boolean(formErrors.name)}
+                className={inputClass}
+              />
+              {formErrors.name && (
+                <p className="text-xs font-normal text-rose-300">{formErrors.name}</p>
+              )}
+            </label>
+            <label className="block space-y-1 text-sm font-medium text-slate-200">
+              <span>Description</span>
+              <textarea
+                value={draft.description}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, description: event.target.value }))
+                }
+                rows={3}
+                aria-invalid={Boolean(formErrors.description)}
+                className={inputClass}
+              />
+              {formErrors.description && (
+                <p className="text-xs font-normal text-rose-300">{formErrors.description}</p>
+              )}
+            </label>
+            <label className="block space-y-1 text-sm font-medium text-slate-200">
+              <span>Image link</span>
+              <input
+                type="url"
+                value={draft.image_url}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, image_url: event.target.value }))
+                }
+                placeholder="https://"
+                aria-invalid={Boolean(formErrors.image_url)}
+                className={inputClass}
+              />
+              {formErrors.image_url && (
+                <p className="text-xs font-normal text-rose-300">{formErrors.image_url}</p>
+              )}
+            </label>
+            <label className="block space-y-1 text-sm font-medium text-slate-200">
+              <span>Sort order</span>
+              <input
+                type="number"
+                value={draft.sort_order}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, sort_order: event.target.value }))
+                }
+                aria-invalid={Boolean(formErrors.sort_order)}
+                className={inputClass}
+              />
+              {formErrors.sort_order && (
+                <p className="text-xs font-normal text-rose-300">{formErrors.sort_order}</p>
+              )}
+            </label>
+            <div className="flex flex-wrap gap-4 text-sm text-slate-200">
+              <label className="inline-flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={draft.vegetarian || draft.vegan}
+                  disabled={draft.vegan}
+                  onChange={(event) =>
+                    setDraft((prev) => ({ ...prev, vegetarian: event.target.checked }))
+                  }
+                />
+                Vegetarian
+              </label>
+              <label className="inline-flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={draft.vegan}
+                  onChange={(event) =>
+                    setDraft((prev) => ({ ...prev, vegan: event.target.checked }))
+                  }
+                />
+                Vegan
+              </label>
+              <label className="inline-flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={draft.active}
+                  onChange={(event) =>
+                    setDraft((prev) => ({ ...prev, active: event.target.checked }))
+                  }
+                />
+                Active
+              </label>
+            </div>
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium text-slate-200">Allergens</legend>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-slate-300 sm:grid-cols-3">
+                {ALLERGENS.map((allergen) => (
+                  <label key={allergen.id} className="inline-flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={draft.allergens.includes(allergen.id)}
+                      onChange={(event) =>
+                        setDraft((prev) => ({
+                          ...prev,
+                          allergens: toggle(prev.allergens, allergen.id, event.target.checked)
+                        }))
+                      }
+                    />
+                    {allergen.label}
+                  </label>
+                ))}
+              </div>
+              {formErrors.allergens && (
+                <p className="text-xs text-rose-300">{formErrors.allergens}</p>
+              )}
+            </fieldset>
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium text-slate-200">Dietary tags</legend>
+              <div className="flex flex-wrap gap-4 text-sm text-slate-300">
+                {DIETARY_TAGS.map((tag) => (
+                  <label key={tag.id} className="inline-flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={draft.dietary_tags.includes(tag.id)}
+                      onChange={(event) =>
+                        setDraft((prev) => ({
+                          ...prev,
+                          dietary_tags: toggle(prev.dietary_tags, tag.id, event.target.checked)
+                        }))
+                      }
+                    />
+                    {tag.label}
+                  </label>
+                ))}
+              </div>
+              {formErrors.dietary_tags && (
+                <p className="text-xs text-rose-300">{formErrors.dietary_tags}</p>
+              )}
+            </fieldset>
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="submit"
+                disabled={busy}
+                className="inline-flex items-center justify-center rounded-lg bg-blue-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-blue-400 disabled:cursor-not-allowed disabled:opacity-70"
+              >
+                {busy ? "Saving…" : editingId ? "Save pizza" : "Add pizza"}
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  disabled={busy}
+                  className="inline-flex items-center justify-center rounded-lg border border-white/10 px-4 py-2 text-sm font-medium text-slate-300 transition hover:border-white/30"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+
+          <section
+            {...dropProps(LIBRARY)}
+            className={`space-y-3 rounded-2xl border p-6 transition ${dropClass(LIBRARY)}`}
+          >
+            <h2 className="text-lg font-semibold text-slate-100">Pizzas</h2>
+            {pizzas.length === 0 ? (
+              <p className="text-sm text-slate-400">{loading ? "Loading…" : "No pizzas yet."}</p>
+            ) : (
+              <ul className="space-y-2">
+                {pizzas.map((pizza) => (
+                  <li
+                    key={pizza.id}
+                    {...dragProps(pizza.id, null)}
+                    className={`flex items-center gap-3 rounded-lg border border-white/10 bg-slate-950/60 p-2 text-sm ${
+                      busy ? "cursor-default" : "cursor-grab"
+                    } ${pizza.active ? "text-slate-100" : "text-slate-500"}`}
+                  >
+                    {pizza.image_url ? (
+                      <PizzaThumbnail src={pizza.image_url} className="h-10 w-10 rounded-md" />
+                    ) : (
+                      <div className="h-10 w-10 flex-none rounded-md bg-slate-800" />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">{pizza.name}</span>
+                        <DietBadge pizza={pizza} />
+                        {!pizza.active && (
+                          <span className="rounded-full bg-slate-700/60 px-2 py-0.5 text-xs text-slate-300">
+                            Inactive
+                          </span>
+                        )}
+                      </div>
+                      {pizza.description && (
+                        <p className="truncate text-xs text-slate-400">{pizza.description}</p>
+                      )}
+                      <AllergenInfo pizza={pizza} />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEditingId(pizza.id);
+                        setDraft(toDraft(pizza));
+                        setFormErrors({});
+                      }}
+                      disabled={busy}
+                      className="rounded-lg border border-white/10 px-2 py-1 text-xs text-slate-300 transition hover:border-blue-400/60 hover:text-blue-300"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(pizza)}
+                      disabled={busy}
+                      className="rounded-lg border border-white/10 px-2 py-1 text-xs text-slate-300 transition hover:border-rose-400/60 hover:text-rose-300"
+                    >
+                      Delete
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold text-slate-100">Packages</h2>
+          {packages.length === 0 && (
+            <p className="text-sm text-slate-400">{loading ? "Loading…" : "No packages."}</p>
+          )}
+          <div className="grid gap-4 sm:grid-cols-2">
+            {packages.map((pkg) => {
+              const assigned = pizzas.filter((pizza) =>
+                assignments.some(
+                  (entry) => entry.package_id === pkg.id && entry.pizza_id === pizza.id
+                )
+              );
+              return (
+                <div
+                  key={pkg.id}
+                  {...dropProps(pkg.id)}
+                  className={`min-h-[10rem] space-y-3 rounded-2xl border p-4 transition ${dropClass(pkg.id)}`}
+                >
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold text-slate-100">{pkg.label}</h3>
+                      {!pkg.active && (
+                        <span className="rounded-full bg-slate-700/60 px-2 py-0.5 text-xs text-slate-300">
+                          Not bookable
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-400">
+                      {assigned.filter((pizza) => pizza.active).length} active pizzas
+                    </p>
+                  </div>
+                  {assigned.length === 0 ? (
+                    <p className="text-sm text-slate-500">Drop pizzas here.</p>
+                  ) : (
+                    <ul className="flex flex-wrap gap-2">
+                      {assigned.map((pizza) => (
+                        <li
+                          key={pizza.id}
+                          {...dragProps(pizza.id, pkg.id)}
+                          className={`inline-flex items-center gap-1 rounded-full border border-white/10 bg-slate-950/70 py-1 pl-3 pr-1 text-xs ${
+                            busy ? "cursor-default" : "cursor-grab"
+                          } ${pizza.active ? "text-slate-100" : "text-slate-500 line-through"}`}
+                        >
+                          {pizza.name}
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setPizzaPackages(
+                                pizza,
+                                getPizzaPackageIds(assignments, pizza.id).filter(
+                                  (packageId) => packageId !== pkg.id
+                                ),
+                                `Removed ${pizza.name} from ${pkg.label}.`
+                              )
+                            }
+                            disabled={busy}
+                            aria-label={`Remove ${pizza.name} from ${pkg.label}`}
+                            className="rounded-full px-1.5 text-slate-400 transition hover:text-rose-300"
+                          >
+                            ×
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
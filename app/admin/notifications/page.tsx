@@ -0,0 +1,241 @@
+'use client';
+
+import { useCallback, useEffect, useState } from "react";
+import type { DeliveryStatus, NotificationDelivery } from "../../../lib/outbox";
+import { useAuthRole } from "../../../lib/useAuthRole";
+
+type StatusFilter = "failed" | "all" | DeliveryStatus;
+
+const statusOptions: Array<{ value: StatusFilter; label: string }> = [
+  { value: "failed", label: "Failed (retrying + dead)" },
+  { value: "dead", label: "Dead letters" },
+  { value: "retrying", label: "Retrying" },
+  { value: "pending", label: "Pending" },
+  { value: "delivered", label: "Delivered" },
+  { value: "all", label: "All deliveries" }
+];
+
+const statusQuery: Record<StatusFilter, string> = {
+  failed: "retrying,dead",
+  all: "",
+  pending: "pending,delivering",
+  delivering: "delivering",
+  retrying: "retrying",
+  delivered: "delivered",
+  dead: "dead"
+};
+
+const statusBadgeClass: Record<DeliveryStatus, string> = {
+  pending: "border-slate-400/40 text-slate-300",
+  delivering: "border-blue-400/40 text-blue-300",
+  retrying: "border-amber-400/40 text-amber-300",
+  delivered: "border-emerald-400/40 text-emerald-300",
+  dead: "border-rose-500/40 text-rose-300"
+};
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : "—";
+
+export default function AdminNotificationsPage() {
+  const { role, loading: roleLoading } = useAuthRole();
+  const authorized = roleLoading ? null : role === "admin";
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("failed");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  const fetchDeliveries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/admin/outbox?status=${encodeURIComponent(statusQuery[statusFilter])}`,
+        { cache: "no-store" }
+      );
+      const result = (await response.json()) as {
+        deliveries?: NotificationDelivery[];
+        error?: string;
+      };
+
+      if (!response.ok) {
+        throw new Error(result.error ?? "Unable to load deliveries.");
+      }
+
+      setDeliveries(result.deliveries ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load deliveries.");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    if (authorized) {
+      void fetchDeliveries();
+    }
+  }, [authorized, fetchDeliveries]);
+
+  const handleReplay = useCallback(
+    async (deliveryId: string) => {
+      setReplayingId(deliveryId);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/admin/outbox/${deliveryId}/replay`, {
+          method: "POST"
+        });
+        const result = (await response.json()) as { error?: string };
+
+        if (!response.ok) {
+          throw new Error(result.error ?? "Unable to replay delivery.");
+        }
+
+        await fetchDeliveries();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unable to replay delivery.");
+      } finally {
+        setReplayingId(null);
+      }
+    },
+    [fetchDeliveries]
+  );
+
+  if (authorized === false) {
+    return (
+      <div className="mx-auto w-full max-w-4xl px-6 py-12">
+        <div className="rounded-xl border border-rose-500/40 bg-rose-950/40 px-4 py-3 text-sm text-rose-200">
+          Not authorized to view this page.
+        </div>
+      </div>
+    );
+  }
+
+  if (authorized === null) {
+    return (
+      <div className="mx-auto w-full max-w-4xl px-6 py-12 text-sm text-slate-300">
+        Checking access…
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-6xl px-6 py-12 space-y-8">
+      <header className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold tracking-tight text-slate-100">
+            Notification deliveries
+          </h1>
+          <p className="text-sm text-slate-400">
+            Inspect webhook deliveries for booking events and replay failed ones.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => void fetchDeliveries()}
+          disabled={loading}
+          className="inline-flex items-center justify-center rounded-lg border border-white/10 px-4 py-2 text-sm font-medium text-slate-100 transition hover:border-blue-400/60 hover:text-blue-300 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {loading ? "Refreshing…" : "Refresh"}
+        </button>
+      </header>
+
+      {error && (
+        <div className="rounded-xl border border-rose-500/40 bg-rose-950/40 px-4 py-3 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+
+      <section className="flex flex-col gap-4 rounded-2xl border border-white/10 bg-slate-900/70 p-6">
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          <label className="space-y-1 text-xs font-medium uppercase tracking-wide text-slate-400">
+            Status filter
+            <select
+              value={statusFilter}
+              onChange={(event) => setStatusFilter(event.target.value as StatusFilter)}
+              className="w-full appearance-none rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none"
+            >
+              {statusOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-white/10 text-sm text-slate-100">
+            <thead>
+              <tr className="bg-white/5 text-left text-xs uppercase tracking-wide text-slate-400">
+                <th className="px-4 py-3">Event</th>
+                <th className="px-4 py-3">Endpoint</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3">Attempts</th>
+                <th className="px-4 py-3">Last error</th>
+                <th className="px-4 py-3">Next attempt</th>
+                <th className="px-4 py-3">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {deliveries.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-4 py-8 text-center text-sm text-slate-400">
+                    {loading ? "Loading deliveries…" : "No deliveries found."}
+                  </td>
+                </tr>
+              ) : (
+                deliveries.map((delivery) => (
+                  <tr key={delivery.id} className="align-top hover:bg-white/5">
+                    <td className="px-4 py-3 text-sm text-slate-200">
+                      <div className="font-semibold">{delivery.event?.event_type ?? "—"}</div>
+                      <div className="text-xs text-slate-400">
+                        {formatDateTime(delivery.event?.created_at ?? null)}
+                      </div>
+                    </td>
+                    <td className="max-w-[14rem] break-all px-4 py-3 text-xs text-slate-300">
+                      {delivery.endpoint}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <span
+                        className={`inline-flex rounded-full border px-2 py-0.5 text-xs font-medium capitalize ${statusBadgeClass[delivery.status]}`}
+                      >
+                        {delivery.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-slate-200">{delivery.attempts}</td>
+                    <td className="max-w-[18rem] break-words px-4 py-3 text-xs text-slate-400">
+                      {delivery.last_error ?? "—"}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-slate-400">
+                      {delivery.status === "delivered"
+                        ? `Delivered ${formatDateTime(delivery.delivered_at)}`
+                        : delivery.status === "dead"
+                          ? "—"
+                          : formatDateTime(delivery.next_attempt_at)}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-slate-300">
+                      <button
+                        type="button"
+                        onClick={() => void handleReplay(delivery.id)}
+                        disabled={
+                          replayingId !== null ||
+                          delivery.status === "pending" ||
+                          delivery.status === "delivering"
+                        }
+                        className="inline-flex items-center justify-center rounded-lg border border-white/10 px-3 py-1.5 text-xs font-medium text-slate-100 transition hover:border-blue-400/60 hover:text-blue-300 disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        {replayingId === delivery.id ? "Replaying…" : "Replay"}
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+}
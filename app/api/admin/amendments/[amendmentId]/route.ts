@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server";
+import { rpcErrorResponse } from "../../../../../lib/apiErrors";
+import { authorize } from "../../../../../lib/auth";
+import { checkCapacity, loadCapacityContext } from "../../../../../lib/capacity";
+import { dispatchOutbox } from "../../../../../lib/outbox";
+import { SCHEDULE_COLUMNS, type ScheduleLike } from "../../../../../lib/schedule";
+import {
+  createServerSupabaseClient,
+  createServiceClient,
+} from "../../../../../lib/supabaseServer";
+import type { BookingAmendment } from "../../../../../lib/types";
+
+const MAX_NOTE_LENGTH = 500;
+
+/** Approves a customer's change into the event, or declines it. */
+export async function POST(
+  request: Request,
+  { params }: { params: { amendmentId: string } },
+) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+  if (typeof body.approve !== "boolean") {
+    return NextResponse.json(
+      { errors: { approve: "Choose to approve or decline the change." } },
+      { status: 422 },
+    );
+  }
+  const note = typeof body.note === "string" ? body.note.trim() : "";
+  if (note.length > MAX_NOTE_LENGTH) {
+    return NextResponse.json(
+      { errors: { note: `Note must be at most ${MAX_NOTE_LENGTH} characters.` } },
+      { status: 422 },
+    );
+  }
+
+  const supabase = createServerSupabaseClient();
+
+  // New times or more guests go through the same capacity check as approval.
+  if (body.approve) {
+    try {
+      const { data: amendment, error: amendmentError } = await supabase
+        .from("booking_amendments")
+        .select("booking_id, changes, event:event_id ( guests, " + SCHEDULE_COLUMNS + " )")
+        .eq("id", params.amendmentId)
+        .maybeSingle();
+      if (amendmentError) {
+        throw amendmentError;
+      }
+
+      const row = amendment as unknown as
+        | (Pick<BookingAmendment, "booking_id" | "changes"> & {
+            event: (ScheduleLike & { guests: number | null }) | null;
+          })
+        | null;
+
+      if (row?.event && ("guests" in row.changes || "service_windows" in row.changes)) {
+        const candidate = { ...row.event, ...row.changes };
+        const context = await loadCapacityContext(supabase, candidate, {
+          excludeBookingId: row.booking_id,
+        });
+        const capacity = checkCapacity(
+          candidate,
+          context.events,
+          context.rules,
+          context.overrides,
+        );
+
+        if (
+          capacity.status === "block" ||
+          (capacity.status === "warn" && body.acknowledge_conflicts !== true)
+        ) {
+          return NextResponse.json(
+            {
+              error:
+                capacity.status === "block"
+                  ? "This change would exceed a capacity limit."
+                  : "The changed event would overlap other events.",
+              capacity,
+            },
+            { status: 409 },
+          );
+        }
+      }
+    } catch (capacityError) {
+      console.error("Capacity check before amendment approval failed", capacityError);
+      return NextResponse.json(
+        { error: "Unable to check capacity for this change." },
+        { status: 500 },
+      );
+    }
+  }
+
+  const { data, error } = await supabase.rpc("decide_booking_amendment", {
+    p_amendment_id: params.amendmentId,
+    p_approve: body.approve,
+    p_note: note || null,
+  });
+
+  if (error) {
+    return rpcErrorResponse(error, "Unable to decide this change.");
+  }
+
+  try {
+    await dispatchOutbox(createServiceClient(), { limit: 5 });
+  } catch (dispatchError) {
+    console.error("Outbox dispatch after amendment decision failed", dispatchError);
+  }
+
+  return NextResponse.json({ amendment: data });
+}
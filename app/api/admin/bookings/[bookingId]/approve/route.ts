@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { rpcErrorResponse } from "../../../../../../lib/apiErrors";
+import { authorize } from "../../../../../../lib/auth";
+import { checkCapacity, loadCapacityContext } from "../../../../../../lib/capacity";
+import { dispatchOutbox } from "../../../../../../lib/outbox";
+import { validateSchedule, type ScheduleField } from "../../../../../../lib/schedule";
+import {
+  createServerSupabaseClient,
+  createServiceClient,
+} from "../../../../../../lib/supabaseServer";
+
+type ApproveField = "name" | "address" | ScheduleField;
+
+export async function POST(
+  request: Request,
+  { params }: { params: { bookingId: string } },
+) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  const address = typeof body.address === "string" ? body.address.trim() : "";
+  // Admins may convert a booking after the fact, so past windows are allowed.
+  const schedule = validateSchedule(body, { requireFuture: false });
+
+  const errors: Partial<Record<ApproveField, string>> = {};
+  if (!name) errors.name = "Event name is required.";
+  if (!address) errors.address = "Event address is required.";
+  if (!schedule.ok) Object.assign(errors, schedule.errors);
+
+  if (Object.keys(errors).length > 0 || !schedule.ok) {
+    return NextResponse.json({ errors }, { status: 422 });
+  }
+
+  const supabase = createServerSupabaseClient();
+
+  // Over a limit the approval is refused; a shared slot within the limits
+  // needs the admin to confirm with acknowledge_conflicts.
+  try {
+    const { data: booking, error: bookingError } = await supabase
+      .from("booking_requests")
+      .select("guests")
+      .eq("id", params.bookingId)
+      .maybeSingle();
+    if (bookingError) {
+      throw bookingError;
+    }
+
+    const context = await loadCapacityContext(supabase, schedule.data, {
+      excludeBookingId: params.bookingId,
+    });
+    const capacity = checkCapacity(
+      { ...schedule.data, guests: (booking as { guests: number | null } | null)?.guests ?? null },
+      context.events,
+      context.rules,
+      context.overrides,
+    );
+
+    if (
+      capacity.status === "block" ||
+      (capacity.status === "warn" && body.acknowledge_conflicts !== true)
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            capacity.status === "block"
+              ? "This booking would exceed a capacity limit."
+              : "This booking overlaps other events.",
+          capacity,
+        },
+        { status: 409 },
+      );
+    }
+  } catch (capacityError) {
+    console.error("Capacity check before approval failed", capacityError);
+    return NextResponse.json(
+      { error: "Unable to check capacity for this booking." },
+      { status: 500 },
+    );
+  }
+
+  // approve_booking is idempotent per booking: a repeated call returns the
+  // event created by the first one.
+  const { data, error } = await supabase.rpc("approve_booking", {
+    p_booking_id: params.bookingId,
+    p_name: name,
+    p_event_date: schedule.data.event_date,
+    p_address: address,
+    p_ends_at: schedule.data.ends_at,
+    p_setup_minutes: schedule.data.setup_minutes,
+    p_teardown_minutes: schedule.data.teardown_minutes,
+    p_service_windows: schedule.data.service_windows,
+    p_timezone: schedule.data.timezone,
+  });
+
+  if (error) {
+    return rpcErrorResponse(error, "Unable to approve this booking.");
+  }
+
+  try {
+    await dispatchOutbox(createServiceClient(), { limit: 5 });
+  } catch (dispatchError) {
+    console.error("Outbox dispatch after approval failed", dispatchError);
+  }
+
+  return NextResponse.json({ eventId: data as string });
+}
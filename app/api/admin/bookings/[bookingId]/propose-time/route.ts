@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { rpcErrorResponse } from "../../../../../../lib/apiErrors";
+import { authorize } from "../../../../../../lib/auth";
+import { dispatchOutbox } from "../../../../../../lib/outbox";
+import { validateSchedule } from "../../../../../../lib/schedule";
+import {
+  createServerSupabaseClient,
+  createServiceClient,
+} from "../../../../../../lib/supabaseServer";
+
+export async function POST(
+  request: Request,
+  { params }: { params: { bookingId: string } },
+) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+  const schedule = validateSchedule(body);
+
+  if (!schedule.ok) {
+    return NextResponse.json({ errors: schedule.errors }, { status: 422 });
+  }
+
+  const { data, error } = await createServerSupabaseClient().rpc("propose_booking_time", {
+    p_booking_id: params.bookingId,
+    p_service_windows: schedule.data.service_windows,
+  });
+
+  if (error) {
+    return rpcErrorResponse(error, "Unable to propose a new time.");
+  }
+
+  try {
+    await dispatchOutbox(createServiceClient(), { limit: 5 });
+  } catch (dispatchError) {
+    console.error("Outbox dispatch after time proposal failed", dispatchError);
+  }
+
+  return NextResponse.json({ booking: data });
+}
+
+/** Withdraws the proposal; the customer's requested times apply again. */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: { bookingId: string } },
+) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const { data, error } = await createServerSupabaseClient().rpc("propose_booking_time", {
+    p_booking_id: params.bookingId,
+    p_service_windows: null,
+  });
+
+  if (error) {
+    return rpcErrorResponse(error, "Unable to withdraw the proposal.");
+  }
+
+  return NextResponse.json({ booking: data });
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { rpcErrorResponse } from "../../../../../../lib/apiErrors";
+import { authorize } from "../../../../../../lib/auth";
+import { dispatchOutbox } from "../../../../../../lib/outbox";
+import {
+  createServerSupabaseClient,
+  createServiceClient,
+} from "../../../../../../lib/supabaseServer";
+
+const MAX_REASON_LENGTH = 500;
+
+export async function POST(
+  request: Request,
+  { params }: { params: { bookingId: string } },
+) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const body = (await request.json().catch(() => ({}))) as { reason?: unknown };
+  const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+
+  if (!reason) {
+    return NextResponse.json(
+      { errors: { reason: "Pick or enter a reason." } },
+      { status: 422 },
+    );
+  }
+
+  if (reason.length > MAX_REASON_LENGTH) {
+    return NextResponse.json(
+      { errors: { reason: `Reason must be at most ${MAX_REASON_LENGTH} characters.` } },
+      { status: 422 },
+    );
+  }
+
+  // Runs as the signed-in admin so the RPC can stamp rejected_by.
+  const { data, error } = await createServerSupabaseClient().rpc("reject_booking", {
+    p_booking_id: params.bookingId,
+    p_reason: reason,
+  });
+
+  if (error) {
+    return rpcErrorResponse(error, "Unable to reject this booking.");
+  }
+
+  try {
+    await dispatchOutbox(createServiceClient(), { limit: 5 });
+  } catch (dispatchError) {
+    console.error("Outbox dispatch after rejection failed", dispatchError);
+  }
+
+  return NextResponse.json({ booking: data });
+}
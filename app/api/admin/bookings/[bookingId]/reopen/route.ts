@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { rpcErrorResponse } from "../../../../../../lib/apiErrors";
+import { authorize } from "../../../../../../lib/auth";
+import { createServerSupabaseClient } from "../../../../../../lib/supabaseServer";
+
+export async function POST(
+  _request: Request,
+  { params }: { params: { bookingId: string } },
+) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const { data, error } = await createServerSupabaseClient().rpc("reopen_booking", {
+    p_booking_id: params.bookingId,
+  });
+
+  if (error) {
+    return rpcErrorResponse(error, "Unable to reopen this booking.");
+  }
+
+  return NextResponse.json({ booking: data });
+}
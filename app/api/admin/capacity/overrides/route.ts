@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../../lib/auth";
+import { CAPACITY_OVERRIDE_COLUMNS, validateCapacityOverride } from "../../../../../lib/capacity";
+import { createServerSupabaseClient } from "../../../../../lib/supabaseServer";
+
+/** Sets the oven, crew or guest limits for one day, replacing any earlier override. */
+export async function POST(request: Request) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const body = (await request.json().catch(() => ({}))) as unknown;
+  const result = validateCapacityOverride(body);
+  if (!result.ok) {
+    return NextResponse.json({ errors: result.errors }, { status: 422 });
+  }
+
+  const { data, error } = await createServerSupabaseClient()
+    .from("capacity_overrides")
+    .upsert({
+      ...result.data,
+      updated_at: new Date().toISOString(),
+      updated_by: access.auth.user.id,
+    })
+    .select(CAPACITY_OVERRIDE_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("Failed to save capacity override", error);
+    return NextResponse.json({ error: "Unable to save the override." }, { status: 500 });
+  }
+
+  return NextResponse.json({ override: data }, { status: 201 });
+}
+
+/** Removes a day's override; the standing limits apply again. */
+export async function DELETE(request: Request) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const day = new URL(request.url).searchParams.get("day") ?? "";
+  const { data, error } = await createServerSupabaseClient()
+    .from("capacity_overrides")
+    .delete()
+    .eq("day", day)
+    .select("day");
+
+  if (error) {
+    console.error("Failed to delete capacity override", error);
+    return NextResponse.json({ error: "Unable to remove the override." }, { status: 500 });
+  }
+
+  if ((data ?? []).length === 0) {
+    return NextResponse.json({ error: "Override not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../lib/auth";
+import {
+  CAPACITY_OVERRIDE_COLUMNS,
+  CAPACITY_RULE_COLUMNS,
+  DEFAULT_CAPACITY_RULES,
+  validateCapacityRules,
+} from "../../../../lib/capacity";
+import { createServerSupabaseClient } from "../../../../lib/supabaseServer";
+import { DEFAULT_TIMEZONE, getZonedDayKey } from "../../../../lib/timezone";
+
+export const dynamic = "force-dynamic";
+
+/** The standing rules and the day overrides from today on. */
+export async function GET() {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const supabase = createServerSupabaseClient();
+  const today = getZonedDayKey(new Date(), DEFAULT_TIMEZONE) ?? "";
+  const [rulesResult, overridesResult] = await Promise.all([
+    supabase.from("capacity_settings").select(CAPACITY_RULE_COLUMNS).maybeSingle(),
+    supabase
+      .from("capacity_overrides")
+      .select(CAPACITY_OVERRIDE_COLUMNS)
+      .gte("day", today)
+      .order("day", { ascending: true }),
+  ]);
+
+  if (rulesResult.error || overridesResult.error) {
+    console.error("Failed to load capacity settings", rulesResult.error ?? overridesResult.error);
+    return NextResponse.json({ error: "Unable to load capacity settings." }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    rules: rulesResult.data ?? DEFAULT_CAPACITY_RULES,
+    overrides: overridesResult.data ?? [],
+  });
+}
+
+export async function PUT(request: Request) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const body = (await request.json().catch(() => ({}))) as unknown;
+  const result = validateCapacityRules(body);
+  if (!result.ok) {
+    return NextResponse.json({ errors: result.errors }, { status: 422 });
+  }
+
+  const { data, error } = await createServerSupabaseClient()
+    .from("capacity_settings")
+    .update({
+      ...result.data,
+      updated_at: new Date().toISOString(),
+      updated_by: access.auth.user.id,
+    })
+    .eq("id", true)
+    .select(CAPACITY_RULE_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("Failed to save capacity settings", error);
+    return NextResponse.json({ error: "Unable to save capacity settings." }, { status: 500 });
+  }
+
+  return NextResponse.json({ rules: data });
+}
@@ -0,0 +1,118 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { rpcErrorResponse } from "../../../../../../lib/apiErrors";
+import { authorize } from "../../../../../../lib/auth";
+import { diffEventMenu, getMenuDiffFingerprint } from "../../../../../../lib/eventMenu";
+import {
+  getAllowedPizzasForEvent,
+  getPackagePizzas,
+  getPizzaTotals,
+} from "../../../../../../lib/queries";
+import { createServerSupabaseClient } from "../../../../../../lib/supabaseServer";
+
+export const dynamic = "force-dynamic";
+
+type Params = { params: { eventId: string } };
+
+/** The event's pending re-sync, or null when there is no such event. */
+async function loadMenuDiff(supabase: SupabaseClient, eventId: string) {
+  const { data: event, error } = await supabase
+    .from("events")
+    .select("package_id")
+    .eq("id", eventId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!event) {
+    return null;
+  }
+
+  const packageId = (event as { package_id: string | null }).package_id;
+  const [menu, totals, catalog] = await Promise.all([
+    getAllowedPizzasForEvent(eventId, supabase),
+    getPizzaTotals(eventId, supabase),
+    packageId ? getPackagePizzas(packageId, supabase) : Promise.resolve([]),
+  ]);
+
+  return diffEventMenu(
+    menu,
+    catalog,
+    Object.fromEntries(totals.map((row) => [row.pizza_id, row.qty])),
+  );
+}
+
+/**
+ * Previews a re-sync: how the event's menu differs from its package today.
+ * The fingerprint goes back with the POST that applies it.
+ */
+export async function GET(_request: Request, { params }: Params) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  try {
+    const diff = await loadMenuDiff(createServerSupabaseClient(), params.eventId);
+    if (!diff) {
+      return NextResponse.json({ error: "Event not found." }, { status: 404 });
+    }
+
+    return NextResponse.json({ diff, fingerprint: getMenuDiffFingerprint(diff) });
+  } catch (error) {
+    console.error("Failed to preview the event menu sync", error);
+    return NextResponse.json(
+      { error: "Unable to compare the menu with the catalog." },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Re-syncs an upcoming event's menu with the catalog; counted pizzas stay.
+ * Refused when the catalog changed since the previewed fingerprint.
+ */
+export async function POST(request: Request, { params }: Params) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+  if (typeof body.fingerprint !== "string" || body.fingerprint.length === 0) {
+    return NextResponse.json(
+      { errors: { fingerprint: "Compare the menu with the catalog first." } },
+      { status: 422 },
+    );
+  }
+
+  const supabase = createServerSupabaseClient();
+  let diff;
+  try {
+    diff = await loadMenuDiff(supabase, params.eventId);
+  } catch (error) {
+    console.error("Failed to check the event menu sync", error);
+    return NextResponse.json({ error: "Unable to re-sync the menu." }, { status: 500 });
+  }
+
+  if (!diff) {
+    return NextResponse.json({ error: "Event not found." }, { status: 404 });
+  }
+
+  if (getMenuDiffFingerprint(diff) !== body.fingerprint) {
+    return NextResponse.json(
+      { error: "The catalog changed since the preview. Compare again before re-syncing." },
+      { status: 409 },
+    );
+  }
+
+  const { error } = await supabase.rpc("sync_event_menu", { p_event_id: params.eventId });
+
+  if (error) {
+    return rpcErrorResponse(error, "Unable to re-sync the menu.");
+  }
+
+  return NextResponse.json({ ok: true });
+}
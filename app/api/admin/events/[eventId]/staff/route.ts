@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { rpcErrorResponse } from "../../../../../../lib/apiErrors";
+import { authorize } from "../../../../../../lib/auth";
+import {
+  getEventStaffIds,
+  parseUserIds,
+  STAFF_MANAGER_ROLES,
+} from "../../../../../../lib/staff";
+import { createServerSupabaseClient } from "../../../../../../lib/supabaseServer";
+
+export const dynamic = "force-dynamic";
+
+type Params = { params: { eventId: string } };
+
+/** Ids of the staff assigned to the event. */
+export async function GET(_request: Request, { params }: Params) {
+  const access = await authorize(STAFF_MANAGER_ROLES);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  try {
+    const userIds = await getEventStaffIds(createServerSupabaseClient(), params.eventId);
+    return NextResponse.json({ user_ids: userIds });
+  } catch (error) {
+    console.error("Failed to load event staff", error);
+    return NextResponse.json({ error: "Unable to load the event's staff." }, { status: 500 });
+  }
+}
+
+/** Replaces the event's staff with `user_ids`. */
+export async function PUT(request: Request, { params }: Params) {
+  const access = await authorize(STAFF_MANAGER_ROLES);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+  const userIds = parseUserIds(body.user_ids);
+  if (!userIds) {
+    return NextResponse.json(
+      { errors: { user_ids: "Pick staff members from the list." } },
+      { status: 422 },
+    );
+  }
+
+  const { data, error } = await createServerSupabaseClient().rpc("set_event_staff", {
+    p_event_id: params.eventId,
+    p_user_ids: userIds,
+  });
+
+  if (error) {
+    return rpcErrorResponse(error, "Unable to assign staff.");
+  }
+
+  return NextResponse.json({
+    user_ids: ((data ?? []) as Array<{ user_id: string }>).map((row) => row.user_id),
+  });
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../../../lib/auth";
+import { dispatchOutbox, replayDelivery } from "../../../../../../lib/outbox";
+import { createServiceClient } from "../../../../../../lib/supabaseServer";
+
+export async function POST(
+  _request: Request,
+  { params }: { params: { deliveryId: string } },
+) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const supabase = createServiceClient();
+
+  try {
+    await replayDelivery(supabase, params.deliveryId);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unable to replay delivery.";
+    return NextResponse.json({ error: message }, { status: 409 });
+  }
+
+  try {
+    await dispatchOutbox(supabase);
+  } catch (error) {
+    // The delivery is queued again; the scheduled dispatcher will retry it.
+    console.error("Outbox dispatch after replay failed", error);
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../lib/auth";
+import { listDeliveries, type DeliveryStatus } from "../../../../lib/outbox";
+import { createServiceClient } from "../../../../lib/supabaseServer";
+
+export const dynamic = "force-dynamic";
+
+const DELIVERY_STATUSES: DeliveryStatus[] = [
+  "pending",
+  "delivering",
+  "retrying",
+  "delivered",
+  "dead",
+];
+
+export async function GET(request: Request) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const statuses = (searchParams.get("status") ?? "")
+    .split(",")
+    .filter((value): value is DeliveryStatus =>
+      DELIVERY_STATUSES.includes(value as DeliveryStatus),
+    );
+
+  try {
+    const deliveries = await listDeliveries(createServiceClient(), statuses);
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error("Failed to list notification deliveries", error);
+    return NextResponse.json(
+      { error: "Unable to load deliveries." },
+      { status: 500 },
+    );
+  }
+}
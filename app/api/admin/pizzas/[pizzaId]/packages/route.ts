@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { rpcErrorResponse } from "../../../../../../lib/apiErrors";
+import { authorize } from "../../../../../../lib/auth";
+import {
+  COUNTER_REMOVAL_ERROR,
+  getPizzaPackageIds,
+  getRemovedPackageIds,
+  loadCounterRemovals,
+  type PackagePizza,
+} from "../../../../../../lib/catalog";
+import { createServerSupabaseClient } from "../../../../../../lib/supabaseServer";
+
+/**
+ * Replaces the packages a pizza belongs to (the drag-and-drop on
+ * /admin/catalog). Upcoming events keep their menus; taking an active pizza
+ * out of a package whose upcoming events serve it needs acknowledge_removals.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { pizzaId: string } },
+) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+  if (
+    !Array.isArray(body.package_ids) ||
+    !body.package_ids.every((packageId) => typeof packageId === "string")
+  ) {
+    return NextResponse.json(
+      { errors: { package_ids: "Send the list of package ids." } },
+      { status: 422 },
+    );
+  }
+  const packageIds = Array.from(new Set(body.package_ids as string[]));
+
+  const supabase = createServerSupabaseClient();
+
+  if (body.acknowledge_removals !== true) {
+    try {
+      const [pizzaResult, assignmentsResult] = await Promise.all([
+        supabase.from("pizzas").select("active").eq("id", params.pizzaId).maybeSingle(),
+        supabase
+          .from("package_pizzas")
+          .select("package_id, pizza_id")
+          .eq("pizza_id", params.pizzaId),
+      ]);
+      if (pizzaResult.error) throw pizzaResult.error;
+      if (assignmentsResult.error) throw assignmentsResult.error;
+
+      // A re-sync already drops inactive pizzas, so moving them changes nothing.
+      const removed = (pizzaResult.data as { active: boolean } | null)?.active
+        ? getRemovedPackageIds(
+            getPizzaPackageIds((assignmentsResult.data ?? []) as PackagePizza[], params.pizzaId),
+            packageIds,
+          )
+        : [];
+      const removals = await loadCounterRemovals(supabase, params.pizzaId, removed);
+      if (removals.length > 0) {
+        return NextResponse.json({ error: COUNTER_REMOVAL_ERROR, removals }, { status: 409 });
+      }
+    } catch (checkError) {
+      console.error("Counter check before changing package contents failed", checkError);
+      return NextResponse.json(
+        { error: "Unable to check upcoming events for this pizza." },
+        { status: 500 },
+      );
+    }
+  }
+
+  const { error } = await supabase.rpc("set_pizza_packages", {
+    p_pizza_id: params.pizzaId,
+    p_package_ids: packageIds,
+  });
+
+  if (error) {
+    return rpcErrorResponse(error, "Unable to change the packages for this pizza.");
+  }
+
+  return NextResponse.json({ package_ids: packageIds });
+}
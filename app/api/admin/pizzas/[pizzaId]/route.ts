@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { rpcErrorResponse } from "../../../../../lib/apiErrors";
+import { authorize } from "../../../../../lib/auth";
+import {
+  COUNTER_REMOVAL_ERROR,
+  MENU_DELETE_ERROR,
+  PIZZA_COLUMNS,
+  getPizzaPackageIds,
+  loadCounterRemovals,
+  validatePizza,
+  type PackagePizza,
+} from "../../../../../lib/catalog";
+import { createServerSupabaseClient } from "../../../../../lib/supabaseServer";
+
+type Params = { params: { pizzaId: string } };
+
+/**
+ * Saves the pizza form. Upcoming events keep serving a deactivated pizza
+ * until their menus are re-synced; deactivating one that is on their menus
+ * needs acknowledge_removals.
+ */
+export async function PATCH(request: Request, { params }: Params) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+  const result = validatePizza(body);
+  if (!result.ok) {
+    return NextResponse.json({ errors: result.errors }, { status: 422 });
+  }
+
+  const supabase = createServerSupabaseClient();
+
+  if (!result.data.active) {
+    try {
+      const { data: current, error: currentError } = await supabase
+        .from("pizzas")
+        .select("active")
+        .eq("id", params.pizzaId)
+        .maybeSingle();
+      if (currentError) {
+        throw currentError;
+      }
+
+      if ((current as { active: boolean } | null)?.active && body.acknowledge_removals !== true) {
+        const { data: assignments, error: assignmentsError } = await supabase
+          .from("package_pizzas")
+          .select("package_id, pizza_id")
+          .eq("pizza_id", params.pizzaId);
+        if (assignmentsError) {
+          throw assignmentsError;
+        }
+
+        const removals = await loadCounterRemovals(
+          supabase,
+          params.pizzaId,
+          getPizzaPackageIds((assignments ?? []) as PackagePizza[], params.pizzaId),
+        );
+        if (removals.length > 0) {
+          return NextResponse.json({ error: COUNTER_REMOVAL_ERROR, removals }, { status: 409 });
+        }
+      }
+    } catch (checkError) {
+      console.error("Counter check before deactivating pizza failed", checkError);
+      return NextResponse.json(
+        { error: "Unable to check upcoming events for this pizza." },
+        { status: 500 },
+      );
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("pizzas")
+    .update({ ...result.data, updated_at: new Date().toISOString() })
+    .eq("id", params.pizzaId)
+    .select(PIZZA_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to update pizza", error);
+    return NextResponse.json({ error: "Unable to save the pizza." }, { status: 500 });
+  }
+
+  if (!data) {
+    return NextResponse.json({ error: "Pizza not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ pizza: data });
+}
+
+/**
+ * Deletes a pizza that is on no event's menu. The database refuses pizzas on
+ * any menu; upcoming events are listed so the admin knows which ones.
+ */
+export async function DELETE(_request: Request, { params }: Params) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const supabase = createServerSupabaseClient();
+
+  try {
+    const removals = await loadCounterRemovals(supabase, params.pizzaId, null);
+    if (removals.length > 0) {
+      return NextResponse.json({ error: MENU_DELETE_ERROR, removals }, { status: 409 });
+    }
+  } catch (checkError) {
+    console.error("Menu check before deleting pizza failed", checkError);
+    return NextResponse.json(
+      { error: "Unable to check upcoming events for this pizza." },
+      { status: 500 },
+    );
+  }
+
+  const { error } = await supabase.rpc("delete_pizza", { p_pizza_id: params.pizzaId });
+
+  if (error) {
+    return rpcErrorResponse(error, "Unable to delete this pizza.");
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../lib/auth";
+import { PIZZA_COLUMNS, validatePizza } from "../../../../lib/catalog";
+import { getPackages } from "../../../../lib/queries";
+import { createServerSupabaseClient } from "../../../../lib/supabaseServer";
+
+export const dynamic = "force-dynamic";
+
+/** Every pizza, every package and the assignments between them. */
+export async function GET() {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const supabase = createServerSupabaseClient();
+  try {
+    const [pizzasResult, assignmentsResult, packages] = await Promise.all([
+      supabase
+        .from("pizzas")
+        .select(PIZZA_COLUMNS)
+        .order("sort_order", { ascending: true })
+        .order("name", { ascending: true }),
+      supabase.from("package_pizzas").select("package_id, pizza_id"),
+      getPackages(supabase),
+    ]);
+
+    if (pizzasResult.error) throw pizzasResult.error;
+    if (assignmentsResult.error) throw assignmentsResult.error;
+
+    return NextResponse.json({
+      pizzas: pizzasResult.data ?? [],
+      packages,
+      assignments: assignmentsResult.data ?? [],
+    });
+  } catch (error) {
+    console.error("Failed to load the pizza catalog", error);
+    return NextResponse.json({ error: "Unable to load the catalog." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const access = await authorize(["admin"]);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const body = (await request.json().catch(() => ({}))) as unknown;
+  const result = validatePizza(body);
+  if (!result.ok) {
+    return NextResponse.json({ errors: result.errors }, { status: 422 });
+  }
+
+  const { data, error } = await createServerSupabaseClient()
+    .from("pizzas")
+    .insert(result.data)
+    .select(PIZZA_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("Failed to create pizza", error);
+    return NextResponse.json({ error: "Unable to save the pizza." }, { status: 500 });
+  }
+
+  return NextResponse.json({ pizza: data }, { status: 201 });
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../lib/auth";
+import { listStaffMembers, STAFF_MANAGER_ROLES } from "../../../../lib/staff";
+import { createServerSupabaseClient } from "../../../../lib/supabaseServer";
+
+export const dynamic = "force-dynamic";
+
+/** Staff members that can be assigned to events or given a calendar feed. */
+export async function GET() {
+  const access = await authorize(STAFF_MANAGER_ROLES);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  try {
+    return NextResponse.json({ staff: await listStaffMembers(createServerSupabaseClient()) });
+  } catch (error) {
+    console.error("Failed to list staff members", error);
+    return NextResponse.json({ error: "Unable to load staff." }, { status: 500 });
+  }
+}
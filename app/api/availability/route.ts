@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { checkCapacity, loadCapacityContext } from "../../../lib/capacity";
+import { validateSchedule } from "../../../lib/schedule";
+import { createServiceClient } from "../../../lib/supabaseServer";
+
+export const dynamic = "force-dynamic";
+
+// Backs the "limited availability" hint on /book. It runs the same check as
+// approval with the service role, but only says whether the slot is limited:
+// customers never see other events.
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+  const schedule = validateSchedule(body);
+
+  if (!schedule.ok) {
+    return NextResponse.json({ errors: schedule.errors }, { status: 422 });
+  }
+
+  const guests = Number(body.guests);
+
+  try {
+    const supabase = createServiceClient();
+    const context = await loadCapacityContext(supabase, schedule.data);
+    const capacity = checkCapacity(
+      { ...schedule.data, guests: Number.isInteger(guests) && guests > 0 ? guests : null },
+      context.events,
+      context.rules,
+      context.overrides,
+    );
+
+    return NextResponse.json({ limited: capacity.status !== "ok" });
+  } catch (error) {
+    console.error("Availability check failed", error);
+    return NextResponse.json({ error: "Unable to check availability." }, { status: 500 });
+  }
+}
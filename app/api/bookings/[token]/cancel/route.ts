@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { rpcErrorResponse } from "../../../../../lib/apiErrors";
+import { getBookingPolicy, getSelfServiceState } from "../../../../../lib/bookingPolicy";
+import { getBookingByToken } from "../../../../../lib/bookingPortal";
+import { dispatchOutbox } from "../../../../../lib/outbox";
+import { createServiceClient } from "../../../../../lib/supabaseServer";
+
+export const dynamic = "force-dynamic";
+
+const MAX_REASON_LENGTH = 500;
+
+/** Cancels the booking, and its event once converted, up to the cutoff. */
+export async function POST(
+  request: Request,
+  { params }: { params: { token: string } },
+) {
+  const client = createServiceClient();
+
+  let result: Awaited<ReturnType<typeof getBookingByToken>>;
+  try {
+    result = await getBookingByToken(client, params.token);
+  } catch (error) {
+    console.error("Failed to load booking for cancellation", error);
+    return NextResponse.json({ error: "Unable to cancel this booking." }, { status: 500 });
+  }
+
+  if (!result) {
+    return NextResponse.json({ error: "Booking not found." }, { status: 404 });
+  }
+
+  const { booking, event } = result;
+  const state = getSelfServiceState(
+    event?.cancelled_at ? "cancelled" : booking.status,
+    event?.event_date ?? booking.event_date,
+    getBookingPolicy(),
+  );
+
+  if (!state.canCancel) {
+    return NextResponse.json(
+      { error: "This booking can no longer be cancelled online. Please contact us." },
+      { status: 409 },
+    );
+  }
+
+  const body = (await request.json().catch(() => ({}))) as { reason?: unknown };
+  const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+
+  if (reason.length > MAX_REASON_LENGTH) {
+    return NextResponse.json(
+      { errors: { reason: `Reason must be at most ${MAX_REASON_LENGTH} characters.` } },
+      { status: 422 },
+    );
+  }
+
+  const { error } = await client.rpc("customer_cancel_booking", {
+    p_token: params.token,
+    p_reason: reason || null,
+  });
+
+  if (error) {
+    return rpcErrorResponse(error, "Unable to cancel this booking.");
+  }
+
+  try {
+    await dispatchOutbox(client, { limit: 5 });
+  } catch (dispatchError) {
+    console.error("Outbox dispatch after cancellation failed", dispatchError);
+  }
+
+  return NextResponse.json({ status: "cancelled" });
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { rpcErrorResponse } from "../../../../../lib/apiErrors";
+import {
+  getBookingPolicy,
+  getSelfServiceState,
+  validateBookingChange,
+} from "../../../../../lib/bookingPolicy";
+import { getBookingByToken } from "../../../../../lib/bookingPortal";
+import { dispatchOutbox } from "../../../../../lib/outbox";
+import { getPackageById } from "../../../../../lib/queries";
+import { createServiceClient } from "../../../../../lib/supabaseServer";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * A customer's change to guests, times or notes. Before conversion the
+ * booking is updated; afterwards the change waits for an admin.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { token: string } },
+) {
+  const client = createServiceClient();
+
+  let result: Awaited<ReturnType<typeof getBookingByToken>>;
+  let bookedPackage: Awaited<ReturnType<typeof getPackageById>> = null;
+  try {
+    result = await getBookingByToken(client, params.token);
+    const packageId = result?.event?.package_id ?? result?.booking.package;
+    if (packageId) {
+      bookedPackage = await getPackageById(packageId, client);
+    }
+  } catch (error) {
+    console.error("Failed to load booking for a customer change", error);
+    return NextResponse.json({ error: "Unable to change this booking." }, { status: 500 });
+  }
+
+  if (!result) {
+    return NextResponse.json({ error: "Booking not found." }, { status: 404 });
+  }
+
+  const { booking, event } = result;
+  const policy = getBookingPolicy();
+  const state = getSelfServiceState(
+    event?.cancelled_at ? "cancelled" : booking.status,
+    event?.event_date ?? booking.event_date,
+    policy,
+  );
+
+  if (!state.canChange) {
+    return NextResponse.json(
+      { error: "This booking can no longer be changed online. Please contact us." },
+      { status: 409 },
+    );
+  }
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+  const validation = validateBookingChange(
+    body,
+    {
+      package: bookedPackage,
+      guests: event?.guests ?? booking.guests,
+      dietary_guests: (booking.vegan_guests ?? 0) + (booking.vegetarian_guests ?? 0),
+      notes: booking.notes,
+    },
+    policy,
+  );
+
+  if (!validation.ok) {
+    return NextResponse.json({ errors: validation.errors }, { status: 422 });
+  }
+
+  const { data, error } = await client.rpc("customer_change_booking", {
+    p_token: params.token,
+    p_changes: validation.data,
+  });
+
+  if (error) {
+    return rpcErrorResponse(error, "Unable to change this booking.");
+  }
+
+  try {
+    await dispatchOutbox(client, { limit: 5 });
+  } catch (dispatchError) {
+    console.error("Outbox dispatch after customer change failed", dispatchError);
+  }
+
+  // The function returns the amendment only when the change needs approval.
+  const amendment = data as { id: string | null } | null;
+  return NextResponse.json({ status: amendment?.id ? "pending" : "applied" });
+}
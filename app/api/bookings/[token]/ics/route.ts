@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { getBookingByToken, getBookingPortalPath } from "../../../../../lib/bookingPortal";
+import { toIcsEvents } from "../../../../../lib/eventIcs";
+import { buildIcs } from "../../../../../lib/ics";
+import { getPackages } from "../../../../../lib/queries";
+import { createServiceClient } from "../../../../../lib/supabaseServer";
+
+export const dynamic = "force-dynamic";
+
+/** The customer's calendar file. The token in the path is the only credential. */
+export async function GET(
+  request: Request,
+  { params }: { params: { token: string } },
+) {
+  const supabase = createServiceClient();
+  let result: Awaited<ReturnType<typeof getBookingByToken>>;
+  let packages: Awaited<ReturnType<typeof getPackages>>;
+  try {
+    [result, packages] = await Promise.all([
+      getBookingByToken(supabase, params.token),
+      getPackages(supabase),
+    ]);
+  } catch (error) {
+    console.error("Failed to load booking for ICS export", error);
+    return NextResponse.json({ error: "Unable to export booking." }, { status: 500 });
+  }
+
+  if (!result) {
+    return NextResponse.json({ error: "Booking not found." }, { status: 404 });
+  }
+
+  if (!result.event) {
+    return NextResponse.json(
+      { error: "The calendar file is available once the booking is confirmed." },
+      { status: 409 },
+    );
+  }
+
+  const origin = new URL(request.url).origin;
+  const body = buildIcs(
+    toIcsEvents(
+      result.event,
+      origin,
+      packages,
+      `${origin}${getBookingPortalPath(params.token)}`,
+    ),
+  );
+  const fileName = result.event.name.replace(/[^\w-]+/g, "_") || "event";
+
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${fileName}.ics"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
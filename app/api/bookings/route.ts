@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { validateBooking } from "../../../lib/bookingSchema";
+import { dispatchOutbox } from "../../../lib/outbox";
+import { findPackage } from "../../../lib/packages";
+import { computeQuote } from "../../../lib/pricing";
+import { getPackages } from "../../../lib/queries";
+import { createServiceClient } from "../../../lib/supabaseServer";
+
+export async function POST(request: Request) {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const supabase = createServiceClient();
+
+  let packages: Awaited<ReturnType<typeof getPackages>>;
+  try {
+    packages = await getPackages(supabase, { activeOnly: true });
+  } catch (packagesError) {
+    console.error("Failed to load packages for a booking request", packagesError);
+    return NextResponse.json(
+      { error: "Unable to submit request. Please try again." },
+      { status: 500 },
+    );
+  }
+
+  const result = validateBooking(body, packages);
+  if (!result.ok) {
+    return NextResponse.json({ errors: result.errors }, { status: 422 });
+  }
+
+  // Recomputed here rather than trusted from the form; stored as shown.
+  const quote = computeQuote({
+    ...result.data,
+    package: findPackage(packages, result.data.package),
+  });
+
+  const { data, error } = await supabase
+    .from("booking_requests")
+    .insert({
+      ...result.data,
+      status: "requested",
+      quote: quote ? { ...quote, quoted_at: new Date().toISOString() } : null,
+    })
+    .select("id, access_token")
+    .single();
+
+  if (error || !data) {
+    console.error("Failed to insert booking request", error);
+    return NextResponse.json(
+      { error: "Unable to submit request. Please try again." },
+      { status: 500 },
+    );
+  }
+
+  // The insert trigger already queued a booking.requested event. Deliver it now
+  // if we can; anything left over is picked up by /api/outbox/dispatch.
+  try {
+    await dispatchOutbox(supabase, { limit: 5 });
+  } catch (dispatchError) {
+    console.error("Outbox dispatch after booking failed", dispatchError);
+  }
+
+  return NextResponse.json(
+    { id: data.id as string, access_token: data.access_token as string },
+    { status: 201 },
+  );
+}
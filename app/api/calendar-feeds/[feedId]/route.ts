@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../lib/auth";
+import { STAFF_ROLES } from "../../../../lib/roles";
+import { createServerSupabaseClient } from "../../../../lib/supabaseServer";
+
+/** Revokes a feed. Subscribed calendars stop receiving updates. */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: { feedId: string } },
+) {
+  const access = await authorize(STAFF_ROLES);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const { data, error } = await createServerSupabaseClient()
+    .from("calendar_feeds")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", params.feedId)
+    .is("revoked_at", null)
+    .select("id");
+
+  if (error) {
+    console.error("Failed to revoke calendar feed", error);
+    return NextResponse.json({ error: "Unable to revoke feed." }, { status: 500 });
+  }
+
+  if ((data ?? []).length === 0) {
+    return NextResponse.json({ error: "Feed not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
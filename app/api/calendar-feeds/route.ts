@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../lib/auth";
+import {
+  FEED_COLUMNS,
+  generateFeedToken,
+  getFeedUrls,
+  validateFeedInput,
+  type CalendarFeed,
+} from "../../../lib/calendarFeeds";
+import { getPackages } from "../../../lib/queries";
+import { STAFF_ROLES } from "../../../lib/roles";
+import { listStaffMembers, STAFF_MANAGER_ROLES } from "../../../lib/staff";
+import { createServerSupabaseClient } from "../../../lib/supabaseServer";
+
+export const dynamic = "force-dynamic";
+
+const withUrls = (feed: CalendarFeed, origin: string) => ({
+  ...feed,
+  urls: getFeedUrls(origin, feed.token),
+});
+
+export async function GET(request: Request) {
+  const access = await authorize(STAFF_ROLES);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const { data, error } = await createServerSupabaseClient()
+    .from("calendar_feeds")
+    .select(FEED_COLUMNS)
+    .is("revoked_at", null)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Failed to list calendar feeds", error);
+    return NextResponse.json({ error: "Unable to load feeds." }, { status: 500 });
+  }
+
+  const origin = new URL(request.url).origin;
+  return NextResponse.json({
+    feeds: ((data ?? []) as CalendarFeed[]).map((feed) => withUrls(feed, origin)),
+  });
+}
+
+export async function POST(request: Request) {
+  const access = await authorize(STAFF_ROLES);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const supabase = createServerSupabaseClient();
+  const body = (await request.json().catch(() => ({}))) as unknown;
+
+  let packages: Awaited<ReturnType<typeof getPackages>>;
+  try {
+    packages = await getPackages(supabase);
+  } catch (packagesError) {
+    console.error("Failed to load packages for a calendar feed", packagesError);
+    return NextResponse.json({ error: "Unable to create feed." }, { status: 500 });
+  }
+
+  const result = validateFeedInput(body, packages);
+  if (!result.ok) {
+    return NextResponse.json({ errors: result.errors }, { status: 422 });
+  }
+
+  // Counter staff can only follow their own assignments; admins and
+  // coordinators can make a feed for any staff member and pass the link on.
+  const { only_mine: onlyMine, ...filters } = result.data;
+  const staffUserId = onlyMine ? access.auth.user.id : filters.staff_user_id;
+  if (staffUserId && staffUserId !== access.auth.user.id) {
+    if (!STAFF_MANAGER_ROLES.includes(access.auth.role)) {
+      return NextResponse.json(
+        { error: "Only admins and coordinators can create feeds for other staff." },
+        { status: 403 },
+      );
+    }
+
+    let staff: Awaited<ReturnType<typeof listStaffMembers>>;
+    try {
+      staff = await listStaffMembers(supabase);
+    } catch (staffError) {
+      console.error("Failed to load staff for a calendar feed", staffError);
+      return NextResponse.json({ error: "Unable to create feed." }, { status: 500 });
+    }
+
+    if (!staff.some((member) => member.user_id === staffUserId)) {
+      return NextResponse.json(
+        { errors: { staff_user_id: "Pick a valid staff member." } },
+        { status: 422 },
+      );
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("calendar_feeds")
+    .insert({
+      ...filters,
+      token: generateFeedToken(),
+      owner_id: access.auth.user.id,
+      staff_user_id: staffUserId,
+    })
+    .select(FEED_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("Failed to create calendar feed", error);
+    return NextResponse.json({ error: "Unable to create feed." }, { status: 500 });
+  }
+
+  return NextResponse.json(
+    { feed: withUrls(data as CalendarFeed, new URL(request.url).origin) },
+    { status: 201 },
+  );
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import {
+  FEED_COLUMNS,
+  FEED_REFRESH_INTERVAL,
+  getFeedEvents,
+  type CalendarFeed,
+} from "../../../../lib/calendarFeeds";
+import { toIcsEvents } from "../../../../lib/eventIcs";
+import { buildCalendar } from "../../../../lib/ics";
+import { getPackages } from "../../../../lib/queries";
+import { createServiceClient } from "../../../../lib/supabaseServer";
+
+export const dynamic = "force-dynamic";
+
+// Calendar apps poll this without a session; the secret token is the credential.
+export async function GET(
+  request: Request,
+  { params }: { params: { token: string } },
+) {
+  const token = params.token.replace(/\.ics$/i, "");
+  const supabase = createServiceClient();
+
+  const { data: feed, error } = await supabase
+    .from("calendar_feeds")
+    .select(FEED_COLUMNS)
+    .eq("token", token)
+    .is("revoked_at", null)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to load calendar feed", error);
+    return NextResponse.json({ error: "Unable to load feed." }, { status: 500 });
+  }
+
+  if (!feed) {
+    return NextResponse.json({ error: "Feed not found." }, { status: 404 });
+  }
+
+  try {
+    const origin = new URL(request.url).origin;
+    const [events, packages] = await Promise.all([
+      getFeedEvents(supabase, feed as CalendarFeed),
+      getPackages(supabase),
+    ]);
+    const body = buildCalendar(
+      events.flatMap((event) => toIcsEvents(event, origin, packages)),
+      { name: (feed as CalendarFeed).label, refreshInterval: FEED_REFRESH_INTERVAL },
+    );
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="il-catering.ics"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (feedError) {
+    console.error("Failed to build calendar feed", feedError);
+    return NextResponse.json({ error: "Unable to load feed." }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../../lib/auth";
+import {
+  CALENDAR_EVENT_COLUMNS,
+  toIcsEvents,
+  type CalendarEventRow,
+} from "../../../../../lib/eventIcs";
+import { buildIcs } from "../../../../../lib/ics";
+import { getPackages } from "../../../../../lib/queries";
+import { STAFF_ROLES } from "../../../../../lib/roles";
+import { createServerSupabaseClient } from "../../../../../lib/supabaseServer";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: { eventId: string } },
+) {
+  const access = await authorize(STAFF_ROLES);
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const supabase = createServerSupabaseClient();
+  let packages: Awaited<ReturnType<typeof getPackages>>;
+  try {
+    packages = await getPackages(supabase);
+  } catch (packagesError) {
+    console.error("Failed to load packages for ICS export", packagesError);
+    return NextResponse.json({ error: "Unable to export event." }, { status: 500 });
+  }
+
+  const { data, error } = await supabase
+    .from("events")
+    .select(CALENDAR_EVENT_COLUMNS)
+    .eq("id", params.eventId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to load event for ICS export", error);
+    return NextResponse.json({ error: "Unable to export event." }, { status: 500 });
+  }
+
+  if (!data) {
+    return NextResponse.json({ error: "Event not found." }, { status: 404 });
+  }
+
+  const event = data as unknown as CalendarEventRow;
+  const body = buildIcs(toIcsEvents(event, new URL(request.url).origin, packages));
+  const fileName = event.name.replace(/[^\w-]+/g, "_") || "event";
+
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${fileName}.ics"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { dispatchOutbox } from "../../../../lib/outbox";
+import { createServiceClient } from "../../../../lib/supabaseServer";
+
+export const dynamic = "force-dynamic";
+
+const isAuthorized = (request: Request) => {
+  const secret = process.env.CRON_SECRET;
+  return Boolean(secret) && request.headers.get("authorization") === `Bearer ${secret}`;
+};
+
+// Called on a schedule (e.g. every minute) so retries and dead letters keep
+// moving even when nobody is submitting bookings.
+async function handle(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  try {
+    const summary = await dispatchOutbox(createServiceClient());
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("Outbox dispatch failed", error);
+    return NextResponse.json({ error: "Outbox dispatch failed." }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -1,76 +1,153 @@
 'use client';
 
-import { useState } from "react";
-import supabase from "../../lib/supabaseClient";
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import {
+  validateBooking,
+  type BookingField,
+  type BookingFieldErrors
+} from "../../lib/bookingSchema";
+import { ALLERGENS, type AllergenId } from "../../lib/allergens";
+import { getBookingPortalPath } from "../../lib/bookingPortal";
+import { findPackage } from "../../lib/packages";
+import { computeQuote, PRICING } from "../../lib/pricing";
+import { getPackages } from "../../lib/queries";
+import { validateSchedule } from "../../lib/schedule";
+import type { Package } from "../../lib/types";
+import QuoteSummary from "../components/QuoteSummary";
+import ScheduleFields, {
+  emptyScheduleDraft,
+  toSchedulePayload,
+  type ScheduleDraft
+} from "../components/ScheduleFields";
 
 type FormState = {
   customer_name: string;
   customer_email: string;
   customer_phone: string;
-  event_date: string;
+  schedule: ScheduleDraft;
   address: string;
   package: string;
   guests: number;
+  vegan_guests: number;
+  vegetarian_guests: number;
+  travel_zone: string;
+  allergen_needs: AllergenId[];
   notes: string;
 };
 
-const packages = [
-  { value: "", label: "Select a package" },
-  { value: "standard", label: "Standard" },
-  { value: "premium", label: "Premium" }
-];
-
 const initialForm: FormState = {
   customer_name: "",
   customer_email: "",
   customer_phone: "",
-  event_date: "",
+  schedule: emptyScheduleDraft,
   address: "",
   package: "",
   guests: 0,
+  vegan_guests: 0,
+  vegetarian_guests: 0,
+  travel_zone: "",
+  allergen_needs: [],
   notes: ""
 };
 
-// Stub helper that illustrates how an automation flow (e.g. n8n) could be notified
-// after a booking request is stored. In production this could send an email to the
-// customer and ping the ops team.
-const notifyAutomation = async (bookingId: string) => {
-  const webhookUrl = process.env.NEXT_PUBLIC_AUTOMATION_WEBHOOK_URL;
-
-  if (!webhookUrl) {
-    // n8n webhook URL not configured yet; skip silently for now.
-    console.info("Automation webhook not configured; skipping notifyAutomation.");
-    return;
-  }
-
-  try {
-    await fetch(webhookUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify({ booking_id: bookingId })
-    });
-  } catch (automationError) {
-    // We swallow the error for now; in production you might log to an error tracker instead.
-    console.warn("notifyAutomation failed", automationError);
-  }
+type BookPageProps = {
+  searchParams?: { package?: string | string[] };
 };
 
-export default function BookPage() {
+export default function BookPage({ searchParams }: BookPageProps) {
   const [form, setForm] = useState<FormState>(initialForm);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<BookingFieldErrors>({});
   const [success, setSuccess] = useState(false);
+  const [statusPath, setStatusPath] = useState<string | null>(null);
+  const [limitedAvailability, setLimitedAvailability] = useState(false);
+  const [packages, setPackages] = useState<Package[]>([]);
+  const [packagesError, setPackagesError] = useState<string | null>(null);
+
+  // "Book this package" on /menu links here with ?package=<id>.
+  const requestedPackage =
+    typeof searchParams?.package === "string" ? searchParams.package : null;
+
+  useEffect(() => {
+    getPackages(undefined, { activeOnly: true })
+      .then((rows) => {
+        setPackages(rows);
+        const preselected = findPackage(rows, requestedPackage);
+        if (preselected) {
+          setForm((prev) =>
+            prev.package
+              ? prev
+              : { ...prev, package: preselected.id, guests: preselected.min_guests }
+          );
+        }
+      })
+      .catch((err: unknown) => {
+        console.error("Failed to load packages", err);
+        setPackagesError("We could not load our packages. Please refresh the page.");
+      });
+  }, [requestedPackage]);
+
+  // Ask the server whether the chosen slot is tight, once the customer stops
+  // typing. The answer is only a hint; admins decide at approval time.
+  useEffect(() => {
+    const payload = toSchedulePayload(form.schedule);
+    if (payload.service_windows.some((entry) => !entry.starts_at || !entry.ends_at)) {
+      setLimitedAvailability(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = window.setTimeout(async () => {
+      try {
+        const response = await fetch("/api/availability", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json"
+          },
+          body: JSON.stringify({ ...payload, guests: form.guests }),
+          signal: controller.signal
+        });
+        const result = (await response.json().catch(() => ({}))) as { limited?: boolean };
+        setLimitedAvailability(response.ok && result.limited === true);
+      } catch {
+        // Aborted by a newer change, or offline: keep quiet either way.
+      }
+    }, 500);
+
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [form.schedule, form.guests]);
+
+  // Until the times are valid the quote leaves out the weekend surcharge.
+  const quote = useMemo(() => {
+    const schedule = validateSchedule(toSchedulePayload(form.schedule), { requireFuture: false });
+    return computeQuote({
+      ...(schedule.ok ? schedule.data : { event_date: null }),
+      package: findPackage(packages, form.package),
+      guests: form.guests,
+      travel_zone: form.travel_zone
+    });
+  }, [packages, form.schedule, form.package, form.guests, form.travel_zone]);
 
   const handleChange = (
     event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
   ) => {
     const { name, value } = event.target;
 
+    setFieldErrors((prev) => {
+      if (!(name in prev)) return prev;
+      const next = { ...prev };
+      delete next[name as BookingField];
+      return next;
+    });
+
     setForm((prev) => {
-      if (name === "guests") {
-        return { ...prev, guests: value === "" ? 0 : Math.max(0, Number(value)) };
+      if (name === "guests" || name === "vegan_guests" || name === "vegetarian_guests") {
+        return { ...prev, [name]: value === "" ? 0 : Math.max(0, Number(value)) };
       }
 
       if (name === "package") {
@@ -78,8 +155,8 @@ export default function BookPage() {
           return { ...prev, package: "", guests: 0 };
         }
 
-        const minGuests = value === "premium" ? 10 : 25;
-        const previousMin = prev.package === "premium" ? 10 : prev.package === "standard" ? 25 : 0;
+        const minGuests = findPackage(packages, value)?.min_guests ?? 0;
+        const previousMin = findPackage(packages, prev.package)?.min_guests ?? 0;
         let nextGuests = prev.guests || 0;
 
         if (nextGuests < minGuests) {
@@ -99,63 +176,74 @@ export default function BookPage() {
     });
   };
 
-  const validate = () => {
-    if (!form.customer_name.trim()) return "Name is required.";
-    if (!form.customer_email.trim()) return "Email is required.";
-    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(form.customer_email.trim())) return "Enter a valid email.";
-    if (!form.customer_phone.trim()) return "Phone is required.";
-    if (!form.event_date.trim()) return "Event date and time are required.";
-    if (!form.address.trim()) return "Address is required.";
-    if (!form.package.trim()) return "Please select a package.";
-    const minGuests = form.package === 'premium' ? 10 : 25;
-    if (!Number.isFinite(form.guests) || form.guests < minGuests) {
-      return `Number of guests must be at least ${minGuests} for the ${form.package} package.`;
-    }
-    return null;
+  const handleScheduleChange = (schedule: ScheduleDraft) => {
+    setFieldErrors((prev) => {
+      const { service_windows, setup_minutes, teardown_minutes, timezone, ...rest } = prev;
+      return service_windows || setup_minutes || teardown_minutes || timezone ? rest : prev;
+    });
+    setForm((prev) => ({ ...prev, schedule }));
+  };
+
+  const handleAllergenToggle = (allergen: AllergenId, checked: boolean) => {
+    setFieldErrors((prev) => {
+      if (!prev.allergen_needs) return prev;
+      const { allergen_needs, ...rest } = prev;
+      return rest;
+    });
+    setForm((prev) => ({
+      ...prev,
+      allergen_needs: checked
+        ? [...prev.allergen_needs, allergen]
+        : prev.allergen_needs.filter((entry) => entry !== allergen)
+    }));
   };
 
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (submitting) return;
 
-    const validationError = validate();
-    if (validationError) {
-      setError(validationError);
+    // Same schema the server runs; this pass only saves a round trip.
+    const { schedule, ...fields } = form;
+    const validation = validateBooking({ ...fields, ...toSchedulePayload(schedule) }, packages);
+    if (!validation.ok) {
+      setFieldErrors(validation.errors);
+      setError("Please fix the highlighted fields.");
       setSuccess(false);
       return;
     }
 
     setSubmitting(true);
     setError(null);
+    setFieldErrors({});
 
     try {
-      const { data: insertedBooking, error: insertError } = await supabase
-        .from("booking_requests")
-        .insert({
-          customer_name: form.customer_name.trim(),
-          customer_email: form.customer_email.trim(),
-          customer_phone: form.customer_phone.trim(),
-          event_date: form.event_date,
-          address: form.address.trim(),
-          package: form.package,
-          guests: form.guests,
-          notes: form.notes.trim(),
-          status: "requested"
-        })
-        .select("id")
-        .single();
-
-      if (insertError) {
-        throw insertError;
+      const response = await fetch("/api/bookings", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(validation.data)
+      });
+      const result = (await response.json().catch(() => ({}))) as {
+        id?: string;
+        access_token?: string;
+        error?: string;
+        errors?: BookingFieldErrors;
+      };
+
+      if (response.status === 422 && result.errors) {
+        setFieldErrors(result.errors);
+        setError("Please fix the highlighted fields.");
+        setSuccess(false);
+        return;
       }
 
-      // After we successfully store the booking, we could notify automation tooling (e.g. n8n)
-      // so that an email goes out to the customer and the admin gets an alert.
-      if (insertedBooking) {
-        void notifyAutomation(insertedBooking.id as string);
+      if (!response.ok || !result.id) {
+        throw new Error(result.error ?? "Unable to submit request. Please try again.");
       }
 
       setSuccess(true);
+      setStatusPath(result.access_token ? getBookingPortalPath(result.access_token) : null);
       setForm(initialForm);
     } catch (err) {
       setSuccess(false);
@@ -165,6 +253,14 @@ export default function BookPage() {
     }
   };
 
+  const renderFieldError = (field: BookingField) =>
+    fieldErrors[field] ? (
+      <p className="text-xs font-normal text-rose-300">{fieldErrors[field]}</p>
+    ) : null;
+
+  const selectedPackage = findPackage(packages, form.package);
+  const minGuests = selectedPackage?.min_guests ?? 0;
+
   return (
     <div className="mx-auto w-full max-w-3xl px-6 py-12">
       <header className="space-y-2">
@@ -179,7 +275,16 @@ export default function BookPage() {
       <form onSubmit={handleSubmit} className="mt-8 space-y-6">
         {success && (
           <div className="rounded-xl border border-emerald-400/40 bg-emerald-950/40 px-4 py-3 text-sm text-emerald-200">
-            We received your request. Our team will contact you shortly.
+            <p>We received your request. Our team will contact you shortly.</p>
+            {statusPath && (
+              <p className="mt-2">
+                Follow its progress at{" "}
+                <Link href={statusPath} className="font-medium text-emerald-100 underline">
+                  your booking page
+                </Link>
+                . Bookmark it: anyone with the link can see the booking, and no account is needed.
+              </p>
+            )}
           </div>
         )}
 
@@ -195,102 +300,233 @@ export default function BookPage() {
             <span>Name *</span>
             <input
               name="customer_name"
+              aria-invalid={Boolean(fieldErrors.customer_name)}
               value={form.customer_name}
               onChange={handleChange}
               required
               className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none"
             />
+            {renderFieldError("customer_name")}
           </label>
 
           <label className="space-y-1 text-sm font-medium text-slate-200">
             <span>Email *</span>
             <input
               name="customer_email"
+              aria-invalid={Boolean(fieldErrors.customer_email)}
               type="email"
               value={form.customer_email}
               onChange={handleChange}
               required
               className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none"
             />
+            {renderFieldError("customer_email")}
           </label>
 
           <label className="space-y-1 text-sm font-medium text-slate-200">
             <span>Phone *</span>
             <input
               name="customer_phone"
+              aria-invalid={Boolean(fieldErrors.customer_phone)}
               value={form.customer_phone}
               onChange={handleChange}
               required
               className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none"
             />
-          </label>
-
-          <label className="space-y-1 text-sm font-medium text-slate-200">
-            <span>Event date &amp; time *</span>
-            <input
-              name="event_date"
-              type="datetime-local"
-              value={form.event_date}
-              onChange={handleChange}
-              required
-              className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none"
-            />
+            {renderFieldError("customer_phone")}
           </label>
         </div>
 
+        <section className="space-y-2">
+          <h2 className="text-sm font-medium text-slate-200">When *</h2>
+          <p className="text-xs text-slate-400">
+            Add a second window for lunch and dinner or multi-day events. Setup and teardown are
+            the time our crew needs on site before and after serving.
+          </p>
+          <ScheduleFields
+            value={form.schedule}
+            onChange={handleScheduleChange}
+            errors={fieldErrors}
+          />
+          {limitedAvailability && (
+            <p className="rounded-lg border border-amber-500/40 bg-amber-950/40 px-3 py-2 text-xs text-amber-200">
+              Limited availability at this time. You can still send the request; we may suggest a
+              different time.
+            </p>
+          )}
+        </section>
+
         <label className="space-y-1 text-sm font-medium text-slate-200">
           <span>Event address *</span>
           <input
             name="address"
+            aria-invalid={Boolean(fieldErrors.address)}
             value={form.address}
             onChange={handleChange}
             required
             className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none"
           />
+          {renderFieldError("address")}
         </label>
 
         <label className="space-y-1 text-sm font-medium text-slate-200">
           <span>Package *</span>
           <select
             name="package"
+            aria-invalid={Boolean(fieldErrors.package)}
             value={form.package}
             onChange={handleChange}
             required
             className="w-full appearance-none rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none"
           >
+            <option value="" disabled>
+              Select a package
+            </option>
             {packages.map((pkg) => (
-              <option key={pkg.value} value={pkg.value} disabled={pkg.value === ""}>
+              <option key={pkg.id} value={pkg.id}>
                 {pkg.label}
               </option>
             ))}
           </select>
+          {selectedPackage?.description && (
+            <p className="text-xs font-normal text-slate-400">{selectedPackage.description}</p>
+          )}
+          {packagesError && <p className="text-xs font-normal text-rose-300">{packagesError}</p>}
+          {renderFieldError("package")}
         </label>
 
         <label className="space-y-1 text-sm font-medium text-slate-200">
           <span>Number of guests *</span>
           <input
             name="guests"
+            aria-invalid={Boolean(fieldErrors.guests)}
             type="number"
-            min={form.package ? (form.package === "premium" ? 10 : 25) : undefined}
+            min={minGuests || undefined}
+            max={selectedPackage?.max_guests ?? undefined}
             value={form.package ? (form.guests || "") : ""}
             onChange={handleChange}
-            placeholder={form.package ? (form.package === "premium" ? "Minimum 10 guests" : "Minimum 25 guests") : "Select a package first"}
+            placeholder={
+              !form.package
+                ? "Select a package first"
+                : selectedPackage?.max_guests
+                  ? `${minGuests} to ${selectedPackage.max_guests} guests`
+                  : `Minimum ${minGuests} guests`
+            }
             required
             disabled={!form.package}
             className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
           />
+          {renderFieldError("guests")}
         </label>
 
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-slate-200">Dietary needs</legend>
+          <p className="text-xs text-slate-400">
+            How many of your guests are vegan or vegetarian? We plan the pizzas around these numbers.
+          </p>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <label className="space-y-1 text-sm font-medium text-slate-200">
+              <span>Vegan guests</span>
+              <input
+                name="vegan_guests"
+                aria-invalid={Boolean(fieldErrors.vegan_guests)}
+                type="number"
+                min={0}
+                max={form.guests || undefined}
+                value={form.vegan_guests || ""}
+                onChange={handleChange}
+                placeholder="0"
+                disabled={!form.package}
+                className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
+              />
+              {renderFieldError("vegan_guests")}
+            </label>
+            <label className="space-y-1 text-sm font-medium text-slate-200">
+              <span>Vegetarian guests</span>
+              <input
+                name="vegetarian_guests"
+                aria-invalid={Boolean(fieldErrors.vegetarian_guests)}
+                type="number"
+                min={0}
+                max={form.guests || undefined}
+                value={form.vegetarian_guests || ""}
+                onChange={handleChange}
+                placeholder="0"
+                disabled={!form.package}
+                className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
+              />
+              {renderFieldError("vegetarian_guests")}
+            </label>
+          </div>
+          {form.guests > 0 && (
+            <p className="text-xs text-slate-400">
+              Unrestricted: {Math.max(0, form.guests - form.vegan_guests - form.vegetarian_guests)}{" "}
+              guests
+            </p>
+          )}
+        </fieldset>
+
+        <label className="space-y-1 text-sm font-medium text-slate-200">
+          <span>Distance to the venue *</span>
+          <select
+            name="travel_zone"
+            aria-invalid={Boolean(fieldErrors.travel_zone)}
+            value={form.travel_zone}
+            onChange={handleChange}
+            required
+            className="w-full appearance-none rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none"
+          >
+            <option value="" disabled>
+              Select a distance
+            </option>
+            {PRICING.zones.map((zone) => (
+              <option key={zone.id} value={zone.id}>
+                {zone.label} ({zone.description})
+              </option>
+            ))}
+          </select>
+          {renderFieldError("travel_zone")}
+        </label>
+
+        {quote && (
+          <QuoteSummary
+            quote={quote}
+            note="We confirm the final price when we approve your booking."
+          />
+        )}
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-slate-200">Allergies among your guests</legend>
+          <p className="text-xs text-slate-400">
+            Tick anything some guests must avoid, and we will make sure there is a pizza for them.
+          </p>
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-slate-300 sm:grid-cols-3">
+            {ALLERGENS.map((allergen) => (
+              <label key={allergen.id} className="inline-flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={form.allergen_needs.includes(allergen.id)}
+                  onChange={(event) => handleAllergenToggle(allergen.id, event.target.checked)}
+                />
+                {allergen.label}
+              </label>
+            ))}
+          </div>
+          {renderFieldError("allergen_needs")}
+        </fieldset>
+
         <label className="space-y-1 text-sm font-medium text-slate-200">
           <span>Notes</span>
           <textarea
             name="notes"
+            aria-invalid={Boolean(fieldErrors.notes)}
             value={form.notes}
             onChange={handleChange}
             rows={4}
             className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none"
             placeholder="Share dietary restrictions, service requests, or other details."
           />
+          {renderFieldError("notes")}
         </label>
 
         <div className="flex justify-end">
@@ -0,0 +1,220 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import BookingSelfService from "../../components/BookingSelfService";
+import { getAllergenLabel } from "../../../lib/allergens";
+import { getBookingPolicy, getSelfServiceState } from "../../../lib/bookingPolicy";
+import {
+  BOOKING_STATUS_COPY,
+  getBookingByToken,
+  type PortalAmendment,
+  type PortalBooking
+} from "../../../lib/bookingPortal";
+import { formatDietaryNeeds } from "../../../lib/production";
+import { getPackageById } from "../../../lib/queries";
+import {
+  formatServiceWindow,
+  formatTimeRange,
+  getServiceWindows,
+  type ScheduleLike
+} from "../../../lib/schedule";
+import { createServiceClient } from "../../../lib/supabaseServer";
+
+// The link is the credential: keep it out of search results and caches.
+export const dynamic = "force-dynamic";
+export const metadata: Metadata = { robots: { index: false, follow: false } };
+
+interface BookingStatusPageProps {
+  params: { token: string };
+}
+
+const STATUS_MESSAGES: Record<PortalBooking["status"], string> = {
+  requested: "We have your request and will get back to you soon.",
+  approved: "Your booking is approved. We are preparing the event details.",
+  converted: "Your event is confirmed. The details are below.",
+  rejected: "We are sorry, we can't take this booking.",
+  cancelled: "This booking has been cancelled."
+};
+
+const describeChanges = (changes: PortalAmendment["changes"], timeZone: string | null) =>
+  [
+    changes.guests !== undefined ? `${changes.guests} guests` : null,
+    changes.event_date
+      ? formatTimeRange(changes.event_date, changes.ends_at ?? changes.event_date, timeZone)
+      : null,
+    changes.notes !== undefined ? "new notes" : null
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+const renderWhen = (row: ScheduleLike) => {
+  const windows = getServiceWindows(row);
+  if (windows.length === 0) {
+    return <dd>Date to be confirmed</dd>;
+  }
+  if (windows.length === 1) {
+    return (
+      <dd>{formatTimeRange(windows[0].starts_at, windows[0].ends_at, row.timezone)}</dd>
+    );
+  }
+  return windows.map((window) => (
+    <dd key={window.starts_at}>{formatServiceWindow(window, row.timezone)}</dd>
+  ));
+};
+
+export default async function BookingStatusPage({ params }: BookingStatusPageProps) {
+  const client = createServiceClient();
+  let result: Awaited<ReturnType<typeof getBookingByToken>>;
+  let bookedPackage: Awaited<ReturnType<typeof getPackageById>> = null;
+  try {
+    result = await getBookingByToken(client, params.token);
+    const packageId = result?.event?.package_id ?? result?.booking.package;
+    if (packageId) {
+      bookedPackage = await getPackageById(packageId, client);
+    }
+  } catch (err) {
+    console.error("Failed to load booking by token", err);
+    return (
+      <div className="mx-auto w-full max-w-3xl px-6 py-12">
+        <div className="rounded-xl border border-rose-500/40 bg-rose-950/40 p-6 text-sm text-rose-200">
+          We could not load this booking right now. Please try again later.
+        </div>
+      </div>
+    );
+  }
+
+  if (!result) {
+    notFound();
+  }
+
+  const { booking, event, amendment } = result;
+  const cancelled = booking.status === "cancelled" || Boolean(event?.cancelled_at);
+  const status = BOOKING_STATUS_COPY[cancelled ? "cancelled" : booking.status];
+  const packageId = event?.package_id ?? booking.package;
+  const dietaryNeeds = formatDietaryNeeds(booking);
+  const selfService = getSelfServiceState(
+    cancelled ? "cancelled" : booking.status,
+    event?.event_date ?? booking.event_date,
+    getBookingPolicy()
+  );
+
+  return (
+    <div className="mx-auto w-full max-w-3xl space-y-8 px-6 py-12">
+      <header className="space-y-2">
+        <p className="text-xs uppercase tracking-wide text-slate-400">Booking for</p>
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-3xl font-semibold tracking-tight text-slate-100">
+            {event?.name ?? booking.customer_name}
+          </h1>
+          <span
+            className={`inline-flex items-center rounded-full border px-3 py-1 text-xs font-medium ${status.className}`}
+          >
+            {status.label}
+          </span>
+        </div>
+        <p className="text-sm text-slate-400">
+          {cancelled ? STATUS_MESSAGES.cancelled : STATUS_MESSAGES[booking.status]}
+        </p>
+      </header>
+
+      {booking.status === "rejected" && booking.rejection_reason && (
+        <div className="rounded-xl border border-rose-500/40 bg-rose-950/40 px-4 py-3 text-sm text-rose-200">
+          {booking.rejection_reason}
+        </div>
+      )}
+
+      {amendment?.status === "pending" && (
+        <div className="rounded-xl border border-amber-500/40 bg-amber-950/40 px-4 py-3 text-sm text-amber-200">
+          Your change ({describeChanges(amendment.changes, event?.timezone ?? booking.timezone)}) is
+          waiting for our confirmation. The details below still show the current plan.
+        </div>
+      )}
+
+      {amendment?.status === "rejected" && (
+        <div className="rounded-xl border border-rose-500/40 bg-rose-950/40 px-4 py-3 text-sm text-rose-200">
+          We could not accept your last change
+          {amendment.decision_note ? `: ${amendment.decision_note}` : "."}
+        </div>
+      )}
+
+      {!event && booking.proposed_event_date && booking.status !== "rejected" && !cancelled && (
+        <div className="rounded-xl border border-amber-500/40 bg-amber-950/40 px-4 py-3 text-sm text-amber-200">
+          We suggested a different time:{" "}
+          {formatTimeRange(
+            booking.proposed_event_date,
+            booking.proposed_ends_at ?? booking.proposed_event_date,
+            booking.timezone
+          )}
+          . We will be in touch to confirm it with you.
+        </div>
+      )}
+
+      <section className="space-y-4 rounded-xl border border-white/10 bg-slate-900/60 p-6">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-400">
+          {event ? "Event details" : "Your request"}
+        </h2>
+        <dl className="grid gap-4 text-sm text-slate-300 sm:grid-cols-2">
+          <div>
+            <dt className="text-xs uppercase tracking-wide text-slate-500">When</dt>
+            {renderWhen(event ?? booking)}
+          </div>
+          <div>
+            <dt className="text-xs uppercase tracking-wide text-slate-500">Where</dt>
+            <dd>{event?.address ?? booking.address}</dd>
+          </div>
+          <div>
+            <dt className="text-xs uppercase tracking-wide text-slate-500">Package</dt>
+            <dd>{packageId ? (bookedPackage?.label ?? packageId) : "Not chosen yet"}</dd>
+          </div>
+          <div>
+            <dt className="text-xs uppercase tracking-wide text-slate-500">Guests</dt>
+            <dd>
+              {event?.guests ?? booking.guests ?? "—"}
+              {dietaryNeeds && <span className="text-slate-400"> ({dietaryNeeds})</span>}
+            </dd>
+          </div>
+          {(booking.allergen_needs ?? []).length > 0 && (
+            <div className="sm:col-span-2">
+              <dt className="text-xs uppercase tracking-wide text-slate-500">Allergies</dt>
+              <dd>
+                {(booking.allergen_needs ?? [])
+                  .map((allergen) => getAllergenLabel(allergen))
+                  .join(", ")}
+              </dd>
+            </div>
+          )}
+          {booking.notes && (
+            <div className="sm:col-span-2">
+              <dt className="text-xs uppercase tracking-wide text-slate-500">Notes</dt>
+              <dd className="whitespace-pre-line">{booking.notes}</dd>
+            </div>
+          )}
+        </dl>
+
+        {event && !cancelled && (
+          <a
+            href={`/api/bookings/${params.token}/ics`}
+            download
+            className="inline-flex items-center justify-center rounded-lg bg-blue-500 px-4 py-2 text-sm font-medium text-white transition hover:bg-blue-400"
+          >
+            Add to calendar (.ics)
+          </a>
+        )}
+      </section>
+
+      <BookingSelfService
+        token={params.token}
+        state={selfService}
+        schedule={event ?? booking}
+        guests={event?.guests ?? booking.guests}
+        notes={booking.notes}
+        minGuests={bookedPackage?.min_guests ?? 1}
+        maxGuests={bookedPackage?.max_guests ?? null}
+        needsApproval={Boolean(event)}
+      />
+
+      <p className="text-xs text-slate-500">
+        Anyone with this link can see this booking. Keep it to yourself.
+      </p>
+    </div>
+  );
+}
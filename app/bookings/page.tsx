@@ -0,0 +1,150 @@
+'use client';
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { BOOKING_STATUS_COPY, getBookingPortalPath } from "../../lib/bookingPortal";
+import { getPackageLabel } from "../../lib/packages";
+import { getPackages } from "../../lib/queries";
+import { formatTimeRange } from "../../lib/schedule";
+import supabase from "../../lib/supabaseClient";
+import type { BookingStatus, Package } from "../../lib/types";
+import { useAuthRole } from "../../lib/useAuthRole";
+
+type CustomerBooking = {
+  id: string;
+  event_date: string | null;
+  ends_at: string | null;
+  timezone: string | null;
+  address: string;
+  package: string | null;
+  guests: number | null;
+  status: BookingStatus;
+  rejection_reason: string | null;
+  created_at: string | null;
+  access_token: string;
+};
+
+export default function CustomerBookingsPage() {
+  const { session, loading: sessionLoading } = useAuthRole();
+  const [bookings, setBookings] = useState<CustomerBooking[]>([]);
+  const [packages, setPackages] = useState<Package[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const email = session?.user.email?.toLowerCase() ?? null;
+
+  const fetchBookings = useCallback(async () => {
+    if (!email) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [{ data, error: queryError }, packageRows] = await Promise.all([
+        supabase
+          .from("booking_requests")
+          .select("id, event_date, ends_at, timezone, address, package, guests, status, rejection_reason, created_at, access_token")
+          .eq("customer_email", email)
+          .order("event_date", { ascending: true }),
+        getPackages()
+      ]);
+
+      if (queryError) {
+        throw queryError;
+      }
+
+      setBookings((data as CustomerBooking[]) ?? []);
+      setPackages(packageRows);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load your bookings.");
+    } finally {
+      setLoading(false);
+    }
+  }, [email]);
+
+  useEffect(() => {
+    void fetchBookings();
+  }, [fetchBookings]);
+
+  if (!sessionLoading && !session) {
+    return (
+      <div className="mx-auto w-full max-w-3xl px-6 py-12 text-sm text-slate-300">
+        <Link href="/login" className="text-blue-300 hover:text-blue-200">
+          Sign in
+        </Link>{" "}
+        to see the status of your bookings.
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-3xl px-6 py-12 space-y-8">
+      <header className="space-y-2">
+        <h1 className="text-3xl font-semibold tracking-tight text-slate-100">My bookings</h1>
+        <p className="text-sm text-slate-400">
+          Track the status of the booking requests sent from {email ?? "your account"}.
+        </p>
+      </header>
+
+      {error && (
+        <div className="rounded-xl border border-rose-500/40 bg-rose-950/40 px-4 py-3 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+
+      {sessionLoading || loading ? (
+        <p className="text-sm text-slate-300">Loading bookings…</p>
+      ) : bookings.length === 0 ? (
+        <p className="rounded-xl border border-white/10 bg-slate-900/60 px-4 py-6 text-sm text-slate-300">
+          No bookings yet.{" "}
+          <Link href="/book" className="text-blue-300 hover:text-blue-200">
+            Request one
+          </Link>
+          .
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {bookings.map((booking) => (
+            <li
+              key={booking.id}
+              className="flex flex-col gap-2 rounded-xl border border-white/10 bg-slate-900/70 px-5 py-4 sm:flex-row sm:items-center sm:justify-between"
+            >
+              <div>
+                <p className="font-semibold text-slate-100">
+                  {booking.event_date
+                    ? formatTimeRange(
+                        booking.event_date,
+                        booking.ends_at ?? booking.event_date,
+                        booking.timezone
+                      )
+                    : "Date to be confirmed"}
+                </p>
+                <p className="text-xs text-slate-400">
+                  {[booking.address, getPackageLabel(packages, booking.package), booking.guests ? `${booking.guests} guests` : null]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+                {booking.status === "rejected" && booking.rejection_reason && (
+                  <p className="mt-1 text-xs text-rose-300">{booking.rejection_reason}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                <span
+                  className={`inline-flex w-fit rounded-full border px-3 py-0.5 text-xs font-medium ${BOOKING_STATUS_COPY[booking.status].className}`}
+                >
+                  {BOOKING_STATUS_COPY[booking.status].label}
+                </span>
+                <Link
+                  href={getBookingPortalPath(booking.access_token)}
+                  className="text-xs text-blue-300 hover:text-blue-200"
+                >
+                  Details
+                </Link>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { getAllergenLabel, getDietaryTagLabel } from "../../lib/allergens";
+import type { Pizza } from "../../lib/types";
+
+type AllergenInfoProps = {
+  pizza: Pick<Pizza, "allergens" | "dietary_tags">;
+  className?: string;
+};
+
+/** Dietary tags and the "Contains: …" allergen line for one pizza. */
+export default function AllergenInfo({ pizza, className = "" }: AllergenInfoProps) {
+  const allergens = pizza.allergens ?? [];
+  const tags = pizza.dietary_tags ?? [];
+  if (allergens.length === 0 && tags.length === 0) return null;
+
+  return (
+    <div className={`space-y-1 text-xs ${className}`}>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map((tag) => (
+            <span key={tag} className="rounded-full bg-slate-700/60 px-2 py-0.5 text-slate-200">
+              {getDietaryTagLabel(tag)}
+            </span>
+          ))}
+        </div>
+      )}
+      {allergens.length > 0 && (
+        <p className="text-amber-200/90">
+          Contains: {allergens.map((allergen) => getAllergenLabel(allergen)).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+'use client';
+
+import { useCallback, useState } from "react";
+import type { CapacityCheck } from "../../lib/capacity";
+import { formatServiceWindow, getServiceWindows } from "../../lib/schedule";
+import type { BookingAmendment, BookingRequest } from "../../lib/types";
+import { describeConflict } from "./ApproveBookingModal";
+
+type AmendmentReviewModalProps = {
+  booking: BookingRequest;
+  amendment: BookingAmendment;
+  onClose: () => void;
+  onDecided: () => void | Promise<void>;
+};
+
+type ChangeRow = { label: string; before: string; after: string };
+
+const describeWhen = (values: BookingAmendment["changes"]) => {
+  const windows = getServiceWindows({
+    event_date: values.event_date ?? null,
+    ends_at: values.ends_at,
+    service_windows: values.service_windows
+  });
+  return windows.length > 0
+    ? windows.map((window) => formatServiceWindow(window, values.timezone)).join(" · ")
+    : "—";
+};
+
+const toChangeRows = ({ changes, previous }: BookingAmendment): ChangeRow[] => {
+  const rows: ChangeRow[] = [];
+  if ("guests" in changes) {
+    rows.push({
+      label: "Guests",
+      before: String(previous.guests ?? "—"),
+      after: String(changes.guests ?? "—")
+    });
+  }
+  if ("service_windows" in changes) {
+    rows.push({ label: "When", before: describeWhen(previous), after: describeWhen(changes) });
+  }
+  if ("notes" in changes) {
+    rows.push({ label: "Notes", before: previous.notes || "—", after: changes.notes || "—" });
+  }
+  return rows;
+};
+
+export default function AmendmentReviewModal({
+  booking,
+  amendment,
+  onClose,
+  onDecided
+}: AmendmentReviewModalProps) {
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [capacity, setCapacity] = useState<CapacityCheck | null>(null);
+
+  const handleDecision = useCallback(
+    async (approve: boolean) => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/admin/amendments/${amendment.id}`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json"
+          },
+          body: JSON.stringify({
+            approve,
+            note: note.trim(),
+            acknowledge_conflicts: capacity?.status === "warn"
+          })
+        });
+        const result = (await response.json().catch(() => ({}))) as {
+          error?: string;
+          errors?: Record<string, string>;
+          capacity?: CapacityCheck;
+        };
+
+        if (response.status === 409 && result.capacity) {
+          setCapacity(result.capacity);
+          setError(result.error ?? null);
+          setLoading(false);
+          return;
+        }
+
+        if (!response.ok) {
+          const fieldError = result.errors ? Object.values(result.errors)[0] : undefined;
+          throw new Error(fieldError ?? result.error ?? "Unable to decide this change.");
+        }
+
+        setLoading(false);
+        await onDecided();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unable to decide this change.");
+        setLoading(false);
+      }
+    },
+    [amendment.id, capacity, note, onDecided]
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4 py-6 backdrop-blur-sm">
+      <div className="max-h-full w-full max-w-lg overflow-y-auto rounded-2xl border border-white/10 bg-slate-950/90 p-6">
+        <h2 className="text-lg font-semibold text-slate-100">Change requested</h2>
+        <p className="mt-1 text-sm text-slate-400">
+          {booking.customer_name} asked on {new Date(amendment.requested_at).toLocaleString()}.
+          Approving updates the event; {booking.customer_name} is emailed either way.
+        </p>
+
+        <table className="mt-6 w-full text-left text-sm text-slate-100">
+          <thead>
+            <tr className="text-xs uppercase tracking-wide text-slate-400">
+              <th className="py-2 pr-3" />
+              <th className="py-2 pr-3">Now</th>
+              <th className="py-2">Requested</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/10">
+            {toChangeRows(amendment).map((row) => (
+              <tr key={row.label} className="align-top">
+                <th className="py-2 pr-3 text-xs font-medium uppercase tracking-wide text-slate-400">
+                  {row.label}
+                </th>
+                <td className="whitespace-pre-line py-2 pr-3 text-slate-400">{row.before}</td>
+                <td className="whitespace-pre-line py-2 text-emerald-200">{row.after}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <label className="mt-6 block space-y-1">
+          <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
+            Note to the customer (optional)
+          </span>
+          <textarea
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            rows={3}
+            maxLength={500}
+            className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none"
+          />
+        </label>
+
+        {capacity && capacity.status !== "ok" ? (
+          <div
+            className={`mt-4 space-y-2 rounded-xl border px-4 py-3 text-xs ${
+              capacity.status === "block"
+                ? "border-rose-500/40 bg-rose-950/40 text-rose-200"
+                : "border-amber-500/40 bg-amber-950/40 text-amber-200"
+            }`}
+          >
+            {error && <p className="font-semibold">{error}</p>}
+            <ul className="list-disc space-y-0.5 pl-4">
+              {capacity.issues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+            {capacity.conflicts.length > 0 && (
+              <div>
+                <p className="font-medium">Conflicting events:</p>
+                <ul className="list-disc space-y-0.5 pl-4">
+                  {capacity.conflicts.map((event) => (
+                    <li key={event.id}>{describeConflict(event)}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <p>
+              {capacity.status === "block"
+                ? "This change can't be approved; decline it with a note."
+                : "Approve again to accept it alongside them."}
+            </p>
+          </div>
+        ) : (
+          error && (
+            <div className="mt-4 rounded-xl border border-rose-500/40 bg-rose-950/40 px-4 py-3 text-xs text-rose-200">
+              {error}
+            </div>
+          )
+        )}
+
+        <div className="mt-6 flex flex-col gap-2 sm:flex-row sm:justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={loading}
+            className="inline-flex items-center justify-center rounded-lg border border-white/10 px-4 py-2 text-sm font-medium text-slate-300 transition hover:border-slate-400/60 hover:text-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleDecision(false)}
+            disabled={loading}
+            className="inline-flex items-center justify-center rounded-lg border border-rose-500/40 px-4 py-2 text-sm font-semibold text-rose-300 transition hover:border-rose-400 hover:text-rose-200 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Decline
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleDecision(true)}
+            disabled={loading || capacity?.status === "block"}
+            className="inline-flex items-center justify-center rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-70"
+          >
+            {loading
+              ? "Saving…"
+              : capacity?.status === "warn"
+                ? "Approve anyway"
+                : "Approve change"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
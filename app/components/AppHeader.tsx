@@ -4,27 +4,44 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import supabase from "../../lib/supabaseClient";
+import { getRouteRoles, type Role } from "../../lib/roles";
+import { useAuthRole } from "../../lib/useAuthRole";
 
 type NavItem = {
   href: string;
   label: string;
-  requireAuth?: boolean;
+  // Overrides the roles from ROUTE_ACCESS when a link is only useful to some
+  // of the roles that may open the page.
+  roles?: Role[];
 };
 
 const NAV_ITEMS: NavItem[] = [
   { href: "/", label: "Home" },
-  { href: "/events/browse", label: "Events", requireAuth: true },
-  { href: "/book", label: "Book Event", requireAuth: true },
-  { href: "/admin/bookings", label: "Booking Requests", requireAuth: true }
+  { href: "/events/browse", label: "Events" },
+  { href: "/menu", label: "Menu" },
+  { href: "/book", label: "Book Event" },
+  { href: "/bookings", label: "My Bookings", roles: ["customer"] },
+  { href: "/admin/bookings", label: "Booking Requests" },
+  { href: "/admin/calendar", label: "Calendar" },
+  { href: "/admin/capacity", label: "Capacity" },
+  { href: "/admin/catalog", label: "Catalog" },
+  { href: "/admin/notifications", label: "Notifications" }
 ];
 
 const PAGE_TITLES: Array<{ test: (path: string) => boolean; title: string }> = [
   { test: (path) => path === "/", title: "Welcome" },
+  { test: (path) => path.startsWith("/menu"), title: "Menu" },
+  { test: (path) => path.startsWith("/bookings"), title: "My Bookings" },
   { test: (path) => path.startsWith("/book"), title: "Booking Request" },
   { test: (path) => path.startsWith("/admin/bookings"), title: "Admin Bookings" },
+  { test: (path) => path.startsWith("/admin/calendar"), title: "Booking Calendar" },
+  { test: (path) => path.startsWith("/admin/capacity"), title: "Capacity" },
+  { test: (path) => path.startsWith("/admin/catalog"), title: "Catalog" },
+  { test: (path) => path.startsWith("/admin/notifications"), title: "Notifications" },
   { test: (path) => path.includes("/dashboard"), title: "Event Dashboard" },
   { test: (path) => path.includes("/summary"), title: "Event Summary" },
   { test: (path) => path.includes("/events/browse"), title: "Events" },
+  { test: (path) => path.startsWith("/events/calendar"), title: "Calendar Feeds" },
   { test: () => true, title: "Event Pizza Counter" }
 ];
 
@@ -37,13 +54,13 @@ const isCurrent = (pathname: string, href: string) => {
   if (href === "/") {
     return pathname === "/";
   }
-  return pathname.startsWith(href);
+  return pathname === href || pathname.startsWith(`${href}/`);
 };
 
 export default function AppHeader() {
   const pathname = usePathname();
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
-  const [checkingSession, setCheckingSession] = useState(true);
+  const { session, role, loading: checkingSession } = useAuthRole();
+  const isLoggedIn = Boolean(session);
   const [mobileOpen, setMobileOpen] = useState(false);
 
   const toggleMobileMenu = useCallback(() => {
@@ -54,28 +71,6 @@ export default function AppHeader() {
     setMobileOpen(false);
   }, []);
 
-  useEffect(() => {
-    let unsubscribe: (() => void) | undefined;
-
-    const fetchSession = async () => {
-      const { data } = await supabase.auth.getSession();
-      setIsLoggedIn(Boolean(data.session));
-      setCheckingSession(false);
-    };
-
-    void fetchSession();
-
-    const { data: listener } = supabase.auth.onAuthStateChange((_event, session) => {
-      setIsLoggedIn(Boolean(session));
-    });
-
-    unsubscribe = listener?.subscription.unsubscribe;
-
-    return () => {
-      unsubscribe?.();
-    };
-  }, []);
-
   useEffect(() => {
     closeMobileMenu();
   }, [pathname, isLoggedIn, closeMobileMenu]);
@@ -119,8 +114,11 @@ export default function AppHeader() {
   }, []);
 
   const navItems = useMemo(() => {
-    return NAV_ITEMS.filter((item) => !item.requireAuth || isLoggedIn);
-  }, [isLoggedIn]);
+    return NAV_ITEMS.filter((item) => {
+      const roles = item.roles ?? getRouteRoles(item.href);
+      return !roles || (role !== null && roles.includes(role));
+    });
+  }, [role]);
 
   const pageTitle = getPageTitle(pathname);
 
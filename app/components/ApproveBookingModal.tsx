@@ -0,0 +1,299 @@
+'use client';
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  getAllergenLabel,
+  getUncoveredAllergens,
+  type AllergenId
+} from "../../lib/allergens";
+import type { CapacityCheck, CapacityEvent } from "../../lib/capacity";
+import { getPackagePizzas } from "../../lib/queries";
+import {
+  formatTimeRange,
+  getServiceWindows,
+  validateSchedule,
+  type ScheduleErrors
+} from "../../lib/schedule";
+import type { BookingRequest } from "../../lib/types";
+import QuoteSummary from "./QuoteSummary";
+import ScheduleFields, {
+  toScheduleDraft,
+  toSchedulePayload,
+  type ScheduleDraft
+} from "./ScheduleFields";
+
+type ApproveBookingModalProps = {
+  booking: BookingRequest;
+  onClose: () => void;
+  onApproved: (eventId: string | null) => void | Promise<void>;
+};
+
+// A pending proposal is what the admin last offered the customer, so it is
+// the better starting point than the originally requested times.
+const toInitialSchedule = (booking: BookingRequest): ScheduleDraft =>
+  toScheduleDraft(
+    booking.proposed_service_windows?.length
+      ? {
+          ...booking,
+          event_date: booking.proposed_event_date ?? null,
+          ends_at: booking.proposed_ends_at ?? null,
+          service_windows: booking.proposed_service_windows
+        }
+      : booking
+  );
+
+export const describeConflict = (event: CapacityEvent) => {
+  const windows = getServiceWindows(event);
+  const when =
+    windows.length > 0
+      ? formatTimeRange(windows[0].starts_at, windows[windows.length - 1].ends_at, event.timezone)
+      : "";
+  return [event.name, when, event.guests ? `${event.guests} guests` : null]
+    .filter(Boolean)
+    .join(" · ");
+};
+
+export default function ApproveBookingModal({
+  booking,
+  onClose,
+  onApproved
+}: ApproveBookingModalProps) {
+  const [form, setForm] = useState<{
+    name: string;
+    address: string;
+    schedule: ScheduleDraft;
+  }>(() => ({
+    name: `${booking.customer_name} Event`,
+    address: booking.address,
+    schedule: toInitialSchedule(booking)
+  }));
+  const [scheduleErrors, setScheduleErrors] = useState<ScheduleErrors>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Set when the server reported conflicts for the current times; a warning
+  // can be acknowledged, a blocked slot needs different times.
+  const [capacity, setCapacity] = useState<CapacityCheck | null>(null);
+  const [uncoveredAllergens, setUncoveredAllergens] = useState<AllergenId[]>([]);
+
+  // Guests' allergies the package has no pizza for. Only a warning: the
+  // admin may still approve and sort it out with the customer.
+  useEffect(() => {
+    const needs = booking.allergen_needs ?? [];
+    if (!booking.package || needs.length === 0) {
+      setUncoveredAllergens([]);
+      return;
+    }
+
+    let cancelled = false;
+    getPackagePizzas(booking.package)
+      .then((pizzas) => {
+        if (!cancelled) setUncoveredAllergens(getUncoveredAllergens(needs, pizzas));
+      })
+      .catch((err: unknown) => console.error("Failed to check allergen coverage", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.package, booking.allergen_needs]);
+
+  const handleApproveConfirm = useCallback(async () => {
+    if (!form.name.trim()) {
+      setError("Event name is required.");
+      return;
+    }
+
+    if (!form.address.trim()) {
+      setError("Event address is required.");
+      return;
+    }
+
+    const schedule = validateSchedule(toSchedulePayload(form.schedule), {
+      requireFuture: false
+    });
+    if (!schedule.ok) {
+      setScheduleErrors(schedule.errors);
+      setError("Check the event times.");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setScheduleErrors({});
+
+    try {
+      // One server-side transaction creates the event and converts the booking.
+      const response = await fetch(`/api/admin/bookings/${booking.id}/approve`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          address: form.address.trim(),
+          ...schedule.data,
+          acknowledge_conflicts: capacity?.status === "warn"
+        })
+      });
+      const result = (await response.json().catch(() => ({}))) as {
+        eventId?: string;
+        error?: string;
+        errors?: Record<string, string>;
+        capacity?: CapacityCheck;
+      };
+
+      if (response.status === 409 && result.capacity) {
+        setCapacity(result.capacity);
+        setError(result.error ?? null);
+        setLoading(false);
+        return;
+      }
+
+      if (!response.ok) {
+        const fieldError = result.errors ? Object.values(result.errors)[0] : undefined;
+        throw new Error(fieldError ?? result.error ?? "Unable to approve this booking. Try again.");
+      }
+
+      setLoading(false);
+      await onApproved(result.eventId ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to approve this booking. Try again.");
+      setLoading(false);
+    }
+  }, [booking.id, capacity, form, onApproved]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4 py-6 backdrop-blur-sm">
+      <div className="max-h-full w-full max-w-lg overflow-y-auto rounded-2xl border border-white/10 bg-slate-950/90 p-6">
+        <h2 className="text-lg font-semibold text-slate-100">Approve booking</h2>
+        <p className="mt-1 text-sm text-slate-400">
+          Create an event and convert this booking request.
+        </p>
+        {booking.proposed_service_windows?.length ? (
+          <p className="mt-2 text-xs text-amber-300">
+            Times below are the proposal sent to {booking.customer_name}.
+          </p>
+        ) : null}
+
+        <div className="mt-6 space-y-4 text-sm text-slate-100">
+          <label className="space-y-1">
+            <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
+              Event name
+            </span>
+            <input
+              value={form.name}
+              onChange={(event) => setForm((prev) => ({ ...prev, name: event.target.value }))}
+              className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm focus:border-blue-400/60 focus:outline-none"
+            />
+          </label>
+
+          <ScheduleFields
+            value={form.schedule}
+            onChange={(schedule) => {
+              setScheduleErrors({});
+              setCapacity(null);
+              setForm((prev) => ({ ...prev, schedule }));
+            }}
+            errors={scheduleErrors}
+            disabled={loading}
+          />
+
+          <label className="space-y-1">
+            <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
+              Address
+            </span>
+            <input
+              value={form.address}
+              onChange={(event) => setForm((prev) => ({ ...prev, address: event.target.value }))}
+              className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm focus:border-blue-400/60 focus:outline-none"
+            />
+          </label>
+
+          {booking.quote && (
+            <QuoteSummary
+              quote={booking.quote}
+              title={`Quoted ${
+                booking.quote.quoted_at
+                  ? new Date(booking.quote.quoted_at).toLocaleDateString()
+                  : "to the customer"
+              }`}
+              note={
+                booking.quote.guests !== booking.guests
+                  ? `Quoted for ${booking.quote.guests} guests; the booking now has ${booking.guests ?? "none"}.`
+                  : undefined
+              }
+            />
+          )}
+
+          {uncoveredAllergens.length > 0 && (
+            <div className="rounded-xl border border-amber-500/40 bg-amber-950/40 px-4 py-3 text-xs text-amber-200">
+              Guests have allergies this package cannot cover. No pizza in it is free of:{" "}
+              {uncoveredAllergens.map((allergen) => getAllergenLabel(allergen)).join(", ")}. Agree
+              an alternative with the customer.
+            </div>
+          )}
+
+          {capacity && capacity.status !== "ok" ? (
+            <div
+              className={`space-y-2 rounded-xl border px-4 py-3 text-xs ${
+                capacity.status === "block"
+                  ? "border-rose-500/40 bg-rose-950/40 text-rose-200"
+                  : "border-amber-500/40 bg-amber-950/40 text-amber-200"
+              }`}
+            >
+              {error && <p className="font-semibold">{error}</p>}
+              <ul className="list-disc space-y-0.5 pl-4">
+                {capacity.issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+              {capacity.conflicts.length > 0 && (
+                <div>
+                  <p className="font-medium">Conflicting events:</p>
+                  <ul className="list-disc space-y-0.5 pl-4">
+                    {capacity.conflicts.map((event) => (
+                      <li key={event.id}>{describeConflict(event)}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <p>
+                {capacity.status === "block"
+                  ? "Change the times to approve this booking."
+                  : "Approve again to book it alongside them."}
+              </p>
+            </div>
+          ) : (
+            error && (
+              <div className="rounded-xl border border-rose-500/40 bg-rose-950/40 px-4 py-3 text-xs text-rose-200">
+                {error}
+              </div>
+            )
+          )}
+        </div>
+
+        <div className="mt-6 flex flex-col gap-2 sm:flex-row sm:justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={loading}
+            className="inline-flex items-center justify-center rounded-lg border border-white/10 px-4 py-2 text-sm font-medium text-slate-300 transition hover:border-slate-400/60 hover:text-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleApproveConfirm()}
+            disabled={loading || capacity?.status === "block"}
+            className="inline-flex items-center justify-center rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-70"
+          >
+            {loading
+              ? "Approving…"
+              : capacity?.status === "warn"
+                ? "Approve anyway"
+                : "Approve & create event"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+'use client';
+
+import { useRouter } from "next/navigation";
+import { useState, type FormEvent } from "react";
+import type { BookingChangeErrors, SelfServiceState } from "../../lib/bookingPolicy";
+import type { ScheduleLike } from "../../lib/schedule";
+import ScheduleFields, {
+  toScheduleDraft,
+  toSchedulePayload,
+  type ScheduleDraft
+} from "./ScheduleFields";
+
+type BookingSelfServiceProps = {
+  token: string;
+  state: SelfServiceState;
+  /** Current values: the event's once converted, otherwise the request's. */
+  schedule: ScheduleLike;
+  guests: number | null;
+  notes: string | null;
+  minGuests: number;
+  maxGuests: number | null;
+  /** Converted bookings: changes need our approval. */
+  needsApproval: boolean;
+};
+
+type Mode = "idle" | "change" | "cancel";
+
+const inputClass =
+  "w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none";
+
+const formatDeadline = (value: string, timeZone?: string | null) =>
+  new Date(value).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: timeZone ?? undefined
+  });
+
+export default function BookingSelfService({
+  token,
+  state,
+  schedule,
+  guests,
+  notes,
+  minGuests,
+  maxGuests,
+  needsApproval
+}: BookingSelfServiceProps) {
+  const router = useRouter();
+  const [mode, setMode] = useState<Mode>("idle");
+  const [initialDraft] = useState<ScheduleDraft>(() => toScheduleDraft(schedule));
+  const [draft, setDraft] = useState<ScheduleDraft>(initialDraft);
+  const [guestsValue, setGuestsValue] = useState(guests === null ? "" : String(guests));
+  const [notesValue, setNotesValue] = useState(notes ?? "");
+  const [reason, setReason] = useState("");
+  const [errors, setErrors] = useState<BookingChangeErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  if (!state.canChange && !state.canCancel) {
+    return state.changeDeadline ? (
+      <p className="text-sm text-slate-400">
+        Online changes are closed for this booking. Please contact us if something has changed.
+      </p>
+    ) : null;
+  }
+
+  const post = async (path: string, payload: Record<string, unknown>) => {
+    setSubmitting(true);
+    setErrors({});
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/bookings/${token}/${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload)
+      });
+      const result = (await response.json().catch(() => ({}))) as {
+        status?: string;
+        error?: string;
+        errors?: BookingChangeErrors;
+      };
+
+      if (!response.ok) {
+        if (result.errors) {
+          setErrors(result.errors);
+          setError(result.errors.form ?? null);
+        } else {
+          setError(result.error ?? "Something went wrong. Please try again.");
+        }
+        return;
+      }
+
+      setMode("idle");
+      setMessage(
+        result.status === "pending"
+          ? "Thanks, we received your change and will confirm it shortly."
+          : result.status === "cancelled"
+            ? "Your booking has been cancelled."
+            : "Your booking has been updated."
+      );
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleChangeSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const scheduleChanged = JSON.stringify(draft) !== JSON.stringify(initialDraft);
+    const { service_windows, timezone } = toSchedulePayload(draft);
+    void post("changes", {
+      guests: guestsValue === "" ? undefined : Number(guestsValue),
+      notes: notesValue,
+      ...(scheduleChanged ? { service_windows, timezone } : {})
+    });
+  };
+
+  const handleCancelSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    void post("cancel", { reason });
+  };
+
+  return (
+    <section className="space-y-4 rounded-xl border border-white/10 bg-slate-900/60 p-6">
+      <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-400">
+        Manage your booking
+      </h2>
+
+      <ul className="space-y-1 text-sm text-slate-300">
+        {state.canChange && (
+          <li>
+            {state.changeDeadline
+              ? `Guests, times and notes can be changed until ${formatDeadline(state.changeDeadline, schedule.timezone)}.`
+              : "Guests, times and notes can be changed."}
+            {needsApproval && " We confirm changes to a confirmed event before they apply."}
+          </li>
+        )}
+        {!state.canChange && (
+          <li>Online changes are closed. Please contact us if something has changed.</li>
+        )}
+        {state.canCancel && state.cancelDeadline && (
+          <li>
+            Cancellation is possible until{" "}
+            {formatDeadline(state.cancelDeadline, schedule.timezone)}.
+          </li>
+        )}
+      </ul>
+
+      {message && (
+        <div className="rounded-lg border border-emerald-500/40 bg-emerald-950/40 px-3 py-2 text-sm text-emerald-200">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div className="rounded-lg border border-rose-500/40 bg-rose-950/40 px-3 py-2 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+
+      {mode === "idle" && (
+        <div className="flex flex-wrap gap-3">
+          {state.canChange && (
+            <button
+              type="button"
+              onClick={() => setMode("change")}
+              className="inline-flex items-center justify-center rounded-lg bg-blue-500 px-4 py-2 text-sm font-medium text-white transition hover:bg-blue-400"
+            >
+              {needsApproval ? "Request a change" : "Change booking"}
+            </button>
+          )}
+          {state.canCancel && (
+            <button
+              type="button"
+              onClick={() => setMode("cancel")}
+              className="inline-flex items-center justify-center rounded-lg border border-rose-500/40 px-4 py-2 text-sm font-medium text-rose-300 transition hover:border-rose-400 hover:text-rose-200"
+            >
+              Cancel booking
+            </button>
+          )}
+        </div>
+      )}
+
+      {mode === "change" && (
+        <form onSubmit={handleChangeSubmit} className="space-y-4">
+          <label className="block space-y-1 text-sm font-medium text-slate-200">
+            <span>Guests</span>
+            <input
+              type="number"
+              min={minGuests}
+              max={maxGuests ?? undefined}
+              value={guestsValue}
+              onChange={(event) => setGuestsValue(event.target.value)}
+              aria-invalid={Boolean(errors.guests)}
+              className={inputClass}
+            />
+            {errors.guests && <p className="text-xs font-normal text-rose-300">{errors.guests}</p>}
+          </label>
+
+          <ScheduleFields
+            value={draft}
+            onChange={setDraft}
+            errors={errors}
+            disabled={submitting}
+            showBuffers={false}
+          />
+
+          <label className="block space-y-1 text-sm font-medium text-slate-200">
+            <span>Notes</span>
+            <textarea
+              value={notesValue}
+              onChange={(event) => setNotesValue(event.target.value)}
+              rows={4}
+              aria-invalid={Boolean(errors.notes)}
+              className={inputClass}
+            />
+            {errors.notes && <p className="text-xs font-normal text-rose-300">{errors.notes}</p>}
+          </label>
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="submit"
+              disabled={submitting}
+              className="inline-flex items-center justify-center rounded-lg bg-blue-500 px-4 py-2 text-sm font-medium text-white transition hover:bg-blue-400 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {submitting ? "Sending…" : needsApproval ? "Send change request" : "Save changes"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setMode("idle")}
+              disabled={submitting}
+              className="inline-flex items-center justify-center rounded-lg border border-white/10 px-4 py-2 text-sm font-medium text-slate-300 transition hover:border-white/30"
+            >
+              Back
+            </button>
+          </div>
+        </form>
+      )}
+
+      {mode === "cancel" && (
+        <form onSubmit={handleCancelSubmit} className="space-y-4">
+          <p className="text-sm text-slate-300">
+            Cancelling cannot be undone online. You are welcome to book again later.
+          </p>
+          <label className="block space-y-1 text-sm font-medium text-slate-200">
+            <span>Reason (optional)</span>
+            <textarea
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              rows={3}
+              className={inputClass}
+            />
+          </label>
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="submit"
+              disabled={submitting}
+              className="inline-flex items-center justify-center rounded-lg bg-rose-500 px-4 py-2 text-sm font-medium text-white transition hover:bg-rose-400 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {submitting ? "Cancelling…" : "Yes, cancel booking"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setMode("idle")}
+              disabled={submitting}
+              className="inline-flex items-center justify-center rounded-lg border border-white/10 px-4 py-2 text-sm font-medium text-slate-300 transition hover:border-white/30"
+            >
+              Keep booking
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,17 @@
+import { getDietLabel } from "../../lib/catalog";
+import type { Pizza } from "../../lib/types";
+
+const badgeClasses: Record<string, string> = {
+  Vegan: "bg-emerald-500/15 text-emerald-200",
+  Vegetarian: "bg-lime-500/15 text-lime-200"
+};
+
+/** Vegan or vegetarian badge; renders nothing for other pizzas. */
+export default function DietBadge({ pizza }: { pizza: Pick<Pizza, "vegetarian" | "vegan"> }) {
+  const label = getDietLabel(pizza);
+  if (!label) return null;
+
+  return (
+    <span className={`rounded-full px-2 py-0.5 text-xs ${badgeClasses[label]}`}>{label}</span>
+  );
+}
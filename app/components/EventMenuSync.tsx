@@ -0,0 +1,158 @@
+'use client';
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { MENU_CHANGE_LABELS, hasMenuChanges, type EventMenuDiff } from "../../lib/eventMenu";
+import { useAuthRole } from "../../lib/useAuthRole";
+
+/**
+ * Admin-only: previews how an upcoming event's menu differs from its package
+ * in the catalog today, and re-syncs it on confirmation.
+ */
+export default function EventMenuSync({ eventId }: { eventId: string }) {
+  const router = useRouter();
+  const { role } = useAuthRole();
+  const [diff, setDiff] = useState<EventMenuDiff | null>(null);
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  if (role !== "admin") {
+    return null;
+  }
+
+  const request = async (method: "GET" | "POST") => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/events/${eventId}/menu`, {
+        method,
+        cache: "no-store",
+        ...(method === "POST"
+          ? {
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ fingerprint })
+            }
+          : {})
+      });
+      const result = (await response.json().catch(() => ({}))) as {
+        diff?: EventMenuDiff;
+        fingerprint?: string;
+        error?: string;
+      };
+
+      if (response.status === 409) {
+        // The catalog moved on since the preview; it has to be compared again.
+        setDiff(null);
+        setFingerprint(null);
+      }
+
+      if (!response.ok) {
+        throw new Error(result.error ?? "Unable to re-sync the menu.");
+      }
+
+      if (method === "GET") {
+        setDiff(result.diff ?? null);
+        setFingerprint(result.fingerprint ?? null);
+        return;
+      }
+
+      setDiff(null);
+      setFingerprint(null);
+      setMessage("Menu re-synced with the catalog.");
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to re-sync the menu.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderList = (title: string, entries: string[]) =>
+    entries.length > 0 ? (
+      <div>
+        <p className="text-xs uppercase tracking-wide text-slate-500">{title}</p>
+        <ul className="mt-1 space-y-0.5 text-slate-200">
+          {entries.map((entry) => (
+            <li key={entry}>{entry}</li>
+          ))}
+        </ul>
+      </div>
+    ) : null;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-white/10 bg-slate-950/50 p-4 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-slate-400">
+          This menu was copied from the catalog when the event was created.
+        </p>
+        <button
+          type="button"
+          onClick={() => void request("GET")}
+          disabled={busy}
+          className="inline-flex items-center justify-center rounded-lg border border-white/10 px-3 py-1.5 text-sm font-medium text-slate-100 transition hover:border-blue-400/60 hover:text-blue-300 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          Compare with catalog
+        </button>
+      </div>
+
+      {error && <p className="text-rose-300">{error}</p>}
+      {message && <p className="text-emerald-300">{message}</p>}
+
+      {diff && (
+        <div className="space-y-3 border-t border-white/10 pt-3">
+          {hasMenuChanges(diff) ? (
+            <>
+              {renderList(
+                "Added",
+                diff.added.map((pizza) => pizza.name)
+              )}
+              {renderList(
+                "Removed",
+                diff.removed.map((pizza) => pizza.name)
+              )}
+              {renderList(
+                "Updated",
+                diff.changed.map(
+                  (entry) =>
+                    `${entry.after.name}: ${entry.fields
+                      .map((field) => MENU_CHANGE_LABELS[field])
+                      .join(", ")}`
+                )
+              )}
+            </>
+          ) : (
+            <p className="text-slate-300">The menu matches the catalog.</p>
+          )}
+          {renderList(
+            "Kept because already counted",
+            diff.kept.map((pizza) => `${pizza.name} (${pizza.counted} counted)`)
+          )}
+          {hasMenuChanges(diff) && (
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="button"
+                onClick={() => void request("POST")}
+                disabled={busy}
+                className="inline-flex items-center justify-center rounded-lg bg-blue-500 px-4 py-2 text-sm font-medium text-white transition hover:bg-blue-400 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Re-sync menu
+              </button>
+              <button
+                type="button"
+                onClick={() => setDiff(null)}
+                disabled={busy}
+                className="inline-flex items-center justify-center rounded-lg border border-white/10 px-4 py-2 text-sm font-medium text-slate-300 transition hover:border-white/30"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import { ROLE_LABELS } from "../../lib/roles";
+import { STAFF_MANAGER_ROLES, type StaffMember } from "../../lib/staff";
+import { useAuthRole } from "../../lib/useAuthRole";
+
+/**
+ * Admins and coordinators pick who works the event. Staff with an "only my
+ * events" calendar feed see the events they are assigned to.
+ */
+export default function EventStaffAssignment({ eventId }: { eventId: string }) {
+  const { role } = useAuthRole();
+  const canManage = role !== null && STAFF_MANAGER_ROLES.includes(role);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!canManage) {
+      return;
+    }
+
+    let active = true;
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const [staffResponse, assignedResponse] = await Promise.all([
+          fetch("/api/admin/staff", { cache: "no-store" }),
+          fetch(`/api/admin/events/${eventId}/staff`, { cache: "no-store" })
+        ]);
+        const staffResult = (await staffResponse.json().catch(() => ({}))) as {
+          staff?: StaffMember[];
+          error?: string;
+        };
+        const assignedResult = (await assignedResponse.json().catch(() => ({}))) as {
+          user_ids?: string[];
+          error?: string;
+        };
+
+        if (!staffResponse.ok || !assignedResponse.ok) {
+          throw new Error(
+            staffResult.error ?? assignedResult.error ?? "Unable to load the event's staff."
+          );
+        }
+
+        if (active) {
+          setStaff(staffResult.staff ?? []);
+          setSelected(assignedResult.user_ids ?? []);
+        }
+      } catch (err) {
+        if (active) {
+          setError(err instanceof Error ? err.message : "Unable to load the event's staff.");
+        }
+      } finally {
+        if (active) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void load();
+    return () => {
+      active = false;
+    };
+  }, [canManage, eventId]);
+
+  if (!canManage) {
+    return null;
+  }
+
+  const toggle = (userId: string) => {
+    setMessage(null);
+    setSelected((current) =>
+      current.includes(userId)
+        ? current.filter((entry) => entry !== userId)
+        : [...current, userId]
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/events/${eventId}/staff`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ user_ids: selected })
+      });
+      const result = (await response.json().catch(() => ({}))) as {
+        user_ids?: string[];
+        errors?: { user_ids?: string };
+        error?: string;
+      };
+
+      if (!response.ok) {
+        throw new Error(result.errors?.user_ids ?? result.error ?? "Unable to assign staff.");
+      }
+
+      setSelected(result.user_ids ?? []);
+      setMessage("Staff saved.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to assign staff.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4 rounded-xl border border-white/10 bg-slate-900/60 p-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-400">
+          Staff
+        </h2>
+        <span className="text-xs text-slate-500">{selected.length} assigned</span>
+      </div>
+
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+      {message && <p className="text-sm text-emerald-300">{message}</p>}
+
+      {staff.length === 0 ? (
+        <p className="text-sm text-slate-300">
+          {loading ? "Loading staff…" : "No staff members yet."}
+        </p>
+      ) : (
+        <ul className="grid gap-2 sm:grid-cols-2">
+          {staff.map((member) => (
+            <li key={member.user_id}>
+              <label className="flex items-center gap-2 rounded-lg border border-white/10 bg-slate-900/80 px-3 py-2 text-sm text-slate-200">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(member.user_id)}
+                  onChange={() => toggle(member.user_id)}
+                  disabled={saving}
+                  className="h-4 w-4 rounded border-white/20 bg-slate-950"
+                />
+                <span className="min-w-0 flex-1 truncate">{member.email}</span>
+                <span className="text-xs text-slate-500">{ROLE_LABELS[member.role]}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        type="button"
+        onClick={() => void handleSave()}
+        disabled={saving || loading}
+        className="inline-flex items-center justify-center rounded-lg bg-blue-500 px-4 py-2 text-sm font-medium text-white transition hover:bg-blue-400 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {saving ? "Saving…" : "Save staff"}
+      </button>
+    </section>
+  );
+}
@@ -0,0 +1,15 @@
+/** A pizza's catalog photo, cropped to a square; renders nothing without one. */
+export default function PizzaThumbnail({
+  src,
+  className
+}: {
+  src: string | null | undefined;
+  className: string;
+}) {
+  if (!src) return null;
+
+  // Photos are links admins paste into the catalog, from any host, so they
+  // cannot be listed as remote patterns for next/image.
+  // eslint-disable-next-line @next/next/no-img-element
+  return <img src={src} alt="" className={`flex-none object-cover ${className}`} />;
+}
@@ -0,0 +1,32 @@
+import { formatMoney, type Quote } from "../../lib/pricing";
+
+type QuoteSummaryProps = {
+  quote: Quote;
+  title?: string;
+  note?: string;
+};
+
+export default function QuoteSummary({
+  quote,
+  title = "Estimated price",
+  note
+}: QuoteSummaryProps) {
+  return (
+    <div className="space-y-2 rounded-xl border border-white/10 bg-slate-900/40 px-4 py-3 text-sm text-slate-200">
+      <p className="text-xs font-medium uppercase tracking-wide text-slate-400">{title}</p>
+      <dl className="space-y-1">
+        {quote.lines.map((line) => (
+          <div key={line.label} className="flex justify-between gap-4">
+            <dt className="text-slate-300">{line.label}</dt>
+            <dd className="tabular-nums">{formatMoney(line.amount_cents, quote.currency)}</dd>
+          </div>
+        ))}
+        <div className="flex justify-between gap-4 border-t border-white/10 pt-1 font-semibold text-slate-100">
+          <dt>Total</dt>
+          <dd className="tabular-nums">{formatMoney(quote.total_cents, quote.currency)}</dd>
+        </div>
+      </dl>
+      {note && <p className="text-xs text-slate-400">{note}</p>}
+    </div>
+  );
+}
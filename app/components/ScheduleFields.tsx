@@ -0,0 +1,259 @@
+'use client';
+
+import {
+  DEFAULT_SERVICE_MINUTES,
+  DEFAULT_SETUP_MINUTES,
+  DEFAULT_TEARDOWN_MINUTES,
+  MAX_SERVICE_WINDOWS,
+  getServiceWindows,
+  type ScheduleErrors,
+  type ScheduleLike
+} from "../../lib/schedule";
+import {
+  COMMON_TIMEZONES,
+  DEFAULT_TIMEZONE,
+  isValidTimeZone,
+  resolveTimeZone,
+  toZonedLocalValue,
+  zonedLocalToUtc
+} from "../../lib/timezone";
+
+type WindowDraft = {
+  starts_at: string;
+  ends_at: string;
+  label: string;
+};
+
+/** Form state: venue wall-clock `datetime-local` strings and minutes as typed. */
+export type ScheduleDraft = {
+  service_windows: WindowDraft[];
+  setup_minutes: string;
+  teardown_minutes: string;
+  timezone: string;
+};
+
+const emptyWindow: WindowDraft = { starts_at: "", ends_at: "", label: "" };
+
+export const emptyScheduleDraft: ScheduleDraft = {
+  service_windows: [emptyWindow],
+  setup_minutes: String(DEFAULT_SETUP_MINUTES),
+  teardown_minutes: String(DEFAULT_TEARDOWN_MINUTES),
+  timezone: DEFAULT_TIMEZONE
+};
+
+export const toScheduleDraft = (row: ScheduleLike): ScheduleDraft => {
+  const windows = getServiceWindows(row);
+  const timeZone = resolveTimeZone(row.timezone);
+  return {
+    service_windows:
+      windows.length > 0
+        ? windows.map((window) => ({
+            starts_at: toZonedLocalValue(window.starts_at, timeZone),
+            ends_at: toZonedLocalValue(window.ends_at, timeZone),
+            label: window.label ?? ""
+          }))
+        : [emptyWindow],
+    setup_minutes: String(row.setup_minutes ?? DEFAULT_SETUP_MINUTES),
+    teardown_minutes: String(row.teardown_minutes ?? DEFAULT_TEARDOWN_MINUTES),
+    timezone: timeZone
+  };
+};
+
+/**
+ * The body fields validateSchedule expects. Times stay wall-clock values so
+ * they are read in the venue's zone rather than the browser's.
+ */
+export const toSchedulePayload = (draft: ScheduleDraft) => ({
+  service_windows: draft.service_windows.map((window) => ({
+    starts_at: window.starts_at,
+    ends_at: window.ends_at,
+    label: window.label.trim() || null
+  })),
+  timezone: draft.timezone.trim(),
+  setup_minutes: draft.setup_minutes === "" ? undefined : Number(draft.setup_minutes),
+  teardown_minutes: draft.teardown_minutes === "" ? undefined : Number(draft.teardown_minutes)
+});
+
+const inputClass =
+  "w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none";
+
+type ScheduleFieldsProps = {
+  value: ScheduleDraft;
+  onChange: (next: ScheduleDraft) => void;
+  errors?: ScheduleErrors;
+  disabled?: boolean;
+  /** Setup and teardown are the crew's; customers changing a booking skip them. */
+  showBuffers?: boolean;
+};
+
+export default function ScheduleFields({
+  value,
+  onChange,
+  errors = {},
+  disabled = false,
+  showBuffers = true
+}: ScheduleFieldsProps) {
+  const updateWindow = (index: number, patch: Partial<WindowDraft>) => {
+    onChange({
+      ...value,
+      service_windows: value.service_windows.map((window, position) => {
+        if (position !== index) return window;
+        const next = { ...window, ...patch };
+        // Suggest the usual service length once a start is picked.
+        if (patch.starts_at && !window.ends_at && isValidTimeZone(value.timezone)) {
+          const start = zonedLocalToUtc(patch.starts_at, value.timezone);
+          if (start) {
+            next.ends_at = toZonedLocalValue(
+              new Date(Date.parse(start) + DEFAULT_SERVICE_MINUTES * 60000).toISOString(),
+              value.timezone
+            );
+          }
+        }
+        return next;
+      })
+    });
+  };
+
+  const addWindow = () => {
+    const last = value.service_windows[value.service_windows.length - 1];
+    onChange({
+      ...value,
+      service_windows: [...value.service_windows, { ...emptyWindow, starts_at: last?.ends_at ?? "" }]
+    });
+  };
+
+  const removeWindow = (index: number) => {
+    onChange({
+      ...value,
+      service_windows: value.service_windows.filter((_, position) => position !== index)
+    });
+  };
+
+  const multiple = value.service_windows.length > 1;
+
+  return (
+    <fieldset className="space-y-4" disabled={disabled}>
+      <div className="space-y-3">
+        {value.service_windows.map((window, index) => (
+          <div
+            key={index}
+            className="grid gap-3 rounded-xl border border-white/10 bg-slate-900/40 p-3 sm:grid-cols-2"
+          >
+            <label className="space-y-1 text-sm font-medium text-slate-200">
+              <span>{multiple ? `Service ${index + 1} starts *` : "Service starts *"}</span>
+              <input
+                type="datetime-local"
+                value={window.starts_at}
+                onChange={(event) => updateWindow(index, { starts_at: event.target.value })}
+                aria-invalid={Boolean(errors.service_windows)}
+                required
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-1 text-sm font-medium text-slate-200">
+              <span>{multiple ? `Service ${index + 1} ends *` : "Service ends *"}</span>
+              <input
+                type="datetime-local"
+                value={window.ends_at}
+                min={window.starts_at || undefined}
+                onChange={(event) => updateWindow(index, { ends_at: event.target.value })}
+                aria-invalid={Boolean(errors.service_windows)}
+                required
+                className={inputClass}
+              />
+            </label>
+            {multiple && (
+              <div className="flex items-end gap-2 sm:col-span-2">
+                <label className="flex-1 space-y-1 text-sm font-medium text-slate-200">
+                  <span>Label</span>
+                  <input
+                    value={window.label}
+                    onChange={(event) => updateWindow(index, { label: event.target.value })}
+                    placeholder="Lunch, Dinner, Day 2…"
+                    className={inputClass}
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={() => removeWindow(index)}
+                  className="inline-flex items-center justify-center rounded-lg border border-white/10 px-3 py-2 text-xs font-medium text-slate-300 transition hover:border-rose-400/60 hover:text-rose-300"
+                >
+                  Remove
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+        {errors.service_windows && (
+          <p className="text-xs font-normal text-rose-300">{errors.service_windows}</p>
+        )}
+        {value.service_windows.length < MAX_SERVICE_WINDOWS && (
+          <button
+            type="button"
+            onClick={addWindow}
+            className="inline-flex items-center justify-center rounded-lg border border-white/10 px-3 py-1.5 text-xs font-medium text-slate-100 transition hover:border-blue-400/60 hover:text-blue-300"
+          >
+            Add service window
+          </button>
+        )}
+      </div>
+
+      <label className="block space-y-1 text-sm font-medium text-slate-200">
+        <span>Venue time zone</span>
+        <input
+          value={value.timezone}
+          onChange={(event) => onChange({ ...value, timezone: event.target.value })}
+          list="schedule-timezones"
+          aria-invalid={Boolean(errors.timezone)}
+          className={inputClass}
+        />
+        <datalist id="schedule-timezones">
+          {COMMON_TIMEZONES.map((zone) => (
+            <option key={zone} value={zone} />
+          ))}
+        </datalist>
+        <p className="text-xs font-normal text-slate-400">
+          Times above are local to the venue.
+        </p>
+        {errors.timezone && (
+          <p className="text-xs font-normal text-rose-300">{errors.timezone}</p>
+        )}
+      </label>
+
+      {showBuffers && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="space-y-1 text-sm font-medium text-slate-200">
+            <span>Setup before (minutes)</span>
+            <input
+              type="number"
+              min={0}
+              step={15}
+              value={value.setup_minutes}
+              onChange={(event) => onChange({ ...value, setup_minutes: event.target.value })}
+              aria-invalid={Boolean(errors.setup_minutes)}
+              className={inputClass}
+            />
+            {errors.setup_minutes && (
+              <p className="text-xs font-normal text-rose-300">{errors.setup_minutes}</p>
+            )}
+          </label>
+          <label className="space-y-1 text-sm font-medium text-slate-200">
+            <span>Teardown after (minutes)</span>
+            <input
+              type="number"
+              min={0}
+              step={15}
+              value={value.teardown_minutes}
+              onChange={(event) => onChange({ ...value, teardown_minutes: event.target.value })}
+              aria-invalid={Boolean(errors.teardown_minutes)}
+              className={inputClass}
+            />
+            {errors.teardown_minutes && (
+              <p className="text-xs font-normal text-rose-300">{errors.teardown_minutes}</p>
+            )}
+          </label>
+        </div>
+      )}
+    </fieldset>
+  );
+}
@@ -3,13 +3,39 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { KeyboardEvent } from "react";
 import supabase from "../../../lib/supabaseClient";
+import { getDeviceId } from "../../../lib/deviceId";
 import {
+  enqueueAdjustment,
+  isConnectivityError,
+  listQueuedAdjustments,
+  nextSeq,
+  removeQueuedAdjustment,
+} from "../../../lib/offlineQueue";
+import type { QueuedAdjustment } from "../../../lib/offlineQueue";
+import {
+  getGuestBreakdown,
+  getProductionTargets,
+} from "../../../lib/production";
+import {
+  adjustPizzaTotal,
+  finalizeEvent,
   getAllowedPizzasForEvent,
   getEventById,
+  getPackageById,
   getPizzaTotals,
-  upsertPizzaTotals,
+  reopenEvent,
+  setPizzaTotals,
 } from "../../../lib/queries";
+import {
+  formatServiceWindow,
+  formatTimeRange,
+  getServiceWindows,
+  getSetupStart,
+} from "../../../lib/schedule";
 import type { EventRow, Pizza, PizzaTotal } from "../../../lib/types";
+import { useAuthRole } from "../../../lib/useAuthRole";
+import AllergenInfo from "../../components/AllergenInfo";
+import DietBadge from "../../components/DietBadge";
 
 interface CounterPageProps {
   params: { eventId: string };
@@ -32,6 +58,46 @@ interface Snapshot {
   summary: string;
 }
 
+interface CounterChange {
+  pizzaId: string;
+  delta: number;
+}
+
+/**
+ * One undoable commit. Changes are stored as deltas so undo/redo add or
+ * subtract exactly what this session did, keeping other devices' taps.
+ */
+interface CounterAction {
+  id: string;
+  label: string;
+  at: string;
+  changes: CounterChange[];
+}
+
+interface ActionHistory {
+  undo: CounterAction[];
+  redo: CounterAction[];
+}
+
+/**
+ * What queued ops do to the history once the server has answered: a tap
+ * records a new action, an undo or redo moves `action` to the other stack.
+ * Only the deltas the server applied are kept, so clamped or rejected ops
+ * leave nothing behind.
+ */
+type HistoryIntent =
+  | { kind: "record"; label: string }
+  | { kind: "undo" | "redo"; action: CounterAction };
+
+interface PendingHistory {
+  intent: HistoryIntent;
+  remaining: number;
+  applied: CounterChange[];
+}
+
+const MAX_UNDO_ACTIONS = 50;
+const RECENT_ACTIONS_SHOWN = 8;
+
 const sanitizeQty = (value: number) =>
   Math.max(0, Math.floor(Number.isFinite(value) ? value : 0));
 
@@ -56,41 +122,50 @@ const normalizeTotals = (
 const totalsEqual = (pizzas: Pizza[] = [], a: Totals, b: Totals) =>
   pizzas.every((pizza) => (a[pizza.id] ?? 0) === (b[pizza.id] ?? 0));
 
+/** Server totals with the taps that have not reached the server yet on top. */
+const applyPendingDeltas = (
+  base: Totals,
+  pending: QueuedAdjustment[],
+): Totals => {
+  const result = { ...base };
+  for (const op of pending) {
+    if (op.pizzaId in result) {
+      result[op.pizzaId] = sanitizeQty(result[op.pizzaId] + op.delta);
+    }
+  }
+  return result;
+};
+
 const getLocalISODate = (date: Date) => {
   const offsetMs = date.getTimezoneOffset() * 60_000;
   const local = new Date(date.getTime() - offsetMs);
   return local.toISOString().slice(0, 10);
 };
 
-const isDateOnlyString = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
-
-const normalizeTimestamp = (value: string | null | undefined) => {
-  if (!value) {
+const formatClockTime = (value: string, timeZone: string) =>
+  new Intl.DateTimeFormat(undefined, {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+  }).format(new Date(value));
+
+/** Service times at the venue, plus when setup starts if the crew arrives early. */
+const formatScheduleLabel = (event: EventRow | null) => {
+  const windows = event ? getServiceWindows(event) : [];
+  if (!event || windows.length === 0) {
     return null;
   }
-  if (isDateOnlyString(value)) {
-    return `${value}T00:00:00`;
-  }
-  return value.includes("T") ? value : value.replace(" ", "T");
+  const service =
+    windows.length > 1
+      ? windows.map((window) => formatServiceWindow(window, event.timezone)).join(" · ")
+      : formatTimeRange(windows[0].starts_at, windows[0].ends_at, event.timezone);
+  const setupStart = event.setup_minutes === 0 ? null : getSetupStart(event);
+  return setupStart
+    ? `${service} (setup from ${formatClockTime(setupStart, event.timezone)})`
+    : service;
 };
 
-const formatDisplayDate = (value: string | null | undefined) => {
-  const normalized = normalizeTimestamp(value);
-  if (!normalized) {
-    return null;
-  }
-  const parsed = new Date(normalized);
-  if (Number.isNaN(parsed.getTime())) {
-    return value ?? null;
-  }
-  return new Intl.DateTimeFormat(undefined, {
-    year: "numeric",
-    month: "long",
-    day: "numeric",
-  }).format(parsed);
-};
-
-const formatDisplayDateTime = (value: string) => {
+const formatDisplayDateTime = (value: string, timeZone?: string) => {
   const parsed = new Date(value);
   if (Number.isNaN(parsed.getTime())) {
     return value;
@@ -98,9 +173,15 @@ const formatDisplayDateTime = (value: string) => {
   return new Intl.DateTimeFormat(undefined, {
     dateStyle: "medium",
     timeStyle: "short",
+    timeZone,
   }).format(parsed);
 };
 
+const invertChanges = (changes: CounterChange[]): CounterChange[] =>
+  changes.map((change) => ({ pizzaId: change.pizzaId, delta: -change.delta }));
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
 const getErrorMessage = (error: unknown, fallback: string) => {
   if (typeof error === "string" && error.trim()) {
     return error;
@@ -242,16 +323,20 @@ const buildTotalsFromRows = (rows: PizzaTotal[], pizzas: Pizza[]): Totals => {
   return base;
 };
 
+// Why the menu is being reloaded: the event moved to another package, or an
+// admin re-synced it with the catalog.
+type MenuChange =
+  | { type: "package-change"; packageLabel: string | null }
+  | { type: "menu-sync" };
+
 export default function CounterPage({ params }: CounterPageProps) {
   const [allowedPizzas, setAllowedPizzas] = useState<Pizza[]>([]);
   const [allowedLoading, setAllowedLoading] = useState<boolean>(true);
   const [allowedError, setAllowedError] = useState<string | null>(null);
   const previousAllowedRef = useRef<Pizza[]>([]);
-  const packageChangeNoticeRef = useRef<{
-    packageId: string | null;
-    removed: number;
-  } | null>(null);
+  const menuChangeNoticeRef = useRef<string | null>(null);
   const packageIdRef = useRef<string | null | undefined>(undefined);
+  const menuSyncedAtRef = useRef<string | null>(null);
 
   const [totals, setTotals] = useState<Totals>({});
   const [draftTotals, setDraftTotals] = useState<Totals>({});
@@ -265,8 +350,22 @@ export default function CounterPage({ params }: CounterPageProps) {
   const [saveState, setSaveState] = useState<{ pizzaId: string | null }>({
     pizzaId: null,
   });
+  const [pendingOps, setPendingOps] = useState<QueuedAdjustment[]>([]);
+  const pendingOpsRef = useRef<QueuedAdjustment[]>([]);
+  const [flushing, setFlushing] = useState(false);
+  const flushLockRef = useRef(false);
+  const restoredQueueRef = useRef<string | null>(null);
+  // Queued op id -> the history entry it belongs to.
+  const pendingHistoryRef = useRef(new Map<string, PendingHistory>());
+  const [isOnline, setIsOnline] = useState(true);
 
   const [eventDetails, setEventDetails] = useState<EventRow | null>(null);
+  const { role } = useAuthRole();
+  const [finalizing, setFinalizing] = useState(false);
+  const [reopenOpen, setReopenOpen] = useState(false);
+  const [reopenReason, setReopenReason] = useState("");
+  const [reopenError, setReopenError] = useState<string | null>(null);
+  const [reopening, setReopening] = useState(false);
   const [eventLoading, setEventLoading] = useState<boolean>(true);
   const [eventError, setEventError] = useState<string | null>(null);
   const [historyOpen, setHistoryOpen] = useState(false);
@@ -275,15 +374,23 @@ export default function CounterPage({ params }: CounterPageProps) {
   const [historyNeedsRefresh, setHistoryNeedsRefresh] = useState(true);
   const [historySnapshots, setHistorySnapshots] = useState<Snapshot[]>([]);
 
-  const [undoSnapshot, setUndoSnapshot] = useState<Snapshot | null>(null);
+  const [actionHistory, setActionHistory] = useState<ActionHistory>({
+    undo: [],
+    redo: [],
+  });
+  const actionHistoryRef = useRef<ActionHistory>({ undo: [], redo: [] });
   const [restoringKey, setRestoringKey] = useState<string | null>(null);
   const [showBreakdown, setShowBreakdown] = useState(false);
 
   const fetchLockRef = useRef(false);
 
-  const eventDay = useMemo(
-    () => formatDisplayDate(eventDetails?.event_date),
-    [eventDetails?.event_date],
+  const isLocked = Boolean(eventDetails?.finalized_at);
+  // Times on this page are the venue's, not the device's.
+  const eventTimeZone = eventDetails?.timezone;
+
+  const eventSchedule = useMemo(
+    () => formatScheduleLabel(eventDetails),
+    [eventDetails],
   );
 
   const guestsTarget = useMemo(() => {
@@ -330,7 +437,7 @@ export default function CounterPage({ params }: CounterPageProps) {
       setPreviousTotals(previous);
       totalsRef.current = normalized;
       setTotals(normalized);
-      setDraftTotals({ ...normalized });
+      setDraftTotals(applyPendingDeltas(normalized, pendingOpsRef.current));
       hasLoadedRef.current = true;
     },
     [allowedPizzas],
@@ -346,24 +453,25 @@ export default function CounterPage({ params }: CounterPageProps) {
   const applyAllowedChange = useCallback(
     (
       nextPizzas: Pizza[],
-      context?: { type: "package-change"; packageId: string | null },
+      context?: MenuChange,
     ) => {
       const previous = previousAllowedRef.current;
       previousAllowedRef.current = nextPizzas;
       setAllowedPizzas(nextPizzas);
 
-      if (context?.type === "package-change") {
-        const nextIds = new Set(nextPizzas.map((pizza) => pizza.id));
-        const removed = previous.filter(
-          (pizza) => !nextIds.has(pizza.id),
-        ).length;
-        packageChangeNoticeRef.current = {
-          packageId: context.packageId ?? null,
-          removed,
-        };
-      } else {
-        packageChangeNoticeRef.current = null;
+      if (!context) {
+        menuChangeNoticeRef.current = null;
+        return;
       }
+
+      const previousIds = new Set(previous.map((pizza) => pizza.id));
+      const nextIds = new Set(nextPizzas.map((pizza) => pizza.id));
+      const added = nextPizzas.filter((pizza) => !previousIds.has(pizza.id)).length;
+      const removed = previous.filter((pizza) => !nextIds.has(pizza.id)).length;
+      menuChangeNoticeRef.current =
+        context.type === "package-change"
+          ? `Package changed to ${context.packageLabel ?? "updated"}. Removed ${removed} uncounted pizzas not in this package; counted pizzas stay.`
+          : `Menu re-synced with the catalog: ${added} added, ${removed} removed.`;
     },
     [],
   );
@@ -395,7 +503,7 @@ export default function CounterPage({ params }: CounterPageProps) {
   );
 
   const refreshAllowed = useCallback(
-    async (context?: { type: "package-change"; packageId: string | null }) => {
+    async (context?: MenuChange) => {
       setAllowedLoading(true);
       setAllowedError(null);
 
@@ -425,15 +533,22 @@ export default function CounterPage({ params }: CounterPageProps) {
       setEventDetails(event);
 
       const newPackageId = event.package_id ?? null;
+      // sync_event_menu stamps menu_synced_at, so a re-sync reaches open
+      // counters through the events subscription.
+      const menuSynced = menuSyncedAtRef.current !== event.menu_synced_at;
+      menuSyncedAtRef.current = event.menu_synced_at;
       if (packageIdRef.current === undefined) {
         packageIdRef.current = newPackageId;
         await refreshAllowed();
       } else if (packageIdRef.current !== newPackageId) {
         packageIdRef.current = newPackageId;
+        const newPackage = newPackageId ? await getPackageById(newPackageId) : null;
         await refreshAllowed({
           type: "package-change",
-          packageId: newPackageId,
+          packageLabel: newPackage?.label ?? newPackageId,
         });
+      } else if (menuSynced) {
+        await refreshAllowed({ type: "menu-sync" });
       }
     } catch (err) {
       const message =
@@ -500,13 +615,10 @@ export default function CounterPage({ params }: CounterPageProps) {
     setPreviousTotals((prev) => normalizeTotals(allowedPizzas, prev));
     totalsRef.current = normalizeTotals(allowedPizzas, totalsRef.current);
 
-    const notice = packageChangeNoticeRef.current;
+    const notice = menuChangeNoticeRef.current;
     if (notice) {
-      setFeedback({
-        type: "success",
-        text: `Package changed to ${notice.packageId ?? "updated"}. Removed ${notice.removed} pizzas not in this package.`,
-      });
-      packageChangeNoticeRef.current = null;
+      setFeedback({ type: "success", text: notice });
+      menuChangeNoticeRef.current = null;
     }
   }, [allowedPizzas]);
 
@@ -571,9 +683,37 @@ export default function CounterPage({ params }: CounterPageProps) {
     return () => window.clearTimeout(timeout);
   }, [feedback]);
 
+  const updateActionHistory = useCallback((next: ActionHistory) => {
+    actionHistoryRef.current = next;
+    setActionHistory(next);
+  }, []);
+
+  const recordAction = useCallback(
+    (label: string, changes: CounterChange[]) => {
+      const effective = changes.filter((change) => change.delta !== 0);
+      if (effective.length === 0) {
+        return;
+      }
+
+      updateActionHistory({
+        undo: [
+          ...actionHistoryRef.current.undo,
+          {
+            id: crypto.randomUUID(),
+            label,
+            at: new Date().toISOString(),
+            changes: effective,
+          },
+        ].slice(-MAX_UNDO_ACTIONS),
+        redo: [],
+      });
+    },
+    [updateActionHistory],
+  );
+
   const commitCount = useCallback(
     async (pizzaId: string, targetValue: number) => {
-      if (!allowedPizzaIdSet.has(pizzaId)) {
+      if (!allowedPizzaIdSet.has(pizzaId) || isLocked) {
         return;
       }
 
@@ -590,7 +730,15 @@ export default function CounterPage({ params }: CounterPageProps) {
       setFeedback(null);
 
       try {
-        await upsertPizzaTotals(params.eventId, { [pizzaId]: sanitized });
+        const results = await setPizzaTotals(
+          params.eventId,
+          { [pizzaId]: sanitized },
+          getDeviceId(),
+        );
+        recordAction(
+          `Set ${pizzaLabelById[pizzaId] ?? pizzaId} to ${sanitized}`,
+          [{ pizzaId, delta: results[pizzaId]?.applied ?? 0 }],
+        );
 
         setFeedback({
           type: "success",
@@ -609,33 +757,274 @@ export default function CounterPage({ params }: CounterPageProps) {
     [
       allowedPizzaIdSet,
       handleSynchronizeTotals,
+      isLocked,
       params.eventId,
       pizzaLabelById,
+      recordAction,
       totals,
     ],
   );
 
+  const updatePendingOps = useCallback((next: QueuedAdjustment[]) => {
+    pendingOpsRef.current = next;
+    setPendingOps(next);
+  }, []);
+
+  /** Books what the server applied for `op` into its pending history entry. */
+  const settleHistory = useCallback(
+    (op: QueuedAdjustment, applied: number) => {
+      const pending = pendingHistoryRef.current.get(op.id);
+      if (!pending) {
+        return;
+      }
+
+      pendingHistoryRef.current.delete(op.id);
+      if (applied !== 0) {
+        pending.applied.push({ pizzaId: op.pizzaId, delta: applied });
+      }
+      pending.remaining -= 1;
+      if (pending.remaining > 0) {
+        return;
+      }
+
+      const { intent, applied: changes } = pending;
+      if (intent.kind === "record") {
+        recordAction(intent.label, changes);
+        return;
+      }
+      if (changes.length === 0) {
+        return;
+      }
+
+      const { undo, redo } = actionHistoryRef.current;
+      if (intent.kind === "undo") {
+        // Redo puts back exactly what the undo took away.
+        updateActionHistory({
+          undo,
+          redo: [...redo, { ...intent.action, changes: invertChanges(changes) }],
+        });
+      } else {
+        updateActionHistory({
+          undo: [...undo, { ...intent.action, changes }].slice(-MAX_UNDO_ACTIONS),
+          redo,
+        });
+      }
+    },
+    [recordAction, updateActionHistory],
+  );
+
+  /**
+   * Sends queued taps to the server one at a time, oldest first. Each op keeps
+   * its id across retries, so an op whose response was lost is not counted
+   * twice when it is replayed.
+   */
+  const flushQueue = useCallback(async () => {
+    if (flushLockRef.current || pendingOpsRef.current.length === 0) {
+      return;
+    }
+
+    flushLockRef.current = true;
+    setFlushing(true);
+    let applied = 0;
+    let settled = 0;
+
+    try {
+      while (pendingOpsRef.current.length > 0) {
+        const op = pendingOpsRef.current[0];
+
+        try {
+          const result = await adjustPizzaTotal(
+            op.eventId,
+            op.pizzaId,
+            op.delta,
+            op.deviceId,
+            op.id,
+          );
+          applied += 1;
+          settleHistory(op, result.applied);
+        } catch (error) {
+          if (isConnectivityError(error)) {
+            // Keep this op and everything after it queued, in order.
+            break;
+          }
+          console.error("Queued pizza adjustment was rejected", error);
+          setFeedback({
+            type: "error",
+            text: getErrorMessage(error, "Could not update pizzas."),
+          });
+          settleHistory(op, 0);
+        }
+
+        try {
+          await removeQueuedAdjustment(op.id);
+        } catch (error) {
+          // A leftover entry is harmless: replaying it is a no-op on the server.
+          console.error("Failed to remove queued adjustment", error);
+        }
+        updatePendingOps(
+          pendingOpsRef.current.filter((entry) => entry.id !== op.id),
+        );
+        settled += 1;
+      }
+    } finally {
+      flushLockRef.current = false;
+      setFlushing(false);
+    }
+
+    if (applied > 0) {
+      await handleSynchronizeTotals();
+    }
+    if (settled > 0) {
+      // Drop the optimistic share of ops that were rejected or already applied.
+      setDraftTotals(
+        applyPendingDeltas(
+          normalizeTotals(allowedPizzas, totalsRef.current),
+          pendingOpsRef.current,
+        ),
+      );
+    }
+  }, [allowedPizzas, handleSynchronizeTotals, settleHistory, updatePendingOps]);
+
+  /**
+   * Queues deltas (taps, undo, redo), shows them optimistically and syncs.
+   * `intent` is applied to the history once the server has answered.
+   */
+  const queueDeltas = useCallback(
+    async (changes: CounterChange[], intent?: HistoryIntent) => {
+      const deviceId = getDeviceId();
+      const ops: QueuedAdjustment[] = changes
+        .filter(
+          (change) => allowedPizzaIdSet.has(change.pizzaId) && change.delta !== 0,
+        )
+        .map((change) => ({
+          id: crypto.randomUUID(),
+          eventId: params.eventId,
+          pizzaId: change.pizzaId,
+          delta: change.delta,
+          deviceId,
+          seq: nextSeq(),
+          createdAt: new Date().toISOString(),
+        }));
+
+      if (ops.length === 0) {
+        return;
+      }
+
+      if (intent) {
+        const pending: PendingHistory = { intent, remaining: ops.length, applied: [] };
+        for (const op of ops) {
+          pendingHistoryRef.current.set(op.id, pending);
+        }
+      }
+
+      updatePendingOps([...pendingOpsRef.current, ...ops]);
+      setDraftTotals((current) => applyPendingDeltas(current, ops));
+      setFeedback(null);
+
+      for (const op of ops) {
+        try {
+          await enqueueAdjustment(op);
+        } catch (error) {
+          // Without IndexedDB the tap still syncs, it just won't survive a reload.
+          console.error("Failed to persist queued adjustment", error);
+        }
+      }
+
+      await flushQueue();
+    },
+    [allowedPizzaIdSet, flushQueue, params.eventId, updatePendingOps],
+  );
+
+  const commitDelta = useCallback(
+    async (pizzaId: string, delta: number) => {
+      if (!allowedPizzaIdSet.has(pizzaId) || delta === 0) {
+        return;
+      }
+
+      // A new tap starts a new branch, even before the server confirms it.
+      updateActionHistory({ ...actionHistoryRef.current, redo: [] });
+      await queueDeltas([{ pizzaId, delta }], {
+        kind: "record",
+        label: `${formatDelta(delta)} ${pizzaLabelById[pizzaId] ?? pizzaId}`,
+      });
+    },
+    [allowedPizzaIdSet, pizzaLabelById, queueDeltas, updateActionHistory],
+  );
+
+  useEffect(() => {
+    if (restoredQueueRef.current === params.eventId) {
+      return;
+    }
+    restoredQueueRef.current = params.eventId;
+
+    const restoreQueue = async () => {
+      try {
+        const stored = await listQueuedAdjustments(params.eventId);
+        if (stored.length === 0) {
+          return;
+        }
+        const known = new Set(pendingOpsRef.current.map((op) => op.id));
+        updatePendingOps([
+          ...stored.filter((op) => !known.has(op.id)),
+          ...pendingOpsRef.current,
+        ]);
+        setDraftTotals((current) =>
+          applyPendingDeltas(
+            hasLoadedRef.current ? totalsRef.current : current,
+            pendingOpsRef.current,
+          ),
+        );
+        await flushQueue();
+      } catch (error) {
+        console.error("Failed to restore queued adjustments", error);
+      }
+    };
+
+    void restoreQueue();
+  }, [flushQueue, params.eventId, updatePendingOps]);
+
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      void flushQueue();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [flushQueue]);
+
+  useEffect(() => {
+    if (pendingOps.length === 0) {
+      return;
+    }
+
+    // `online` is not fired when the network comes back but the API was the
+    // thing that was unreachable, so keep retrying on a timer as well.
+    const interval = window.setInterval(() => void flushQueue(), 15000);
+    return () => window.clearInterval(interval);
+  }, [flushQueue, pendingOps.length]);
+
   const handleAdjust = useCallback(
     (pizzaId: string, delta: number) => {
       if (
         !allowedPizzaIdSet.has(pizzaId) ||
-        saveState.pizzaId ||
+        isLocked ||
+        saveState.pizzaId === pizzaId ||
         restoringKey
       ) {
         return;
       }
 
-      const currentValue = draftTotals[pizzaId] ?? 0;
-      const nextValue = Math.max(0, currentValue + delta);
-      void commitCount(pizzaId, nextValue);
+      void commitDelta(pizzaId, delta);
     },
-    [
-      allowedPizzaIdSet,
-      commitCount,
-      draftTotals,
-      restoringKey,
-      saveState.pizzaId,
-    ],
+    [allowedPizzaIdSet, commitDelta, isLocked, restoringKey, saveState.pizzaId],
   );
 
   const handleInputChange = useCallback(
@@ -682,12 +1071,59 @@ export default function CounterPage({ params }: CounterPageProps) {
 
   const handleFinished = useCallback(async () => {
     setFeedback(null);
-    await handleSynchronizeTotals();
-    setFeedback({
-      type: "success",
-      text: "Totals synced. Ready for the next rush.",
-    });
-  }, [handleSynchronizeTotals]);
+    setFinalizing(true);
+
+    try {
+      await flushQueue();
+      const queued = pendingOpsRef.current.length;
+      if (queued > 0) {
+        setFeedback({
+          type: "error",
+          text: `${queued} tap${queued === 1 ? " is" : "s are"} still queued on this device. Reconnect before locking counts.`,
+        });
+        return;
+      }
+
+      const event = await finalizeEvent(params.eventId);
+      setEventDetails(event);
+      await handleSynchronizeTotals();
+      setFeedback({
+        type: "success",
+        text: "Counts finalised. The counter is now read-only.",
+      });
+    } catch (error) {
+      console.error("Failed to finalise event", error);
+      setFeedback({
+        type: "error",
+        text: getErrorMessage(error, "Could not lock counts."),
+      });
+    } finally {
+      setFinalizing(false);
+    }
+  }, [flushQueue, handleSynchronizeTotals, params.eventId]);
+
+  const handleReopen = useCallback(async () => {
+    const reason = reopenReason.trim();
+    if (!reason) {
+      setReopenError("Enter a reason for reopening.");
+      return;
+    }
+
+    setReopening(true);
+    setReopenError(null);
+
+    try {
+      const event = await reopenEvent(params.eventId, reason);
+      setEventDetails(event);
+      setReopenOpen(false);
+      setReopenReason("");
+      setFeedback({ type: "success", text: "Event reopened for counting." });
+    } catch (error) {
+      setReopenError(getErrorMessage(error, "Could not reopen event."));
+    } finally {
+      setReopening(false);
+    }
+  }, [params.eventId, reopenReason]);
 
   const handleOpenHistory = useCallback(() => {
     setHistoryOpen(true);
@@ -696,6 +1132,10 @@ export default function CounterPage({ params }: CounterPageProps) {
 
   const handleRestore = useCallback(
     async (snapshot: Snapshot) => {
+      if (isLocked) {
+        return;
+      }
+
       if (snapshot.items.length === 0) {
         setFeedback({
           type: "error",
@@ -728,29 +1168,15 @@ export default function CounterPage({ params }: CounterPageProps) {
           number
         >;
 
-        const currentTotals = normalizeTotals(allowedPizzas, totals);
-        const previousItems: SnapshotItem[] = allowedPizzas.map((pizza) => ({
-          pizza_id: pizza.id,
-          new_qty: currentTotals[pizza.id] ?? 0,
-        }));
-        const snapshotMap = new Map(
-          snapshot.items.map((entry) => [entry.pizza_id, entry.new_qty]),
-        );
-        const undoHighlights = allowedPizzas
-          .map((pizza) => pizza.id)
-          .filter(
-            (id) => (snapshotMap.get(id) ?? 0) !== (currentTotals[id] ?? 0),
-          );
-
-        await upsertPizzaTotals(params.eventId, payload);
+        const results = await setPizzaTotals(params.eventId, payload, getDeviceId());
 
-        setUndoSnapshot({
-          key: `undo-${Date.now()}`,
-          at: new Date().toISOString(),
-          items: previousItems,
-          highlighted: undoHighlights,
-          summary: buildSnapshotSummary(allowedPizzas, previousItems),
-        });
+        recordAction(
+          `Restored snapshot from ${formatDisplayDateTime(snapshot.at, eventTimeZone)}`,
+          Object.entries(results).map(([pizzaId, result]) => ({
+            pizzaId,
+            delta: result.applied,
+          })),
+        );
 
         setFeedback({ type: "success", text: "Snapshot restored." });
         setHistoryOpen(false);
@@ -768,59 +1194,72 @@ export default function CounterPage({ params }: CounterPageProps) {
     },
     [
       allowedPizzaIdSet,
-      allowedPizzas,
+      eventTimeZone,
       handleSynchronizeTotals,
+      isLocked,
       params.eventId,
-      totals,
+      recordAction,
     ],
   );
 
   const handleUndo = useCallback(async () => {
-    if (!undoSnapshot) {
+    const { undo, redo } = actionHistoryRef.current;
+    const action = undo[undo.length - 1];
+    if (!action || isLocked) {
       return;
     }
 
-    setRestoringKey("undo");
-    setFeedback(null);
+    updateActionHistory({ undo: undo.slice(0, -1), redo });
+    await queueDeltas(invertChanges(action.changes), { kind: "undo", action });
+    setFeedback({ type: "success", text: `Undid: ${action.label}` });
+  }, [isLocked, queueDeltas, updateActionHistory]);
 
-    try {
-      const payloadEntries = undoSnapshot.items
-        .filter((entry) => allowedPizzaIdSet.has(entry.pizza_id))
-        .map((entry) => [entry.pizza_id, sanitizeQty(entry.new_qty)] as const);
+  const handleRedo = useCallback(async () => {
+    const { undo, redo } = actionHistoryRef.current;
+    const action = redo[redo.length - 1];
+    if (!action || isLocked) {
+      return;
+    }
 
-      if (payloadEntries.length === 0) {
-        setFeedback({
-          type: "error",
-          text: "Nothing to undo for this package.",
-        });
-        setRestoringKey(null);
+    updateActionHistory({ undo, redo: redo.slice(0, -1) });
+    await queueDeltas(action.changes, { kind: "redo", action });
+    setFeedback({ type: "success", text: `Redid: ${action.label}` });
+  }, [isLocked, queueDeltas, updateActionHistory]);
+
+  useEffect(() => {
+    const handleShortcut = (event: globalThis.KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) {
         return;
       }
 
-      const payload = Object.fromEntries(payloadEntries) as Record<
-        string,
-        number
-      >;
+      // Leave native undo alone while someone is typing a count.
+      const target = event.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === "INPUT" ||
+          target.tagName === "TEXTAREA" ||
+          target.isContentEditable)
+      ) {
+        return;
+      }
 
-      await upsertPizzaTotals(params.eventId, payload);
-      setFeedback({ type: "success", text: "Undo applied." });
-      setUndoSnapshot(null);
-      await handleSynchronizeTotals();
-    } catch (error) {
-      const message =
-        error instanceof Error ? error.message : "Could not undo restore.";
-      setFeedback({ type: "error", text: message });
-    } finally {
-      setRestoringKey(null);
-    }
-  }, [
-    allowedPizzaIdSet,
-    handleSynchronizeTotals,
-    params.eventId,
-    undoSnapshot,
-  ]);
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        void handleUndo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        void handleRedo();
+      }
+    };
 
-  const isSyncing = saveState.pizzaId !== null || restoringKey !== null;
+    window.addEventListener("keydown", handleShortcut);
+    return () => window.removeEventListener("keydown", handleShortcut);
+  }, [handleRedo, handleUndo]);
+
+  const isSyncing =
+    saveState.pizzaId !== null || restoringKey !== null || flushing;
+  const pendingPizzaIds = new Set(pendingOps.map((op) => op.pizzaId));
   const isDirty = allowedPizzas.some(
     (pizza) => draftTotals[pizza.id] !== totals[pizza.id],
   );
@@ -844,8 +1283,23 @@ export default function CounterPage({ params }: CounterPageProps) {
     [allowedPizzas, totals],
   );
 
+  const productionTargets = useMemo(() => {
+    const breakdown = getGuestBreakdown({
+      guests: guestsTarget,
+      vegan_guests: eventDetails?.vegan_guests,
+      vegetarian_guests: eventDetails?.vegetarian_guests,
+    });
+    return breakdown ? getProductionTargets(breakdown, allowedPizzas, totals) : null;
+  }, [
+    allowedPizzas,
+    eventDetails?.vegan_guests,
+    eventDetails?.vegetarian_guests,
+    guestsTarget,
+    totals,
+  ]);
+
   const productionProgress = useMemo(() => {
-    if (guestsTarget === null) {
+    if (guestsTarget === null || productionTargets === null) {
       return null;
     }
 
@@ -853,7 +1307,14 @@ export default function CounterPage({ params }: CounterPageProps) {
       guestsTarget === 0 ? 0 : (totalPizzas / guestsTarget) * 100;
     const percent = Math.round(percentRaw * 10) / 10;
     const barPercent = Math.max(0, Math.min(percentRaw, 100));
-    const remaining = Math.round(guestsTarget - totalPizzas);
+    // Pizzas only count for guests who can eat them, so 40 pepperoni for 30
+    // vegan guests still leaves 30 to go.
+    const shortfall = productionTargets.categories.reduce(
+      (sum, category) => sum + category.shortfall,
+      0,
+    );
+    const remaining =
+      shortfall > 0 ? shortfall : -productionTargets.surplus;
     const statusType =
       remaining > 0 ? "remaining" : remaining < 0 ? "surplus" : "met";
     const absRemaining = Math.abs(remaining);
@@ -889,8 +1350,15 @@ export default function CounterPage({ params }: CounterPageProps) {
       statusClass,
       barColor,
       target: guestsTarget,
+      // Only worth a bar each when some guests have a dietary restriction.
+      categories:
+        productionTargets.categories.some(
+          (category) => category.category !== "unrestricted" && category.target > 0,
+        )
+          ? productionTargets.categories.filter((category) => category.target > 0)
+          : [],
     };
-  }, [guestsTarget, totalPizzas]);
+  }, [guestsTarget, productionTargets, totalPizzas]);
 
   return (
     <div className="space-y-8">
@@ -908,8 +1376,8 @@ export default function CounterPage({ params }: CounterPageProps) {
             <p className="text-sm text-rose-300">{eventError}</p>
           ) : (
             <p className="text-sm text-slate-300">
-              {eventDay
-                ? `Scheduled for ${eventDay}`
+              {eventSchedule
+                ? `Scheduled for ${eventSchedule}`
                 : "Keep pizzas flowing and we will tally the pies."}
             </p>
           )}
@@ -927,15 +1395,60 @@ export default function CounterPage({ params }: CounterPageProps) {
           </p>
         )}
 
-        {undoSnapshot && (
-          <button
-            type="button"
-            onClick={() => void handleUndo()}
-            disabled={restoringKey !== null}
-            className="inline-flex w-full items-center justify-center gap-2 rounded-lg border border-white/10 px-4 py-2 text-sm font-medium text-slate-100 transition hover:border-blue-400/60 hover:text-blue-300 disabled:cursor-not-allowed disabled:opacity-60 sm:w-auto"
-          >
-            {restoringKey === "undo" ? "Undoing..." : "Undo rollback"}
-          </button>
+        {isLocked && eventDetails?.finalized_at && (
+          <div className="space-y-3 rounded-xl border border-emerald-400/40 bg-emerald-950/30 px-4 py-3 text-sm text-emerald-100">
+            <p>
+              Counts were finalised{" "}
+              {formatDisplayDateTime(eventDetails.finalized_at, eventTimeZone)}. The
+              counter is read-only.
+            </p>
+            {role === "admin" &&
+              (reopenOpen ? (
+                <div className="space-y-2">
+                  <label className="block space-y-1 text-xs font-medium uppercase tracking-wide text-emerald-200">
+                    Reason for reopening
+                    <textarea
+                      value={reopenReason}
+                      onChange={(event) => setReopenReason(event.target.value)}
+                      rows={2}
+                      aria-invalid={reopenError ? true : undefined}
+                      className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm normal-case tracking-normal text-slate-100 focus:border-blue-400/60 focus:outline-none"
+                    />
+                  </label>
+                  {reopenError && (
+                    <p className="text-xs text-rose-300">{reopenError}</p>
+                  )}
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => void handleReopen()}
+                      disabled={reopening}
+                      className="inline-flex items-center justify-center rounded-lg bg-amber-500 px-3 py-1.5 text-xs font-semibold text-slate-950 transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      {reopening ? "Reopening..." : "Reopen counts"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setReopenOpen(false);
+                        setReopenError(null);
+                      }}
+                      className="inline-flex items-center justify-center rounded-lg border border-white/10 px-3 py-1.5 text-xs font-medium text-slate-100 transition hover:border-blue-400/60 hover:text-blue-300"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setReopenOpen(true)}
+                  className="inline-flex items-center justify-center rounded-lg border border-white/10 px-3 py-1.5 text-xs font-medium text-slate-100 transition hover:border-amber-400/60 hover:text-amber-300"
+                >
+                  Reopen event
+                </button>
+              ))}
+          </div>
         )}
       </header>
 
@@ -960,6 +1473,14 @@ export default function CounterPage({ params }: CounterPageProps) {
                 {syncLabel}
               </span>
             )}
+            {pendingOps.length > 0 && (
+              <span
+                className="inline-flex items-center rounded-full border border-amber-400/40 px-3 py-1 text-xs font-medium text-amber-200"
+                title="Taps saved on this device that have not reached the server yet"
+              >
+                {pendingOps.length} queued{isOnline ? "" : " · offline"}
+              </span>
+            )}
             <button
               type="button"
               onClick={handleOpenHistory}
@@ -1011,6 +1532,7 @@ export default function CounterPage({ params }: CounterPageProps) {
             {allowedPizzas.map((pizza) => {
               const draftValue = draftTotals[pizza.id] ?? 0;
               const isSaving = saveState.pizzaId === pizza.id;
+              const isPending = pendingPizzaIds.has(pizza.id);
 
               return (
                 <div
@@ -1018,12 +1540,22 @@ export default function CounterPage({ params }: CounterPageProps) {
                   className="rounded-2xl border border-white/10 bg-slate-900/70 p-5 shadow-inner shadow-black/30"
                 >
                   <header className="flex flex-col gap-1">
-                    <p className="text-lg font-semibold text-slate-100">
-                      {pizzaLabelById[pizza.id]}
-                    </p>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="text-lg font-semibold text-slate-100">
+                        {pizzaLabelById[pizza.id]}
+                      </p>
+                      <DietBadge pizza={pizza} />
+                    </div>
+                    <AllergenInfo pizza={pizza} />
                     <p className="text-xs uppercase tracking-wide text-slate-500">
                       Previous count:{" "}
                       {totalsLoading ? "--" : (previousTotals[pizza.id] ?? 0)}
+                      {productionTargets ? (
+                        <>
+                          {" "}
+                          · Target: {productionTargets.perPizza[pizza.id] ?? 0}
+                        </>
+                      ) : null}
                     </p>
                   </header>
 
@@ -1032,6 +1564,7 @@ export default function CounterPage({ params }: CounterPageProps) {
                       type="button"
                       onClick={() => handleAdjust(pizza.id, -1)}
                       disabled={
+                        isLocked ||
                         isSaving ||
                         restoringKey !== null ||
                         (draftTotals[pizza.id] ?? 0) <= 0
@@ -1045,6 +1578,7 @@ export default function CounterPage({ params }: CounterPageProps) {
                       min={0}
                       inputMode="numeric"
                       value={draftValue}
+                      readOnly={isLocked}
                       onChange={(event) =>
                         handleInputChange(pizza.id, event.target.value)
                       }
@@ -1063,16 +1597,16 @@ export default function CounterPage({ params }: CounterPageProps) {
                     <button
                       type="button"
                       onClick={() => handleAdjust(pizza.id, 1)}
-                      disabled={isSaving || restoringKey !== null}
+                      disabled={isLocked || isSaving || restoringKey !== null}
                       className="inline-flex h-12 w-12 flex-none items-center justify-center rounded-full bg-slate-950/70 text-2xl font-semibold text-slate-100 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
                     >
                       +
                     </button>
                   </div>
 
-                  {isSaving && (
+                  {(isSaving || isPending) && (
                     <p className="mt-3 text-center text-xs uppercase tracking-wide text-blue-300">
-                      Syncing...
+                      {isPending && !isOnline ? "Queued offline" : "Syncing..."}
                     </p>
                   )}
                 </div>
@@ -1082,6 +1616,62 @@ export default function CounterPage({ params }: CounterPageProps) {
         )}
       </section>
 
+      <section className="space-y-3 rounded-2xl border border-white/10 bg-slate-900/70 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-400">
+              Recent actions
+            </h2>
+            <p className="text-xs text-slate-500">
+              Ctrl/⌘+Z to undo, Ctrl/⌘+Shift+Z to redo.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => void handleUndo()}
+              disabled={isLocked || actionHistory.undo.length === 0}
+              className="inline-flex items-center justify-center rounded-lg border border-white/10 px-3 py-1.5 text-sm font-medium text-slate-100 transition hover:border-blue-400/60 hover:text-blue-300 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Undo
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleRedo()}
+              disabled={isLocked || actionHistory.redo.length === 0}
+              className="inline-flex items-center justify-center rounded-lg border border-white/10 px-3 py-1.5 text-sm font-medium text-slate-100 transition hover:border-blue-400/60 hover:text-blue-300 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Redo
+            </button>
+          </div>
+        </div>
+
+        {actionHistory.undo.length === 0 ? (
+          <p className="text-sm text-slate-400">
+            Nothing to undo in this session yet.
+          </p>
+        ) : (
+          <ol className="space-y-1 text-sm text-slate-200">
+            {[...actionHistory.undo]
+              .reverse()
+              .slice(0, RECENT_ACTIONS_SHOWN)
+              .map((action, index) => (
+                <li
+                  key={action.id}
+                  className="flex items-center justify-between rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2"
+                >
+                  <span className={index === 0 ? "font-semibold" : undefined}>
+                    {action.label}
+                  </span>
+                  <span className="text-xs text-slate-500">
+                    {formatDisplayDateTime(action.at, eventTimeZone)}
+                  </span>
+                </li>
+              ))}
+          </ol>
+        )}
+      </section>
+
       <section className="space-y-4 rounded-2xl border border-white/10 bg-slate-900/70 p-6">
         <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
           <div>
@@ -1140,6 +1730,55 @@ export default function CounterPage({ params }: CounterPageProps) {
                   </div>
                 ) : null}
               </div>
+              {productionProgress.categories.length > 0 && (
+                <ul className="space-y-2 border-t border-white/10 pt-3">
+                  {productionProgress.categories.map((category) => (
+                    <li key={category.category} className="space-y-1">
+                      <div className="flex items-center justify-between text-xs text-slate-300">
+                        <span>
+                          {category.label}: {category.covered} /{" "}
+                          {category.target}
+                        </span>
+                        <span
+                          className={
+                            "font-medium " +
+                            (category.shortfall > 0
+                              ? "text-amber-300"
+                              : "text-emerald-300")
+                          }
+                        >
+                          {category.unservable
+                            ? "No suitable pizza in this package"
+                            : category.shortfall > 0
+                              ? category.shortfall + " short"
+                              : "Covered"}
+                        </span>
+                      </div>
+                      <div
+                        className={
+                          "h-2 w-full overflow-hidden rounded-full bg-slate-800/70" +
+                          (category.shortfall > 0
+                            ? " ring-1 ring-amber-400/60"
+                            : "")
+                        }
+                      >
+                        <div
+                          className={
+                            "h-full rounded-full " +
+                            (category.shortfall > 0
+                              ? "bg-amber-400"
+                              : "bg-emerald-500")
+                          }
+                          style={{
+                            width:
+                              (category.covered / category.target) * 100 + "%",
+                          }}
+                        />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           ) : (
             <p className="mt-3 text-sm text-slate-400">
@@ -1159,7 +1798,15 @@ export default function CounterPage({ params }: CounterPageProps) {
                   className="flex items-center justify-between rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2"
                 >
                   <span>{pizzaLabelById[pizza.id]}</span>
-                  <span className="font-semibold">{pizza.total}</span>
+                  <span className="font-semibold">
+                    {pizza.total}
+                    {productionTargets ? (
+                      <span className="font-normal text-slate-400">
+                        {" "}
+                        / {productionTargets.perPizza[pizza.id] ?? 0}
+                      </span>
+                    ) : null}
+                  </span>
                 </li>
               ))}
           </ul>
@@ -1168,9 +1815,14 @@ export default function CounterPage({ params }: CounterPageProps) {
         <button
           type="button"
           onClick={() => void handleFinished()}
-          className="w-full rounded-lg bg-emerald-500 px-4 py-3 text-sm font-semibold text-white transition hover:bg-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-300"
+          disabled={isLocked || finalizing || !eventDetails}
+          className="w-full rounded-lg bg-emerald-500 px-4 py-3 text-sm font-semibold text-white transition hover:bg-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-300 disabled:cursor-not-allowed disabled:opacity-60"
         >
-          Finish & lock counts
+          {isLocked
+            ? "Counts locked"
+            : finalizing
+              ? "Locking..."
+              : "Finish & lock counts"}
         </button>
       </section>
 
@@ -1218,12 +1870,12 @@ export default function CounterPage({ params }: CounterPageProps) {
                   >
                     <div className="flex items-center justify-between">
                       <p className="text-sm font-medium text-slate-100">
-                        {formatDisplayDateTime(snapshot.at)}
+                        {formatDisplayDateTime(snapshot.at, eventTimeZone)}
                       </p>
                       <button
                         type="button"
                         onClick={() => void handleRestore(snapshot)}
-                        disabled={restoringKey !== null}
+                        disabled={isLocked || restoringKey !== null}
                         className="rounded-lg border border-blue-400/60 px-3 py-1 text-xs font-semibold text-blue-200 transition hover:bg-blue-500/10 disabled:cursor-not-allowed disabled:opacity-60"
                       >
                         {restoringKey === snapshot.key
@@ -1,19 +1,22 @@
+import { getDietLabel } from "../../../../lib/catalog";
+import { getPackageLabel } from "../../../../lib/packages";
 import {
   getAllowedPizzasForEvent,
   getEventById,
+  getPackages,
   getPizzaTotals,
 } from "../../../../lib/queries";
+import { formatServiceWindow, getServiceWindows } from "../../../../lib/schedule";
+import { createServerSupabaseClient } from "../../../../lib/supabaseServer";
 import type { PizzaTotal } from "../../../../lib/types";
+import AllergenInfo from "../../../components/AllergenInfo";
+import EventMenuSync from "../../../components/EventMenuSync";
+import EventStaffAssignment from "../../../components/EventStaffAssignment";
 
 interface SummaryPageProps {
   params: { eventId: string };
 }
 
-const PACKAGE_LABELS: Record<string, string> = {
-  standard: "Standard",
-  premium: "Premium",
-};
-
 const toTotalsMap = (totals: PizzaTotal[]) => {
   const map = new Map<string, number>();
   for (const row of totals) {
@@ -24,15 +27,21 @@ const toTotalsMap = (totals: PizzaTotal[]) => {
 
 export default async function EventSummaryPage({ params }: SummaryPageProps) {
   let error: string | null = null;
+  const supabase = createServerSupabaseClient();
 
   try {
-    const [event, allowedPizzas, totals] = await Promise.all([
-      getEventById(params.eventId),
-      getAllowedPizzasForEvent(params.eventId),
-      getPizzaTotals(params.eventId),
+    const [event, allowedPizzas, totals, packages] = await Promise.all([
+      getEventById(params.eventId, supabase),
+      getAllowedPizzasForEvent(params.eventId, supabase),
+      getPizzaTotals(params.eventId, supabase),
+      getPackages(supabase),
     ]);
 
     const totalsByPizzaId = toTotalsMap(totals);
+    // Past and locked events keep the menu they were served with.
+    const upcoming =
+      !event.finalized_at &&
+      new Date(event.ends_at ?? event.event_date).getTime() >= Date.now();
 
     return (
       <div className="space-y-6">
@@ -40,15 +49,35 @@ export default async function EventSummaryPage({ params }: SummaryPageProps) {
           <p className="text-xs uppercase tracking-wide text-slate-400">
             Event summary
           </p>
-          <h1 className="text-3xl font-semibold text-slate-100">
-            {event.name}
-          </h1>
+          <div className="flex flex-wrap items-center gap-3">
+            <h1 className="text-3xl font-semibold text-slate-100">
+              {event.name}
+            </h1>
+            {event.finalized_at ? (
+              <span className="inline-flex items-center rounded-full border border-emerald-400/40 px-3 py-1 text-xs font-medium text-emerald-300">
+                Final
+              </span>
+            ) : (
+              <span className="inline-flex items-center rounded-full border border-amber-400/40 px-3 py-1 text-xs font-medium text-amber-300">
+                Provisional
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-slate-400">
+            {event.finalized_at
+              ? `Counts finalised ${new Date(event.finalized_at).toLocaleString(undefined, { timeZone: event.timezone })}.`
+              : event.reopened_at
+                ? `Reopened ${new Date(event.reopened_at).toLocaleString(undefined, { timeZone: event.timezone })}: ${event.reopen_reason ?? "no reason given"}. Counts may still change.`
+                : "Counts are still open and may change."}
+          </p>
           <dl className="grid gap-2 text-sm text-slate-300 sm:grid-cols-2">
             <div>
               <dt className="text-xs uppercase tracking-wide text-slate-500">
                 Date
               </dt>
-              <dd>{new Date(event.event_date).toLocaleString()}</dd>
+              {getServiceWindows(event).map((window) => (
+                <dd key={window.starts_at}>{formatServiceWindow(window, event.timezone)}</dd>
+              ))}
             </div>
             <div>
               <dt className="text-xs uppercase tracking-wide text-slate-500">
@@ -61,9 +90,7 @@ export default async function EventSummaryPage({ params }: SummaryPageProps) {
                 Package
               </dt>
               <dd>
-                {event.package_id
-                  ? (PACKAGE_LABELS[event.package_id] ?? event.package_id)
-                  : "Not assigned"}
+                {getPackageLabel(packages, event.package_id) ?? "Not assigned"}
               </dd>
             </div>
             <div>
@@ -78,7 +105,7 @@ export default async function EventSummaryPage({ params }: SummaryPageProps) {
         <section className="space-y-4 rounded-xl border border-white/10 bg-slate-900/60 p-6">
           <div className="flex items-center justify-between">
             <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-400">
-              Allowed pizzas
+              Menu
             </h2>
             <span className="text-xs text-slate-500">
               {allowedPizzas.length} types
@@ -87,7 +114,7 @@ export default async function EventSummaryPage({ params }: SummaryPageProps) {
 
           {allowedPizzas.length === 0 ? (
             <p className="text-sm text-slate-300">
-              No pizzas are currently linked to this event&apos;s package.
+              This event has no pizzas on its menu.
             </p>
           ) : (
             <ul className="space-y-2">
@@ -99,12 +126,9 @@ export default async function EventSummaryPage({ params }: SummaryPageProps) {
                   <div>
                     <p className="font-medium text-slate-100">{pizza.name}</p>
                     <p className="text-xs text-slate-500">
-                      {pizza.vegan
-                        ? "Vegan"
-                        : pizza.vegetarian
-                          ? "Vegetarian"
-                          : "Contains meat"}
+                      {getDietLabel(pizza) ?? "Not vegetarian"}
                     </p>
+                    <AllergenInfo pizza={pizza} className="mt-1" />
                   </div>
                   <span className="text-sm font-semibold text-slate-200">
                     {totalsByPizzaId.get(pizza.id) ?? 0}
@@ -113,7 +137,11 @@ export default async function EventSummaryPage({ params }: SummaryPageProps) {
               ))}
             </ul>
           )}
+
+          {upcoming && <EventMenuSync eventId={event.id} />}
         </section>
+
+        <EventStaffAssignment eventId={event.id} />
       </div>
     );
   } catch (err) {
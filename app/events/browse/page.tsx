@@ -2,14 +2,37 @@
 
 import Link from "next/link";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  formatServiceWindow,
+  formatTimeRange,
+  getServiceWindows,
+  type ServiceWindow,
+} from "../../../lib/schedule";
 import supabase from "../../../lib/supabaseClient";
+import {
+  addDaysToKey,
+  getDayKeysQueryRange,
+  getDayOfWeek,
+  getZonedDayKey,
+  resolveTimeZone,
+} from "../../../lib/timezone";
 
 type EventRecord = {
   id: string;
   name: string;
   event_date: string;
+  ends_at: string | null;
+  service_windows: ServiceWindow[] | null;
+  timezone: string | null;
 };
 
+// Which venue days to show. "relative" is counted from each venue's own
+// today, so an event abroad lands in the bucket its guests would expect.
+type DayBucket =
+  | { kind: "date"; day: string }
+  | { kind: "relative"; days: number }
+  | { kind: "weekend" };
+
 const getLocalISODate = (date: Date) => {
   const offsetMs = date.getTimezoneOffset() * 60_000;
   const local = new Date(date.getTime() - offsetMs);
@@ -48,17 +71,6 @@ const formatDisplayDate = (value: string) => {
   }).format(parsed);
 };
 
-const getDayRangeUTC = (value: string) => {
-  const localStart = new Date(`${value}T00:00:00`);
-  const offsetMs = localStart.getTimezoneOffset() * 60_000;
-  const utcStartMs = localStart.getTime() - offsetMs;
-  const utcEndMs = utcStartMs + 24 * 60 * 60 * 1000;
-  return {
-    start: new Date(utcStartMs).toISOString(),
-    end: new Date(utcEndMs).toISOString(),
-  };
-};
-
 const getUpcomingRangeUTC = (startDayISO: string, daysAhead = 30) => {
   const localStart = new Date(`${startDayISO}T00:00:00`);
   const startISO = toUTCISO(localStart);
@@ -67,34 +79,60 @@ const getUpcomingRangeUTC = (startDayISO: string, daysAhead = 30) => {
   return { startISO, endISO };
 };
 
-const getNextWeekendRangeUTC = (todayLocalISO: string) => {
-  const localStart = new Date(`${todayLocalISO}T00:00:00`);
-  const dayOfWeek = localStart.getDay();
+// On a Saturday or Sunday, "next weekend" is the following one.
+const getNextWeekendStart = (todayKey: string) => {
+  const dayOfWeek = getDayOfWeek(todayKey);
   let daysUntilSaturday = (6 - dayOfWeek + 7) % 7;
   if (dayOfWeek === 6 || dayOfWeek === 0) {
     daysUntilSaturday += 7;
   }
-  const saturdayStartLocal = new Date(
-    localStart.getTime() + daysUntilSaturday * DAY_MS
-  );
-  const mondayStartLocal = new Date(saturdayStartLocal.getTime() + 2 * DAY_MS);
-  return {
-    startISO: toUTCISO(saturdayStartLocal),
-    endISO: toUTCISO(mondayStartLocal),
-  };
+  return addDaysToKey(todayKey, daysUntilSaturday);
 };
 
-const toLocalDayKey = (value: string) => {
-  const normalized = normalizeTimestamp(value);
-  const parsed = new Date(normalized);
-  if (Number.isNaN(parsed.getTime())) {
-    return null;
+// Venues can be a day ahead of or behind the viewer, so relative buckets
+// query one extra day on each side.
+const getNextWeekendRangeUTC = (todayLocalISO: string) => {
+  const saturday = getNextWeekendStart(todayLocalISO);
+  return getDayKeysQueryRange(addDaysToKey(saturday, -1), addDaysToKey(saturday, 2));
+};
+
+const getBucketRangeUTC = (bucket: DayBucket, todayLocalISO: string) => {
+  if (bucket.kind === "date") {
+    return getDayKeysQueryRange(bucket.day);
+  }
+  if (bucket.kind === "weekend") {
+    return getNextWeekendRangeUTC(todayLocalISO);
   }
-  return getLocalISODate(parsed);
+  const day = addDaysToKey(todayLocalISO, bucket.days);
+  return getDayKeysQueryRange(addDaysToKey(day, -1), addDaysToKey(day, 1));
 };
 
-const filterEventsByDay = (rows: EventRecord[], dayKey: string) =>
-  rows.filter((row) => toLocalDayKey(row.event_date) === dayKey);
+const matchesBucket = (row: EventRecord, bucket: DayBucket, now: Date) => {
+  const timeZone = resolveTimeZone(row.timezone);
+  const venueDay = getZonedDayKey(normalizeTimestamp(row.event_date), timeZone);
+  const venueToday = getZonedDayKey(now, timeZone);
+  if (!venueDay || !venueToday) {
+    return false;
+  }
+  if (bucket.kind === "date") {
+    return venueDay === bucket.day;
+  }
+  if (bucket.kind === "relative") {
+    return venueDay === addDaysToKey(venueToday, bucket.days);
+  }
+  const saturday = getNextWeekendStart(venueToday);
+  return venueDay === saturday || venueDay === addDaysToKey(saturday, 1);
+};
+
+const getBucket = (
+  filter: "today" | "tomorrow" | "weekend" | "date" | "auto",
+  selectedDate: string
+): DayBucket => {
+  if (filter === "today") return { kind: "relative", days: 0 };
+  if (filter === "tomorrow") return { kind: "relative", days: 1 };
+  if (filter === "weekend") return { kind: "weekend" };
+  return { kind: "date", day: selectedDate };
+};
 
 export default function EventsBrowsePage() {
   const today = useMemo(() => getLocalISODate(new Date()), []);
@@ -159,10 +197,17 @@ export default function EventsBrowsePage() {
       options?: {
         mode?: "day" | "weekend" | "upcoming";
         range?: { startISO: string; endISO: string };
+        bucket?: DayBucket;
       }
     ) => {
       const mode = options?.mode ?? "day";
       const rangeOverride = options?.range;
+      const bucket: DayBucket | null =
+        mode === "weekend"
+          ? { kind: "weekend" }
+          : mode === "day"
+            ? (options?.bucket ?? { kind: "date", day: eventDate })
+            : null;
 
       if (!eventDate && mode === "day") {
         return;
@@ -183,7 +228,7 @@ export default function EventsBrowsePage() {
         ) => {
           let query = supabase
             .from("events")
-            .select("id, name, event_date")
+            .select("id, name, event_date, ends_at, service_windows, timezone")
             .gte("event_date", startISO)
             .lt("event_date", endISO)
             .order("event_date", { ascending: true });
@@ -195,18 +240,17 @@ export default function EventsBrowsePage() {
           return query;
         };
 
+        const todayLocalISO = getLocalISODate(new Date());
         let queryStart: string | null = null;
         let queryEnd: string | null = null;
-        let dayKey: string | null = null;
-
-        if (mode === "day") {
-          const { start, end } = getDayRangeUTC(eventDate);
-          queryStart = start;
-          queryEnd = end;
-          dayKey = getLocalISODate(new Date(`${eventDate}T00:00:00`));
-        } else if (rangeOverride) {
+
+        if (rangeOverride) {
           queryStart = rangeOverride.startISO;
           queryEnd = rangeOverride.endISO;
+        } else if (bucket) {
+          const range = getBucketRangeUTC(bucket, todayLocalISO);
+          queryStart = range.startISO;
+          queryEnd = range.endISO;
         }
 
         if (!queryStart || !queryEnd) {
@@ -224,11 +268,11 @@ export default function EventsBrowsePage() {
           throw supabaseError;
         }
 
-        let rows = data ?? [];
-        let filtered =
-          mode === "day" && dayKey ? filterEventsByDay(rows, dayKey) : rows;
-
-        const todayLocalISO = getLocalISODate(new Date());
+        const rows = (data ?? []) as EventRecord[];
+        const now = new Date();
+        let filtered = bucket
+          ? rows.filter((row) => matchesBucket(row, bucket, now))
+          : rows;
 
         if (
           mode === "day" &&
@@ -283,14 +327,20 @@ export default function EventsBrowsePage() {
       return;
     }
 
-    void fetchEvents(selectedDate, { mode: "day" });
+    void fetchEvents(selectedDate, {
+      mode: "day",
+      bucket: getBucket(activeFilter, selectedDate),
+    });
   }, [activeFilter, weekendRange, fetchEvents, selectedDate, fallbackMode]);
 
   useEffect(() => {
     if (activeFilter === "weekend" || activeFilter === "auto") {
       return;
     }
-    void fetchEvents(selectedDate, { mode: "day" });
+    void fetchEvents(selectedDate, {
+      mode: "day",
+      bucket: getBucket(activeFilter, selectedDate),
+    });
   }, [fetchEvents, selectedDate, activeFilter]);
 
   useEffect(() => {
@@ -365,10 +415,10 @@ export default function EventsBrowsePage() {
       return `No events on ${formattedDate} - showing upcoming events. ${countText}`;
     }
     if (activeFilter === "weekend") {
-      return `Showing events for Next weekend (local time). ${countText}`;
+      return `Showing events for Next weekend (venue time). ${countText}`;
     }
     const formattedDate = formatDisplayDate(selectedDate);
-    return `Showing events for ${formattedDate} (local time). ${countText}`;
+    return `Showing events for ${formattedDate} (venue time). ${countText}`;
   }, [events.length, fallbackMode, activeFilter, selectedDate]);
 
   return (
@@ -381,6 +431,12 @@ export default function EventsBrowsePage() {
           Select a date to find scheduled events, then jump into the live
           counter or summary for each one.
         </p>
+        <Link
+          href="/events/calendar"
+          className="inline-flex text-sm font-medium text-blue-300 underline decoration-dotted underline-offset-4 hover:text-blue-200"
+        >
+          Subscribe in your calendar app
+        </Link>
       </section>
 
       <section className="space-y-6">
@@ -488,6 +544,7 @@ export default function EventsBrowsePage() {
           {decoratedEvents.map(({ event, deltaMs }) => {
             const proximity = getProximityChip(deltaMs);
             const isNextUp = nextUpEventId === event.id && deltaMs > 0;
+            const windows = getServiceWindows(event);
 
             return (
               <article
@@ -512,7 +569,13 @@ export default function EventsBrowsePage() {
                         {event.name}
                       </h2>
                       <p className="flex flex-wrap items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
-                        {formatDisplayDate(event.event_date)}
+                        {windows.length > 0
+                          ? formatTimeRange(
+                              windows[0].starts_at,
+                              windows[windows.length - 1].ends_at,
+                              event.timezone
+                            )
+                          : formatDisplayDate(event.event_date)}
                         {proximity && (
                           <span
                             className={`inline-flex items-center rounded-full px-2 py-0.5 text-[0.7rem] font-semibold ${proximity.className}`}
@@ -521,6 +584,14 @@ export default function EventsBrowsePage() {
                           </span>
                         )}
                       </p>
+                      {windows.length > 1 && (
+                        <p className="mt-1 text-xs text-slate-400">
+                          {windows.length} service windows:{" "}
+                          {windows
+                            .map((window) => formatServiceWindow(window, event.timezone))
+                            .join(" · ")}
+                        </p>
+                      )}
                     </div>
                     <span className="text-xs uppercase tracking-wide text-blue-300">
                       Live counter
@@ -0,0 +1,377 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import type {
+  CalendarFeed,
+  CalendarFeedField,
+} from "../../../lib/calendarFeeds";
+import { getPackageLabel } from "../../../lib/packages";
+import { getPackages } from "../../../lib/queries";
+import { STAFF_MANAGER_ROLES, type StaffMember } from "../../../lib/staff";
+import type { Package } from "../../../lib/types";
+import { useAuthRole } from "../../../lib/useAuthRole";
+
+type FeedWithUrls = CalendarFeed & { urls: { https: string; webcal: string } };
+
+const emptyForm = {
+  label: "",
+  starts_on: "",
+  ends_on: "",
+  package_id: "",
+  only_mine: false,
+  staff_user_id: ""
+};
+
+const inputClass =
+  "w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 focus:border-blue-400/60 focus:outline-none";
+
+const describeFilters = (
+  feed: CalendarFeed,
+  packages: Package[],
+  staff: StaffMember[],
+  userId: string | undefined
+) => {
+  const parts = [
+    feed.starts_on || feed.ends_on
+      ? `${feed.starts_on ?? "…"} to ${feed.ends_on ?? "…"}`
+      : "All dates",
+    getPackageLabel(packages, feed.package_id) ?? "All packages"
+  ];
+  if (feed.staff_user_id) {
+    const member = staff.find((entry) => entry.user_id === feed.staff_user_id);
+    parts.push(
+      feed.staff_user_id === userId
+        ? "Assigned to me"
+        : `Assigned to ${member?.email ?? "a staff member"}`
+    );
+  }
+  return parts.join(" · ");
+};
+
+export default function CalendarFeedsPage() {
+  const [feeds, setFeeds] = useState<FeedWithUrls[]>([]);
+  const [packages, setPackages] = useState<Package[]>([]);
+  const { session, role } = useAuthRole();
+  const canPickStaff = role !== null && STAFF_MANAGER_ROLES.includes(role);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [fieldErrors, setFieldErrors] = useState<
+    Partial<Record<CalendarFeedField, string>>
+  >({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const fetchFeeds = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/calendar-feeds", { cache: "no-store" });
+      const result = (await response.json()) as {
+        feeds?: FeedWithUrls[];
+        error?: string;
+      };
+
+      if (!response.ok) {
+        throw new Error(result.error ?? "Unable to load feeds.");
+      }
+
+      setFeeds(result.feeds ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load feeds.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchFeeds();
+  }, [fetchFeeds]);
+
+  useEffect(() => {
+    getPackages()
+      .then(setPackages)
+      .catch((err: unknown) => console.error("Failed to load packages", err));
+  }, []);
+
+  useEffect(() => {
+    if (!canPickStaff) {
+      return;
+    }
+
+    fetch("/api/admin/staff", { cache: "no-store" })
+      .then((response) => response.json() as Promise<{ staff?: StaffMember[] }>)
+      .then((result) => setStaff(result.staff ?? []))
+      .catch((err: unknown) => console.error("Failed to load staff", err));
+  }, [canPickStaff]);
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    setFieldErrors({});
+
+    try {
+      const response = await fetch("/api/calendar-feeds", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form)
+      });
+      const result = (await response.json()) as {
+        feed?: FeedWithUrls;
+        errors?: Partial<Record<CalendarFeedField, string>>;
+        error?: string;
+      };
+
+      if (response.status === 422 && result.errors) {
+        setFieldErrors(result.errors);
+        return;
+      }
+
+      if (!response.ok || !result.feed) {
+        throw new Error(result.error ?? "Unable to create feed.");
+      }
+
+      setFeeds((current) => [result.feed as FeedWithUrls, ...current]);
+      setForm(emptyForm);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to create feed.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (feedId: string) => {
+    setRevokingId(feedId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/calendar-feeds/${feedId}`, {
+        method: "DELETE"
+      });
+      const result = (await response.json()) as { error?: string };
+
+      if (!response.ok) {
+        throw new Error(result.error ?? "Unable to revoke feed.");
+      }
+
+      setFeeds((current) => current.filter((feed) => feed.id !== feedId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to revoke feed.");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopy = async (feed: FeedWithUrls) => {
+    try {
+      await navigator.clipboard.writeText(feed.urls.https);
+      setCopiedId(feed.id);
+      window.setTimeout(() => setCopiedId(null), 2000);
+    } catch {
+      setError("Could not copy the link. Select it and copy it manually.");
+    }
+  };
+
+  const renderFieldError = (field: CalendarFeedField) =>
+    fieldErrors[field] ? (
+      <span className="block text-xs normal-case tracking-normal text-rose-300">
+        {fieldErrors[field]}
+      </span>
+    ) : null;
+
+  return (
+    <div className="mx-auto w-full max-w-4xl space-y-8 py-10">
+      <header className="space-y-2">
+        <Link
+          href="/events/browse"
+          className="text-xs font-medium uppercase tracking-wide text-slate-400 hover:text-blue-300"
+        >
+          ← Browse events
+        </Link>
+        <h1 className="text-3xl font-semibold tracking-tight text-slate-100">
+          Calendar subscriptions
+        </h1>
+        <p className="text-sm text-slate-300">
+          Subscribe once and approved events show up in your calendar app. New
+          and changed events are picked up automatically. Anyone with a feed
+          link can read it, so revoke links you no longer use.
+        </p>
+      </header>
+
+      {error && (
+        <div className="rounded-xl border border-rose-500/40 bg-rose-950/40 px-4 py-3 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+
+      <form
+        onSubmit={handleCreate}
+        className="grid gap-4 rounded-2xl border border-white/10 bg-slate-900/70 p-6 sm:grid-cols-2"
+      >
+        <label className="space-y-1 text-xs font-medium uppercase tracking-wide text-slate-400 sm:col-span-2">
+          Feed name
+          <input
+            value={form.label}
+            onChange={(event) =>
+              setForm((current) => ({ ...current, label: event.target.value }))
+            }
+            placeholder="My shifts"
+            aria-invalid={fieldErrors.label ? true : undefined}
+            className={inputClass}
+          />
+          {renderFieldError("label")}
+        </label>
+        <label className="space-y-1 text-xs font-medium uppercase tracking-wide text-slate-400">
+          From
+          <input
+            type="date"
+            value={form.starts_on}
+            onChange={(event) =>
+              setForm((current) => ({ ...current, starts_on: event.target.value }))
+            }
+            aria-invalid={fieldErrors.starts_on ? true : undefined}
+            className={inputClass}
+          />
+          {renderFieldError("starts_on")}
+        </label>
+        <label className="space-y-1 text-xs font-medium uppercase tracking-wide text-slate-400">
+          Until
+          <input
+            type="date"
+            value={form.ends_on}
+            onChange={(event) =>
+              setForm((current) => ({ ...current, ends_on: event.target.value }))
+            }
+            aria-invalid={fieldErrors.ends_on ? true : undefined}
+            className={inputClass}
+          />
+          {renderFieldError("ends_on")}
+        </label>
+        <label className="space-y-1 text-xs font-medium uppercase tracking-wide text-slate-400">
+          Package
+          <select
+            value={form.package_id}
+            onChange={(event) =>
+              setForm((current) => ({ ...current, package_id: event.target.value }))
+            }
+            aria-invalid={fieldErrors.package_id ? true : undefined}
+            className={inputClass}
+          >
+            <option value="">All packages</option>
+            {packages.map((pkg) => (
+              <option key={pkg.id} value={pkg.id}>
+                {pkg.label}
+              </option>
+            ))}
+          </select>
+          {renderFieldError("package_id")}
+        </label>
+        {canPickStaff ? (
+          <label className="space-y-1 text-xs font-medium uppercase tracking-wide text-slate-400">
+            Assigned staff
+            <select
+              value={form.staff_user_id}
+              onChange={(event) =>
+                setForm((current) => ({ ...current, staff_user_id: event.target.value }))
+              }
+              aria-invalid={fieldErrors.staff_user_id ? true : undefined}
+              className={inputClass}
+            >
+              <option value="">All events</option>
+              {staff.map((member) => (
+                <option key={member.user_id} value={member.user_id}>
+                  {member.user_id === session?.user.id
+                    ? `${member.email} (me)`
+                    : member.email}
+                </option>
+              ))}
+            </select>
+            {renderFieldError("staff_user_id")}
+          </label>
+        ) : (
+          <label className="flex items-center gap-2 self-end text-sm text-slate-200">
+            <input
+              type="checkbox"
+              checked={form.only_mine}
+              onChange={(event) =>
+                setForm((current) => ({ ...current, only_mine: event.target.checked }))
+              }
+              className="h-4 w-4 rounded border-white/20 bg-slate-950"
+            />
+            Only events I&apos;m assigned to
+          </label>
+        )}
+        <div className="sm:col-span-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center justify-center rounded-lg bg-blue-500 px-4 py-2 text-sm font-medium text-white transition hover:bg-blue-400 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {saving ? "Creating…" : "Create feed"}
+          </button>
+        </div>
+      </form>
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-400">
+          Your feeds
+        </h2>
+        {feeds.length === 0 ? (
+          <p className="rounded-xl border border-white/10 bg-slate-900/60 px-4 py-6 text-sm text-slate-300">
+            {loading ? "Loading feeds…" : "No calendar feeds yet."}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {feeds.map((feed) => (
+              <li
+                key={feed.id}
+                className="space-y-3 rounded-xl border border-white/10 bg-slate-900/60 p-4"
+              >
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-semibold text-slate-100">{feed.label}</p>
+                    <p className="text-xs text-slate-400">
+                      {describeFilters(feed, packages, staff, session?.user.id)}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => void handleRevoke(feed.id)}
+                    disabled={revokingId !== null}
+                    className="inline-flex items-center justify-center rounded-lg border border-rose-500/40 px-3 py-1.5 text-xs font-medium text-rose-200 transition hover:bg-rose-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {revokingId === feed.id ? "Revoking…" : "Revoke"}
+                  </button>
+                </div>
+                <p className="break-all rounded-lg bg-slate-950/70 px-3 py-2 font-mono text-xs text-slate-300">
+                  {feed.urls.https}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <a
+                    href={feed.urls.webcal}
+                    className="inline-flex items-center justify-center rounded-lg bg-blue-500 px-3 py-1.5 text-xs font-medium text-white transition hover:bg-blue-400"
+                  >
+                    Subscribe
+                  </a>
+                  <button
+                    type="button"
+                    onClick={() => void handleCopy(feed)}
+                    className="inline-flex items-center justify-center rounded-lg border border-white/10 px-3 py-1.5 text-xs font-medium text-slate-100 transition hover:border-blue-400/60 hover:text-blue-300"
+                  >
+                    {copiedId === feed.id ? "Copied" : "Copy link"}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
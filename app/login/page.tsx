@@ -1,12 +1,23 @@
 'use client';
 
-import { useState } from "react";
+import { Suspense, useState } from "react";
 import type { FormEvent } from "react";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import supabase from "../../lib/supabaseClient";
 
-export default function LoginPage() {
+// Only same-origin paths are accepted so the login form can't be used as an
+// open redirect.
+const getSafeNextPath = (value: string | null) => {
+  if (!value || !value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) {
+    return "/";
+  }
+  return value;
+};
+
+function LoginForm() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const nextPath = getSafeNextPath(searchParams.get("next"));
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState<string | null>(null);
@@ -31,7 +42,9 @@ export default function LoginPage() {
       }
 
       setStatus("Signed in successfully. Redirecting...");
-      router.push("/");
+      // refresh() makes server components and middleware pick up the new session cookies.
+      router.replace(nextPath);
+      router.refresh();
     } catch (err) {
       const message = err instanceof Error ? err.message : "Unable to sign in. Please try again.";
       setError(message);
@@ -97,3 +110,11 @@ export default function LoginPage() {
     </div>
   );
 }
+
+export default function LoginPage() {
+  return (
+    <Suspense fallback={null}>
+      <LoginForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,107 @@
+import Link from "next/link";
+import { formatMoney } from "../../lib/pricing";
+import { getMenu } from "../../lib/queries";
+import { createServerSupabaseClient } from "../../lib/supabaseServer";
+import type { Package } from "../../lib/types";
+import AllergenInfo from "../components/AllergenInfo";
+import DietBadge from "../components/DietBadge";
+import PizzaThumbnail from "../components/PizzaThumbnail";
+
+export const dynamic = "force-dynamic";
+
+const describeGuests = (pkg: Package) =>
+  pkg.max_guests !== null
+    ? `${pkg.min_guests}–${pkg.max_guests} guests`
+    : `From ${pkg.min_guests} guests`;
+
+const getLowestRate = (pkg: Package) =>
+  pkg.price_tiers.length > 0
+    ? Math.min(...pkg.price_tiers.map((tier) => tier.per_head_cents))
+    : null;
+
+export default async function MenuPage() {
+  let error: string | null = null;
+
+  try {
+    const menu = await getMenu(createServerSupabaseClient());
+
+    return (
+      <div className="mx-auto w-full max-w-4xl space-y-10 px-6 py-12">
+        <header className="space-y-2">
+          <h1 className="text-3xl font-semibold tracking-tight text-slate-100">Our menu</h1>
+          <p className="text-sm text-slate-400">
+            Every package is baked on site in our mobile ovens. Pick the one that suits your
+            event and we will tailor the details with you.
+          </p>
+        </header>
+
+        {menu.length === 0 && (
+          <p className="text-sm text-slate-300">The menu is being updated. Please check back soon.</p>
+        )}
+
+        {menu.map(({ package: pkg, pizzas }) => {
+          const lowestRate = getLowestRate(pkg);
+          return (
+            <section
+              key={pkg.id}
+              className="space-y-5 rounded-2xl border border-white/10 bg-slate-900/70 p-6"
+            >
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <h2 className="text-xl font-semibold text-slate-100">{pkg.label}</h2>
+                  {pkg.description && <p className="text-sm text-slate-300">{pkg.description}</p>}
+                  <p className="text-xs text-slate-400">
+                    {[
+                      describeGuests(pkg),
+                      lowestRate !== null ? `from ${formatMoney(lowestRate)} per guest` : null
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </div>
+                <Link
+                  href={`/book?package=${encodeURIComponent(pkg.id)}`}
+                  className="inline-flex items-center justify-center rounded-lg bg-blue-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-blue-400"
+                >
+                  Book this package
+                </Link>
+              </div>
+
+              <ul className="grid gap-3 sm:grid-cols-2">
+                {pizzas.map((pizza) => (
+                  <li
+                    key={pizza.id}
+                    className="flex gap-3 rounded-xl border border-white/10 bg-slate-950/60 p-3"
+                  >
+                    <PizzaThumbnail src={pizza.image_url} className="h-16 w-16 rounded-lg" />
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <h3 className="font-medium text-slate-100">{pizza.name}</h3>
+                        <DietBadge pizza={pizza} />
+                      </div>
+                      {pizza.description && (
+                        <p className="text-sm text-slate-400">{pizza.description}</p>
+                      )}
+                      <AllergenInfo pizza={pizza} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          );
+        })}
+      </div>
+    );
+  } catch (err) {
+    console.error("Failed to load the menu", err);
+    error = "We could not load the menu. Please try again later.";
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-4xl px-6 py-12">
+      <div className="rounded-xl border border-rose-500/40 bg-rose-950/40 p-6 text-sm text-rose-200">
+        {error}
+      </div>
+    </div>
+  );
+}
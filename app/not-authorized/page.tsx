@@ -0,0 +1,19 @@
+import Link from "next/link";
+
+export default function NotAuthorizedPage() {
+  return (
+    <div className="mx-auto w-full max-w-xl space-y-4 py-16 text-center">
+      <h1 className="text-2xl font-semibold text-slate-100">Not authorized</h1>
+      <p className="text-sm text-slate-300">
+        Your account does not have access to that page. Ask your platform admin if you need a
+        different role.
+      </p>
+      <Link
+        href="/"
+        className="inline-flex items-center justify-center rounded-lg border border-white/10 px-4 py-2 text-sm font-medium text-slate-100 transition hover:border-blue-400/60 hover:text-blue-300"
+      >
+        Back to home
+      </Link>
+    </div>
+  );
+}
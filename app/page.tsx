@@ -1,26 +1,32 @@
 import Link from "next/link";
+import { getRouteRoles } from "../lib/roles";
 
 const features = [
   {
     title: "Browse events",
     description: "Pick a day to enter dashboards, counters, and summaries for active events.",
-    href: "/events/browse",
-    locked: true
+    href: "/events/browse"
   },
   {
     title: "Book catering",
     description: "Submit event requests with guest counts and package preferences.",
-    href: "/book",
-    locked: true
+    href: "/book"
   },
   {
     title: "Admin dashboard",
     description: "Review requests, approve events, and export calendars.",
-    href: "/admin/bookings",
-    locked: true
+    href: "/admin/bookings"
   }
 ];
 
+const getAccessBadge = (href: string) => {
+  const roles = getRouteRoles(href);
+  if (!roles) return null;
+  if (roles.includes("customer")) return "Login required";
+  if (roles.includes("counter_staff")) return "Staff only";
+  return "Admins & coordinators";
+};
+
 export default function LandingPage() {
   return (
     <div className="flex flex-col gap-16 py-16">
@@ -59,9 +65,9 @@ export default function LandingPage() {
           >
             <div className="flex items-center justify-between">
               <h2 className="text-lg font-semibold text-slate-100">{feature.title}</h2>
-              {feature.locked && (
+              {getAccessBadge(feature.href) && (
                 <span className="rounded-full border border-amber-400/40 bg-amber-500/10 px-3 py-0.5 text-xs font-medium text-amber-200">
-                  Login required
+                  {getAccessBadge(feature.href)}
                 </span>
               )}
             </div>
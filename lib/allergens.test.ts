@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import {
+  ALLERGENS,
+  getUncoveredAllergens,
+  isAllergenId,
+  parseTagList,
+  type AllergenId,
+} from "./allergens";
+
+describe("parseTagList", () => {
+  it("orders known ids and drops duplicates", () => {
+    expect(parseTagList(["milk", "gluten", "milk"], isAllergenId, ALLERGENS)).toEqual([
+      "gluten",
+      "milk",
+    ]);
+  });
+
+  it("treats a missing list as empty and rejects unknown ids", () => {
+    expect(parseTagList(undefined, isAllergenId, ALLERGENS)).toEqual([]);
+    expect(parseTagList(["gluten", "pineapple"], isAllergenId, ALLERGENS)).toBeNull();
+    expect(parseTagList("gluten", isAllergenId, ALLERGENS)).toBeNull();
+  });
+});
+
+describe("getUncoveredAllergens", () => {
+  const pizzas: Array<{ allergens: AllergenId[] }> = [
+    { allergens: ["gluten", "milk"] },
+    { allergens: ["gluten"] },
+  ];
+
+  it("covers a need when one pizza is free of the allergen", () => {
+    expect(getUncoveredAllergens(["milk"], pizzas)).toEqual([]);
+  });
+
+  it("reports needs that every pizza contains", () => {
+    expect(getUncoveredAllergens(["gluten", "milk", "nuts"], pizzas)).toEqual(["gluten"]);
+  });
+
+  it("cannot cover anything without pizzas", () => {
+    expect(getUncoveredAllergens(["nuts"], [])).toEqual(["nuts"]);
+  });
+});
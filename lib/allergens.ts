@@ -0,0 +1,77 @@
+import type { Pizza } from "./types";
+
+// Allergens follow the 14 that EU food law (Regulation 1169/2011, Annex II)
+// requires caterers to declare. Pizzas list the ones they contain; bookings
+// list the ones some guests must avoid. Dietary tags are extra labels shown
+// next to the vegetarian/vegan badges.
+
+export const ALLERGENS = [
+  { id: "gluten", label: "Gluten" },
+  { id: "crustaceans", label: "Crustaceans" },
+  { id: "eggs", label: "Eggs" },
+  { id: "fish", label: "Fish" },
+  { id: "peanuts", label: "Peanuts" },
+  { id: "soybeans", label: "Soy" },
+  { id: "milk", label: "Milk" },
+  { id: "nuts", label: "Tree nuts" },
+  { id: "celery", label: "Celery" },
+  { id: "mustard", label: "Mustard" },
+  { id: "sesame", label: "Sesame" },
+  { id: "sulphites", label: "Sulphites" },
+  { id: "lupin", label: "Lupin" },
+  { id: "molluscs", label: "Molluscs" },
+] as const;
+
+export type AllergenId = (typeof ALLERGENS)[number]["id"];
+
+export const DIETARY_TAGS = [
+  { id: "halal", label: "Halal" },
+  { id: "kosher", label: "Kosher" },
+  { id: "contains_pork", label: "Contains pork" },
+  { id: "spicy", label: "Spicy" },
+] as const;
+
+export type DietaryTagId = (typeof DIETARY_TAGS)[number]["id"];
+
+const ALLERGEN_IDS: readonly string[] = ALLERGENS.map((allergen) => allergen.id);
+const DIETARY_TAG_IDS: readonly string[] = DIETARY_TAGS.map((tag) => tag.id);
+
+export const isAllergenId = (value: unknown): value is AllergenId =>
+  typeof value === "string" && ALLERGEN_IDS.includes(value);
+
+export const isDietaryTagId = (value: unknown): value is DietaryTagId =>
+  typeof value === "string" && DIETARY_TAG_IDS.includes(value);
+
+/**
+ * Reads a list of ids from a form or JSON body, in the canonical order and
+ * without duplicates. Returns null when any entry is unknown.
+ */
+export function parseTagList<T extends string>(
+  input: unknown,
+  isValid: (value: unknown) => value is T,
+  order: readonly { id: T }[],
+): T[] | null {
+  if (input === undefined || input === null) {
+    return [];
+  }
+  if (!Array.isArray(input) || !input.every(isValid)) {
+    return null;
+  }
+  return order.map((entry) => entry.id).filter((id) => input.includes(id));
+}
+
+export const getAllergenLabel = (id: string) =>
+  ALLERGENS.find((allergen) => allergen.id === id)?.label ?? id;
+
+export const getDietaryTagLabel = (id: string) =>
+  DIETARY_TAGS.find((tag) => tag.id === id)?.label ?? id;
+
+/**
+ * The guest needs that no pizza in the package can serve: an allergen is
+ * covered when at least one of the pizzas is free of it.
+ */
+export const getUncoveredAllergens = (
+  needs: readonly AllergenId[],
+  pizzas: Array<Pick<Pizza, "allergens">>,
+): AllergenId[] =>
+  needs.filter((allergen) => !pizzas.some((pizza) => !(pizza.allergens ?? []).includes(allergen)));
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+
+type PostgrestLikeError = { code?: string; message?: string } | null | undefined;
+
+// SQLSTATEs raised by our RPCs (see supabase/migrations) and the HTTP status
+// each maps to.
+const STATUS_BY_SQLSTATE: Record<string, number> = {
+  "42501": 403, // insufficient_privilege
+  "22023": 422, // invalid_parameter_value
+  P0002: 409, // no_data_found: row missing or in the wrong state
+  "23505": 409, // unique_violation
+};
+
+/** Turns an RPC/PostgREST error into a JSON response with a sensible status. */
+export function rpcErrorResponse(error: PostgrestLikeError, fallback: string) {
+  const status = (error?.code && STATUS_BY_SQLSTATE[error.code]) || 500;
+  if (status === 500) {
+    console.error(fallback, error);
+  }
+  return NextResponse.json(
+    { error: status === 500 ? fallback : (error?.message ?? fallback) },
+    { status },
+  );
+}
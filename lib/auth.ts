@@ -0,0 +1,48 @@
+import type { User } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { getUserRole, type Role } from "./roles";
+import { createServerSupabaseClient } from "./supabaseServer";
+
+export type AuthContext = {
+  user: User;
+  role: Role;
+};
+
+export type AuthResult =
+  | { ok: true; auth: AuthContext }
+  | { ok: false; response: NextResponse };
+
+/** Resolves the signed-in user from the session cookies, or null when anonymous. */
+export async function getAuthContext(): Promise<AuthContext | null> {
+  const supabase = createServerSupabaseClient();
+  const { data, error } = await supabase.auth.getUser();
+  if (error || !data.user) {
+    return null;
+  }
+
+  return { user: data.user, role: await getUserRole(supabase, data.user.id) };
+}
+
+/**
+ * Checks the caller's role. Route handlers return `result.response` as-is
+ * when `ok` is false.
+ */
+export async function authorize(roles: Role[]): Promise<AuthResult> {
+  const auth = await getAuthContext();
+
+  if (!auth) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: "Sign in required." }, { status: 401 }),
+    };
+  }
+
+  if (!roles.includes(auth.role)) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: "Not authorized." }, { status: 403 }),
+    };
+  }
+
+  return { ok: true, auth };
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_BOOKING_POLICY,
+  getSelfServiceState,
+  validateBookingChange,
+} from "./bookingPolicy";
+
+const now = new Date("2026-11-01T12:00:00.000Z");
+const current = {
+  package: { label: "Standard", min_guests: 25, max_guests: 150 },
+  guests: 40,
+  dietary_guests: 30,
+  notes: null,
+};
+
+describe("getSelfServiceState", () => {
+  it("allows changes and cancellation well ahead of the event", () => {
+    const state = getSelfServiceState(
+      "converted",
+      "2026-11-07T17:00:00.000Z",
+      DEFAULT_BOOKING_POLICY,
+      now,
+    );
+    expect(state).toEqual({
+      canChange: true,
+      canCancel: true,
+      changeDeadline: "2026-11-04T17:00:00.000Z",
+      cancelDeadline: "2026-11-06T17:00:00.000Z",
+    });
+  });
+
+  it("closes changes before cancellation", () => {
+    const state = getSelfServiceState(
+      "approved",
+      "2026-11-03T17:00:00.000Z",
+      DEFAULT_BOOKING_POLICY,
+      now,
+    );
+    expect(state.canChange).toBe(false);
+    expect(state.canCancel).toBe(true);
+  });
+
+  it("allows nothing once a booking is closed", () => {
+    const state = getSelfServiceState(
+      "cancelled",
+      "2026-11-07T17:00:00.000Z",
+      DEFAULT_BOOKING_POLICY,
+      now,
+    );
+    expect(state.canChange || state.canCancel).toBe(false);
+  });
+});
+
+describe("validateBookingChange", () => {
+  it("keeps only changed fields", () => {
+    const result = validateBookingChange(
+      { guests: "60", notes: "" },
+      current,
+      DEFAULT_BOOKING_POLICY,
+      now,
+    );
+    expect(result).toEqual({ ok: true, data: { guests: 60 } });
+  });
+
+  it("enforces the package limits", () => {
+    const result = validateBookingChange({ guests: 10 }, current, DEFAULT_BOOKING_POLICY, now);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors.guests).toMatch(/at least 25/);
+    const tooMany = validateBookingChange({ guests: 200 }, current, DEFAULT_BOOKING_POLICY, now);
+    expect(!tooMany.ok && tooMany.errors.guests).toMatch(/at most 150/);
+  });
+
+  it("keeps the guest count above the vegan and vegetarian guests", () => {
+    const result = validateBookingChange({ guests: 28 }, current, DEFAULT_BOOKING_POLICY, now);
+    expect(!result.ok && result.errors.guests).toMatch(/30 of your guests/);
+  });
+
+  it("rejects a new time inside the change cutoff", () => {
+    const result = validateBookingChange(
+      {
+        service_windows: [{ starts_at: "2026-11-03T18:00", ends_at: "2026-11-03T21:00" }],
+        timezone: "Europe/Rome",
+      },
+      current,
+      DEFAULT_BOOKING_POLICY,
+      now,
+    );
+    expect(!result.ok && result.errors.service_windows).toMatch(/at least 72 hours/);
+  });
+
+  it("takes the schedule without setup and teardown", () => {
+    const result = validateBookingChange(
+      {
+        service_windows: [{ starts_at: "2026-11-10T18:00", ends_at: "2026-11-10T21:00" }],
+        timezone: "Europe/Rome",
+        setup_minutes: 5,
+      },
+      current,
+      DEFAULT_BOOKING_POLICY,
+      now,
+    );
+    expect(result.ok && result.data).toEqual({
+      event_date: "2026-11-10T17:00:00.000Z",
+      ends_at: "2026-11-10T20:00:00.000Z",
+      service_windows: [
+        { starts_at: "2026-11-10T17:00:00.000Z", ends_at: "2026-11-10T20:00:00.000Z", label: null },
+      ],
+      timezone: "Europe/Rome",
+    });
+  });
+
+  it("reports when nothing changed", () => {
+    const result = validateBookingChange({ guests: 40 }, current, DEFAULT_BOOKING_POLICY, now);
+    expect(result).toEqual({ ok: false, errors: { form: "Nothing to change." } });
+  });
+});
@@ -0,0 +1,174 @@
+import { MAX_NOTES_LENGTH } from "./bookingSchema";
+import { getGuestLimitError, type GuestLimits } from "./packages";
+import { validateSchedule, type ServiceWindow } from "./schedule";
+import type { BookingStatus } from "./types";
+
+// What a customer may still change through their booking link, and until
+// when. Cutoffs count back from the first service start; the route handlers
+// enforce them before calling the customer_* functions.
+
+export type BookingPolicy = {
+  /** Guests, times and notes can change until this many hours before. */
+  change_cutoff_hours: number;
+  /** Cancellation is possible until this many hours before. */
+  cancel_cutoff_hours: number;
+};
+
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  change_cutoff_hours: 72,
+  cancel_cutoff_hours: 24,
+};
+
+const HOUR_MS = 3_600_000;
+
+const readHours = (value: string | undefined, fallback: number) => {
+  const hours = Number(value);
+  return value?.trim() && Number.isFinite(hours) && hours >= 0 ? hours : fallback;
+};
+
+/** Cutoffs from BOOKING_CHANGE_CUTOFF_HOURS / BOOKING_CANCEL_CUTOFF_HOURS. */
+export const getBookingPolicy = (): BookingPolicy => ({
+  change_cutoff_hours: readHours(
+    process.env.BOOKING_CHANGE_CUTOFF_HOURS,
+    DEFAULT_BOOKING_POLICY.change_cutoff_hours,
+  ),
+  cancel_cutoff_hours: readHours(
+    process.env.BOOKING_CANCEL_CUTOFF_HOURS,
+    DEFAULT_BOOKING_POLICY.cancel_cutoff_hours,
+  ),
+});
+
+/** The last moment before `startsAt` allowed by a cutoff of `hours`. */
+export const getDeadline = (startsAt: string, hours: number) =>
+  new Date(new Date(startsAt).getTime() - hours * HOUR_MS).toISOString();
+
+export type SelfServiceState = {
+  canChange: boolean;
+  canCancel: boolean;
+  changeDeadline: string | null;
+  cancelDeadline: string | null;
+};
+
+const OPEN_STATUSES: BookingStatus[] = ["requested", "approved", "converted"];
+
+/**
+ * What the customer can do right now. `startsAt` is the event's first service
+ * start, or the requested one before conversion; without a date there is no
+ * cutoff yet.
+ */
+export function getSelfServiceState(
+  status: BookingStatus,
+  startsAt: string | null,
+  policy: BookingPolicy,
+  now = new Date(),
+): SelfServiceState {
+  if (!OPEN_STATUSES.includes(status)) {
+    return { canChange: false, canCancel: false, changeDeadline: null, cancelDeadline: null };
+  }
+  if (!startsAt) {
+    return { canChange: true, canCancel: true, changeDeadline: null, cancelDeadline: null };
+  }
+
+  const changeDeadline = getDeadline(startsAt, policy.change_cutoff_hours);
+  const cancelDeadline = getDeadline(startsAt, policy.cancel_cutoff_hours);
+  return {
+    canChange: now.getTime() < new Date(changeDeadline).getTime(),
+    canCancel: now.getTime() < new Date(cancelDeadline).getTime(),
+    changeDeadline,
+    cancelDeadline,
+  };
+}
+
+export type BookingChange = {
+  guests?: number;
+  notes?: string | null;
+  event_date?: string;
+  ends_at?: string;
+  service_windows?: ServiceWindow[];
+  timezone?: string;
+};
+
+export type BookingChangeField = "guests" | "notes" | "service_windows" | "timezone";
+
+export type BookingChangeErrors = Partial<Record<BookingChangeField | "form", string>>;
+
+export type BookingChangeCurrent = {
+  /** The booked package's limits; null when none was chosen. */
+  package: GuestLimits | null;
+  guests: number | null;
+  /** Vegan plus vegetarian guests; the guest count cannot drop below it. */
+  dietary_guests: number;
+  notes: string | null;
+};
+
+/**
+ * Validates a customer's change request. Only fields that differ from
+ * `current` end up in the change; a schedule change is kept whole when
+ * present. Setup and teardown belong to the crew and are never taken from
+ * the customer.
+ */
+export function validateBookingChange(
+  raw: Record<string, unknown>,
+  current: BookingChangeCurrent,
+  policy: BookingPolicy,
+  now = new Date(),
+): { ok: true; data: BookingChange } | { ok: false; errors: BookingChangeErrors } {
+  const errors: BookingChangeErrors = {};
+  const data: BookingChange = {};
+
+  if (raw.guests !== undefined) {
+    const guests = Number(raw.guests);
+    const guestsError =
+      (current.package
+        ? getGuestLimitError(current.package, guests)
+        : !Number.isInteger(guests) || guests < 1
+          ? "Enter a whole number of guests."
+          : null) ??
+      (guests < current.dietary_guests
+        ? `${current.dietary_guests} of your guests are vegan or vegetarian; contact us to go below that.`
+        : null);
+    if (guestsError) {
+      errors.guests = guestsError;
+    } else if (guests !== current.guests) {
+      data.guests = guests;
+    }
+  }
+
+  if (raw.notes !== undefined) {
+    const notes = typeof raw.notes === "string" ? raw.notes.trim() : "";
+    if (notes.length > MAX_NOTES_LENGTH) {
+      errors.notes = `Notes must be at most ${MAX_NOTES_LENGTH} characters.`;
+    } else if ((notes || null) !== current.notes) {
+      data.notes = notes || null;
+    }
+  }
+
+  if (raw.service_windows !== undefined) {
+    const schedule = validateSchedule(raw, { now });
+    if (!schedule.ok) {
+      errors.service_windows = schedule.errors.service_windows;
+      errors.timezone = schedule.errors.timezone;
+    } else {
+      const deadline = getDeadline(schedule.data.event_date, policy.change_cutoff_hours);
+      if (now.getTime() >= new Date(deadline).getTime()) {
+        errors.service_windows = `The new time must be at least ${policy.change_cutoff_hours} hours away.`;
+      } else {
+        data.event_date = schedule.data.event_date;
+        data.ends_at = schedule.data.ends_at;
+        data.service_windows = schedule.data.service_windows;
+        data.timezone = schedule.data.timezone;
+      }
+    }
+  }
+
+  const fieldErrors = Object.fromEntries(
+    Object.entries(errors).filter(([, message]) => message),
+  ) as BookingChangeErrors;
+  if (Object.keys(fieldErrors).length > 0) {
+    return { ok: false, errors: fieldErrors };
+  }
+  if (Object.keys(data).length === 0) {
+    return { ok: false, errors: { form: "Nothing to change." } };
+  }
+  return { ok: true, data };
+}
@@ -0,0 +1,122 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { CUSTOMER_CALENDAR_EVENT_COLUMNS, type CalendarEventRow } from "./eventIcs";
+import type { BookingAmendment, BookingRequest, BookingStatus } from "./types";
+
+// The customer's status page, reached through the secret link in
+// booking_requests.access_token. Lookups run with the service role, so only
+// the columns listed here ever leave the server.
+
+export type PortalBooking = Pick<
+  BookingRequest,
+  | "id"
+  | "customer_name"
+  | "status"
+  | "event_date"
+  | "ends_at"
+  | "setup_minutes"
+  | "teardown_minutes"
+  | "service_windows"
+  | "timezone"
+  | "address"
+  | "package"
+  | "guests"
+  | "vegan_guests"
+  | "vegetarian_guests"
+  | "notes"
+  | "allergen_needs"
+  | "rejection_reason"
+  | "cancelled_at"
+  | "proposed_event_date"
+  | "proposed_ends_at"
+  | "proposed_service_windows"
+  | "created_at"
+  | "event_id"
+>;
+
+export const PORTAL_BOOKING_COLUMNS =
+  "id, customer_name, status, event_date, ends_at, setup_minutes, teardown_minutes, service_windows, timezone, address, package, guests, vegan_guests, vegetarian_guests, notes, allergen_needs, rejection_reason, cancelled_at, proposed_event_date, proposed_ends_at, proposed_service_windows, created_at, event_id";
+
+export const BOOKING_STATUS_COPY: Record<BookingStatus, { label: string; className: string }> = {
+  requested: { label: "Waiting for review", className: "border-amber-400/40 text-amber-300" },
+  approved: { label: "Approved", className: "border-emerald-400/40 text-emerald-300" },
+  converted: { label: "Confirmed", className: "border-emerald-400/40 text-emerald-300" },
+  rejected: { label: "Declined", className: "border-rose-500/40 text-rose-300" },
+  cancelled: { label: "Cancelled", className: "border-slate-500/40 text-slate-300" },
+};
+
+const TOKEN_PATTERN = /^[0-9a-f]{64}$/;
+
+/** Tokens are 64 hex characters; anything else is rejected without a query. */
+export const isAccessToken = (value: string) => TOKEN_PATTERN.test(value);
+
+export const getBookingPortalPath = (token: string) => `/bookings/${token}`;
+
+export type PortalAmendment = Pick<
+  BookingAmendment,
+  "id" | "status" | "changes" | "requested_at" | "decided_at" | "decision_note"
+>;
+
+const PORTAL_AMENDMENT_COLUMNS = "id, status, changes, requested_at, decided_at, decision_note";
+
+export type PortalResult = {
+  booking: PortalBooking;
+  event: CalendarEventRow | null;
+  /** The customer's latest change to a converted booking, if any. */
+  amendment: PortalAmendment | null;
+};
+
+/**
+ * The booking behind a token and, once it is converted, its event and latest
+ * change request. Returns null for unknown tokens.
+ */
+export async function getBookingByToken(
+  client: SupabaseClient,
+  token: string,
+): Promise<PortalResult | null> {
+  if (!isAccessToken(token)) {
+    return null;
+  }
+
+  const { data, error } = await client
+    .from("booking_requests")
+    .select(PORTAL_BOOKING_COLUMNS)
+    .eq("access_token", token)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+
+  const booking = data as PortalBooking;
+  if (booking.status !== "converted" || !booking.event_id) {
+    return { booking, event: null, amendment: null };
+  }
+
+  const [eventResult, amendmentResult] = await Promise.all([
+    client.from("events").select(CUSTOMER_CALENDAR_EVENT_COLUMNS).eq("id", booking.event_id).maybeSingle(),
+    client
+      .from("booking_amendments")
+      .select(PORTAL_AMENDMENT_COLUMNS)
+      .eq("booking_id", booking.id)
+      .neq("status", "withdrawn")
+      .order("requested_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (eventResult.error) {
+    throw eventResult.error;
+  }
+  if (amendmentResult.error) {
+    throw amendmentResult.error;
+  }
+
+  return {
+    booking,
+    event: (eventResult.data as unknown as CalendarEventRow | null) ?? null,
+    amendment: (amendmentResult.data as PortalAmendment | null) ?? null,
+  };
+}
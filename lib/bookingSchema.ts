@@ -0,0 +1,198 @@
+import { ALLERGENS, isAllergenId, parseTagList, type AllergenId } from "./allergens";
+import { findPackage, getGuestLimitError } from "./packages";
+import { isTravelZone } from "./pricing";
+import { validateSchedule, type EventSchedule, type ScheduleField } from "./schedule";
+import type { Package } from "./types";
+
+export type BookingField =
+  | "customer_name"
+  | "customer_email"
+  | "customer_phone"
+  | "address"
+  | "package"
+  | "guests"
+  | "vegan_guests"
+  | "vegetarian_guests"
+  | "travel_zone"
+  | "allergen_needs"
+  | "notes"
+  | ScheduleField;
+
+export type BookingFieldErrors = Partial<Record<BookingField, string>>;
+
+export type BookingPayload = EventSchedule & {
+  customer_name: string;
+  customer_email: string;
+  customer_phone: string;
+  address: string;
+  package: string;
+  guests: number;
+  /** Part of `guests`; whoever is neither vegan nor vegetarian is unrestricted. */
+  vegan_guests: number;
+  vegetarian_guests: number;
+  /** Travel zone id from PRICING.zones. */
+  travel_zone: string;
+  /** Allergens some guests must avoid; admins check the package covers them. */
+  allergen_needs: AllergenId[];
+  notes: string | null;
+};
+
+export type BookingValidationResult =
+  | { ok: true; data: BookingPayload }
+  | { ok: false; errors: BookingFieldErrors };
+
+const MAX_NAME_LENGTH = 120;
+const MAX_ADDRESS_LENGTH = 300;
+export const MAX_NOTES_LENGTH = 2000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const asString = (value: unknown) =>
+  typeof value === "string" ? value : value == null ? "" : String(value);
+
+/** An optional head count: blank means none, otherwise a whole number >= 0. */
+const parseDietCount = (value: unknown) => {
+  if (value === undefined || value === null || value === "") {
+    return 0;
+  }
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 0 ? count : null;
+};
+
+export const normalizeEmail = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Strips formatting from a phone number and keeps an optional leading "+".
+ * A leading "00" international prefix is rewritten to "+".
+ */
+export const normalizePhone = (value: string) => {
+  const trimmed = value.trim();
+  const digits = trimmed.replace(/\D/g, "");
+  if (trimmed.startsWith("+")) {
+    return `+${digits}`;
+  }
+  if (digits.startsWith("00")) {
+    return `+${digits.slice(2)}`;
+  }
+  return digits;
+};
+
+/** `packages` are the ones customers may book, i.e. the active ones. */
+export function validateBooking(
+  input: unknown,
+  packages: Package[],
+  now: Date = new Date(),
+): BookingValidationResult {
+  const raw = (typeof input === "object" && input !== null ? input : {}) as
+    Record<string, unknown>;
+  const errors: BookingFieldErrors = {};
+
+  const customerName = asString(raw.customer_name).trim();
+  if (!customerName) {
+    errors.customer_name = "Name is required.";
+  } else if (customerName.length > MAX_NAME_LENGTH) {
+    errors.customer_name = `Name must be at most ${MAX_NAME_LENGTH} characters.`;
+  }
+
+  const customerEmail = normalizeEmail(asString(raw.customer_email));
+  if (!customerEmail) {
+    errors.customer_email = "Email is required.";
+  } else if (!EMAIL_PATTERN.test(customerEmail)) {
+    errors.customer_email = "Enter a valid email.";
+  }
+
+  const customerPhone = normalizePhone(asString(raw.customer_phone));
+  const phoneDigits = customerPhone.replace(/\D/g, "");
+  if (!customerPhone) {
+    errors.customer_phone = "Phone is required.";
+  } else if (phoneDigits.length < 7 || phoneDigits.length > 15) {
+    errors.customer_phone = "Enter a valid phone number.";
+  }
+
+  const schedule = validateSchedule(raw, { now });
+  if (!schedule.ok) {
+    Object.assign(errors, schedule.errors);
+  }
+
+  const address = asString(raw.address).trim();
+  if (!address) {
+    errors.address = "Address is required.";
+  } else if (address.length > MAX_ADDRESS_LENGTH) {
+    errors.address = `Address must be at most ${MAX_ADDRESS_LENGTH} characters.`;
+  }
+
+  const packageId = asString(raw.package).trim();
+  const selectedPackage = findPackage(packages, packageId);
+  if (!packageId) {
+    errors.package = "Please select a package.";
+  } else if (!selectedPackage) {
+    errors.package = "Please select a valid package.";
+  }
+
+  const guests = Number(raw.guests);
+  const guestsError = selectedPackage ? getGuestLimitError(selectedPackage, guests) : null;
+  if (guestsError) {
+    errors.guests = guestsError;
+  }
+
+  const veganGuests = parseDietCount(raw.vegan_guests);
+  const vegetarianGuests = parseDietCount(raw.vegetarian_guests);
+  if (veganGuests === null) {
+    errors.vegan_guests = "Enter a whole number of guests.";
+  }
+  if (vegetarianGuests === null) {
+    errors.vegetarian_guests = "Enter a whole number of guests.";
+  } else if (
+    veganGuests !== null &&
+    !guestsError &&
+    veganGuests + vegetarianGuests > guests
+  ) {
+    errors.vegetarian_guests = "Vegan and vegetarian guests cannot exceed the guest count.";
+  }
+
+  const travelZone = asString(raw.travel_zone).trim();
+  if (!travelZone) {
+    errors.travel_zone = "Please select how far the venue is.";
+  } else if (!isTravelZone(travelZone)) {
+    errors.travel_zone = "Please select a valid distance.";
+  }
+
+  const allergenNeeds = parseTagList(raw.allergen_needs, isAllergenId, ALLERGENS);
+  if (!allergenNeeds) {
+    errors.allergen_needs = "Please pick allergens from the list.";
+  }
+
+  const notes = asString(raw.notes).trim();
+  if (notes.length > MAX_NOTES_LENGTH) {
+    errors.notes = `Notes must be at most ${MAX_NOTES_LENGTH} characters.`;
+  }
+
+  if (
+    Object.keys(errors).length > 0 ||
+    !schedule.ok ||
+    !selectedPackage ||
+    !allergenNeeds ||
+    veganGuests === null ||
+    vegetarianGuests === null
+  ) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    data: {
+      customer_name: customerName,
+      customer_email: customerEmail,
+      customer_phone: customerPhone,
+      ...schedule.data,
+      address,
+      package: packageId,
+      guests,
+      vegan_guests: veganGuests,
+      vegetarian_guests: vegetarianGuests,
+      travel_zone: travelZone,
+      allergen_needs: allergenNeeds,
+      notes: notes || null,
+    },
+  };
+}
@@ -0,0 +1,177 @@
+import { randomBytes } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { CALENDAR_EVENT_COLUMNS, type CalendarEventRow } from "./eventIcs";
+import { findPackage } from "./packages";
+import { isUserId } from "./staff";
+import { getDayKeysQueryRange, getZonedDayKey, resolveTimeZone } from "./timezone";
+import type { Package } from "./types";
+
+// Server-only: generates tokens with node:crypto.
+
+export type CalendarFeed = {
+  id: string;
+  token: string;
+  label: string;
+  owner_id: string;
+  starts_on: string | null;
+  ends_on: string | null;
+  package_id: string | null;
+  staff_user_id: string | null;
+  created_at: string;
+  revoked_at: string | null;
+};
+
+export type CalendarFeedInput = Pick<
+  CalendarFeed,
+  "label" | "starts_on" | "ends_on" | "package_id" | "staff_user_id"
+>;
+
+export type CalendarFeedField =
+  | "label"
+  | "starts_on"
+  | "ends_on"
+  | "package_id"
+  | "staff_user_id";
+
+export const FEED_COLUMNS =
+  "id, token, label, owner_id, starts_on, ends_on, package_id, staff_user_id, created_at, revoked_at";
+
+/** Subscribers are asked to poll this often. */
+export const FEED_REFRESH_INTERVAL = "PT1H";
+
+// Without a start date a feed still skips events older than this.
+const FEED_LOOKBACK_DAYS = 90;
+const MAX_FEED_EVENTS = 500;
+const MAX_LABEL_LENGTH = 80;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const generateFeedToken = () => randomBytes(24).toString("base64url");
+
+/** `https://…/api/calendar/<token>.ics` plus the webcal:// variant calendar apps subscribe to. */
+export const getFeedUrls = (origin: string, token: string) => {
+  const https = `${origin}/api/calendar/${token}.ics`;
+  return { https, webcal: https.replace(/^https?:/, "webcal:") };
+};
+
+const asDate = (value: unknown) =>
+  typeof value === "string" && DATE_PATTERN.test(value.trim()) ? value.trim() : null;
+
+export function validateFeedInput(
+  input: unknown,
+  packages: Array<Pick<Package, "id">>,
+):
+  | { ok: true; data: CalendarFeedInput & { only_mine: boolean } }
+  | { ok: false; errors: Partial<Record<CalendarFeedField, string>> } {
+  const raw = (typeof input === "object" && input !== null ? input : {}) as
+    Record<string, unknown>;
+  const errors: Partial<Record<CalendarFeedField, string>> = {};
+
+  const label = typeof raw.label === "string" ? raw.label.trim() : "";
+  if (!label) {
+    errors.label = "Give the feed a name.";
+  } else if (label.length > MAX_LABEL_LENGTH) {
+    errors.label = `Name must be at most ${MAX_LABEL_LENGTH} characters.`;
+  }
+
+  const startsOn = raw.starts_on ? asDate(raw.starts_on) : null;
+  if (raw.starts_on && !startsOn) {
+    errors.starts_on = "Enter a valid start date.";
+  }
+
+  const endsOn = raw.ends_on ? asDate(raw.ends_on) : null;
+  if (raw.ends_on && !endsOn) {
+    errors.ends_on = "Enter a valid end date.";
+  } else if (startsOn && endsOn && endsOn < startsOn) {
+    errors.ends_on = "End date must be on or after the start date.";
+  }
+
+  const packageId =
+    typeof raw.package_id === "string" && raw.package_id ? raw.package_id : null;
+  if (packageId && !findPackage(packages, packageId)) {
+    errors.package_id = "Pick a valid package.";
+  }
+
+  // Whether the caller may pick this staff member is up to the route.
+  const staffUserId =
+    typeof raw.staff_user_id === "string" && raw.staff_user_id ? raw.staff_user_id : null;
+  if (staffUserId && !isUserId(staffUserId)) {
+    errors.staff_user_id = "Pick a valid staff member.";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    data: {
+      label,
+      starts_on: startsOn,
+      ends_on: endsOn,
+      package_id: packageId,
+      staff_user_id: staffUserId,
+      only_mine: raw.only_mine === true,
+    },
+  };
+}
+
+/** Loads the events a feed covers, applying its date, package and staff filters. */
+export async function getFeedEvents(
+  client: SupabaseClient,
+  feed: CalendarFeed,
+): Promise<CalendarEventRow[]> {
+  let query = client
+    .from("events")
+    .select(CALENDAR_EVENT_COLUMNS)
+    .order("event_date", { ascending: true })
+    .limit(MAX_FEED_EVENTS);
+
+  // starts_on/ends_on are days at each venue, so query a range wide enough
+  // for every zone and trim per event below.
+  const from = feed.starts_on
+    ? getDayKeysQueryRange(feed.starts_on).startISO
+    : new Date(Date.now() - FEED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  query = query.gte("event_date", from);
+
+  if (feed.ends_on) {
+    query = query.lt("event_date", getDayKeysQueryRange(feed.ends_on).endISO);
+  }
+
+  if (feed.package_id) {
+    query = query.eq("package_id", feed.package_id);
+  }
+
+  if (feed.staff_user_id) {
+    const { data: assignments, error: assignmentError } = await client
+      .from("event_staff")
+      .select("event_id")
+      .eq("user_id", feed.staff_user_id);
+
+    if (assignmentError) {
+      throw assignmentError;
+    }
+
+    const eventIds = (assignments ?? []).map(
+      (row) => (row as { event_id: string }).event_id,
+    );
+    if (eventIds.length === 0) {
+      return [];
+    }
+    query = query.in("id", eventIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as unknown as CalendarEventRow[]).filter((event) => {
+    const day = getZonedDayKey(event.event_date, resolveTimeZone(event.timezone));
+    return (
+      day !== null &&
+      (!feed.starts_on || day >= feed.starts_on) &&
+      (!feed.ends_on || day <= feed.ends_on)
+    );
+  });
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { getViewDays, getWeekStart, moveWindows, shiftAnchor } from "./calendarView";
+
+describe("getViewDays", () => {
+  it("starts weeks on Monday", () => {
+    expect(getWeekStart("2026-11-08")).toBe("2026-11-02");
+    expect(getViewDays("week", "2026-11-04")[0]).toBe("2026-11-02");
+  });
+
+  it("lays a month out as six full weeks", () => {
+    const days = getViewDays("month", "2026-11-19");
+    expect(days).toHaveLength(42);
+    expect(days[0]).toBe("2026-10-26");
+    expect(days).toContain("2026-11-30");
+  });
+});
+
+describe("shiftAnchor", () => {
+  it("moves months without overflowing short ones", () => {
+    expect(shiftAnchor("month", "2027-01-31", 1)).toBe("2027-02-01");
+    expect(shiftAnchor("month", "2027-01-15", -1)).toBe("2026-12-01");
+    expect(shiftAnchor("week", "2026-11-02", 1)).toBe("2026-11-09");
+  });
+});
+
+describe("moveWindows", () => {
+  const windows = [
+    { starts_at: "2026-10-24T10:00:00.000Z", ends_at: "2026-10-24T13:00:00.000Z", label: "Lunch" },
+    { starts_at: "2026-10-24T17:00:00.000Z", ends_at: "2026-10-24T20:00:00.000Z", label: "Dinner" },
+  ];
+
+  it("keeps the venue time of day when dropped on another day", () => {
+    // 12:00 and 19:00 in Rome stay 12:00 and 19:00 after the clocks go back.
+    expect(moveWindows(windows, "Europe/Rome", "2026-10-31")).toEqual([
+      { starts_at: "2026-10-31T11:00:00.000Z", ends_at: "2026-10-31T14:00:00.000Z", label: "Lunch" },
+      { starts_at: "2026-10-31T18:00:00.000Z", ends_at: "2026-10-31T21:00:00.000Z", label: "Dinner" },
+    ]);
+  });
+
+  it("moves the first window to the dropped hour and the rest along with it", () => {
+    const moved = moveWindows(windows, "Europe/Rome", "2026-10-24", 13);
+    expect(moved[0].starts_at).toBe("2026-10-24T11:00:00.000Z");
+    expect(moved[1].ends_at).toBe("2026-10-24T21:00:00.000Z");
+  });
+});
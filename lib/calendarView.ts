@@ -0,0 +1,78 @@
+import type { ServiceWindow } from "./schedule";
+import { addDaysToKey, getDayOfWeek, toZonedLocalValue, zonedLocalToUtc } from "./timezone";
+
+// Day arithmetic for the admin calendar. Days are `YYYY-MM-DD` keys on the
+// venue's calendar, so nothing here depends on the viewer's time zone.
+
+export type CalendarView = "month" | "week" | "day";
+
+export const CALENDAR_VIEWS: CalendarView[] = ["month", "week", "day"];
+
+/** Hour rows shown in the week and day views, in venue time. */
+export const FIRST_HOUR = 8;
+export const LAST_HOUR = 23;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** The Monday on or before `dayKey`; weeks start on Monday. */
+export const getWeekStart = (dayKey: string) =>
+  addDaysToKey(dayKey, -((getDayOfWeek(dayKey) + 6) % 7));
+
+/** Days the view shows: six full weeks for a month, seven days or one day. */
+export const getViewDays = (view: CalendarView, anchorKey: string): string[] => {
+  if (view === "day") {
+    return [anchorKey];
+  }
+  const start = getWeekStart(view === "month" ? `${anchorKey.slice(0, 7)}-01` : anchorKey);
+  const count = view === "month" ? 42 : 7;
+  return Array.from({ length: count }, (_, index) => addDaysToKey(start, index));
+};
+
+/** Moves the anchor one view back (`step` -1) or forward (`step` 1). */
+export const shiftAnchor = (view: CalendarView, anchorKey: string, step: number) => {
+  if (view === "month") {
+    const year = Number(anchorKey.slice(0, 4));
+    const month = Number(anchorKey.slice(5, 7));
+    return new Date(Date.UTC(year, month - 1 + step, 1)).toISOString().slice(0, 10);
+  }
+  return addDaysToKey(anchorKey, view === "week" ? step * 7 : step);
+};
+
+const toWallClockMs = (local: string) => Date.parse(`${local}:00Z`);
+
+const fromWallClockMs = (time: number) => new Date(time).toISOString().slice(0, 16);
+
+/**
+ * Moves a schedule so its first window starts on `targetDay`, at `targetHour`
+ * when given or otherwise at the same time of day. Every window keeps its
+ * wall-clock offset from the first one, so a lunch and dinner pair stays a
+ * lunch and dinner pair across a DST change.
+ */
+export const moveWindows = (
+  windows: ServiceWindow[],
+  timeZone: string,
+  targetDay: string,
+  targetHour?: number,
+): ServiceWindow[] => {
+  if (windows.length === 0) {
+    return [];
+  }
+  const firstStart = toZonedLocalValue(windows[0].starts_at, timeZone);
+  const targetStart =
+    targetHour === undefined
+      ? `${targetDay}T${firstStart.slice(11)}`
+      : `${targetDay}T${pad(targetHour)}:00`;
+  const delta = toWallClockMs(targetStart) - toWallClockMs(firstStart);
+
+  const shift = (value: string) =>
+    zonedLocalToUtc(
+      fromWallClockMs(toWallClockMs(toZonedLocalValue(value, timeZone)) + delta),
+      timeZone,
+    ) ?? value;
+
+  return windows.map((window) => ({
+    ...window,
+    starts_at: shift(window.starts_at),
+    ends_at: shift(window.ends_at),
+  }));
+};
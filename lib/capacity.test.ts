@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { checkCapacity, type CapacityEvent, type CapacityRules } from "./capacity";
+
+const rules: CapacityRules = {
+  max_events_per_slot: 2,
+  max_guests_per_day: 300,
+  ovens: 3,
+  crews: 2,
+  guests_per_oven: 80,
+};
+
+const event = (id: string, startsAt: string, endsAt: string, guests: number): CapacityEvent => ({
+  id,
+  name: `Event ${id}`,
+  event_date: startsAt,
+  ends_at: endsAt,
+  setup_minutes: 60,
+  teardown_minutes: 30,
+  service_windows: null,
+  timezone: "Europe/Rome",
+  guests,
+});
+
+const candidate = {
+  event_date: "2026-11-07T17:00:00.000Z",
+  ends_at: "2026-11-07T20:00:00.000Z",
+  setup_minutes: 60,
+  teardown_minutes: 30,
+  timezone: "Europe/Rome",
+  guests: 60,
+};
+
+describe("checkCapacity", () => {
+  it("passes a free slot", () => {
+    const lunch = event("a", "2026-11-07T10:00:00.000Z", "2026-11-07T13:00:00.000Z", 50);
+    expect(checkCapacity(candidate, [lunch], rules).status).toBe("ok");
+  });
+
+  it("warns about overlaps within the limits and lists them", () => {
+    // Its teardown runs into the candidate's setup.
+    const early = event("a", "2026-11-07T13:00:00.000Z", "2026-11-07T16:15:00.000Z", 50);
+    const result = checkCapacity(candidate, [early], rules);
+    expect(result.status).toBe("warn");
+    expect(result.conflicts.map((conflict) => conflict.id)).toEqual(["a"]);
+  });
+
+  it("blocks when too many events run at once", () => {
+    const others = [
+      event("a", "2026-11-07T17:00:00.000Z", "2026-11-07T20:00:00.000Z", 40),
+      event("b", "2026-11-07T18:00:00.000Z", "2026-11-07T21:00:00.000Z", 40),
+    ];
+    const result = checkCapacity(candidate, others, rules);
+    expect(result.status).toBe("block");
+    expect(result.issues[0]).toMatch(/3 events would run at once/);
+  });
+
+  it("counts ovens by guests and honours day overrides", () => {
+    const big = event("a", "2026-11-07T17:00:00.000Z", "2026-11-07T20:00:00.000Z", 100);
+    expect(checkCapacity(candidate, [big], rules).status).toBe("warn");
+    const result = checkCapacity(candidate, [big], rules, [
+      { day: "2026-11-07", ovens: 2, crews: null, max_guests: null, note: null },
+    ]);
+    expect(result.status).toBe("block");
+    expect(result.issues).toContain("3 ovens needed at once; 2 ovens available.");
+  });
+
+  it("blocks when the venue day is over its guest limit", () => {
+    const lunch = event("a", "2026-11-07T10:00:00.000Z", "2026-11-07T13:00:00.000Z", 280);
+    const result = checkCapacity(candidate, [lunch], rules);
+    expect(result.status).toBe("block");
+    expect(result.conflicts.map((conflict) => conflict.id)).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,334 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getServiceWindows,
+  getSetupStart,
+  getTeardownEnd,
+  type ScheduleLike,
+} from "./schedule";
+import { addDaysToKey, getDayKeysQueryRange, getZonedDayKey, resolveTimeZone } from "./timezone";
+
+// Capacity rules checked before a booking is approved: how many events may
+// run at once, how many guests a venue day can take, and how many ovens and
+// crews there are. Events occupy their slot from setup start to teardown end.
+
+export type CapacityRules = {
+  max_events_per_slot: number;
+  max_guests_per_day: number;
+  ovens: number;
+  crews: number;
+  /** Guests one oven can serve; bigger events need more ovens. */
+  guests_per_oven: number;
+};
+
+export type CapacityRuleField = keyof CapacityRules;
+
+/** Oven, crew or guest limits for one venue day; null keeps the standing limit. */
+export type CapacityOverride = {
+  day: string;
+  ovens: number | null;
+  crews: number | null;
+  max_guests: number | null;
+  note: string | null;
+};
+
+export type CapacityOverrideField = Exclude<keyof CapacityOverride, "note">;
+
+export const DEFAULT_CAPACITY_RULES: CapacityRules = {
+  max_events_per_slot: 2,
+  max_guests_per_day: 300,
+  ovens: 2,
+  crews: 2,
+  guests_per_oven: 80,
+};
+
+export const CAPACITY_RULE_COLUMNS =
+  "max_events_per_slot, max_guests_per_day, ovens, crews, guests_per_oven";
+
+export const CAPACITY_OVERRIDE_COLUMNS = "day, ovens, crews, max_guests, note";
+
+const MAX_RULE_VALUE = 100_000;
+const MAX_NOTE_LENGTH = 200;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const RULE_MINIMUMS: Record<CapacityRuleField, number> = {
+  max_events_per_slot: 1,
+  max_guests_per_day: 1,
+  ovens: 0,
+  crews: 0,
+  guests_per_oven: 1,
+};
+
+const asCount = (value: unknown) => {
+  const parsed = typeof value === "string" && value.trim() ? Number(value) : value;
+  return typeof parsed === "number" && Number.isInteger(parsed) ? parsed : null;
+};
+
+export function validateCapacityRules(
+  input: unknown,
+):
+  | { ok: true; data: CapacityRules }
+  | { ok: false; errors: Partial<Record<CapacityRuleField, string>> } {
+  const raw = (typeof input === "object" && input !== null ? input : {}) as
+    Record<string, unknown>;
+  const errors: Partial<Record<CapacityRuleField, string>> = {};
+  const data = { ...DEFAULT_CAPACITY_RULES };
+
+  for (const field of Object.keys(RULE_MINIMUMS) as CapacityRuleField[]) {
+    const value = asCount(raw[field]);
+    if (value === null || value < RULE_MINIMUMS[field] || value > MAX_RULE_VALUE) {
+      errors[field] = `Enter a whole number from ${RULE_MINIMUMS[field]}.`;
+    } else {
+      data[field] = value;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, data };
+}
+
+export function validateCapacityOverride(
+  input: unknown,
+):
+  | { ok: true; data: CapacityOverride }
+  | { ok: false; errors: Partial<Record<CapacityOverrideField, string>> } {
+  const raw = (typeof input === "object" && input !== null ? input : {}) as
+    Record<string, unknown>;
+  const errors: Partial<Record<CapacityOverrideField, string>> = {};
+
+  const day = typeof raw.day === "string" ? raw.day.trim() : "";
+  if (!DATE_PATTERN.test(day)) {
+    errors.day = "Pick a day.";
+  }
+
+  const optional = (field: "ovens" | "crews" | "max_guests", minimum: number) => {
+    if (raw[field] === null || raw[field] === undefined || raw[field] === "") {
+      return null;
+    }
+    const value = asCount(raw[field]);
+    if (value === null || value < minimum || value > MAX_RULE_VALUE) {
+      errors[field] = `Enter a whole number from ${minimum}, or leave it empty.`;
+      return null;
+    }
+    return value;
+  };
+
+  const ovens = optional("ovens", 0);
+  const crews = optional("crews", 0);
+  const maxGuests = optional("max_guests", 1);
+  if (!errors.ovens && !errors.crews && !errors.max_guests) {
+    if (ovens === null && crews === null && maxGuests === null) {
+      errors.ovens = "Set at least one limit for the day.";
+    }
+  }
+
+  const note =
+    typeof raw.note === "string" && raw.note.trim()
+      ? raw.note.trim().slice(0, MAX_NOTE_LENGTH)
+      : null;
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, data: { day, ovens, crews, max_guests: maxGuests, note } };
+}
+
+/** The standing rules with a day's override applied. */
+export const getDayRules = (
+  rules: CapacityRules,
+  overrides: CapacityOverride[],
+  day: string | null,
+): CapacityRules => {
+  const override = day ? overrides.find((entry) => entry.day === day) : undefined;
+  if (!override) {
+    return rules;
+  }
+  return {
+    ...rules,
+    ovens: override.ovens ?? rules.ovens,
+    crews: override.crews ?? rules.crews,
+    max_guests_per_day: override.max_guests ?? rules.max_guests_per_day,
+  };
+};
+
+export const getOvensNeeded = (guests: number | null | undefined, rules: CapacityRules) =>
+  Math.max(1, Math.ceil((guests ?? 0) / rules.guests_per_oven));
+
+export type CapacityEvent = ScheduleLike & {
+  id: string;
+  name: string;
+  guests: number | null;
+};
+
+export type CapacityCheck = {
+  /** "warn" when the slot is shared but within limits; "block" over a limit. */
+  status: "ok" | "warn" | "block";
+  issues: string[];
+  /** Events sharing the slot, or the day when the guest limit is the problem. */
+  conflicts: CapacityEvent[];
+};
+
+const getOccupiedSpan = (row: ScheduleLike) => {
+  const start = getSetupStart(row);
+  const end = getTeardownEnd(row);
+  return start && end ? { start: Date.parse(start), end: Date.parse(end) } : null;
+};
+
+const getVenueDay = (row: ScheduleLike) => {
+  const first = getServiceWindows(row)[0];
+  return first ? getZonedDayKey(first.starts_at, resolveTimeZone(row.timezone)) : null;
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * Checks a candidate schedule against the events already on the books.
+ * Ovens and crews are counted at the busiest moment of the candidate's slot,
+ * one crew per event and one oven per `guests_per_oven` guests.
+ */
+export const checkCapacity = (
+  candidate: ScheduleLike & { guests: number | null },
+  others: CapacityEvent[],
+  rules: CapacityRules,
+  overrides: CapacityOverride[] = [],
+): CapacityCheck => {
+  const span = getOccupiedSpan(candidate);
+  if (!span) {
+    return { status: "ok", issues: [], conflicts: [] };
+  }
+  const day = getVenueDay(candidate);
+  const dayRules = getDayRules(rules, overrides, day);
+
+  const overlapping = others.filter((event) => {
+    const other = getOccupiedSpan(event);
+    return other !== null && other.start < span.end && other.end > span.start;
+  });
+
+  let peakEvents = 1;
+  let peakOvens = getOvensNeeded(candidate.guests, dayRules);
+  const moments = [span.start, ...overlapping.map((event) => getOccupiedSpan(event)?.start ?? 0)]
+    .filter((moment) => moment >= span.start && moment < span.end);
+  for (const moment of moments) {
+    const running = overlapping.filter((event) => {
+      const other = getOccupiedSpan(event);
+      return other !== null && other.start <= moment && other.end > moment;
+    });
+    peakEvents = Math.max(peakEvents, running.length + 1);
+    peakOvens = Math.max(
+      peakOvens,
+      running.reduce(
+        (total, event) => total + getOvensNeeded(event.guests, dayRules),
+        getOvensNeeded(candidate.guests, dayRules),
+      ),
+    );
+  }
+
+  const issues: string[] = [];
+  if (peakEvents > dayRules.max_events_per_slot) {
+    issues.push(
+      `${plural(peakEvents, "event")} would run at once; the limit is ${dayRules.max_events_per_slot}.`,
+    );
+  }
+  if (peakEvents > dayRules.crews) {
+    issues.push(
+      `${plural(peakEvents, "crew")} needed at once; ${plural(dayRules.crews, "crew")} available.`,
+    );
+  }
+  if (peakOvens > dayRules.ovens) {
+    issues.push(
+      `${plural(peakOvens, "oven")} needed at once; ${plural(dayRules.ovens, "oven")} available.`,
+    );
+  }
+
+  const sameDay = day ? others.filter((event) => getVenueDay(event) === day) : [];
+  const dayGuests = sameDay.reduce((total, event) => total + (event.guests ?? 0), 0);
+  const guestLimitHit = dayGuests + (candidate.guests ?? 0) > dayRules.max_guests_per_day;
+  if (guestLimitHit) {
+    issues.push(
+      `${dayGuests + (candidate.guests ?? 0)} guests that day; the limit is ${dayRules.max_guests_per_day}.`,
+    );
+  }
+
+  const conflicts = guestLimitHit
+    ? [...overlapping, ...sameDay.filter((event) => !overlapping.includes(event))]
+    : overlapping;
+
+  if (issues.length > 0) {
+    return { status: "block", issues, conflicts };
+  }
+  if (overlapping.length > 0) {
+    return {
+      status: "warn",
+      issues: [`Overlaps ${plural(overlapping.length, "other event")}.`],
+      conflicts,
+    };
+  }
+  return { status: "ok", issues: [], conflicts: [] };
+};
+
+const CAPACITY_EVENT_COLUMNS =
+  "id, name, event_date, ends_at, setup_minutes, teardown_minutes, service_windows, timezone, guests, booking_id";
+
+/**
+ * Loads the rules, overrides and live events around a schedule's venue day.
+ * `excludeBookingId` leaves out the event already created for that booking,
+ * so re-approving a booking does not conflict with itself.
+ */
+export async function loadCapacityContext(
+  client: SupabaseClient,
+  schedule: ScheduleLike,
+  { excludeBookingId }: { excludeBookingId?: string } = {},
+): Promise<{ rules: CapacityRules; overrides: CapacityOverride[]; events: CapacityEvent[] }> {
+  const day = getVenueDay(schedule);
+  if (!day) {
+    return { rules: DEFAULT_CAPACITY_RULES, overrides: [], events: [] };
+  }
+  // Setup and teardown can spill into the neighbouring days.
+  const range = getDayKeysQueryRange(addDaysToKey(day, -1), addDaysToKey(day, 1));
+
+  const [settingsResult, overridesResult, eventsResult] = await Promise.all([
+    client.from("capacity_settings").select(CAPACITY_RULE_COLUMNS).maybeSingle(),
+    client.from("capacity_overrides").select(CAPACITY_OVERRIDE_COLUMNS).eq("day", day),
+    client
+      .from("events")
+      .select(CAPACITY_EVENT_COLUMNS)
+      .gte("event_date", range.startISO)
+      .lt("event_date", range.endISO)
+      .is("cancelled_at", null),
+  ]);
+
+  if (settingsResult.error) throw settingsResult.error;
+  if (overridesResult.error) throw overridesResult.error;
+  if (eventsResult.error) throw eventsResult.error;
+
+  const events = ((eventsResult.data ?? []) as Array<CapacityEvent & { booking_id: string | null }>)
+    .filter((event) => !excludeBookingId || event.booking_id !== excludeBookingId);
+
+  return {
+    rules: (settingsResult.data as CapacityRules | null) ?? DEFAULT_CAPACITY_RULES,
+    overrides: (overridesResult.data ?? []) as CapacityOverride[],
+    events,
+  };
+}
+
+export type DayLoad = {
+  events: number;
+  guests: number;
+};
+
+export type LoadLevel = "open" | "busy" | "full";
+
+/** Share of the day's guest limit in use, from 0 up (over 1 when overbooked). */
+export const getLoadRatio = (load: DayLoad, rules: CapacityRules = DEFAULT_CAPACITY_RULES) =>
+  load.guests / rules.max_guests_per_day;
+
+export const getLoadLevel = (
+  load: DayLoad,
+  rules: CapacityRules = DEFAULT_CAPACITY_RULES,
+): LoadLevel => {
+  const ratio = getLoadRatio(load, rules);
+  if (ratio >= 1) return "full";
+  if (ratio >= 0.75) return "busy";
+  return "open";
+};
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildMenu,
+  getPizzaPackageIds,
+  getRemovedPackageIds,
+  validatePizza,
+} from "./catalog";
+import type { CatalogPizza, Package } from "./types";
+
+describe("validatePizza", () => {
+  it("trims the form and marks vegan pizzas vegetarian", () => {
+    const result = validatePizza({
+      name: "  Marinara ",
+      description: "",
+      image_url: "https://example.com/marinara.jpg",
+      vegan: true,
+      vegetarian: false,
+      allergens: ["milk", "gluten", "milk"],
+      sort_order: "5",
+    });
+    expect(result).toEqual({
+      ok: true,
+      data: {
+        name: "Marinara",
+        description: null,
+        image_url: "https://example.com/marinara.jpg",
+        vegan: true,
+        vegetarian: true,
+        allergens: ["gluten", "milk"],
+        dietary_tags: [],
+        active: true,
+        sort_order: 5,
+      },
+    });
+  });
+
+  it("rejects a missing name and a non-http image link", () => {
+    const result = validatePizza({
+      name: " ",
+      image_url: "javascript:alert(1)",
+      allergens: ["gluten", "pineapple"],
+    });
+    expect(result.ok).toBe(false);
+    expect(!result.ok && Object.keys(result.errors).sort()).toEqual([
+      "allergens",
+      "image_url",
+      "name",
+    ]);
+  });
+
+  it("keeps an explicit inactive flag", () => {
+    const result = validatePizza({ name: "Diavola", active: false });
+    expect(result.ok && result.data.active).toBe(false);
+  });
+});
+
+describe("package assignments", () => {
+  const assignments = [
+    { package_id: "standard", pizza_id: "margherita" },
+    { package_id: "premium", pizza_id: "margherita" },
+    { package_id: "premium", pizza_id: "tartufo" },
+  ];
+
+  it("lists a pizza's packages", () => {
+    expect(getPizzaPackageIds(assignments, "margherita")).toEqual(["standard", "premium"]);
+  });
+
+  it("reports only the packages a change leaves", () => {
+    expect(getRemovedPackageIds(["standard", "premium"], ["premium", "kids"])).toEqual([
+      "standard",
+    ]);
+  });
+});
+
+describe("buildMenu", () => {
+  const pkg = (id: string, sortOrder: number, active = true): Package => ({
+    id,
+    label: id,
+    description: null,
+    min_guests: 10,
+    max_guests: null,
+    price_tiers: [],
+    active,
+    sort_order: sortOrder,
+  });
+  const pizza = (id: string, sortOrder: number, active = true): CatalogPizza => ({
+    id,
+    name: id,
+    vegetarian: false,
+    vegan: false,
+    allergens: [],
+    dietary_tags: [],
+    description: null,
+    image_url: null,
+    active,
+    sort_order: sortOrder,
+  });
+
+  it("groups active pizzas under active packages and skips empty packages", () => {
+    const menu = buildMenu(
+      [pkg("standard", 10), pkg("premium", 20), pkg("retired", 30, false), pkg("empty", 40)],
+      [pizza("margherita", 2), pizza("marinara", 1), pizza("tartufo", 1, false)],
+      [
+        { package_id: "standard", pizza_id: "margherita" },
+        { package_id: "standard", pizza_id: "marinara" },
+        { package_id: "premium", pizza_id: "margherita" },
+        { package_id: "premium", pizza_id: "tartufo" },
+        { package_id: "retired", pizza_id: "margherita" },
+      ],
+    );
+    expect(
+      menu.map((section) => [section.package.id, section.pizzas.map((entry) => entry.id)]),
+    ).toEqual([
+      ["standard", ["marinara", "margherita"]],
+      ["premium", ["margherita"]],
+    ]);
+  });
+});
@@ -0,0 +1,246 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  ALLERGENS,
+  DIETARY_TAGS,
+  isAllergenId,
+  isDietaryTagId,
+  parseTagList,
+} from "./allergens";
+import type { CatalogPizza, Package, Pizza } from "./types";
+
+// The pizza catalog behind /admin/catalog: pizzas, and which packages offer
+// them (package_pizzas). Events copy their package's pizzas when they are
+// created (lib/eventMenu.ts), so taking a pizza out of a package or
+// deactivating it leaves upcoming events serving it until an admin re-syncs
+// them. Those events are listed before the change goes through.
+
+export const PIZZA_COLUMNS =
+  "id, name, vegetarian, vegan, allergens, dietary_tags, description, image_url, active, sort_order";
+
+export type PizzaField =
+  | "name"
+  | "description"
+  | "image_url"
+  | "allergens"
+  | "dietary_tags"
+  | "sort_order";
+
+export type PizzaInput = Omit<CatalogPizza, "id">;
+
+export type PackagePizza = {
+  package_id: string;
+  pizza_id: string;
+};
+
+export const MAX_PIZZA_NAME_LENGTH = 80;
+export const MAX_PIZZA_DESCRIPTION_LENGTH = 500;
+
+const trimmed = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+/** Validates the admin pizza form. Vegan pizzas are always vegetarian. */
+export function validatePizza(
+  input: unknown,
+):
+  | { ok: true; data: PizzaInput }
+  | { ok: false; errors: Partial<Record<PizzaField, string>> } {
+  const raw = (typeof input === "object" && input !== null ? input : {}) as
+    Record<string, unknown>;
+  const errors: Partial<Record<PizzaField, string>> = {};
+
+  const name = trimmed(raw.name);
+  if (!name) {
+    errors.name = "Name is required.";
+  } else if (name.length > MAX_PIZZA_NAME_LENGTH) {
+    errors.name = `Name must be at most ${MAX_PIZZA_NAME_LENGTH} characters.`;
+  }
+
+  const description = trimmed(raw.description);
+  if (description.length > MAX_PIZZA_DESCRIPTION_LENGTH) {
+    errors.description = `Description must be at most ${MAX_PIZZA_DESCRIPTION_LENGTH} characters.`;
+  }
+
+  const imageUrl = trimmed(raw.image_url);
+  if (imageUrl && !isHttpUrl(imageUrl)) {
+    errors.image_url = "Enter an http(s) link to the image.";
+  }
+
+  const sortOrder =
+    raw.sort_order === undefined || raw.sort_order === "" ? 0 : Number(raw.sort_order);
+  if (!Number.isInteger(sortOrder)) {
+    errors.sort_order = "Enter a whole number.";
+  }
+
+  const allergens = parseTagList(raw.allergens, isAllergenId, ALLERGENS);
+  if (!allergens) {
+    errors.allergens = "Pick allergens from the list.";
+  }
+
+  const dietaryTags = parseTagList(raw.dietary_tags, isDietaryTagId, DIETARY_TAGS);
+  if (!dietaryTags) {
+    errors.dietary_tags = "Pick tags from the list.";
+  }
+
+  if (Object.keys(errors).length > 0 || !allergens || !dietaryTags) {
+    return { ok: false, errors };
+  }
+
+  const vegan = raw.vegan === true;
+  return {
+    ok: true,
+    data: {
+      name,
+      description: description || null,
+      image_url: imageUrl || null,
+      vegan,
+      vegetarian: vegan || raw.vegetarian === true,
+      allergens,
+      dietary_tags: dietaryTags,
+      active: raw.active !== false,
+      sort_order: sortOrder,
+    },
+  };
+}
+
+/** "Vegan" or "Vegetarian", or null for pizzas with meat or fish. */
+export const getDietLabel = (pizza: Pick<Pizza, "vegetarian" | "vegan">) =>
+  pizza.vegan ? "Vegan" : pizza.vegetarian ? "Vegetarian" : null;
+
+export type MenuSection = {
+  package: Package;
+  pizzas: CatalogPizza[];
+};
+
+/**
+ * The public menu: active packages in their order, each with its active
+ * pizzas. Packages without any active pizza are left out.
+ */
+export const buildMenu = (
+  packages: Package[],
+  pizzas: CatalogPizza[],
+  assignments: PackagePizza[],
+): MenuSection[] =>
+  packages
+    .filter((pkg) => pkg.active)
+    .map((pkg) => ({
+      package: pkg,
+      pizzas: pizzas
+        .filter(
+          (pizza) =>
+            pizza.active &&
+            assignments.some(
+              (entry) => entry.package_id === pkg.id && entry.pizza_id === pizza.id,
+            ),
+        )
+        .sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name)),
+    }))
+    .filter((section) => section.pizzas.length > 0);
+
+/** The package ids a pizza is assigned to. */
+export const getPizzaPackageIds = (assignments: PackagePizza[], pizzaId: string) =>
+  assignments.filter((entry) => entry.pizza_id === pizzaId).map((entry) => entry.package_id);
+
+/** Packages in `current` that `next` leaves out. */
+export const getRemovedPackageIds = (current: string[], next: string[]) =>
+  current.filter((packageId) => !next.includes(packageId));
+
+/** The 409 message when a change needs `acknowledge_removals`. */
+export const COUNTER_REMOVAL_ERROR =
+  "Upcoming events still serve this pizza until their menus are re-synced.";
+
+/** The 409 message when a pizza on upcoming menus is deleted. */
+export const MENU_DELETE_ERROR =
+  "This pizza is on the menu of upcoming events. Deactivate it instead.";
+
+/** An upcoming event whose menu still has the pizza. */
+export type CounterRemoval = {
+  event_id: string;
+  name: string;
+  event_date: string;
+  timezone: string;
+  package_id: string;
+  /** Already counted for this pizza; a re-sync keeps counted pizzas. */
+  counted: number;
+};
+
+/**
+ * Upcoming events (not finalised or cancelled, not yet over) with the pizza
+ * on their menu, and what has been counted for it so far. `packageIds`
+ * narrows them to those packages; null means any package.
+ */
+export async function loadCounterRemovals(
+  client: SupabaseClient,
+  pizzaId: string,
+  packageIds: string[] | null,
+  now = new Date(),
+): Promise<CounterRemoval[]> {
+  if (packageIds?.length === 0) {
+    return [];
+  }
+
+  const nowISO = now.toISOString();
+  let query = client
+    .from("events")
+    .select("id, name, event_date, timezone, package_id, event_pizzas!inner ( pizza_id )")
+    .eq("event_pizzas.pizza_id", pizzaId);
+  if (packageIds) {
+    query = query.in("package_id", packageIds);
+  }
+  const { data: events, error: eventsError } = await query
+    .is("finalized_at", null)
+    .is("cancelled_at", null)
+    .or(`ends_at.gte.${nowISO},and(ends_at.is.null,event_date.gte.${nowISO})`)
+    .order("event_date", { ascending: true });
+
+  if (eventsError) {
+    throw eventsError;
+  }
+
+  const rows = (events ?? []) as Array<{
+    id: string;
+    name: string;
+    event_date: string;
+    timezone: string;
+    package_id: string;
+  }>;
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const { data: totals, error: totalsError } = await client
+    .from("pizza_totals")
+    .select("event_id, qty")
+    .eq("pizza_id", pizzaId)
+    .in(
+      "event_id",
+      rows.map((row) => row.id),
+    );
+
+  if (totalsError) {
+    throw totalsError;
+  }
+
+  const counted = new Map(
+    ((totals ?? []) as Array<{ event_id: string; qty: number }>).map((row) => [
+      row.event_id,
+      Number(row.qty ?? 0),
+    ]),
+  );
+
+  return rows.map((row) => ({
+    event_id: row.id,
+    name: row.name,
+    event_date: row.event_date,
+    timezone: row.timezone,
+    package_id: row.package_id,
+    counted: counted.get(row.id) ?? 0,
+  }));
+}
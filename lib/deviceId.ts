@@ -0,0 +1,29 @@
+const STORAGE_KEY = "il_catering_device_id";
+
+let cachedDeviceId: string | null = null;
+
+/**
+ * Stable id for this browser, stored in localStorage, so pizza_adjustments can
+ * tell which tablet made a change.
+ */
+export const getDeviceId = (): string => {
+  if (cachedDeviceId) {
+    return cachedDeviceId;
+  }
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      cachedDeviceId = stored;
+      return stored;
+    }
+    const created = crypto.randomUUID();
+    window.localStorage.setItem(STORAGE_KEY, created);
+    cachedDeviceId = created;
+    return created;
+  } catch {
+    // Private browsing can block storage; fall back to a per-tab id.
+    cachedDeviceId = cachedDeviceId ?? crypto.randomUUID();
+    return cachedDeviceId;
+  }
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { toIcsEvents, type CalendarEventRow } from "./eventIcs";
+
+const event: CalendarEventRow = {
+  id: "event-1",
+  name: "Rossi wedding",
+  event_date: "2026-11-14T18:00:00.000Z",
+  ends_at: "2026-11-14T22:00:00.000Z",
+  setup_minutes: 60,
+  teardown_minutes: 30,
+  service_windows: null,
+  timezone: "Europe/Rome",
+  address: "Via Roma 1",
+  package_id: "classic",
+  guests: 80,
+  sequence: 0,
+  updated_at: null,
+  cancelled_at: null,
+  booking: { customer_name: "Maria Rossi" },
+};
+
+const ORIGIN = "https://catering.example.com";
+
+describe("toIcsEvents", () => {
+  it("describes the package by its label", () => {
+    const [entry] = toIcsEvents(event, ORIGIN, [{ id: "classic", label: "Classic Napoli" }]);
+    expect(entry?.description).toContain("Package: Classic Napoli");
+  });
+
+  it("reminds staff when setup starts", () => {
+    const [entry] = toIcsEvents(event, ORIGIN, []);
+    expect(entry?.alarms).toEqual([
+      { minutesBefore: 60, description: "Setup for Rossi wedding starts now" },
+    ]);
+  });
+
+  it("skips the setup reminder for events without setup time", () => {
+    const [entry] = toIcsEvents({ ...event, setup_minutes: 0 }, ORIGIN, []);
+    expect(entry?.alarms).toEqual([]);
+  });
+
+  it("falls back to the package id for unknown packages", () => {
+    const [entry] = toIcsEvents(event, ORIGIN, []);
+    expect(entry?.description).toContain("Package: classic");
+  });
+});
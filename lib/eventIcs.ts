@@ -0,0 +1,107 @@
+import type { IcsEvent, IcsPerson } from "./ics";
+import { getPackageLabel } from "./packages";
+import { DEFAULT_SETUP_MINUTES, DEFAULT_TEARDOWN_MINUTES, getServiceWindows } from "./schedule";
+import { resolveTimeZone } from "./timezone";
+import type { EventRow, Package } from "./types";
+
+export type CalendarEventRow = Pick<
+  EventRow,
+  | "id"
+  | "name"
+  | "event_date"
+  | "ends_at"
+  | "setup_minutes"
+  | "teardown_minutes"
+  | "service_windows"
+  | "timezone"
+  | "address"
+  | "package_id"
+  | "guests"
+> & {
+  sequence: number | null;
+  updated_at: string | null;
+  cancelled_at: string | null;
+  /** customer_email is only loaded for the customer's own copy. */
+  booking: { customer_name: string | null; customer_email?: string | null } | null;
+};
+
+/** Staff exports: the event and who booked it, without contact details. */
+export const CALENDAR_EVENT_COLUMNS =
+  "id, name, event_date, ends_at, setup_minutes, teardown_minutes, service_windows, timezone, address, package_id, guests, sequence, updated_at, cancelled_at, booking:booking_id ( customer_name )";
+
+/** The customer's copy, which lists them as the attendee. */
+export const CUSTOMER_CALENDAR_EVENT_COLUMNS =
+  "id, name, event_date, ends_at, setup_minutes, teardown_minutes, service_windows, timezone, address, package_id, guests, sequence, updated_at, cancelled_at, booking:booking_id ( customer_name, customer_email )";
+
+/** Organizer for exported events, from CALENDAR_ORGANIZER_EMAIL / _NAME. */
+export const getCalendarOrganizer = (): IcsPerson | undefined => {
+  const email = process.env.CALENDAR_ORGANIZER_EMAIL?.trim();
+  if (!email) {
+    return undefined;
+  }
+  return {
+    email,
+    name: process.env.CALENDAR_ORGANIZER_NAME?.trim() || "il Catering",
+  };
+};
+
+/**
+ * One VEVENT per service window, so lunch and dinner show up as separate
+ * entries. The first keeps the event's base UID. Staff are reminded when setup
+ * should start, if the event has any. With `customerUrl` the export is the customer's copy: it links
+ * to their booking page, lists them as the attendee and leaves out the crew's
+ * setup and teardown. `packages` supply the package label.
+ */
+export const toIcsEvents = (
+  event: CalendarEventRow,
+  origin: string,
+  packages: Array<Pick<Package, "id" | "label">>,
+  customerUrl?: string,
+): IcsEvent[] => {
+  const packageLabel = getPackageLabel(packages, event.package_id);
+  const customerEmail = customerUrl ? event.booking?.customer_email : null;
+  const windows = getServiceWindows(event);
+  const setupMinutes = event.setup_minutes ?? DEFAULT_SETUP_MINUTES;
+  const teardownMinutes = event.teardown_minutes ?? DEFAULT_TEARDOWN_MINUTES;
+
+  const description = [
+    packageLabel ? `Package: ${packageLabel}` : null,
+    event.guests ? `Guests: ${event.guests}` : null,
+    event.booking?.customer_name ? `Customer: ${event.booking.customer_name}` : null,
+    !customerUrl && setupMinutes > 0
+      ? `Setup: ${setupMinutes} min before the first service`
+      : null,
+    !customerUrl && teardownMinutes > 0
+      ? `Teardown: ${teardownMinutes} min after the last service`
+      : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return windows.map((window, index) => ({
+    id: event.id,
+    part: index,
+    name:
+      windows.length > 1
+        ? `${event.name}: ${window.label ?? `Service ${index + 1}`}`
+        : event.name,
+    start: window.starts_at,
+    end: window.ends_at,
+    timeZone: resolveTimeZone(event.timezone),
+    address: event.address ?? undefined,
+    description,
+    url: customerUrl ?? `${origin}/events/${event.id}/summary`,
+    sequence: event.sequence ?? 0,
+    lastModified: event.updated_at ?? undefined,
+    status: event.cancelled_at ? "CANCELLED" : "CONFIRMED",
+    organizer: getCalendarOrganizer(),
+    attendees: customerEmail
+      ? [{ email: customerEmail, name: event.booking?.customer_name ?? undefined }]
+      : [],
+    // Without setup time there is no setup to be reminded of.
+    alarms:
+      index === 0 && !customerUrl && setupMinutes > 0
+        ? [{ minutesBefore: setupMinutes, description: `Setup for ${event.name} starts now` }]
+        : [],
+  }));
+};
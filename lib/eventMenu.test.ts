@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  diffEventMenu,
+  getMenuDiffFingerprint,
+  hasMenuChanges,
+  type EventMenuPizza,
+} from "./eventMenu";
+import type { Pizza } from "./types";
+
+const pizza = (id: string, overrides: Partial<Pizza> = {}): Pizza => ({
+  id,
+  name: id,
+  vegetarian: false,
+  vegan: false,
+  allergens: ["gluten"],
+  dietary_tags: [],
+  ...overrides,
+});
+
+const onMenu = (entry: Pizza): EventMenuPizza => ({
+  ...entry,
+  sort_order: 0,
+  captured_at: "2026-10-01T10:00:00.000Z",
+});
+
+describe("diffEventMenu", () => {
+  const menu = [
+    onMenu(pizza("margherita", { vegetarian: true, allergens: ["gluten", "milk"] })),
+    onMenu(pizza("pepperoni")),
+    onMenu(pizza("tuna", { allergens: ["gluten", "fish"] })),
+  ];
+
+  it("sorts pizzas into added, removed, kept and changed", () => {
+    const catalog = [
+      pizza("margherita", { name: "Margherita DOP", vegetarian: true, allergens: ["milk", "gluten"] }),
+      pizza("marinara", { vegetarian: true, vegan: true }),
+    ];
+    const diff = diffEventMenu(menu, catalog, { tuna: 4 });
+
+    expect(diff.added.map((entry) => entry.id)).toEqual(["marinara"]);
+    expect(diff.removed.map((entry) => entry.id)).toEqual(["pepperoni"]);
+    expect(diff.kept.map((entry) => [entry.id, entry.counted])).toEqual([["tuna", 4]]);
+    expect(diff.changed.map((entry) => [entry.before.id, entry.fields])).toEqual([
+      ["margherita", ["name"]],
+    ]);
+    expect(hasMenuChanges(diff)).toBe(true);
+  });
+
+  it("reports no changes when only counted pizzas left the package", () => {
+    const catalog = [
+      pizza("margherita", { vegetarian: true, allergens: ["gluten", "milk"] }),
+      pizza("pepperoni"),
+    ];
+    const diff = diffEventMenu(menu, catalog, { tuna: 2 });
+    expect(diff.kept).toHaveLength(1);
+    expect(hasMenuChanges(diff)).toBe(false);
+  });
+
+  it("flags diet and allergen edits", () => {
+    const diff = diffEventMenu(
+      [onMenu(pizza("pepperoni"))],
+      [pizza("pepperoni", { allergens: ["gluten", "mustard"], dietary_tags: ["spicy"] })],
+      {},
+    );
+    expect(diff.changed[0]?.fields).toEqual(["allergens", "dietary_tags"]);
+  });
+});
+
+describe("getMenuDiffFingerprint", () => {
+  const menu = [onMenu(pizza("pepperoni")), onMenu(pizza("tuna"))];
+
+  it("ignores ordering and counted pizzas", () => {
+    const catalog = [pizza("marinara", { vegan: true }), pizza("margherita")];
+    const before = diffEventMenu(menu, catalog, { tuna: 2 });
+    const after = diffEventMenu(menu, [...catalog].reverse(), { tuna: 5 });
+    expect(getMenuDiffFingerprint(after)).toBe(getMenuDiffFingerprint(before));
+  });
+
+  it("changes when the catalog changes what a re-sync applies", () => {
+    const before = diffEventMenu(menu, [pizza("pepperoni"), pizza("marinara")], {});
+    const renamed = diffEventMenu(
+      menu,
+      [pizza("pepperoni"), pizza("marinara", { name: "Marinara classica" })],
+      {},
+    );
+    const tagged = diffEventMenu(
+      menu,
+      [pizza("pepperoni", { dietary_tags: ["spicy"] }), pizza("marinara")],
+      {},
+    );
+    expect(getMenuDiffFingerprint(renamed)).not.toBe(getMenuDiffFingerprint(before));
+    expect(getMenuDiffFingerprint(tagged)).not.toBe(getMenuDiffFingerprint(before));
+  });
+});
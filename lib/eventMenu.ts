@@ -0,0 +1,122 @@
+import type { Pizza } from "./types";
+
+// An event's menu (event_pizzas) is a copy of its package taken when the
+// event was created. Catalog edits reach an upcoming event only through an
+// admin re-sync, previewed with diffEventMenu first.
+
+/** A pizza as it was on the event's menu. */
+export type EventMenuPizza = Pizza & {
+  sort_order: number;
+  captured_at: string;
+};
+
+export const EVENT_MENU_COLUMNS =
+  "id:pizza_id, name, vegetarian, vegan, allergens, dietary_tags, sort_order, captured_at";
+
+export type MenuChangeField = "name" | "diet" | "allergens" | "dietary_tags";
+
+export const MENU_CHANGE_LABELS: Record<MenuChangeField, string> = {
+  name: "name",
+  diet: "vegetarian/vegan",
+  allergens: "allergens",
+  dietary_tags: "tags",
+};
+
+export type EventMenuDiff = {
+  /** In the package now, not on the menu yet. */
+  added: Pizza[];
+  /** Gone from the package (or deactivated) and never counted. */
+  removed: EventMenuPizza[];
+  /** Gone from the package but already counted, so they stay. */
+  kept: Array<EventMenuPizza & { counted: number }>;
+  /** On both, with catalog edits to pick up. */
+  changed: Array<{ before: EventMenuPizza; after: Pizza; fields: MenuChangeField[] }>;
+};
+
+const sameList = (a: readonly string[] = [], b: readonly string[] = []) =>
+  a.length === b.length && a.every((entry) => b.includes(entry));
+
+const getChangedFields = (before: Pizza, after: Pizza): MenuChangeField[] => {
+  const fields: MenuChangeField[] = [];
+  if (before.name !== after.name) fields.push("name");
+  if (before.vegetarian !== after.vegetarian || before.vegan !== after.vegan) {
+    fields.push("diet");
+  }
+  if (!sameList(before.allergens, after.allergens)) fields.push("allergens");
+  if (!sameList(before.dietary_tags, after.dietary_tags)) fields.push("dietary_tags");
+  return fields;
+};
+
+/**
+ * What re-syncing the event would do: `catalog` is the package's active
+ * pizzas today and `totals` the counts so far, by pizza id.
+ */
+export function diffEventMenu(
+  menu: EventMenuPizza[],
+  catalog: Pizza[],
+  totals: Record<string, number>,
+): EventMenuDiff {
+  const diff: EventMenuDiff = { added: [], removed: [], kept: [], changed: [] };
+  const catalogById = new Map(catalog.map((pizza) => [pizza.id, pizza]));
+  const menuIds = new Set(menu.map((pizza) => pizza.id));
+
+  for (const pizza of menu) {
+    const current = catalogById.get(pizza.id);
+    if (!current) {
+      const counted = totals[pizza.id] ?? 0;
+      if (counted > 0) {
+        diff.kept.push({ ...pizza, counted });
+      } else {
+        diff.removed.push(pizza);
+      }
+      continue;
+    }
+
+    const fields = getChangedFields(pizza, current);
+    if (fields.length > 0) {
+      diff.changed.push({ before: pizza, after: current, fields });
+    }
+  }
+
+  diff.added = catalog.filter((pizza) => !menuIds.has(pizza.id));
+  return diff;
+}
+
+/** Whether a re-sync would change the menu. Kept pizzas change nothing. */
+export const hasMenuChanges = (diff: EventMenuDiff) =>
+  diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+
+const sorted = (list: readonly string[] = []) => [...list].sort();
+
+/**
+ * Identifies what a re-sync would change, so applying it can be refused when
+ * the catalog moved on since the admin's preview. Kept pizzas change nothing
+ * and are left out.
+ */
+export function getMenuDiffFingerprint(diff: EventMenuDiff): string {
+  const describe = (pizza: Pizza) => [
+    pizza.id,
+    pizza.name,
+    pizza.vegetarian,
+    pizza.vegan,
+    sorted(pizza.allergens),
+    sorted(pizza.dietary_tags),
+  ];
+  const byId = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id);
+  const source = JSON.stringify([
+    [...diff.added].sort(byId).map(describe),
+    diff.removed.map((pizza) => pizza.id).sort(),
+    diff.changed
+      .map((entry) => entry.after)
+      .sort(byId)
+      .map(describe),
+  ]);
+
+  // FNV-1a; a mismatch only has to be noticed, not resist tampering.
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < source.length; index += 1) {
+    hash ^= source.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
@@ -0,0 +1,308 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendar, buildEventUid, buildIcs, foldLine, type IcsEvent } from './ics';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+const baseEvent: IcsEvent = {
+  id: '5f1c2d7e-0000-4000-8000-000000000001',
+  name: 'Rossi wedding',
+  start: '2026-11-07T17:00:00Z',
+  end: '2026-11-07T21:00:00Z',
+  address: 'Via Roma 1, Bologna',
+};
+
+const octets = (value: string) => new TextEncoder().encode(value).length;
+
+// RFC 5545 §3.1: remove every CRLF followed by a single space or tab.
+const unfold = (value: string) => value.replace(/\r\n[ \t]/g, '');
+
+const contentLines = (value: string) => unfold(value).split('\r\n').filter(Boolean);
+
+const blocks = (value: string, name: string) =>
+  unfold(value).match(new RegExp(`BEGIN:${name}\\r\\n[\\s\\S]*?END:${name}`, 'g')) ?? [];
+
+describe('buildIcs', () => {
+  it('wraps one VEVENT in a VCALENDAR with the required properties', () => {
+    const lines = contentLines(buildIcs(baseEvent, { now: NOW }));
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('VERSION:2.0');
+    expect(lines.some((line) => line.startsWith('PRODID:'))).toBe(true);
+    expect(lines).toContain('METHOD:PUBLISH');
+    expect(lines.at(-1)).toBe('END:VCALENDAR');
+    expect(lines).toContain('DTSTAMP:20261019T120000Z');
+    expect(lines).toContain('DTSTART:20261107T170000Z');
+    expect(lines).toContain('DTEND:20261107T210000Z');
+    expect(lines).toContain('STATUS:CONFIRMED');
+  });
+
+  it('derives a stable UID from the event id', () => {
+    const first = buildIcs(baseEvent, { now: NOW });
+    const second = buildIcs(
+      { ...baseEvent, start: '2026-11-08T17:00:00Z', end: undefined },
+      { now: new Date('2026-10-20T08:00:00Z') },
+    );
+    const uid = `UID:${buildEventUid(baseEvent.id)}`;
+
+    expect(contentLines(first)).toContain(uid);
+    expect(contentLines(second)).toContain(uid);
+    expect(buildEventUid(baseEvent.id)).toMatch(/^event-.+@[\w.-]+$/);
+  });
+
+  it('uses CRLF line endings, including after the last line', () => {
+    const ics = buildIcs(baseEvent, { now: NOW });
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('emits SEQUENCE and LAST-MODIFIED for updates', () => {
+    const lines = contentLines(
+      buildIcs({ ...baseEvent, sequence: 3, lastModified: '2026-10-18T09:30:00Z' }, { now: NOW }),
+    );
+
+    expect(lines).toContain('SEQUENCE:3');
+    expect(lines).toContain('LAST-MODIFIED:20261018T093000Z');
+  });
+
+  it('defaults SEQUENCE to 0', () => {
+    expect(contentLines(buildIcs(baseEvent, { now: NOW }))).toContain('SEQUENCE:0');
+  });
+
+  it('sends cancelled events as METHOD:CANCEL without reminders', () => {
+    const lines = contentLines(
+      buildIcs(
+        {
+          ...baseEvent,
+          status: 'CANCELLED',
+          sequence: 2,
+          alarms: [{ minutesBefore: 120, description: 'Setup' }],
+        },
+        { now: NOW },
+      ),
+    );
+
+    expect(lines).toContain('METHOD:CANCEL');
+    expect(lines).toContain('STATUS:CANCELLED');
+    expect(lines).toContain('SEQUENCE:2');
+    expect(lines).not.toContain('BEGIN:VALARM');
+  });
+
+  it('gives cancellations an ORGANIZER even when none is configured', () => {
+    const cancelled = contentLines(buildIcs({ ...baseEvent, status: 'CANCELLED' }, { now: NOW }));
+    const published = contentLines(buildIcs(baseEvent, { now: NOW }));
+
+    expect(cancelled.some((line) => line.startsWith('ORGANIZER'))).toBe(true);
+    expect(published.some((line) => line.startsWith('ORGANIZER'))).toBe(false);
+  });
+
+  it('adds a display VALARM with a negative duration trigger', () => {
+    const ics = buildIcs(
+      { ...baseEvent, alarms: [{ minutesBefore: 120, description: 'Setup starts now' }] },
+      { now: NOW },
+    );
+    const [alarm] = blocks(ics, 'VALARM');
+
+    expect(alarm?.split('\r\n')).toEqual([
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER:-PT120M',
+      'DESCRIPTION:Setup starts now',
+      'END:VALARM',
+    ]);
+  });
+
+  it('writes ORGANIZER and ATTENDEE as mailto addresses with quoted common names', () => {
+    const lines = contentLines(
+      buildIcs(
+        {
+          ...baseEvent,
+          organizer: { email: 'bookings@example.com', name: 'il Catering' },
+          attendees: [{ email: 'rossi@example.com', name: 'Rossi, Maria' }],
+        },
+        { now: NOW },
+      ),
+    );
+
+    expect(lines).toContain('ORGANIZER;CN=il Catering:mailto:bookings@example.com');
+    expect(lines).toContain(
+      'ATTENDEE;CN="Rossi, Maria";ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION:mailto:rossi@example.com',
+    );
+  });
+
+  it('escapes TEXT values', () => {
+    const lines = contentLines(
+      buildIcs(
+        { ...baseEvent, description: 'Gate code; 12,34\nBring a \\ ladder' },
+        { now: NOW },
+      ),
+    );
+
+    expect(lines).toContain('DESCRIPTION:Gate code\\; 12\\,34\\nBring a \\\\ ladder');
+    expect(lines).toContain('LOCATION:Via Roma 1\\, Bologna');
+  });
+
+  it('omits DTEND unless it is after DTSTART', () => {
+    const noEnd = contentLines(buildIcs({ ...baseEvent, end: undefined }, { now: NOW }));
+    const sameEnd = contentLines(buildIcs({ ...baseEvent, end: baseEvent.start }, { now: NOW }));
+
+    expect(noEnd.some((line) => line.startsWith('DTEND'))).toBe(false);
+    expect(sameEnd.some((line) => line.startsWith('DTEND'))).toBe(false);
+  });
+
+  it('gives every part of a split event its own stable UID', () => {
+    const ics = buildIcs(
+      [
+        { ...baseEvent, name: 'Rossi wedding: Lunch' },
+        {
+          ...baseEvent,
+          part: 1,
+          name: 'Rossi wedding: Dinner',
+          start: '2026-11-07T19:00:00Z',
+          end: '2026-11-07T22:00:00Z',
+        },
+      ],
+      { now: NOW },
+    );
+    const lines = contentLines(ics);
+
+    expect(blocks(ics, 'VEVENT')).toHaveLength(2);
+    expect(lines).toContain(`UID:${buildEventUid(baseEvent.id)}`);
+    expect(lines).toContain(`UID:${buildEventUid(baseEvent.id, 1)}`);
+    expect(buildEventUid(baseEvent.id, 1)).not.toBe(buildEventUid(baseEvent.id));
+    expect(lines).toContain('METHOD:PUBLISH');
+  });
+
+  it('rejects invalid dates', () => {
+    expect(() => buildIcs({ ...baseEvent, start: 'not a date' })).toThrow(/Invalid ICS date/);
+  });
+});
+
+describe('time zones', () => {
+  const zoned: IcsEvent = { ...baseEvent, timeZone: 'Europe/Rome' };
+
+  it('writes venue wall-clock times with TZID', () => {
+    const lines = contentLines(buildIcs(zoned, { now: NOW }));
+
+    expect(lines).toContain('DTSTART;TZID=Europe/Rome:20261107T180000');
+    expect(lines).toContain('DTEND;TZID=Europe/Rome:20261107T220000');
+    expect(lines).toContain('DTSTAMP:20261019T120000Z');
+  });
+
+  it('adds a VTIMEZONE with the DST changes around the event', () => {
+    const ics = buildIcs(zoned, { now: NOW });
+    const [zone] = blocks(ics, 'VTIMEZONE');
+    const zoneLines = zone?.split('\r\n') ?? [];
+
+    expect(blocks(ics, 'VTIMEZONE')).toHaveLength(1);
+    expect(zoneLines).toContain('TZID:Europe/Rome');
+    // Autumn 2026: CEST (+0200) back to CET (+0100) at 03:00 local.
+    expect(zone).toContain(
+      'BEGIN:STANDARD\r\nDTSTART:20261025T030000\r\nTZOFFSETFROM:+0200\r\nTZOFFSETTO:+0100',
+    );
+    expect(zone).toContain(
+      'BEGIN:DAYLIGHT\r\nDTSTART:20260329T020000\r\nTZOFFSETFROM:+0100\r\nTZOFFSETTO:+0200',
+    );
+    expect(unfold(ics).indexOf('BEGIN:VTIMEZONE')).toBeLessThan(unfold(ics).indexOf('BEGIN:VEVENT'));
+  });
+
+  it('describes zones without DST with a single observance', () => {
+    const ics = buildIcs({ ...baseEvent, timeZone: 'Asia/Tokyo' }, { now: NOW });
+    const [zone] = blocks(ics, 'VTIMEZONE');
+
+    expect(zone).toContain('TZOFFSETFROM:+0900\r\nTZOFFSETTO:+0900');
+    expect(contentLines(ics)).toContain('DTSTART;TZID=Asia/Tokyo:20261108T020000');
+  });
+
+  it('emits one VTIMEZONE per zone in a feed', () => {
+    const ics = buildCalendar(
+      [zoned, { ...zoned, id: 'second' }, { ...baseEvent, id: 'third', timeZone: 'America/New_York' }],
+      { now: NOW },
+    );
+
+    expect(blocks(ics, 'VTIMEZONE')).toHaveLength(2);
+  });
+});
+
+describe('foldLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = `SUMMARY:${'a'.repeat(67)}`;
+    expect(octets(line)).toBe(75);
+    expect(foldLine(line)).toBe(line);
+  });
+
+  it('folds long lines into chunks of at most 75 octets', () => {
+    const line = `DESCRIPTION:${'x'.repeat(300)}`;
+    const folded = foldLine(line);
+    const physical = folded.split('\r\n');
+
+    expect(physical.length).toBeGreaterThan(1);
+    for (const [index, part] of physical.entries()) {
+      expect(octets(part)).toBeLessThanOrEqual(75);
+      if (index > 0) {
+        expect(part.startsWith(' ')).toBe(true);
+      }
+    }
+    expect(unfold(folded)).toBe(line);
+  });
+
+  it('never splits a multi-byte UTF-8 character', () => {
+    const line = `SUMMARY:${'🍕è'.repeat(40)}`;
+    const folded = foldLine(line);
+
+    for (const part of folded.split('\r\n')) {
+      expect(octets(part)).toBeLessThanOrEqual(75);
+      expect(part).not.toContain('�');
+      expect(/[\uD800-\uDBFF]$/.test(part)).toBe(false);
+    }
+    expect(unfold(folded)).toBe(line);
+  });
+});
+
+describe('buildCalendar', () => {
+  it('puts every event in one calendar with subscription hints', () => {
+    const ics = buildCalendar(
+      [baseEvent, { ...baseEvent, id: 'second-event', name: 'Bianchi party' }],
+      { name: 'My shifts', refreshInterval: 'PT1H', now: NOW },
+    );
+    const lines = contentLines(ics);
+    const events = blocks(ics, 'VEVENT');
+
+    expect(events).toHaveLength(2);
+    expect(lines.filter((line) => line === 'BEGIN:VCALENDAR')).toHaveLength(1);
+    expect(lines).toContain('X-WR-CALNAME:My shifts');
+    expect(lines).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT1H');
+    for (const event of events) {
+      expect(event).toMatch(/\r\nUID:/);
+      expect(event).toMatch(/\r\nDTSTAMP:/);
+    }
+  });
+
+  it('keeps every physical line within 75 octets', () => {
+    const ics = buildCalendar(
+      [
+        {
+          ...baseEvent,
+          name: 'Festa di compleanno con pizza napoletana e tanti ospiti 🎉 '.repeat(3),
+          description: 'Lunga descrizione '.repeat(20),
+          attendees: [{ email: 'someone.with.a.long.address@example.com', name: 'Someone With A Long Name' }],
+        },
+      ],
+      { now: NOW },
+    );
+
+    for (const line of ics.split('\r\n')) {
+      expect(octets(line)).toBeLessThanOrEqual(75);
+    }
+  });
+
+  it('marks cancelled events in a feed without switching the feed to CANCEL', () => {
+    const lines = contentLines(
+      buildCalendar([baseEvent, { ...baseEvent, id: 'gone', status: 'CANCELLED' }], { now: NOW }),
+    );
+
+    expect(lines).toContain('METHOD:PUBLISH');
+    expect(lines).toContain('STATUS:CANCELLED');
+    expect(lines).toContain('STATUS:CONFIRMED');
+  });
+});
@@ -1,12 +1,68 @@
+// RFC 5545 calendar output for events, used by the .ics download and the
+// subscription feeds.
+
+import { getZoneAbbreviation, getZoneOffsetMs, toZonedLocalValue } from './timezone';
+
+export type IcsPerson = {
+  email: string;
+  name?: string;
+};
+
+export type IcsAlarm = {
+  /** Minutes before DTSTART the reminder fires. */
+  minutesBefore: number;
+  description: string;
+};
+
 export type IcsEvent = {
+  /** Event id; the UID is derived from it so re-imports update the same entry. */
+  id: string;
+  /** Which VEVENT of an event split over several (e.g. lunch and dinner); 0 is the first. */
+  part?: number;
   name: string;
   start: string;
   end?: string;
+  /**
+   * IANA zone of the venue. DTSTART/DTEND are then written as wall-clock
+   * times with TZID and the calendar gets a matching VTIMEZONE.
+   */
+  timeZone?: string;
   address?: string;
   description?: string;
+  url?: string;
+  /** Bumped on every reschedule so clients replace their copy. */
+  sequence?: number;
+  lastModified?: string;
+  status?: 'CONFIRMED' | 'CANCELLED';
+  organizer?: IcsPerson;
+  attendees?: IcsPerson[];
+  alarms?: IcsAlarm[];
+};
+
+export type IcsMethod = 'PUBLISH' | 'CANCEL';
+
+export type IcsCalendarOptions = {
+  name?: string;
+  /** How often subscribers should poll, as an ISO 8601 duration (e.g. PT1H). */
+  refreshInterval?: string;
+  method?: IcsMethod;
+  /** DTSTAMP for every event; defaults to now. */
+  now?: Date;
 };
 
 const DEFAULT_PRODID = '-//il Catering//Bookings//EN';
+const UID_DOMAIN = 'il-catering';
+// METHOD:CANCEL requires an ORGANIZER (RFC 5546); used when none is configured.
+const FALLBACK_ORGANIZER: IcsPerson = {
+  email: 'calendar@il-catering.invalid',
+  name: 'il Catering',
+};
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+export const buildEventUid = (eventId: string, part = 0) =>
+  part > 0 ? `event-${eventId}-${part}@${UID_DOMAIN}` : `event-${eventId}@${UID_DOMAIN}`;
 
 const escapeText = (value?: string) =>
   (value ?? '')
@@ -15,33 +71,191 @@ const escapeText = (value?: string) =>
     .replace(/;/g, '\\;')
     .replace(/\r?\n/g, '\\n');
 
-const toIcsDate = (value: string) => {
-  const date = new Date(value);
+// Parameter values cannot contain DQUOTE and need quoting around : ; ,
+const quoteParam = (value: string) => {
+  const cleaned = value.replace(/["\r\n]/g, '');
+  return /[:;,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+};
+
+const toIcsDate = (value: string | Date) => {
+  const date = value instanceof Date ? value : new Date(value);
   if (Number.isNaN(date.getTime())) {
-    throw new Error(`Invalid ICS date: ${value}`);
+    throw new Error(`Invalid ICS date: ${String(value)}`);
   }
   const pad = (num: number) => String(num).padStart(2, '0');
   return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
 };
 
-export const buildIcs = (event: IcsEvent): string => {
-  const dtStamp = toIcsDate(new Date().toISOString());
-  const dtStart = toIcsDate(event.start);
-  const dtEnd = event.end ? toIcsDate(event.end) : dtStart;
-  const uid = `${Date.now()}@il_catering`;
+// DATE-TIME in the venue's wall clock, for use with a TZID parameter.
+const toIcsLocalDate = (value: string, timeZone: string) => {
+  const local = toZonedLocalValue(value, timeZone);
+  if (!local) {
+    throw new Error(`Invalid ICS date: ${value}`);
+  }
+  return `${local.replace(/[-:]/g, '')}00`;
+};
+
+const formatDateProperty = (name: 'DTSTART' | 'DTEND', value: string, timeZone?: string) =>
+  timeZone
+    ? `${name};TZID=${timeZone}:${toIcsLocalDate(value, timeZone)}`
+    : `${name}:${toIcsDate(value)}`;
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const formatUtcOffset = (offsetMs: number) => {
+  const sign = offsetMs < 0 ? '-' : '+';
+  const minutes = Math.abs(Math.round(offsetMs / MINUTE_MS));
+  const pad = (num: number) => String(num).padStart(2, '0');
+  return `${sign}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+};
+
+type ZoneTransition = { at: number; from: number; to: number };
+
+// Scans day by day for offset changes, then narrows each one to the minute.
+const findZoneTransitions = (timeZone: string, fromYear: number, toYear: number) => {
+  const transitions: ZoneTransition[] = [];
+  const end = Date.UTC(toYear + 1, 0, 1);
+  let previous = Date.UTC(fromYear, 0, 1);
+  let previousOffset = getZoneOffsetMs(previous, timeZone);
+
+  for (let time = previous + DAY_MS; time <= end; time += DAY_MS) {
+    const offset = getZoneOffsetMs(time, timeZone);
+    if (offset !== previousOffset) {
+      let low = previous;
+      let high = time;
+      while (high - low > MINUTE_MS) {
+        const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+        if (getZoneOffsetMs(middle, timeZone) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({ at: high, from: previousOffset, to: offset });
+    }
+    previous = time;
+    previousOffset = offset;
+  }
+
+  return transitions;
+};
+
+/**
+ * VTIMEZONE for `timeZone` with an explicit observance for every offset
+ * change from the year before `fromYear` through `toYear`, so every event in
+ * that range resolves without relying on RRULEs.
+ */
+const buildTimezoneLines = (timeZone: string, fromYear: number, toYear: number) => {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  const transitions = findZoneTransitions(timeZone, fromYear - 1, toYear);
+
+  if (transitions.length === 0) {
+    const at = Date.UTC(fromYear, 0, 1);
+    const offset = formatUtcOffset(getZoneOffsetMs(at, timeZone));
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      `TZNAME:${escapeText(getZoneAbbreviation(new Date(at).toISOString(), timeZone))}`,
+      'END:STANDARD',
+    );
+  }
+
+  for (const transition of transitions) {
+    const kind = transition.to > transition.from ? 'DAYLIGHT' : 'STANDARD';
+    // An observance starts at the wall-clock time before the change.
+    const onset = toIcsDate(new Date(transition.at + transition.from)).slice(0, -1);
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${onset}`,
+      `TZOFFSETFROM:${formatUtcOffset(transition.from)}`,
+      `TZOFFSETTO:${formatUtcOffset(transition.to)}`,
+      `TZNAME:${escapeText(getZoneAbbreviation(new Date(transition.at).toISOString(), timeZone))}`,
+      `END:${kind}`,
+    );
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+/**
+ * Splits a content line into chunks of at most 75 octets (RFC 5545 §3.1).
+ * Continuation lines start with a space, which counts towards their 75, and
+ * multi-byte UTF-8 characters are never split.
+ */
+export const foldLine = (line: string): string => {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+};
+
+const formatPerson = (property: 'ORGANIZER' | 'ATTENDEE', person: IcsPerson) => {
+  const params = person.name ? `;CN=${quoteParam(person.name)}` : '';
+  const extra =
+    property === 'ATTENDEE' ? ';ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION' : '';
+  return `${property}${params}${extra}:mailto:${person.email}`;
+};
+
+const buildAlarmLines = (alarm: IcsAlarm): string[] => [
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  `TRIGGER:-PT${Math.max(0, Math.round(alarm.minutesBefore))}M`,
+  `DESCRIPTION:${escapeText(alarm.description)}`,
+  'END:VALARM',
+];
+
+const buildEventLines = (
+  event: IcsEvent,
+  dtStamp: string,
+  method: IcsMethod,
+): string[] => {
+  const cancelled = method === 'CANCEL' || event.status === 'CANCELLED';
 
   const lines = [
-    'BEGIN:VCALENDAR',
-    'VERSION:2.0',
-    `PRODID:${DEFAULT_PRODID}`,
     'BEGIN:VEVENT',
-    `UID:${uid}`,
+    `UID:${buildEventUid(event.id, event.part)}`,
     `DTSTAMP:${dtStamp}`,
-    `DTSTART:${dtStart}`,
-    `DTEND:${dtEnd}`,
-    `SUMMARY:${escapeText(event.name)}`,
+    formatDateProperty('DTSTART', event.start, event.timeZone),
   ];
 
+  // DTEND must be later than DTSTART; without an end the event is a point in time.
+  if (event.end && new Date(event.end).getTime() > new Date(event.start).getTime()) {
+    lines.push(formatDateProperty('DTEND', event.end, event.timeZone));
+  }
+
+  lines.push(
+    `SEQUENCE:${Math.max(0, Math.trunc(event.sequence ?? 0))}`,
+    `SUMMARY:${escapeText(event.name)}`,
+    `STATUS:${cancelled ? 'CANCELLED' : (event.status ?? 'CONFIRMED')}`,
+  );
+
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${toIcsDate(event.lastModified)}`);
+  }
+
   if (event.address) {
     lines.push(`LOCATION:${escapeText(event.address)}`);
   }
@@ -50,7 +264,100 @@ export const buildIcs = (event: IcsEvent): string => {
     lines.push(`DESCRIPTION:${escapeText(event.description)}`);
   }
 
-  lines.push('END:VEVENT', 'END:VCALENDAR');
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+
+  const organizer = event.organizer ?? (method === 'CANCEL' ? FALLBACK_ORGANIZER : undefined);
+  if (organizer) {
+    lines.push(formatPerson('ORGANIZER', organizer));
+  }
+
+  for (const attendee of event.attendees ?? []) {
+    lines.push(formatPerson('ATTENDEE', attendee));
+  }
+
+  // Reminders for a cancelled event would only be noise.
+  if (!cancelled) {
+    for (const alarm of event.alarms ?? []) {
+      lines.push(...buildAlarmLines(alarm));
+    }
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/** One VCALENDAR holding every event, e.g. for a subscription feed. */
+export const buildCalendar = (
+  events: IcsEvent[],
+  options: IcsCalendarOptions = {},
+): string => {
+  const method = options.method ?? 'PUBLISH';
+  const dtStamp = toIcsDate(options.now ?? new Date());
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${DEFAULT_PRODID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+  ];
+
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+
+  if (options.refreshInterval) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:${options.refreshInterval}`,
+      `X-PUBLISHED-TTL:${options.refreshInterval}`,
+    );
+  }
+
+  // One VTIMEZONE per zone in use, covering the years its events span.
+  const zoneYears = new Map<string, { from: number; to: number }>();
+  for (const event of events) {
+    if (!event.timeZone) continue;
+    const years = [event.start, event.end ?? event.start].map((value) =>
+      new Date(value).getUTCFullYear(),
+    );
+    const current = zoneYears.get(event.timeZone);
+    zoneYears.set(event.timeZone, {
+      from: Math.min(current?.from ?? Infinity, ...years),
+      to: Math.max(current?.to ?? -Infinity, ...years),
+    });
+  }
+  for (const [timeZone, years] of zoneYears) {
+    if (Number.isFinite(years.from) && Number.isFinite(years.to)) {
+      lines.push(...buildTimezoneLines(timeZone, years.from, years.to));
+    }
+  }
+
+  for (const event of events) {
+    lines.push(...buildEventLines(event, dtStamp, method));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  // Every line, including the last, ends with CRLF.
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
 
-  return lines.join('\r\n');
+/**
+ * Single-event download, as one VEVENT or one per part. Cancelled events are
+ * sent as METHOD:CANCEL.
+ */
+export const buildIcs = (
+  event: IcsEvent | IcsEvent[],
+  options: Omit<IcsCalendarOptions, 'method'> = {},
+): string => {
+  const parts = Array.isArray(event) ? event : [event];
+  return buildCalendar(parts, {
+    ...options,
+    method:
+      parts.length > 0 && parts.every((part) => part.status === 'CANCELLED')
+        ? 'CANCEL'
+        : 'PUBLISH',
+  });
 };
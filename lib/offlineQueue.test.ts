@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isConnectivityError } from "./offlineQueue";
+
+describe("isConnectivityError", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("retries fetches that never got an answer", () => {
+    expect(isConnectivityError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(
+      isConnectivityError({ message: "TypeError: Failed to fetch", code: "" }),
+    ).toBe(true);
+    expect(
+      isConnectivityError({ message: "TypeError: Load failed", code: "" }),
+    ).toBe(true);
+  });
+
+  it("retries anything while the device is offline", () => {
+    vi.stubGlobal("navigator", { onLine: false });
+    expect(isConnectivityError({ message: "Bad gateway", code: "" })).toBe(true);
+  });
+
+  it("treats server answers without a Postgres code as final", () => {
+    vi.stubGlobal("navigator", { onLine: true });
+    expect(isConnectivityError({ message: "<html>502 Bad Gateway</html>", code: "" })).toBe(
+      false,
+    );
+    expect(isConnectivityError({ message: "JWT expired", code: "PGRST301" })).toBe(false);
+    expect(isConnectivityError({ message: "Counts are final.", code: "P0002" })).toBe(false);
+    expect(isConnectivityError(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+// IndexedDB-backed queue of counter taps that have not reached the server yet.
+// Entries survive reloads and are replayed in `seq` order.
+
+export type QueuedAdjustment = {
+  /** Client op id; the server ignores an op id it has already applied. */
+  id: string;
+  eventId: string;
+  pizzaId: string;
+  delta: number;
+  deviceId: string;
+  seq: number;
+  createdAt: string;
+};
+
+const DB_NAME = "il_catering";
+const DB_VERSION = 1;
+const STORE = "pending_adjustments";
+
+// What browsers call a fetch that never got an answer: Chrome, Firefox,
+// Safari and React Native, in that order.
+const NETWORK_FAILURE_PATTERN =
+  /failed to fetch|networkerror when attempting to fetch|load failed|network request failed/i;
+
+/**
+ * Whether a queued op failed before reaching the server, so it should stay
+ * queued and be retried. supabase-js reports such failures as a
+ * "TypeError: …" message without a response. Anything a server answered,
+ * including proxy errors and expired sessions, is final and must not block
+ * the queue.
+ */
+export const isConnectivityError = (error: unknown) => {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) {
+    return true;
+  }
+  if (error instanceof TypeError) {
+    return true;
+  }
+  const message =
+    typeof error === "object" && error !== null && "message" in error
+      ? (error as { message?: unknown }).message
+      : undefined;
+  return typeof message === "string" && NETWORK_FAILURE_PATTERN.test(message);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let lastSeq = 0;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("eventId", "eventId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Monotonic within this tab, so taps in the same millisecond keep their order. */
+export const nextSeq = () => {
+  lastSeq = Math.max(lastSeq + 1, Date.now() * 1000);
+  return lastSeq;
+};
+
+export async function enqueueAdjustment(entry: QueuedAdjustment): Promise<void> {
+  const db = await openDb();
+  await runRequest(db.transaction(STORE, "readwrite").objectStore(STORE).put(entry));
+}
+
+export async function listQueuedAdjustments(
+  eventId: string,
+): Promise<QueuedAdjustment[]> {
+  const db = await openDb();
+  const rows = await runRequest(
+    db
+      .transaction(STORE, "readonly")
+      .objectStore(STORE)
+      .index("eventId")
+      .getAll(eventId) as IDBRequest<QueuedAdjustment[]>,
+  );
+  return rows.sort((a, b) => a.seq - b.seq);
+}
+
+export async function removeQueuedAdjustment(id: string): Promise<void> {
+  const db = await openDb();
+  await runRequest(db.transaction(STORE, "readwrite").objectStore(STORE).delete(id));
+}
@@ -0,0 +1,357 @@
+import { createHmac } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Server-only: signs with AUTOMATION_WEBHOOK_SECRET and expects a
+// service-role client from lib/supabaseServer.ts.
+
+export type DeliveryStatus =
+  | "pending"
+  | "delivering"
+  | "retrying"
+  | "delivered"
+  | "dead";
+
+export type OutboxEvent = {
+  id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  created_at: string;
+};
+
+export type NotificationDelivery = {
+  id: string;
+  outbox_id: string;
+  endpoint: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  last_status_code: number | null;
+  delivered_at: string | null;
+  created_at: string;
+  updated_at: string;
+  event: OutboxEvent | null;
+};
+
+export type DispatchSummary = {
+  fannedOut: number;
+  delivered: number;
+  retrying: number;
+  dead: number;
+};
+
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+// A claimed delivery that never reports back (crashed worker) becomes due
+// again once this lease expires.
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_ERROR_LENGTH = 500;
+
+const DELIVERY_COLUMNS =
+  "id, outbox_id, endpoint, status, attempts, next_attempt_at, last_error, last_status_code, delivered_at, created_at, updated_at, event:outbox_id ( id, event_type, payload, created_at )";
+
+export const SIGNATURE_HEADER = "X-Il-Catering-Signature";
+export const TIMESTAMP_HEADER = "X-Il-Catering-Timestamp";
+
+export const getWebhookEndpoints = (): string[] =>
+  (process.env.AUTOMATION_WEBHOOK_URLS ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+const getWebhookSecret = () => {
+  const secret = process.env.AUTOMATION_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error(
+      "Missing AUTOMATION_WEBHOOK_SECRET. Add it to your .env.local file.",
+    );
+  }
+  return secret;
+};
+
+/** Delay before the next attempt, doubling per failure: 30s, 1m, 2m, ... capped at 6h. */
+export const getBackoffMs = (attempts: number) =>
+  Math.min(BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1), MAX_BACKOFF_MS);
+
+/** Hex HMAC-SHA256 over `${timestamp}.${body}`; receivers recompute it to verify. */
+export const signPayload = (secret: string, timestamp: string, body: string) =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+const truncate = (value: string) =>
+  value.length > MAX_ERROR_LENGTH ? `${value.slice(0, MAX_ERROR_LENGTH)}…` : value;
+
+export async function enqueueNotification(
+  client: SupabaseClient,
+  eventType: string,
+  payload: Record<string, unknown>,
+): Promise<string> {
+  const { data, error } = await client
+    .from("notification_outbox")
+    .insert({ event_type: eventType, payload })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    throw error ?? new Error("Could not enqueue notification.");
+  }
+
+  return data.id as string;
+}
+
+async function fanOutPendingEvents(
+  client: SupabaseClient,
+  endpoints: string[],
+  limit: number,
+): Promise<number> {
+  const { data, error } = await client
+    .from("notification_outbox")
+    .select("id")
+    .is("fanned_out_at", null)
+    .order("created_at", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  const events = (data ?? []) as Array<{ id: string }>;
+  if (events.length === 0) {
+    return 0;
+  }
+
+  const rows = events.flatMap((event) =>
+    endpoints.map((endpoint) => ({ outbox_id: event.id, endpoint })),
+  );
+
+  const { error: insertError } = await client
+    .from("notification_deliveries")
+    .upsert(rows, { onConflict: "outbox_id,endpoint", ignoreDuplicates: true });
+
+  if (insertError) {
+    throw insertError;
+  }
+
+  const { error: updateError } = await client
+    .from("notification_outbox")
+    .update({ fanned_out_at: new Date().toISOString() })
+    .in(
+      "id",
+      events.map((event) => event.id),
+    );
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  return events.length;
+}
+
+async function claimDelivery(
+  client: SupabaseClient,
+  delivery: NotificationDelivery,
+): Promise<boolean> {
+  const leaseUntil = new Date(Date.now() + DELIVERY_LEASE_MS).toISOString();
+  const { data, error } = await client
+    .from("notification_deliveries")
+    .update({
+      status: "delivering",
+      next_attempt_at: leaseUntil,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", delivery.id)
+    .eq("status", delivery.status)
+    .eq("attempts", delivery.attempts)
+    .select("id");
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).length > 0;
+}
+
+async function sendDelivery(
+  delivery: NotificationDelivery,
+  secret: string,
+): Promise<{ ok: boolean; statusCode: number | null; error: string | null }> {
+  const event = delivery.event;
+  if (!event) {
+    return { ok: false, statusCode: null, error: "Outbox event is missing." };
+  }
+
+  const body = JSON.stringify({
+    id: event.id,
+    type: event.event_type,
+    created_at: event.created_at,
+    data: event.payload,
+  });
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  try {
+    const response = await fetch(delivery.endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Il-Catering-Event": event.event_type,
+        "X-Il-Catering-Delivery": delivery.id,
+        [TIMESTAMP_HEADER]: timestamp,
+        [SIGNATURE_HEADER]: `sha256=${signPayload(secret, timestamp, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (response.ok) {
+      return { ok: true, statusCode: response.status, error: null };
+    }
+
+    const text = await response.text().catch(() => "");
+    return {
+      ok: false,
+      statusCode: response.status,
+      error: truncate(`HTTP ${response.status}${text ? `: ${text}` : ""}`),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ok: false, statusCode: null, error: truncate(message) };
+  }
+}
+
+async function recordResult(
+  client: SupabaseClient,
+  delivery: NotificationDelivery,
+  result: Awaited<ReturnType<typeof sendDelivery>>,
+): Promise<"delivered" | "retrying" | "dead"> {
+  const now = new Date();
+  const attempts = delivery.attempts + 1;
+  const status = result.ok
+    ? "delivered"
+    : attempts >= MAX_DELIVERY_ATTEMPTS
+      ? "dead"
+      : "retrying";
+
+  const { error } = await client
+    .from("notification_deliveries")
+    .update({
+      status,
+      attempts,
+      last_error: result.error,
+      last_status_code: result.statusCode,
+      delivered_at: result.ok ? now.toISOString() : null,
+      next_attempt_at: new Date(
+        now.getTime() + (status === "retrying" ? getBackoffMs(attempts) : 0),
+      ).toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq("id", delivery.id);
+
+  if (error) {
+    throw error;
+  }
+
+  return status;
+}
+
+/**
+ * Fans new outbox events out to every configured webhook, then attempts every
+ * delivery that is due. Safe to run concurrently: each delivery is claimed
+ * with a compare-and-set before it is sent.
+ */
+export async function dispatchOutbox(
+  client: SupabaseClient,
+  { limit = 25 }: { limit?: number } = {},
+): Promise<DispatchSummary> {
+  const summary: DispatchSummary = {
+    fannedOut: 0,
+    delivered: 0,
+    retrying: 0,
+    dead: 0,
+  };
+
+  const endpoints = getWebhookEndpoints();
+  if (endpoints.length === 0) {
+    // Events stay in the outbox and fan out once a webhook is configured.
+    console.warn("AUTOMATION_WEBHOOK_URLS is not set; outbox events are queued.");
+    return summary;
+  }
+
+  const secret = getWebhookSecret();
+  summary.fannedOut = await fanOutPendingEvents(client, endpoints, limit);
+
+  const { data, error } = await client
+    .from("notification_deliveries")
+    .select(DELIVERY_COLUMNS)
+    .in("status", ["pending", "delivering", "retrying"])
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  for (const delivery of (data ?? []) as unknown as NotificationDelivery[]) {
+    if (!(await claimDelivery(client, delivery))) {
+      continue;
+    }
+
+    const result = await sendDelivery(delivery, secret);
+    const status = await recordResult(client, delivery, result);
+    summary[status] += 1;
+  }
+
+  return summary;
+}
+
+export async function listDeliveries(
+  client: SupabaseClient,
+  statuses: DeliveryStatus[],
+  limit = 100,
+): Promise<NotificationDelivery[]> {
+  let query = client
+    .from("notification_deliveries")
+    .select(DELIVERY_COLUMNS)
+    .order("updated_at", { ascending: false })
+    .limit(limit);
+
+  if (statuses.length > 0) {
+    query = query.in("status", statuses);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []) as unknown as NotificationDelivery[];
+}
+
+/** Resets a delivery so the next dispatch sends it again with a fresh retry budget. */
+export async function replayDelivery(
+  client: SupabaseClient,
+  deliveryId: string,
+): Promise<void> {
+  const { data, error } = await client
+    .from("notification_deliveries")
+    .update({
+      status: "pending",
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", deliveryId)
+    .in("status", ["retrying", "dead", "delivered"])
+    .select("id");
+
+  if (error) {
+    throw error;
+  }
+
+  if ((data ?? []).length === 0) {
+    throw new Error("Delivery not found or currently in flight.");
+  }
+}
@@ -0,0 +1,31 @@
+import type { Package } from "./types";
+
+// Packages are rows in public.packages. Everything that needs a label, guest
+// limits or prices takes them from there; the queries are in lib/queries.ts.
+
+export const PACKAGE_COLUMNS =
+  "id, label, description, min_guests, max_guests, price_tiers, active, sort_order";
+
+export type GuestLimits = Pick<Package, "label" | "min_guests" | "max_guests">;
+
+export const findPackage = <T extends Pick<Package, "id">>(
+  packages: T[],
+  packageId: string | null | undefined,
+): T | null => (packageId ? (packages.find((entry) => entry.id === packageId) ?? null) : null);
+
+/** The package's label, or its id for packages that no longer exist. */
+export const getPackageLabel = (
+  packages: Array<Pick<Package, "id" | "label">>,
+  packageId: string | null | undefined,
+) => (packageId ? (findPackage(packages, packageId)?.label ?? packageId) : null);
+
+/** Why `guests` does not fit the package, or null when it does. */
+export const getGuestLimitError = (limits: GuestLimits, guests: number): string | null => {
+  if (!Number.isInteger(guests) || guests < limits.min_guests) {
+    return `Number of guests must be at least ${limits.min_guests} for the ${limits.label} package.`;
+  }
+  if (limits.max_guests !== null && guests > limits.max_guests) {
+    return `Number of guests must be at most ${limits.max_guests} for the ${limits.label} package.`;
+  }
+  return null;
+};
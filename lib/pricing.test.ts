@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { computeQuote, getPriceTier } from "./pricing";
+
+const standard = {
+  id: "standard",
+  price_tiers: [
+    { min_guests: 1, per_head_cents: 1800 },
+    { min_guests: 50, per_head_cents: 1600 },
+    { min_guests: 100, per_head_cents: 1400 },
+  ],
+};
+const premium = { id: "premium", price_tiers: [{ min_guests: 1, per_head_cents: 2800 }] };
+
+// Thursday 5 and Saturday 7 November 2026.
+const weekday = {
+  event_date: "2026-11-05T17:00:00.000Z",
+  ends_at: "2026-11-05T20:00:00.000Z",
+  timezone: "Europe/Rome",
+};
+const saturday = {
+  event_date: "2026-11-07T17:00:00.000Z",
+  ends_at: "2026-11-07T20:00:00.000Z",
+  timezone: "Europe/Rome",
+};
+
+describe("getPriceTier", () => {
+  it("picks the highest tier the guest count reaches", () => {
+    expect(getPriceTier(standard.price_tiers, 49)?.per_head_cents).toBe(1800);
+    expect(getPriceTier(standard.price_tiers, 50)?.per_head_cents).toBe(1600);
+    expect(getPriceTier(standard.price_tiers, 250)?.per_head_cents).toBe(1400);
+  });
+});
+
+describe("computeQuote", () => {
+  it("charges every guest at the tier rate", () => {
+    const quote = computeQuote({ ...weekday, package: standard, guests: 60, travel_zone: "city" });
+    expect(quote?.total_cents).toBe(60 * 1600);
+    expect(quote?.weekend).toBe(false);
+    expect(quote?.lines).toHaveLength(1);
+  });
+
+  it("adds the weekend surcharge on food and the travel fee", () => {
+    const quote = computeQuote({ ...saturday, package: premium, guests: 20, travel_zone: "metro" });
+    expect(quote?.lines.map((line) => line.amount_cents)).toEqual([56000, 8400, 4000]);
+    expect(quote?.total_cents).toBe(68400);
+  });
+
+  it("uses the venue's day, not UTC, for the weekend", () => {
+    // Friday 23:30 UTC is already Saturday in Rome.
+    const quote = computeQuote({
+      event_date: "2026-11-06T23:30:00.000Z",
+      ends_at: "2026-11-07T02:00:00.000Z",
+      timezone: "Europe/Rome",
+      package: standard,
+      guests: 30,
+      travel_zone: "city",
+    });
+    expect(quote?.weekend).toBe(true);
+  });
+
+  it("returns null for incomplete input", () => {
+    expect(computeQuote({ ...weekday, package: null, guests: 30, travel_zone: "city" })).toBeNull();
+    expect(computeQuote({ ...weekday, package: standard, guests: 0, travel_zone: "city" })).toBeNull();
+    expect(computeQuote({ ...weekday, package: standard, guests: 30, travel_zone: "moon" })).toBeNull();
+  });
+});
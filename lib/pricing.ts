@@ -0,0 +1,131 @@
+import { getServiceWindows, type ScheduleLike } from "./schedule";
+import { getDayOfWeek, getZonedDayKey, resolveTimeZone } from "./timezone";
+import type { Package } from "./types";
+
+// Quotes for booking requests. The same function runs in the browser for the
+// live quote on /book and on the server, whose result is stored on the
+// booking as a snapshot. Amounts are integer cents. Per-head tiers belong to
+// each package (packages.price_tiers); surcharges and zones are set here.
+
+export type PriceTier = {
+  /** The tier applies from this many guests up to the next tier. */
+  min_guests: number;
+  per_head_cents: number;
+};
+
+export type TravelZone = {
+  id: string;
+  label: string;
+  description: string;
+  fee_cents: number;
+};
+
+export type PricingConfig = {
+  currency: string;
+  /** Added to food on Saturdays and Sundays at the venue. */
+  weekend_surcharge_percent: number;
+  zones: TravelZone[];
+};
+
+export const PRICING: PricingConfig = {
+  currency: "EUR",
+  weekend_surcharge_percent: 15,
+  zones: [
+    { id: "city", label: "City", description: "Up to 10 km from us", fee_cents: 0 },
+    { id: "metro", label: "Metro area", description: "10 to 30 km", fee_cents: 4000 },
+    { id: "regional", label: "Regional", description: "30 to 80 km", fee_cents: 12000 },
+  ],
+};
+
+export const isTravelZone = (value: unknown, config: PricingConfig = PRICING) =>
+  typeof value === "string" && config.zones.some((zone) => zone.id === value);
+
+export const formatMoney = (cents: number, currency: string = PRICING.currency) =>
+  new Intl.NumberFormat(undefined, { style: "currency", currency }).format(cents / 100);
+
+export type QuoteLine = {
+  label: string;
+  amount_cents: number;
+};
+
+export type Quote = {
+  currency: string;
+  package: string;
+  guests: number;
+  travel_zone: string;
+  per_head_cents: number;
+  weekend: boolean;
+  lines: QuoteLine[];
+  total_cents: number;
+  /** Set on the snapshot stored with a booking. */
+  quoted_at?: string;
+};
+
+export type QuoteInput = ScheduleLike & {
+  package: Pick<Package, "id" | "price_tiers"> | null;
+  guests: number;
+  travel_zone: string;
+};
+
+/** The tier for a guest count; every guest is charged at that tier's rate. */
+export const getPriceTier = (tiers: PriceTier[], guests: number) =>
+  [...tiers]
+    .sort((a, b) => a.min_guests - b.min_guests)
+    .reduce<PriceTier | null>((match, tier) => (guests >= tier.min_guests ? tier : match), null);
+
+/** True when any service window falls on a Saturday or Sunday at the venue. */
+export const isWeekendEvent = (schedule: ScheduleLike) => {
+  const timeZone = resolveTimeZone(schedule.timezone);
+  return getServiceWindows(schedule).some((window) => {
+    const dayKey = getZonedDayKey(window.starts_at, timeZone);
+    const day = dayKey ? getDayOfWeek(dayKey) : null;
+    return day === 0 || day === 6;
+  });
+};
+
+/**
+ * Quote for a package, guest count, schedule and travel zone, or null while
+ * the input is incomplete or names an unknown package or zone.
+ */
+export function computeQuote(input: QuoteInput, config: PricingConfig = PRICING): Quote | null {
+  const zone = config.zones.find((entry) => entry.id === input.travel_zone);
+  if (!input.package || !zone || !Number.isInteger(input.guests) || input.guests <= 0) {
+    return null;
+  }
+
+  const tier = getPriceTier(input.package.price_tiers ?? [], input.guests);
+  if (!tier) {
+    return null;
+  }
+
+  const food = tier.per_head_cents * input.guests;
+  const weekend = isWeekendEvent(input);
+  const lines: QuoteLine[] = [
+    {
+      label: `${input.guests} guests × ${formatMoney(tier.per_head_cents, config.currency)}`,
+      amount_cents: food,
+    },
+  ];
+
+  if (weekend && config.weekend_surcharge_percent > 0) {
+    lines.push({
+      label: `Weekend surcharge (${config.weekend_surcharge_percent}%)`,
+      amount_cents: Math.round((food * config.weekend_surcharge_percent) / 100),
+    });
+  }
+
+  if (zone.fee_cents > 0) {
+    lines.push({ label: `Travel: ${zone.label}`, amount_cents: zone.fee_cents });
+  }
+
+  return {
+    currency: config.currency,
+    package: input.package.id,
+    guests: input.guests,
+    travel_zone: zone.id,
+    per_head_cents: tier.per_head_cents,
+    weekend,
+    lines,
+    total_cents: lines.reduce((sum, line) => sum + line.amount_cents, 0),
+  };
+}
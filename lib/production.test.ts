@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { getGuestBreakdown, getProductionTargets } from "./production";
+
+const margherita = { id: "margherita", vegetarian: true, vegan: false };
+const marinara = { id: "marinara", vegetarian: true, vegan: true };
+const pepperoni = { id: "pepperoni", vegetarian: false, vegan: false };
+const salami = { id: "salami", vegetarian: false, vegan: false };
+
+describe("getGuestBreakdown", () => {
+  it("counts everyone else as unrestricted", () => {
+    expect(getGuestBreakdown({ guests: 50, vegan_guests: 10, vegetarian_guests: 5 })).toEqual({
+      vegan: 10,
+      vegetarian: 5,
+      unrestricted: 35,
+    });
+    expect(getGuestBreakdown({ guests: 20 })).toEqual({
+      vegan: 0,
+      vegetarian: 0,
+      unrestricted: 20,
+    });
+  });
+
+  it("returns null without a guest count", () => {
+    expect(getGuestBreakdown({ guests: null, vegan_guests: 3 })).toBeNull();
+  });
+});
+
+describe("getProductionTargets", () => {
+  const pizzas = [margherita, marinara, pepperoni, salami];
+
+  it("does not count meat pizzas towards vegan guests", () => {
+    const { categories, surplus } = getProductionTargets(
+      { vegan: 30, vegetarian: 0, unrestricted: 10 },
+      pizzas,
+      { pepperoni: 40 },
+    );
+    expect(categories.map((entry) => [entry.category, entry.covered, entry.shortfall])).toEqual([
+      ["vegan", 0, 30],
+      ["vegetarian", 0, 0],
+      ["unrestricted", 10, 0],
+    ]);
+    expect(surplus).toBe(30);
+  });
+
+  it("lets spare vegan pizzas cover stricter-than-needed categories", () => {
+    const { categories, surplus } = getProductionTargets(
+      { vegan: 5, vegetarian: 5, unrestricted: 5 },
+      pizzas,
+      { marinara: 12, pepperoni: 3 },
+    );
+    expect(categories.map((entry) => entry.shortfall)).toEqual([0, 0, 0]);
+    expect(surplus).toBe(0);
+  });
+
+  it("splits each target across the category's pizzas", () => {
+    const { perPizza } = getProductionTargets(
+      { vegan: 4, vegetarian: 3, unrestricted: 9 },
+      pizzas,
+      {},
+    );
+    expect(perPizza).toEqual({ margherita: 3, marinara: 4, pepperoni: 5, salami: 4 });
+  });
+
+  it("falls back to stricter pizzas and flags guests nothing can serve", () => {
+    const { categories, perPizza } = getProductionTargets(
+      { vegan: 2, vegetarian: 2, unrestricted: 2 },
+      [margherita],
+      {},
+    );
+    expect(perPizza).toEqual({ margherita: 4 });
+    expect(categories.map((entry) => entry.unservable)).toEqual([true, false, false]);
+  });
+});
@@ -0,0 +1,135 @@
+import type { Pizza } from "./types";
+
+// Production targets for the counter: one pizza per guest, split by diet.
+// Vegan guests need vegan pizzas, vegetarian guests can have vegan or
+// vegetarian ones, and unrestricted guests can have anything. Pizzas count
+// towards the strictest category first, so spare vegan pizzas help the
+// vegetarian target but pepperoni never helps either.
+
+export type DietCategory = "vegan" | "vegetarian" | "unrestricted";
+
+export const DIET_CATEGORIES: Array<{ id: DietCategory; label: string }> = [
+  { id: "vegan", label: "Vegan" },
+  { id: "vegetarian", label: "Vegetarian" },
+  { id: "unrestricted", label: "Unrestricted" },
+];
+
+export type GuestBreakdown = Record<DietCategory, number>;
+
+type GuestCounts = {
+  guests: number | null;
+  vegan_guests?: number | null;
+  vegetarian_guests?: number | null;
+};
+
+/**
+ * Splits the guest count into categories; whoever is not vegan or
+ * vegetarian is unrestricted. Null without a guest count.
+ */
+export const getGuestBreakdown = (counts: GuestCounts): GuestBreakdown | null => {
+  if (typeof counts.guests !== "number" || counts.guests <= 0) {
+    return null;
+  }
+  const vegan = Math.max(0, counts.vegan_guests ?? 0);
+  const vegetarian = Math.max(0, counts.vegetarian_guests ?? 0);
+  return {
+    vegan,
+    vegetarian,
+    unrestricted: Math.max(0, counts.guests - vegan - vegetarian),
+  };
+};
+
+/** "3 vegan, 5 vegetarian", or null when nobody has a restriction. */
+export const formatDietaryNeeds = (counts: Omit<GuestCounts, "guests">) => {
+  const parts = [
+    counts.vegan_guests ? `${counts.vegan_guests} vegan` : null,
+    counts.vegetarian_guests ? `${counts.vegetarian_guests} vegetarian` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : null;
+};
+
+export const getPizzaCategory = (pizza: Pick<Pizza, "vegan" | "vegetarian">): DietCategory =>
+  pizza.vegan ? "vegan" : pizza.vegetarian ? "vegetarian" : "unrestricted";
+
+// The pizza categories that may feed each guest category.
+const SERVES: Record<DietCategory, DietCategory[]> = {
+  vegan: ["vegan"],
+  vegetarian: ["vegetarian", "vegan"],
+  unrestricted: ["unrestricted", "vegetarian", "vegan"],
+};
+
+export type CategoryProgress = {
+  category: DietCategory;
+  label: string;
+  target: number;
+  /** Pizzas counted towards this category's guests, at most `target`. */
+  covered: number;
+  shortfall: number;
+  /** The package has no pizza these guests can eat. */
+  unservable: boolean;
+};
+
+export type ProductionTargets = {
+  categories: CategoryProgress[];
+  /** Pizzas made beyond every category's target. */
+  surplus: number;
+  /** Suggested count per pizza id; sums to the guest count when servable. */
+  perPizza: Record<string, number>;
+};
+
+/** Spreads `amount` over `ids` as evenly as whole pizzas allow. */
+const spread = (amount: number, ids: string[], into: Record<string, number>) => {
+  if (ids.length === 0) return;
+  const base = Math.floor(amount / ids.length);
+  const extra = amount % ids.length;
+  ids.forEach((id, index) => {
+    into[id] = (into[id] ?? 0) + base + (index < extra ? 1 : 0);
+  });
+};
+
+export function getProductionTargets(
+  breakdown: GuestBreakdown,
+  pizzas: Array<Pick<Pizza, "id" | "vegan" | "vegetarian">>,
+  totals: Record<string, number>,
+): ProductionTargets {
+  const made: Record<DietCategory, number> = { vegan: 0, vegetarian: 0, unrestricted: 0 };
+  const idsByCategory: Record<DietCategory, string[]> = {
+    vegan: [],
+    vegetarian: [],
+    unrestricted: [],
+  };
+  for (const pizza of pizzas) {
+    const category = getPizzaCategory(pizza);
+    made[category] += Math.max(0, totals[pizza.id] ?? 0);
+    idsByCategory[category].push(pizza.id);
+  }
+
+  const perPizza: Record<string, number> = Object.fromEntries(
+    pizzas.map((pizza) => [pizza.id, 0]),
+  );
+  let spare = 0;
+  const categories = DIET_CATEGORIES.map(({ id, label }): CategoryProgress => {
+    const target = breakdown[id];
+    const available = made[id] + spare;
+    const covered = Math.min(available, target);
+    spare = available - covered;
+
+    // Each category's target goes to its own pizzas, or to the nearest
+    // stricter ones when the package has none.
+    const servingIds = SERVES[id].map((category) => idsByCategory[category]).find(
+      (ids) => ids.length > 0,
+    );
+    spread(target, servingIds ?? [], perPizza);
+
+    return {
+      category: id,
+      label,
+      target,
+      covered,
+      shortfall: target - covered,
+      unservable: target > 0 && !servingIds,
+    };
+  });
+
+  return { categories, surplus: spare, perPizza };
+}
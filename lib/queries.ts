@@ -1,13 +1,67 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { PIZZA_COLUMNS, buildMenu, type MenuSection, type PackagePizza } from "./catalog";
+import { EVENT_MENU_COLUMNS, type EventMenuPizza } from "./eventMenu";
+import { PACKAGE_COLUMNS } from "./packages";
 import supabase from "./supabaseClient";
-import type { EventRow, Pizza, PizzaTotal } from "./types";
+import { resolveTimeZone } from "./timezone";
+import type { CatalogPizza, EventRow, Package, Pizza, PizzaTotal } from "./types";
 
 const sanitizeQty = (value: number): number =>
   Math.max(0, Math.floor(Number.isFinite(value) ? value : 0));
 
-export async function getEventById(eventId: string): Promise<EventRow> {
-  const { data, error } = await supabase
+// Every query takes an optional client so server components can pass the
+// cookie-bound client from lib/supabaseServer.ts and run as the signed-in user.
+
+const EVENT_COLUMNS =
+  "id, name, event_date, ends_at, setup_minutes, teardown_minutes, service_windows, timezone, address, package_id, guests, vegan_guests, vegetarian_guests, finalized_at, finalized_by, reopened_at, reopen_reason, menu_synced_at";
+
+const toEventRow = ({
+  id,
+  name,
+  event_date,
+  ends_at,
+  setup_minutes,
+  teardown_minutes,
+  service_windows,
+  timezone,
+  address,
+  package_id,
+  guests,
+  vegan_guests,
+  vegetarian_guests,
+  finalized_at,
+  finalized_by,
+  reopened_at,
+  reopen_reason,
+  menu_synced_at,
+}: EventRow): EventRow => ({
+  id,
+  name,
+  event_date,
+  ends_at: ends_at ?? null,
+  setup_minutes: setup_minutes ?? null,
+  teardown_minutes: teardown_minutes ?? null,
+  service_windows: service_windows ?? null,
+  timezone: resolveTimeZone(timezone),
+  address,
+  package_id,
+  guests,
+  vegan_guests: vegan_guests ?? 0,
+  vegetarian_guests: vegetarian_guests ?? 0,
+  finalized_at: finalized_at ?? null,
+  finalized_by: finalized_by ?? null,
+  reopened_at: reopened_at ?? null,
+  reopen_reason: reopen_reason ?? null,
+  menu_synced_at: menu_synced_at ?? null,
+});
+
+export async function getEventById(
+  eventId: string,
+  client: SupabaseClient = supabase,
+): Promise<EventRow> {
+  const { data, error } = await client
     .from("events")
-    .select("id, name, event_date, address, package_id, guests")
+    .select(EVENT_COLUMNS)
     .eq("id", eventId)
     .maybeSingle();
 
@@ -19,59 +73,144 @@ export async function getEventById(eventId: string): Promise<EventRow> {
     throw new Error("Event not found");
   }
 
-  const { id, name, event_date, address, package_id, guests } =
-    data as EventRow;
+  return toEventRow(data as EventRow);
+}
+
+/** Packages in display order; `activeOnly` for what customers can book. */
+export async function getPackages(
+  client: SupabaseClient = supabase,
+  { activeOnly = false }: { activeOnly?: boolean } = {},
+): Promise<Package[]> {
+  let query = client.from("packages").select(PACKAGE_COLUMNS);
+  if (activeOnly) {
+    query = query.eq("active", true);
+  }
+
+  const { data, error } = await query
+    .order("sort_order", { ascending: true })
+    .order("label", { ascending: true });
 
-  return {
-    id,
-    name,
-    event_date,
-    address,
-    package_id,
-    guests,
-  };
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []) as Package[];
 }
 
-export async function getAllowedPizzasForEvent(
-  eventId: string,
-): Promise<Pizza[]> {
-  const { data: eventRow, error: eventError } = await supabase
-    .from("events")
-    .select("package_id")
-    .eq("id", eventId)
+export async function getPackageById(
+  packageId: string,
+  client: SupabaseClient = supabase,
+): Promise<Package | null> {
+  const { data, error } = await client
+    .from("packages")
+    .select(PACKAGE_COLUMNS)
+    .eq("id", packageId)
     .maybeSingle();
 
-  if (eventError) {
-    throw eventError;
+  if (error) {
+    throw error;
   }
 
-  const packageId = (eventRow as { package_id: string | null } | null)
-    ?.package_id;
+  return (data as Package | null) ?? null;
+}
+
+/** Active packages with their active pizzas; see buildMenu. */
+export async function getMenu(client: SupabaseClient = supabase): Promise<MenuSection[]> {
+  const [packages, pizzasResult, assignmentsResult] = await Promise.all([
+    getPackages(client, { activeOnly: true }),
+    client.from("pizzas").select(PIZZA_COLUMNS).eq("active", true),
+    client.from("package_pizzas").select("package_id, pizza_id"),
+  ]);
 
-  if (!packageId) {
-    return [];
+  if (pizzasResult.error) {
+    throw pizzasResult.error;
   }
+  if (assignmentsResult.error) {
+    throw assignmentsResult.error;
+  }
+
+  return buildMenu(
+    packages,
+    (pizzasResult.data ?? []) as CatalogPizza[],
+    (assignmentsResult.data ?? []) as PackagePizza[],
+  );
+}
+
+const PACKAGE_PIZZA_SELECT =
+  "package_id, pizza:pizza_id!inner ( id, name, vegetarian, vegan, allergens, dietary_tags )";
+
+type PackagePizzaRow = { package_id: string; pizza?: unknown };
+
+const isPizza = (pizza: unknown): pizza is Pizza => typeof pizza === "object" && pizza !== null;
 
-  const { data: pizzaRows, error: pizzasError } = await supabase
+/** The active pizzas of a package. */
+export async function getPackagePizzas(
+  packageId: string,
+  client: SupabaseClient = supabase,
+): Promise<Pizza[]> {
+  const { data, error } = await client
     .from("package_pizzas")
-    .select("pizza:pizza_id ( id, name, vegetarian, vegan )")
-    .eq("package_id", packageId);
+    .select(PACKAGE_PIZZA_SELECT)
+    .eq("package_id", packageId)
+    .eq("pizza.active", true);
 
-  if (pizzasError) {
-    throw pizzasError;
+  if (error) {
+    throw error;
   }
 
-  const pizzas = pizzaRows ?? [];
+  return ((data ?? []) as PackagePizzaRow[]).map((row) => row.pizza).filter(isPizza);
+}
+
+/** Active pizzas of every package, keyed by package id. */
+export async function getPizzasByPackage(
+  client: SupabaseClient = supabase,
+): Promise<Record<string, Pizza[]>> {
+  const { data, error } = await client
+    .from("package_pizzas")
+    .select(PACKAGE_PIZZA_SELECT)
+    .eq("pizza.active", true);
+
+  if (error) {
+    throw error;
+  }
 
-  return pizzas
-    .map((row) => (row as { pizza?: unknown }).pizza)
-    .filter(
-      (pizza): pizza is Pizza => typeof pizza === "object" && pizza !== null,
-    ) as Pizza[];
+  const byPackage: Record<string, Pizza[]> = {};
+  for (const row of (data ?? []) as PackagePizzaRow[]) {
+    if (isPizza(row.pizza)) {
+      (byPackage[row.package_id] ??= []).push(row.pizza);
+    }
+  }
+  return byPackage;
+}
+
+/**
+ * The event's own menu, copied from its package when the event was created:
+ * what its counter and summary show. Catalog edits do not change it; see
+ * lib/eventMenu.ts.
+ */
+export async function getAllowedPizzasForEvent(
+  eventId: string,
+  client: SupabaseClient = supabase,
+): Promise<EventMenuPizza[]> {
+  const { data, error } = await client
+    .from("event_pizzas")
+    .select(EVENT_MENU_COLUMNS)
+    .eq("event_id", eventId)
+    .order("sort_order", { ascending: true })
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []) as unknown as EventMenuPizza[];
 }
 
-export async function getPizzaTotals(eventId: string): Promise<PizzaTotal[]> {
-  const { data, error } = await supabase
+export async function getPizzaTotals(
+  eventId: string,
+  client: SupabaseClient = supabase,
+): Promise<PizzaTotal[]> {
+  const { data, error } = await client
     .from("pizza_totals")
     .select("event_id, pizza_id, qty, updated_at")
     .eq("event_id", eventId);
@@ -91,29 +230,111 @@ export async function getPizzaTotals(eventId: string): Promise<PizzaTotal[]> {
   );
 }
 
-export async function upsertPizzaTotals(
+/** A counter write as the server applied it. */
+export type AppliedPizzaTotal = {
+  qty: number;
+  /** What the total actually moved by; totals are clamped at zero. */
+  applied: number;
+};
+
+const toAppliedPizzaTotal = (data: unknown): AppliedPizzaTotal => {
+  const row = (data ?? {}) as { new_qty?: number | null; applied?: number | null };
+  return {
+    qty: sanitizeQty(Number(row.new_qty ?? 0)),
+    applied: Math.trunc(Number(row.applied ?? 0)),
+  };
+};
+
+/**
+ * Atomically adds `delta` to a pizza's total on the server and returns the new
+ * total with the delta that was applied. Concurrent taps from several devices
+ * all count. Passing the same `clientOpId` twice applies the delta only once.
+ */
+export async function adjustPizzaTotal(
+  eventId: string,
+  pizzaId: string,
+  delta: number,
+  deviceId: string,
+  clientOpId: string | null = null,
+  client: SupabaseClient = supabase,
+): Promise<AppliedPizzaTotal> {
+  const { data, error } = await client.rpc("adjust_pizza_total", {
+    p_event_id: eventId,
+    p_pizza_id: pizzaId,
+    p_delta: Math.trunc(delta),
+    p_device_id: deviceId,
+    p_client_op_id: clientOpId,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return toAppliedPizzaTotal(data);
+}
+
+/**
+ * Overwrites totals with absolute values. Meant for manual corrections
+ * (typed values, history restores); taps should use adjustPizzaTotal.
+ * Returns what each write applied, by pizza id.
+ */
+export async function setPizzaTotals(
   eventId: string,
   counts: Record<string, number>,
-): Promise<void> {
-  const timestamp = new Date().toISOString();
-  const entries = Object.entries(counts)
-    .map(([pizzaId, qty]) => ({
-      event_id: eventId,
-      pizza_id: pizzaId,
-      qty: sanitizeQty(qty),
-      updated_at: timestamp,
-    }))
-    .filter((entry) => Number.isFinite(entry.qty));
-
-  if (entries.length === 0) {
-    return;
-  }
-
-  const { error } = await supabase
-    .from("pizza_totals")
-    .upsert(entries, { onConflict: "event_id,pizza_id" });
+  deviceId: string,
+  client: SupabaseClient = supabase,
+): Promise<Record<string, AppliedPizzaTotal>> {
+  const results: Record<string, AppliedPizzaTotal> = {};
+  for (const [pizzaId, qty] of Object.entries(counts)) {
+    const { data, error } = await client.rpc("set_pizza_total", {
+      p_event_id: eventId,
+      p_pizza_id: pizzaId,
+      p_qty: sanitizeQty(qty),
+      p_device_id: deviceId,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    results[pizzaId] = toAppliedPizzaTotal(data);
+  }
+  return results;
+}
+
+/**
+ * Finalises an event's counts. Afterwards the server rejects every write to
+ * its pizza totals until an admin reopens it.
+ */
+export async function finalizeEvent(
+  eventId: string,
+  client: SupabaseClient = supabase,
+): Promise<EventRow> {
+  const { data, error } = await client.rpc("finalize_event", {
+    p_event_id: eventId,
+  });
 
   if (error) {
     throw error;
   }
+
+  return toEventRow(data as EventRow);
+}
+
+/** Admin only. Unlocks a finalised event; the reason is stored on the event. */
+export async function reopenEvent(
+  eventId: string,
+  reason: string,
+  client: SupabaseClient = supabase,
+): Promise<EventRow> {
+  const { data, error } = await client.rpc("reopen_event", {
+    p_event_id: eventId,
+    p_reason: reason,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return toEventRow(data as EventRow);
 }
@@ -0,0 +1,70 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type Role = "admin" | "coordinator" | "counter_staff" | "customer";
+
+export const ROLES: Role[] = ["admin", "coordinator", "counter_staff", "customer"];
+
+export const STAFF_ROLES: Role[] = ["admin", "coordinator", "counter_staff"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: "Admin",
+  coordinator: "Coordinator",
+  counter_staff: "Counter staff",
+  customer: "Customer",
+};
+
+export const isRole = (value: unknown): value is Role =>
+  typeof value === "string" && (ROLES as string[]).includes(value);
+
+/**
+ * Route prefixes and the roles allowed to open them, most specific first.
+ * Paths that match no entry are public. `exact` entries cover only the path
+ * itself, not the pages below it. The database enforces the same split
+ * through RLS (see the memberships migration).
+ */
+export const ROUTE_ACCESS: Array<{ prefix: string; roles: Role[]; exact?: boolean }> = [
+  { prefix: "/admin/notifications", roles: ["admin"] },
+  { prefix: "/admin/capacity", roles: ["admin"] },
+  { prefix: "/admin/catalog", roles: ["admin"] },
+  { prefix: "/admin", roles: ["admin", "coordinator"] },
+  { prefix: "/counter", roles: STAFF_ROLES },
+  { prefix: "/events", roles: STAFF_ROLES },
+  // /bookings/<token> is the customer's status page; the token is the access.
+  { prefix: "/bookings", roles: ROLES, exact: true },
+  { prefix: "/book", roles: ROLES },
+];
+
+const matchesPrefix = (pathname: string, prefix: string) =>
+  pathname === prefix || pathname.startsWith(`${prefix}/`);
+
+export const getRouteRoles = (pathname: string): Role[] | null =>
+  ROUTE_ACCESS.find((entry) =>
+    entry.exact ? pathname === entry.prefix : matchesPrefix(pathname, entry.prefix),
+  )?.roles ?? null;
+
+export const canAccessPath = (role: Role | null, pathname: string) => {
+  const roles = getRouteRoles(pathname);
+  if (!roles) {
+    return true;
+  }
+  return role !== null && roles.includes(role);
+};
+
+/** Signed-in users without a memberships row are treated as customers. */
+export async function getUserRole(
+  client: SupabaseClient,
+  userId: string,
+): Promise<Role> {
+  const { data, error } = await client
+    .from("memberships")
+    .select("role")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const role = (data as { role?: unknown } | null)?.role;
+  return isRole(role) ? role : "customer";
+}
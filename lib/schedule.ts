@@ -0,0 +1,273 @@
+// Event timing shared by bookings and events: one or more service windows
+// (lunch and dinner, festival days) plus setup before and teardown after.
+// `event_date` and `ends_at` are the first service start and last service end,
+// kept as columns so lists can sort and filter without unpacking the windows.
+// Times are entered and displayed in the venue's `timezone`.
+
+import {
+  DEFAULT_TIMEZONE,
+  getZoneAbbreviation,
+  getZonedDayKey,
+  isValidTimeZone,
+  zonedLocalToUtc,
+} from "./timezone";
+
+export type ServiceWindow = {
+  starts_at: string;
+  ends_at: string;
+  label: string | null;
+};
+
+export type EventSchedule = {
+  event_date: string;
+  ends_at: string;
+  setup_minutes: number;
+  teardown_minutes: number;
+  service_windows: ServiceWindow[];
+  /** IANA zone of the venue. */
+  timezone: string;
+};
+
+export type ScheduleField =
+  | "service_windows"
+  | "setup_minutes"
+  | "teardown_minutes"
+  | "timezone";
+
+export type ScheduleErrors = Partial<Record<ScheduleField, string>>;
+
+/** Columns to select wherever a row's schedule is displayed. */
+export const SCHEDULE_COLUMNS =
+  "event_date, ends_at, setup_minutes, teardown_minutes, service_windows, timezone";
+
+export const DEFAULT_SETUP_MINUTES = 60;
+export const DEFAULT_TEARDOWN_MINUTES = 30;
+/** Length assumed for rows created before end times existed. */
+export const DEFAULT_SERVICE_MINUTES = 180;
+export const MAX_SERVICE_WINDOWS = 10;
+export const MAX_BUFFER_MINUTES = 12 * 60;
+const MAX_WINDOW_LABEL_LENGTH = 60;
+
+const MINUTE_MS = 60_000;
+
+// Values without an offset (datetime-local input) are wall-clock times at the
+// venue; full ISO timestamps are taken as they are.
+const toTime = (value: unknown, timeZone: string) => {
+  if (typeof value !== "string" || !value.trim()) {
+    return null;
+  }
+  const time = new Date(zonedLocalToUtc(value, timeZone) ?? value.trim()).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+const parseMinutes = (value: unknown, fallback: number) => {
+  if (value === undefined || value === null || value === "") {
+    return fallback;
+  }
+  const minutes = Number(value);
+  return Number.isInteger(minutes) ? minutes : Number.NaN;
+};
+
+/**
+ * Validates the timing part of a booking or approval. Accepts
+ * `service_windows: [{ starts_at, ends_at, label }]`, or a single
+ * `event_date`/`ends_at` pair from older clients. Times without an offset
+ * are read in `timezone`. Windows must start after `now` unless
+ * `requireFuture` is false.
+ */
+export function validateSchedule(
+  raw: Record<string, unknown>,
+  { now = new Date(), requireFuture = true }: { now?: Date; requireFuture?: boolean } = {},
+): { ok: true; data: EventSchedule } | { ok: false; errors: ScheduleErrors } {
+  const errors: ScheduleErrors = {};
+
+  const rawTimeZone = typeof raw.timezone === "string" ? raw.timezone.trim() : "";
+  if (rawTimeZone && !isValidTimeZone(rawTimeZone)) {
+    errors.timezone = "Choose a valid time zone.";
+  }
+  const timeZone = rawTimeZone && !errors.timezone ? rawTimeZone : DEFAULT_TIMEZONE;
+
+  const rawWindows =
+    Array.isArray(raw.service_windows) && raw.service_windows.length > 0
+      ? (raw.service_windows as Array<Record<string, unknown> | null>)
+      : [{ starts_at: raw.event_date, ends_at: raw.ends_at, label: null }];
+
+  const windows: Array<{ start: number; end: number; label: string | null }> = [];
+
+  if (rawWindows.length > MAX_SERVICE_WINDOWS) {
+    errors.service_windows = `Add at most ${MAX_SERVICE_WINDOWS} service windows.`;
+  }
+
+  rawWindows.forEach((entry, index) => {
+    if (errors.service_windows) {
+      return;
+    }
+    const prefix = rawWindows.length > 1 ? `Service window ${index + 1}: ` : "";
+    const start = toTime(entry?.starts_at, timeZone);
+    let end = toTime(entry?.ends_at, timeZone);
+    const label =
+      typeof entry?.label === "string" && entry.label.trim() ? entry.label.trim() : null;
+
+    if (start === null) {
+      errors.service_windows = `${prefix}Enter a valid start date and time.`;
+      return;
+    }
+    if (end === null) {
+      if (entry?.ends_at) {
+        errors.service_windows = `${prefix}Enter a valid end time.`;
+        return;
+      }
+      end = start + DEFAULT_SERVICE_MINUTES * MINUTE_MS;
+    }
+    if (end <= start) {
+      errors.service_windows = `${prefix}The end must be after the start.`;
+    } else if (requireFuture && start <= now.getTime()) {
+      errors.service_windows = `${prefix}The event must be in the future.`;
+    } else if (label && label.length > MAX_WINDOW_LABEL_LENGTH) {
+      errors.service_windows = `${prefix}Labels must be at most ${MAX_WINDOW_LABEL_LENGTH} characters.`;
+    } else {
+      windows.push({ start, end, label });
+    }
+  });
+
+  windows.sort((a, b) => a.start - b.start);
+  if (!errors.service_windows) {
+    for (let index = 1; index < windows.length; index += 1) {
+      if (windows[index].start < windows[index - 1].end) {
+        errors.service_windows = "Service windows must not overlap.";
+        break;
+      }
+    }
+  }
+
+  const setupMinutes = parseMinutes(raw.setup_minutes, DEFAULT_SETUP_MINUTES);
+  if (!Number.isInteger(setupMinutes) || setupMinutes < 0 || setupMinutes > MAX_BUFFER_MINUTES) {
+    errors.setup_minutes = `Setup must be between 0 and ${MAX_BUFFER_MINUTES} minutes.`;
+  }
+
+  const teardownMinutes = parseMinutes(raw.teardown_minutes, DEFAULT_TEARDOWN_MINUTES);
+  if (
+    !Number.isInteger(teardownMinutes) ||
+    teardownMinutes < 0 ||
+    teardownMinutes > MAX_BUFFER_MINUTES
+  ) {
+    errors.teardown_minutes = `Teardown must be between 0 and ${MAX_BUFFER_MINUTES} minutes.`;
+  }
+
+  if (Object.keys(errors).length > 0 || windows.length === 0) {
+    return {
+      ok: false,
+      errors: windows.length === 0 && !errors.service_windows
+        ? { ...errors, service_windows: "Add at least one service window." }
+        : errors,
+    };
+  }
+
+  const serviceWindows = windows.map((window) => ({
+    starts_at: new Date(window.start).toISOString(),
+    ends_at: new Date(window.end).toISOString(),
+    label: window.label,
+  }));
+
+  return {
+    ok: true,
+    data: {
+      event_date: serviceWindows[0].starts_at,
+      ends_at: serviceWindows[serviceWindows.length - 1].ends_at,
+      setup_minutes: setupMinutes,
+      teardown_minutes: teardownMinutes,
+      service_windows: serviceWindows,
+      timezone: timeZone,
+    },
+  };
+}
+
+export type ScheduleLike = {
+  event_date: string | null;
+  ends_at?: string | null;
+  setup_minutes?: number | null;
+  teardown_minutes?: number | null;
+  service_windows?: ServiceWindow[] | null;
+  timezone?: string | null;
+};
+
+/** The row's service windows, falling back to one window for older rows. */
+export const getServiceWindows = (row: ScheduleLike): ServiceWindow[] => {
+  if (row.service_windows && row.service_windows.length > 0) {
+    return [...row.service_windows].sort(
+      (a, b) => new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime(),
+    );
+  }
+  if (!row.event_date) {
+    return [];
+  }
+  const start = new Date(row.event_date).getTime();
+  const end = row.ends_at
+    ? new Date(row.ends_at).getTime()
+    : start + DEFAULT_SERVICE_MINUTES * MINUTE_MS;
+  return [
+    {
+      starts_at: new Date(start).toISOString(),
+      ends_at: new Date(end).toISOString(),
+      label: null,
+    },
+  ];
+};
+
+/** When staff need to arrive: first service start minus setup. */
+export const getSetupStart = (row: ScheduleLike) =>
+  row.event_date
+    ? new Date(
+        new Date(row.event_date).getTime() -
+          (row.setup_minutes ?? DEFAULT_SETUP_MINUTES) * MINUTE_MS,
+      ).toISOString()
+    : null;
+
+/** When staff are done: last service end plus teardown. */
+export const getTeardownEnd = (row: ScheduleLike) => {
+  const windows = getServiceWindows(row);
+  const last = windows[windows.length - 1];
+  return last
+    ? new Date(
+        new Date(last.ends_at).getTime() +
+          (row.teardown_minutes ?? DEFAULT_TEARDOWN_MINUTES) * MINUTE_MS,
+      ).toISOString()
+    : null;
+};
+
+/**
+ * "Sat, Nov 7, 5:00 PM – 9:00 PM CET", or both dates when the range spans
+ * days. With a `timeZone` the times are the venue's wall clock and carry its
+ * abbreviation; without one they are in the viewer's zone.
+ */
+export const formatTimeRange = (startsAt: string, endsAt: string, timeZone?: string | null) => {
+  const start = new Date(startsAt);
+  const end = new Date(endsAt);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return startsAt;
+  }
+  const zone = timeZone ?? undefined;
+  const dateTime = new Intl.DateTimeFormat(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: zone,
+  });
+  const time = new Intl.DateTimeFormat(undefined, {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: zone,
+  });
+  const viewerZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const sameDay =
+    getZonedDayKey(start, zone ?? viewerZone) === getZonedDayKey(end, zone ?? viewerZone);
+  const range = `${dateTime.format(start)} – ${
+    sameDay ? time.format(end) : dateTime.format(end)
+  }`;
+  return zone ? `${range} ${getZoneAbbreviation(endsAt, zone)}` : range;
+};
+
+export const formatServiceWindow = (window: ServiceWindow, timeZone?: string | null) =>
+  `${window.label ? `${window.label}: ` : ""}${formatTimeRange(window.starts_at, window.ends_at, timeZone)}`;
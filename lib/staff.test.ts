@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { parseUserIds } from "./staff";
+
+const ID = "3f6c1a52-8d0e-4b7a-9f21-5c4d2e1b0a99";
+
+describe("parseUserIds", () => {
+  it("dedupes ids regardless of case", () => {
+    expect(parseUserIds([ID, ID.toUpperCase()])).toEqual([ID]);
+  });
+
+  it("accepts an empty list to unassign everyone", () => {
+    expect(parseUserIds([])).toEqual([]);
+  });
+
+  it("rejects anything that is not a list of user ids", () => {
+    expect(parseUserIds(ID)).toBeNull();
+    expect(parseUserIds([ID, "me"])).toBeNull();
+    expect(parseUserIds(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Role } from "./roles";
+
+// Staff assignments (event_staff) say who works an event; "only my events"
+// calendar feeds filter on them. Admins and coordinators manage them.
+
+export type StaffMember = {
+  user_id: string;
+  email: string;
+  role: Role;
+};
+
+/** Roles that may assign staff and create feeds for other staff members. */
+export const STAFF_MANAGER_ROLES: Role[] = ["admin", "coordinator"];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isUserId = (value: unknown): value is string =>
+  typeof value === "string" && UUID_PATTERN.test(value);
+
+/** Unique user ids from a request body, or null when the value is not a list of ids. */
+export const parseUserIds = (value: unknown): string[] | null => {
+  if (!Array.isArray(value) || !value.every(isUserId)) {
+    return null;
+  }
+  return Array.from(new Set(value.map((id) => id.toLowerCase())));
+};
+
+/** Everyone with a staff role, by email. Admins and coordinators only. */
+export async function listStaffMembers(client: SupabaseClient): Promise<StaffMember[]> {
+  const { data, error } = await client.rpc("list_staff_members");
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []) as StaffMember[];
+}
+
+export async function getEventStaffIds(
+  client: SupabaseClient,
+  eventId: string,
+): Promise<string[]> {
+  const { data, error } = await client
+    .from("event_staff")
+    .select("user_id")
+    .eq("event_id", eventId);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map((row) => (row as { user_id: string }).user_id);
+}
@@ -1,25 +1,15 @@
-import { createClient, type SupabaseClient } from "@supabase/supabase-js";
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+import { createBrowserClient as createSsrBrowserClient } from "@supabase/ssr";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getSupabaseAnonKey, getSupabaseUrl } from "./supabaseEnv";
 
 // Reminder: RLS must guard every table this anon client touches.
+// The session is kept in cookies so middleware and server components see the
+// same signed-in user (see lib/supabaseServer.ts).
 
 type BrowserSupabaseClient = SupabaseClient;
 
-const getEnv = (value: string | undefined, key: string) => {
-  if (!value) {
-    throw new Error(`Missing ${key}. Add it to your .env.local file.`);
-  }
-  return value;
-};
-
-export const createBrowserClient = (): BrowserSupabaseClient => {
-  const url = getEnv(supabaseUrl, "NEXT_PUBLIC_SUPABASE_URL");
-  const anonKey = getEnv(supabaseAnonKey, "NEXT_PUBLIC_SUPABASE_ANON_KEY");
-
-  return createClient<unknown>(url, anonKey);
-};
+export const createBrowserClient = (): BrowserSupabaseClient =>
+  createSsrBrowserClient(getSupabaseUrl(), getSupabaseAnonKey());
 
 const supabase = createBrowserClient();
 
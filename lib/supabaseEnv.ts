@@ -0,0 +1,20 @@
+const getEnv = (value: string | undefined, key: string) => {
+  if (!value) {
+    throw new Error(`Missing ${key}. Add it to your .env.local file.`);
+  }
+  return value;
+};
+
+// NEXT_PUBLIC_* must be referenced literally so Next.js can inline them into
+// the browser bundle.
+export const getSupabaseUrl = () =>
+  getEnv(process.env.NEXT_PUBLIC_SUPABASE_URL, "NEXT_PUBLIC_SUPABASE_URL");
+
+export const getSupabaseAnonKey = () =>
+  getEnv(
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+    "NEXT_PUBLIC_SUPABASE_ANON_KEY",
+  );
+
+export const getSupabaseServiceRoleKey = () =>
+  getEnv(process.env.SUPABASE_SERVICE_ROLE_KEY, "SUPABASE_SERVICE_ROLE_KEY");
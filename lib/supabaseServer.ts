@@ -0,0 +1,42 @@
+import { createServerClient } from "@supabase/ssr";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { cookies } from "next/headers";
+import {
+  getSupabaseAnonKey,
+  getSupabaseServiceRoleKey,
+  getSupabaseUrl,
+} from "./supabaseEnv";
+
+// Server-only. Never import this module from a client component.
+
+/**
+ * Anon-key client bound to the caller's session cookies, for server components
+ * and route handlers that should run with the user's RLS permissions.
+ */
+export const createServerSupabaseClient = (): SupabaseClient => {
+  const cookieStore = cookies();
+
+  return createServerClient(getSupabaseUrl(), getSupabaseAnonKey(), {
+    cookies: {
+      getAll() {
+        return cookieStore.getAll();
+      },
+      setAll(cookiesToSet) {
+        try {
+          cookiesToSet.forEach(({ name, value, options }) =>
+            cookieStore.set(name, value, options),
+          );
+        } catch {
+          // Server components cannot set cookies; middleware refreshes the
+          // session on the next navigation instead.
+        }
+      },
+    },
+  });
+};
+
+/** Service-role client for trusted server code. It bypasses RLS. */
+export const createServiceClient = (): SupabaseClient =>
+  createClient<unknown>(getSupabaseUrl(), getSupabaseServiceRoleKey(), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
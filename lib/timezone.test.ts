@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDaysToKey,
+  getDayKeysQueryRange,
+  getDayOfWeek,
+  getZonedDayKey,
+  isValidTimeZone,
+  toZonedLocalValue,
+  zonedLocalToUtc,
+} from "./timezone";
+
+describe("zonedLocalToUtc", () => {
+  it("interprets wall-clock input in the venue zone, not the viewer's", () => {
+    expect(zonedLocalToUtc("2026-11-07T18:00", "Europe/Rome")).toBe("2026-11-07T17:00:00.000Z");
+    expect(zonedLocalToUtc("2026-07-07T18:00", "Europe/Rome")).toBe("2026-07-07T16:00:00.000Z");
+    expect(zonedLocalToUtc("2026-11-07T18:00", "America/New_York")).toBe(
+      "2026-11-07T23:00:00.000Z",
+    );
+  });
+
+  it("moves times skipped by the spring DST jump forward", () => {
+    expect(zonedLocalToUtc("2026-03-29T02:30", "Europe/Rome")).toBe("2026-03-29T01:30:00.000Z");
+  });
+
+  it("resolves repeated autumn times to the second occurrence", () => {
+    expect(zonedLocalToUtc("2026-10-25T02:30", "Europe/Rome")).toBe("2026-10-25T01:30:00.000Z");
+  });
+
+  it("rejects values that are not wall-clock times", () => {
+    expect(zonedLocalToUtc("2026-11-07T18:00:00Z", "Europe/Rome")).toBeNull();
+    expect(zonedLocalToUtc("tomorrow", "Europe/Rome")).toBeNull();
+  });
+});
+
+describe("toZonedLocalValue", () => {
+  it("round-trips with zonedLocalToUtc", () => {
+    const iso = zonedLocalToUtc("2026-11-07T18:15", "Australia/Sydney") ?? "";
+    expect(toZonedLocalValue(iso, "Australia/Sydney")).toBe("2026-11-07T18:15");
+  });
+});
+
+describe("day keys", () => {
+  it("buckets an instant by the venue's calendar day", () => {
+    expect(getZonedDayKey("2026-11-07T23:30:00Z", "Europe/Rome")).toBe("2026-11-08");
+    expect(getZonedDayKey("2026-11-07T23:30:00Z", "America/New_York")).toBe("2026-11-07");
+  });
+
+  it("adds days and reads the weekday without the viewer's zone", () => {
+    expect(addDaysToKey("2026-12-31", 1)).toBe("2027-01-01");
+    expect(getDayOfWeek("2026-11-07")).toBe(6);
+  });
+
+  it("widens query ranges to cover every zone", () => {
+    const range = getDayKeysQueryRange("2026-11-07", "2026-11-08");
+    expect(range.startISO).toBe("2026-11-06T10:00:00.000Z");
+    expect(range.endISO).toBe("2026-11-09T14:00:00.000Z");
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA names only", () => {
+    expect(isValidTimeZone("Europe/Rome")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+    expect(isValidTimeZone("")).toBe(false);
+  });
+});
@@ -0,0 +1,170 @@
+// Wall-clock conversions for venue time zones. Event times are stored as UTC
+// instants and each booking and event carries the IANA zone of its venue.
+// Times are entered and shown in that zone, not in the viewer's browser zone.
+
+/** Zone for venues without one, overridable with NEXT_PUBLIC_DEFAULT_TIMEZONE. */
+export const DEFAULT_TIMEZONE =
+  process.env.NEXT_PUBLIC_DEFAULT_TIMEZONE?.trim() || "Europe/Rome";
+
+/** Suggestions for the zone picker; any valid IANA name is accepted. */
+export const COMMON_TIMEZONES = [
+  "Europe/Rome",
+  "Europe/London",
+  "Europe/Paris",
+  "Europe/Berlin",
+  "Europe/Madrid",
+  "Europe/Zurich",
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Los_Angeles",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "UTC",
+];
+
+/** Largest UTC offset in either direction, used to widen day queries. */
+export const MAX_ZONE_OFFSET_MS = 14 * 60 * 60_000;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+export const isValidTimeZone = (value: unknown): value is string => {
+  if (typeof value !== "string" || !value.trim()) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value.trim() });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const resolveTimeZone = (value: string | null | undefined) =>
+  isValidTimeZone(value) ? value.trim() : DEFAULT_TIMEZONE;
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZonedParts = (time: number, timeZone: string) => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(time))) {
+    if (part.type !== "literal") {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return parts as Record<
+    "year" | "month" | "day" | "hour" | "minute" | "second",
+    number
+  >;
+};
+
+/** Offset of `timeZone` from UTC at the given instant, in milliseconds. */
+export const getZoneOffsetMs = (time: number, timeZone: string) => {
+  const parts = getZonedParts(time, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return asUtc - Math.floor(time / 1000) * 1000;
+};
+
+const LOCAL_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * Converts a wall-clock value (`YYYY-MM-DD` or `YYYY-MM-DDTHH:mm`, as produced
+ * by date and datetime-local inputs) in `timeZone` to an ISO instant. Times
+ * skipped by a DST jump move forward by the jump; repeated times resolve to
+ * the second occurrence. Returns null when the value is not a wall-clock value.
+ */
+export const zonedLocalToUtc = (value: string, timeZone: string): string | null => {
+  const match = LOCAL_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  const wallClock = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+  );
+  if (Number.isNaN(wallClock)) {
+    return null;
+  }
+  // The offset at the guess can differ from the offset at the answer around
+  // DST changes, so correct once with the offset at the first result.
+  const guess = wallClock - getZoneOffsetMs(wallClock, timeZone);
+  return new Date(wallClock - getZoneOffsetMs(guess, timeZone)).toISOString();
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** `datetime-local` value for an instant, as the wall clock in `timeZone`. */
+export const toZonedLocalValue = (value: string | null | undefined, timeZone: string) => {
+  if (!value) return "";
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) return "";
+  const parts = getZonedParts(time, timeZone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}`;
+};
+
+/** The `YYYY-MM-DD` calendar day an instant falls on in `timeZone`. */
+export const getZonedDayKey = (value: string | Date, timeZone: string) => {
+  const time = value instanceof Date ? value.getTime() : new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    return null;
+  }
+  const parts = getZonedParts(time, timeZone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+};
+
+/** Shifts a `YYYY-MM-DD` key by whole calendar days. */
+export const addDaysToKey = (dayKey: string, days: number) =>
+  new Date(Date.parse(`${dayKey}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/** 0 = Sunday … 6 = Saturday, for a `YYYY-MM-DD` key. */
+export const getDayOfWeek = (dayKey: string) => new Date(`${dayKey}T00:00:00Z`).getUTCDay();
+
+/**
+ * UTC bounds that contain the calendar days `fromKey` to `toKey` (inclusive)
+ * in every zone. Query with these, then match each row against its own zone.
+ */
+export const getDayKeysQueryRange = (fromKey: string, toKey: string = fromKey) => ({
+  startISO: new Date(Date.parse(`${fromKey}T00:00:00Z`) - MAX_ZONE_OFFSET_MS).toISOString(),
+  endISO: new Date(
+    Date.parse(`${toKey}T00:00:00Z`) + DAY_MS + MAX_ZONE_OFFSET_MS,
+  ).toISOString(),
+});
+
+/** Short zone name for labels, e.g. "CET" or "GMT+2". */
+export const getZoneAbbreviation = (value: string, timeZone: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return timeZone;
+  }
+  return (
+    new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+      .formatToParts(date)
+      .find((part) => part.type === "timeZoneName")?.value ?? timeZone
+  );
+};
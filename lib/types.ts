@@ -1,8 +1,19 @@
-export type PackageId = "standard" | "premium";
+import type { AllergenId, DietaryTagId } from "./allergens";
+import type { PriceTier, Quote } from "./pricing";
+import type { ServiceWindow } from "./schedule";
 
+/** A row of public.packages; see lib/packages.ts. */
 export type Package = {
-  id: PackageId;
+  id: string;
   label: string;
+  description: string | null;
+  min_guests: number;
+  /** No upper limit when null. */
+  max_guests: number | null;
+  price_tiers: PriceTier[];
+  /** Inactive packages are hidden from the booking form. */
+  active: boolean;
+  sort_order: number;
 };
 
 export type Pizza = {
@@ -10,15 +21,109 @@ export type Pizza = {
   name: string;
   vegetarian: boolean;
   vegan: boolean;
+  /** EU allergens the pizza contains; see lib/allergens.ts. */
+  allergens: AllergenId[];
+  dietary_tags: DietaryTagId[];
+};
+
+/** A row of public.pizzas as the admin catalog edits it; see lib/catalog.ts. */
+export type CatalogPizza = Pizza & {
+  description: string | null;
+  image_url: string | null;
+  /** Inactive pizzas stay in past counts but leave every counter and menu. */
+  active: boolean;
+  sort_order: number;
 };
 
 export type EventRow = {
   id: string;
   name: string;
   event_date: string;
+  /** End of the last service window. */
+  ends_at: string | null;
+  setup_minutes: number | null;
+  teardown_minutes: number | null;
+  service_windows: ServiceWindow[] | null;
+  /** IANA zone of the venue; times are shown in it. */
+  timezone: string;
   address: string | null;
-  package_id: PackageId | null;
+  package_id: string | null;
+  guests: number | null;
+  /** Copied from the booking; see lib/production.ts. */
+  vegan_guests: number;
+  vegetarian_guests: number;
+  /** Set when counts were finalised; the event is locked while non-null. */
+  finalized_at: string | null;
+  finalized_by: string | null;
+  reopened_at: string | null;
+  reopen_reason: string | null;
+  /** Last admin re-sync of the event's menu with the catalog. */
+  menu_synced_at: string | null;
+};
+
+export type BookingStatus = "requested" | "approved" | "rejected" | "converted" | "cancelled";
+
+export type BookingRequest = {
+  id: string;
+  customer_name: string;
+  customer_email: string | null;
+  customer_phone: string | null;
+  event_date: string | null;
+  ends_at: string | null;
+  setup_minutes: number | null;
+  teardown_minutes: number | null;
+  service_windows: ServiceWindow[] | null;
+  timezone: string | null;
+  address: string;
+  package: string | null;
   guests: number | null;
+  /** Part of `guests`; the rest have no dietary restriction. */
+  vegan_guests?: number | null;
+  vegetarian_guests?: number | null;
+  status: BookingStatus;
+  notes: string | null;
+  /** Allergens some guests must avoid. */
+  allergen_needs?: AllergenId[] | null;
+  /** Travel zone id from PRICING.zones. */
+  travel_zone?: string | null;
+  /** The quote shown when the request was sent. */
+  quote?: Quote | null;
+  created_at: string | null;
+  event_id?: string | null;
+  /** The last rejection; kept when an admin reopens the booking. */
+  rejection_reason?: string | null;
+  rejected_at?: string | null;
+  reopened_at?: string | null;
+  /** An admin's counter-proposal; the requested times above are kept. */
+  proposed_event_date?: string | null;
+  proposed_ends_at?: string | null;
+  proposed_service_windows?: ServiceWindow[] | null;
+  proposed_at?: string | null;
+  /** Set when the customer cancelled through their booking link. */
+  cancelled_at?: string | null;
+  cancellation_reason?: string | null;
+};
+
+export type AmendmentStatus = "pending" | "approved" | "rejected" | "withdrawn";
+
+/** A customer's change to a converted booking, waiting for an admin. */
+export type BookingAmendment = {
+  id: string;
+  booking_id: string;
+  event_id: string | null;
+  status: AmendmentStatus;
+  /** Only the changed keys: guests, notes, and the schedule columns. */
+  changes: Partial<
+    Pick<
+      BookingRequest,
+      "guests" | "notes" | "event_date" | "ends_at" | "service_windows" | "timezone"
+    >
+  >;
+  /** The same keys as they were when the change was requested. */
+  previous: BookingAmendment["changes"];
+  requested_at: string;
+  decided_at: string | null;
+  decision_note: string | null;
 };
 
 export type PizzaTotal = {
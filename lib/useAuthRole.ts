@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import supabase from "./supabaseClient";
+import { getUserRole, type Role } from "./roles";
+
+type AuthRoleState = {
+  session: Session | null;
+  role: Role | null;
+  loading: boolean;
+};
+
+const fetchRole = async (session: Session | null): Promise<Role | null> => {
+  if (!session) {
+    return null;
+  }
+
+  try {
+    return await getUserRole(supabase, session.user.id);
+  } catch (error) {
+    console.error("Failed to load membership role", error);
+    return null;
+  }
+};
+
+/**
+ * Current session plus the caller's role from `memberships`. Only for shaping
+ * the UI; route handlers and RLS make the actual access decisions.
+ */
+export function useAuthRole(): AuthRoleState {
+  const [state, setState] = useState<AuthRoleState>({
+    session: null,
+    role: null,
+    loading: true,
+  });
+
+  useEffect(() => {
+    let active = true;
+
+    const apply = async (session: Session | null) => {
+      const role = await fetchRole(session);
+      if (active) {
+        setState({ session, role, loading: false });
+      }
+    };
+
+    void supabase.auth.getSession().then(({ data }) => apply(data.session));
+
+    const { data: listener } = supabase.auth.onAuthStateChange((_event, session) => {
+      void apply(session);
+    });
+
+    return () => {
+      active = false;
+      listener?.subscription.unsubscribe();
+    };
+  }, []);
+
+  return state;
+}
@@ -0,0 +1,55 @@
+import { createServerClient } from "@supabase/ssr";
+import { NextResponse, type NextRequest } from "next/server";
+import { getRouteRoles, getUserRole } from "./lib/roles";
+import { getSupabaseAnonKey, getSupabaseUrl } from "./lib/supabaseEnv";
+
+export async function middleware(request: NextRequest) {
+  let response = NextResponse.next({ request });
+
+  const supabase = createServerClient(getSupabaseUrl(), getSupabaseAnonKey(), {
+    cookies: {
+      getAll() {
+        return request.cookies.getAll();
+      },
+      setAll(cookiesToSet) {
+        cookiesToSet.forEach(({ name, value }) =>
+          request.cookies.set(name, value),
+        );
+        response = NextResponse.next({ request });
+        cookiesToSet.forEach(({ name, value, options }) =>
+          response.cookies.set(name, value, options),
+        );
+      },
+    },
+  });
+
+  // getUser() validates the JWT with Supabase and refreshes an expired
+  // session, writing the new cookies through setAll above.
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { pathname, search } = request.nextUrl;
+  const roles = getRouteRoles(pathname);
+  if (!roles) {
+    return response;
+  }
+
+  if (!user) {
+    const loginUrl = new URL("/login", request.url);
+    loginUrl.searchParams.set("next", `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  const role = await getUserRole(supabase, user.id).catch(() => null);
+  if (!role || !roles.includes(role)) {
+    return NextResponse.redirect(new URL("/not-authorized", request.url));
+  }
+
+  return response;
+}
+
+export const config = {
+  // Route handlers check access themselves and answer with 401/403 JSON.
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|api/).*)"],
+};
@@ -0,0 +1,56 @@
+// Local stand-in for the automation webhook (n8n, Zapier, ...).
+//
+//   AUTOMATION_WEBHOOK_SECRET=dev-secret npm run webhook:stand-in
+//
+// Point AUTOMATION_WEBHOOK_URLS at http://localhost:4010/hook. Set
+// FAIL_RATE=0.5 to reject half of the requests and exercise retries.
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT ?? 4010);
+const secret = process.env.AUTOMATION_WEBHOOK_SECRET ?? "";
+const failRate = Number(process.env.FAIL_RATE ?? 0);
+
+const verify = (timestamp, body, signature) => {
+  if (!secret || !timestamp || !signature?.startsWith("sha256=")) {
+    return false;
+  }
+  const expected = Buffer.from(
+    createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex"),
+  );
+  const received = Buffer.from(signature.slice("sha256=".length));
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+createServer((request, response) => {
+  let body = "";
+  request.on("data", (chunk) => {
+    body += chunk;
+  });
+  request.on("end", () => {
+    const timestamp = request.headers["x-il-catering-timestamp"];
+    const signature = request.headers["x-il-catering-signature"];
+    const valid = verify(timestamp, body, signature);
+    const fail = Math.random() < failRate;
+
+    console.log(
+      `[${new Date().toISOString()}] ${request.method} ${request.url}`,
+      request.headers["x-il-catering-event"],
+      `signature=${valid ? "ok" : "INVALID"}`,
+      fail ? "-> simulated 503" : "",
+    );
+    console.log(body);
+
+    if (!valid) {
+      response.writeHead(401).end("invalid signature");
+      return;
+    }
+    if (fail) {
+      response.writeHead(503).end("simulated failure");
+      return;
+    }
+    response.writeHead(204).end();
+  });
+}).listen(port, () => {
+  console.log(`Webhook stand-in listening on http://localhost:${port}`);
+});
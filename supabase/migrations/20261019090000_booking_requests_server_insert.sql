@@ -0,0 +1,16 @@
+-- Booking requests are now inserted by the /api/bookings route handler with the
+-- service-role key. The anon key must no longer be able to write rows directly.
+revoke insert on table public.booking_requests from anon;
+
+-- Mirror the rules in lib/bookingSchema.ts so bad rows are rejected even if a
+-- future code path skips the route handler. NOT VALID keeps legacy rows intact.
+alter table public.booking_requests
+  add constraint booking_requests_guests_minimum check (
+    (package = 'standard' and guests >= 25)
+    or (package = 'premium' and guests >= 10)
+  ) not valid;
+
+alter table public.booking_requests
+  add constraint booking_requests_address_present check (
+    length(btrim(address)) > 0
+  ) not valid;
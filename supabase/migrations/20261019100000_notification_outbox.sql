@@ -0,0 +1,76 @@
+-- Durable notification outbox. Booking lifecycle changes are recorded by a
+-- trigger in the same transaction as the change itself, so no event is lost if
+-- the browser tab closes. The server-side dispatcher (lib/outbox.ts) fans each
+-- event out to the configured webhooks and tracks every delivery separately.
+
+create table if not exists public.notification_outbox (
+  id uuid primary key default gen_random_uuid(),
+  event_type text not null,
+  payload jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  fanned_out_at timestamptz
+);
+
+create index if not exists notification_outbox_pending_idx
+  on public.notification_outbox (created_at)
+  where fanned_out_at is null;
+
+create table if not exists public.notification_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  outbox_id uuid not null references public.notification_outbox (id) on delete cascade,
+  endpoint text not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'delivering', 'retrying', 'delivered', 'dead')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_error text,
+  last_status_code integer,
+  delivered_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (outbox_id, endpoint)
+);
+
+create index if not exists notification_deliveries_due_idx
+  on public.notification_deliveries (next_attempt_at)
+  where status in ('pending', 'delivering', 'retrying');
+
+-- Only the service role (route handlers) may read or write these tables.
+alter table public.notification_outbox enable row level security;
+alter table public.notification_deliveries enable row level security;
+
+create or replace function public.enqueue_booking_notification()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  insert into public.notification_outbox (event_type, payload)
+  values (
+    'booking.' || new.status,
+    jsonb_build_object(
+      'booking_id', new.id,
+      'status', new.status,
+      'previous_status', case when tg_op = 'UPDATE' then old.status end,
+      'event_id', new.event_id,
+      'customer_name', new.customer_name,
+      'customer_email', new.customer_email,
+      'event_date', new.event_date,
+      'package', new.package,
+      'guests', new.guests
+    )
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists booking_requests_enqueue_notification on public.booking_requests;
+create trigger booking_requests_enqueue_notification
+  after insert or update of status on public.booking_requests
+  for each row execute function public.enqueue_booking_notification();
@@ -0,0 +1,138 @@
+-- Role-based access control. Every signed-in user is a customer unless a
+-- memberships row grants a staff role. Policies below are the source of truth;
+-- lib/roles.ts mirrors them for routing and navigation.
+--
+-- Bootstrap the first admin from the SQL editor:
+--   insert into public.memberships (user_id, role) values ('<auth user id>', 'admin');
+
+do $$
+begin
+  create type public.app_role as enum ('admin', 'coordinator', 'counter_staff', 'customer');
+exception
+  when duplicate_object then null;
+end
+$$;
+
+create table if not exists public.memberships (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  role public.app_role not null default 'customer',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create or replace function public.current_app_role()
+returns public.app_role
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when auth.uid() is null then null
+    else coalesce(
+      (select role from public.memberships where user_id = auth.uid()),
+      'customer'::public.app_role
+    )
+  end;
+$$;
+
+create or replace function public.has_role(variadic roles public.app_role[])
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(public.current_app_role() = any (roles), false);
+$$;
+
+-- Replace whatever permissive policies existed before with the role matrix.
+do $$
+declare
+  pol record;
+begin
+  for pol in
+    select policyname, tablename
+    from pg_policies
+    where schemaname = 'public'
+      and tablename in (
+        'memberships', 'events', 'booking_requests', 'pizza_totals',
+        'pizza_adjustments', 'pizzas', 'package_pizzas'
+      )
+  loop
+    execute format('drop policy %I on public.%I', pol.policyname, pol.tablename);
+  end loop;
+end
+$$;
+
+alter table public.memberships enable row level security;
+alter table public.events enable row level security;
+alter table public.booking_requests enable row level security;
+alter table public.pizza_totals enable row level security;
+alter table public.pizza_adjustments enable row level security;
+alter table public.pizzas enable row level security;
+alter table public.package_pizzas enable row level security;
+
+-- memberships
+create policy "memberships: read own or admin" on public.memberships
+  for select to authenticated
+  using (user_id = auth.uid() or public.has_role('admin'));
+create policy "memberships: admin writes" on public.memberships
+  for all to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+
+-- events: staff read, admins approve/edit
+create policy "events: staff read" on public.events
+  for select to authenticated
+  using (public.has_role('admin', 'coordinator', 'counter_staff'));
+create policy "events: admin writes" on public.events
+  for all to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+
+-- booking_requests: inserted by the service role; admins and coordinators
+-- review them, customers only see their own status
+create policy "booking_requests: reviewers read" on public.booking_requests
+  for select to authenticated
+  using (public.has_role('admin', 'coordinator'));
+create policy "booking_requests: customers read own" on public.booking_requests
+  for select to authenticated
+  using (lower(customer_email) = lower(auth.jwt() ->> 'email'));
+create policy "booking_requests: admin updates" on public.booking_requests
+  for update to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+
+-- counters
+create policy "pizza_totals: staff read" on public.pizza_totals
+  for select to authenticated
+  using (public.has_role('admin', 'coordinator', 'counter_staff'));
+create policy "pizza_totals: staff insert" on public.pizza_totals
+  for insert to authenticated
+  with check (public.has_role('admin', 'coordinator', 'counter_staff'));
+create policy "pizza_totals: staff update" on public.pizza_totals
+  for update to authenticated
+  using (public.has_role('admin', 'coordinator', 'counter_staff'))
+  with check (public.has_role('admin', 'coordinator', 'counter_staff'));
+
+create policy "pizza_adjustments: staff read" on public.pizza_adjustments
+  for select to authenticated
+  using (public.has_role('admin', 'coordinator', 'counter_staff'));
+create policy "pizza_adjustments: staff insert" on public.pizza_adjustments
+  for insert to authenticated
+  with check (public.has_role('admin', 'coordinator', 'counter_staff'));
+
+-- catalog: readable by everyone, edited by admins
+create policy "pizzas: public read" on public.pizzas
+  for select to anon, authenticated
+  using (true);
+create policy "pizzas: admin writes" on public.pizzas
+  for all to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+create policy "package_pizzas: public read" on public.package_pizzas
+  for select to anon, authenticated
+  using (true);
+create policy "package_pizzas: admin writes" on public.package_pizzas
+  for all to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
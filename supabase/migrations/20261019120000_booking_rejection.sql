@@ -0,0 +1,130 @@
+-- Reject / reopen workflow for booking requests. Both transitions run as RPCs
+-- so the status change and the customer notification land in one transaction.
+
+alter table public.booking_requests
+  add column if not exists rejection_reason text,
+  add column if not exists rejected_by uuid references auth.users (id),
+  add column if not exists rejected_at timestamptz,
+  add column if not exists reopened_by uuid references auth.users (id),
+  add column if not exists reopened_at timestamptz;
+
+alter table public.booking_requests
+  add constraint booking_requests_rejection_reason_present check (
+    status <> 'rejected' or length(btrim(coalesce(rejection_reason, ''))) > 0
+  ) not valid;
+
+create or replace function public.enqueue_booking_notification()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  insert into public.notification_outbox (event_type, payload)
+  values (
+    'booking.' || new.status,
+    jsonb_build_object(
+      'booking_id', new.id,
+      'status', new.status,
+      'previous_status', case when tg_op = 'UPDATE' then old.status end,
+      'event_id', new.event_id,
+      'customer_name', new.customer_name,
+      'customer_email', new.customer_email,
+      'event_date', new.event_date,
+      'package', new.package,
+      'guests', new.guests,
+      'rejection_reason', case when new.status = 'rejected' then new.rejection_reason end
+    )
+  );
+
+  return new;
+end;
+$$;
+
+create or replace function public.reject_booking(p_booking_id uuid, p_reason text)
+returns public.booking_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.booking_requests;
+  v_reason text := btrim(coalesce(p_reason, ''));
+begin
+  if not public.has_role('admin') then
+    raise exception 'Only admins can reject bookings.' using errcode = '42501';
+  end if;
+
+  if v_reason = '' then
+    raise exception 'A rejection reason is required.' using errcode = '22023';
+  end if;
+
+  update public.booking_requests
+  set status = 'rejected',
+      rejection_reason = v_reason,
+      rejected_by = auth.uid(),
+      rejected_at = now()
+  where id = p_booking_id
+    and status in ('requested', 'approved')
+  returning * into v_booking;
+
+  if not found then
+    raise exception 'Booking % cannot be rejected from its current status.', p_booking_id
+      using errcode = 'P0002';
+  end if;
+
+  insert into public.notification_outbox (event_type, payload)
+  values (
+    'customer.booking_rejected',
+    jsonb_build_object(
+      'booking_id', v_booking.id,
+      'customer_name', v_booking.customer_name,
+      'customer_email', v_booking.customer_email,
+      'event_date', v_booking.event_date,
+      'reason', v_reason
+    )
+  );
+
+  return v_booking;
+end;
+$$;
+
+create or replace function public.reopen_booking(p_booking_id uuid)
+returns public.booking_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.booking_requests;
+begin
+  if not public.has_role('admin') then
+    raise exception 'Only admins can reopen bookings.' using errcode = '42501';
+  end if;
+
+  -- The last rejection (reason, who, when) stays on the booking next to who
+  -- reopened it; a later rejection overwrites it.
+  update public.booking_requests
+  set status = 'requested',
+      reopened_by = auth.uid(),
+      reopened_at = now()
+  where id = p_booking_id
+    and status = 'rejected'
+  returning * into v_booking;
+
+  if not found then
+    raise exception 'Booking % is not rejected.', p_booking_id using errcode = 'P0002';
+  end if;
+
+  return v_booking;
+end;
+$$;
+
+revoke execute on function public.reject_booking(uuid, text) from public, anon;
+revoke execute on function public.reopen_booking(uuid) from public, anon;
+grant execute on function public.reject_booking(uuid, text) to authenticated;
+grant execute on function public.reopen_booking(uuid) to authenticated;
@@ -0,0 +1,76 @@
+-- Approve-and-convert in one transaction. The booking row is locked while the
+-- event is created, so concurrent approvals of the same booking serialize and
+-- the second caller gets the event created by the first.
+
+alter table public.events
+  add column if not exists booking_id uuid references public.booking_requests (id);
+
+create unique index if not exists events_booking_id_key
+  on public.events (booking_id)
+  where booking_id is not null;
+
+create or replace function public.approve_booking(
+  p_booking_id uuid,
+  p_name text,
+  p_event_date timestamptz,
+  p_address text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.booking_requests;
+  v_event_id uuid;
+begin
+  if not public.has_role('admin') then
+    raise exception 'Only admins can approve bookings.' using errcode = '42501';
+  end if;
+
+  if btrim(coalesce(p_name, '')) = '' or btrim(coalesce(p_address, '')) = ''
+     or p_event_date is null then
+    raise exception 'Event name, date and address are required.' using errcode = '22023';
+  end if;
+
+  select * into v_booking
+  from public.booking_requests
+  where id = p_booking_id
+  for update;
+
+  if not found then
+    raise exception 'Booking % not found.', p_booking_id using errcode = 'P0002';
+  end if;
+
+  if v_booking.status = 'converted' and v_booking.event_id is not null then
+    return v_booking.event_id;
+  end if;
+
+  if v_booking.status not in ('requested', 'approved') then
+    raise exception 'Booking % cannot be approved from status %.', p_booking_id, v_booking.status
+      using errcode = 'P0002';
+  end if;
+
+  insert into public.events (name, event_date, address, status, package_id, guests, booking_id)
+  values (
+    btrim(p_name),
+    p_event_date,
+    btrim(p_address),
+    'approved',
+    v_booking.package,
+    v_booking.guests,
+    v_booking.id
+  )
+  returning id into v_event_id;
+
+  update public.booking_requests
+  set status = 'converted',
+      event_id = v_event_id
+  where id = v_booking.id;
+
+  return v_event_id;
+end;
+$$;
+
+revoke execute on function public.approve_booking(uuid, text, timestamptz, text) from public, anon;
+grant execute on function public.approve_booking(uuid, text, timestamptz, text) to authenticated;
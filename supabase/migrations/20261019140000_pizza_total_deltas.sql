@@ -0,0 +1,103 @@
+-- Counter writes go through two RPCs instead of client-side upserts:
+--   adjust_pizza_total: adds a delta under a row lock and returns the new total
+--   set_pizza_total:    sets an absolute value, for manual corrections only
+-- Both record the change in pizza_adjustments with the device and user.
+
+alter table public.pizza_adjustments
+  add column if not exists delta integer,
+  add column if not exists kind text not null default 'set'
+    check (kind in ('delta', 'set')),
+  add column if not exists device_id text,
+  add column if not exists user_id uuid references auth.users (id);
+
+alter table public.pizza_adjustments
+  alter column at set default now();
+
+create or replace function public.apply_pizza_total(
+  p_event_id public.pizza_totals.event_id%type,
+  p_pizza_id public.pizza_totals.pizza_id%type,
+  p_kind text,
+  p_value integer,
+  p_device_id text
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old integer;
+  v_new integer;
+begin
+  if not public.has_role('admin', 'coordinator', 'counter_staff') then
+    raise exception 'Only event staff can change pizza counts.' using errcode = '42501';
+  end if;
+
+  insert into public.pizza_totals (event_id, pizza_id, qty, updated_at)
+  values (p_event_id, p_pizza_id, 0, now())
+  on conflict (event_id, pizza_id) do nothing;
+
+  select qty into v_old
+  from public.pizza_totals
+  where event_id = p_event_id and pizza_id = p_pizza_id
+  for update;
+
+  v_old := greatest(0, coalesce(v_old, 0));
+  v_new := greatest(0, case when p_kind = 'delta' then v_old + p_value else p_value end);
+
+  if v_new = v_old then
+    return v_new;
+  end if;
+
+  update public.pizza_totals
+  set qty = v_new,
+      updated_at = now()
+  where event_id = p_event_id and pizza_id = p_pizza_id;
+
+  insert into public.pizza_adjustments
+    (event_id, pizza_id, delta, new_qty, kind, device_id, user_id, at)
+  values
+    (p_event_id, p_pizza_id, v_new - v_old, v_new, p_kind, p_device_id, auth.uid(), now());
+
+  return v_new;
+end;
+$$;
+
+create or replace function public.adjust_pizza_total(
+  p_event_id public.pizza_totals.event_id%type,
+  p_pizza_id public.pizza_totals.pizza_id%type,
+  p_delta integer,
+  p_device_id text
+)
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  select public.apply_pizza_total(p_event_id, p_pizza_id, 'delta', p_delta, p_device_id);
+$$;
+
+create or replace function public.set_pizza_total(
+  p_event_id public.pizza_totals.event_id%type,
+  p_pizza_id public.pizza_totals.pizza_id%type,
+  p_qty integer,
+  p_device_id text
+)
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  select public.apply_pizza_total(p_event_id, p_pizza_id, 'set', p_qty, p_device_id);
+$$;
+
+revoke execute on function public.apply_pizza_total from public, anon, authenticated;
+revoke execute on function public.adjust_pizza_total from public, anon;
+revoke execute on function public.set_pizza_total from public, anon;
+grant execute on function public.adjust_pizza_total to authenticated;
+grant execute on function public.set_pizza_total to authenticated;
+
+-- Totals and the audit trail are now only written through the RPCs above.
+drop policy if exists "pizza_totals: staff insert" on public.pizza_totals;
+drop policy if exists "pizza_totals: staff update" on public.pizza_totals;
+drop policy if exists "pizza_adjustments: staff insert" on public.pizza_adjustments;
@@ -0,0 +1,118 @@
+-- Offline counters replay queued taps when connectivity returns. Each tap
+-- carries a client-generated op id; an op that was already applied (say the
+-- response was lost) returns the current total instead of counting twice.
+
+alter table public.pizza_adjustments
+  add column if not exists client_op_id uuid;
+
+create unique index if not exists pizza_adjustments_client_op_id_key
+  on public.pizza_adjustments (client_op_id)
+  where client_op_id is not null;
+
+drop function if exists public.adjust_pizza_total(
+  public.pizza_totals.event_id%type, public.pizza_totals.pizza_id%type, integer, text
+);
+drop function if exists public.set_pizza_total(
+  public.pizza_totals.event_id%type, public.pizza_totals.pizza_id%type, integer, text
+);
+drop function if exists public.apply_pizza_total(
+  public.pizza_totals.event_id%type, public.pizza_totals.pizza_id%type, text, integer, text
+);
+
+create or replace function public.apply_pizza_total(
+  p_event_id public.pizza_totals.event_id%type,
+  p_pizza_id public.pizza_totals.pizza_id%type,
+  p_kind text,
+  p_value integer,
+  p_device_id text,
+  p_client_op_id uuid
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old integer;
+  v_new integer;
+begin
+  if not public.has_role('admin', 'coordinator', 'counter_staff') then
+    raise exception 'Only event staff can change pizza counts.' using errcode = '42501';
+  end if;
+
+  insert into public.pizza_totals (event_id, pizza_id, qty, updated_at)
+  values (p_event_id, p_pizza_id, 0, now())
+  on conflict (event_id, pizza_id) do nothing;
+
+  -- The row lock serializes writers for this pizza, so the op id check below
+  -- cannot race with a concurrent replay of the same op.
+  select qty into v_old
+  from public.pizza_totals
+  where event_id = p_event_id and pizza_id = p_pizza_id
+  for update;
+
+  v_old := greatest(0, coalesce(v_old, 0));
+
+  if p_client_op_id is not null and exists (
+    select 1 from public.pizza_adjustments where client_op_id = p_client_op_id
+  ) then
+    return v_old;
+  end if;
+
+  v_new := greatest(0, case when p_kind = 'delta' then v_old + p_value else p_value end);
+
+  -- Ops with an id are always recorded, even when clamped to no change, so a
+  -- replay of the same op is recognised later.
+  if v_new = v_old and p_client_op_id is null then
+    return v_new;
+  end if;
+
+  update public.pizza_totals
+  set qty = v_new,
+      updated_at = now()
+  where event_id = p_event_id and pizza_id = p_pizza_id;
+
+  insert into public.pizza_adjustments
+    (event_id, pizza_id, delta, new_qty, kind, device_id, user_id, client_op_id, at)
+  values
+    (p_event_id, p_pizza_id, v_new - v_old, v_new, p_kind, p_device_id, auth.uid(), p_client_op_id, now());
+
+  return v_new;
+end;
+$$;
+
+create or replace function public.adjust_pizza_total(
+  p_event_id public.pizza_totals.event_id%type,
+  p_pizza_id public.pizza_totals.pizza_id%type,
+  p_delta integer,
+  p_device_id text,
+  p_client_op_id uuid default null
+)
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  select public.apply_pizza_total(p_event_id, p_pizza_id, 'delta', p_delta, p_device_id, p_client_op_id);
+$$;
+
+create or replace function public.set_pizza_total(
+  p_event_id public.pizza_totals.event_id%type,
+  p_pizza_id public.pizza_totals.pizza_id%type,
+  p_qty integer,
+  p_device_id text,
+  p_client_op_id uuid default null
+)
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  select public.apply_pizza_total(p_event_id, p_pizza_id, 'set', p_qty, p_device_id, p_client_op_id);
+$$;
+
+revoke execute on function public.apply_pizza_total from public, anon, authenticated;
+revoke execute on function public.adjust_pizza_total from public, anon;
+revoke execute on function public.set_pizza_total from public, anon;
+grant execute on function public.adjust_pizza_total to authenticated;
+grant execute on function public.set_pizza_total to authenticated;
@@ -0,0 +1,114 @@
+-- "Finish & lock counts" finalises an event. Once finalised, pizza_totals for
+-- that event reject every write until an admin reopens it with a reason.
+
+alter table public.events
+  add column if not exists finalized_at timestamptz,
+  add column if not exists finalized_by uuid references auth.users (id),
+  add column if not exists reopened_at timestamptz,
+  add column if not exists reopened_by uuid references auth.users (id),
+  add column if not exists reopen_reason text;
+
+-- Guards every write path (RPCs, service role, SQL editor), not only the counter.
+create or replace function public.reject_locked_pizza_totals()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event_id uuid := case when tg_op = 'DELETE' then old.event_id else new.event_id end;
+begin
+  if exists (
+    select 1 from public.events where id = v_event_id and finalized_at is not null
+  ) then
+    raise exception 'Counts for this event are final. An admin must reopen the event first.'
+      using errcode = 'P0002';
+  end if;
+
+  return case when tg_op = 'DELETE' then old else new end;
+end;
+$$;
+
+drop trigger if exists pizza_totals_reject_when_locked on public.pizza_totals;
+create trigger pizza_totals_reject_when_locked
+  before insert or update or delete on public.pizza_totals
+  for each row execute function public.reject_locked_pizza_totals();
+
+create or replace function public.finalize_event(p_event_id uuid)
+returns public.events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events;
+begin
+  if not public.has_role('admin', 'coordinator', 'counter_staff') then
+    raise exception 'Only event staff can finalise counts.' using errcode = '42501';
+  end if;
+
+  select * into v_event
+  from public.events
+  where id = p_event_id
+  for update;
+
+  if not found then
+    raise exception 'Event % not found.', p_event_id using errcode = 'P0002';
+  end if;
+
+  -- Finalising twice keeps the first stamp.
+  if v_event.finalized_at is not null then
+    return v_event;
+  end if;
+
+  update public.events
+  set finalized_at = now(),
+      finalized_by = auth.uid()
+  where id = p_event_id
+  returning * into v_event;
+
+  return v_event;
+end;
+$$;
+
+create or replace function public.reopen_event(p_event_id uuid, p_reason text)
+returns public.events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events;
+  v_reason text := btrim(coalesce(p_reason, ''));
+begin
+  if not public.has_role('admin') then
+    raise exception 'Only admins can reopen finalised events.' using errcode = '42501';
+  end if;
+
+  if v_reason = '' then
+    raise exception 'A reason is required to reopen an event.' using errcode = '22023';
+  end if;
+
+  update public.events
+  set finalized_at = null,
+      finalized_by = null,
+      reopened_at = now(),
+      reopened_by = auth.uid(),
+      reopen_reason = v_reason
+  where id = p_event_id
+    and finalized_at is not null
+  returning * into v_event;
+
+  if not found then
+    raise exception 'Event % is not finalised.', p_event_id using errcode = 'P0002';
+  end if;
+
+  return v_event;
+end;
+$$;
+
+revoke execute on function public.reject_locked_pizza_totals() from public, anon, authenticated;
+revoke execute on function public.finalize_event(uuid) from public, anon;
+revoke execute on function public.reopen_event(uuid, text) from public, anon;
+grant execute on function public.finalize_event(uuid) to authenticated;
+grant execute on function public.reopen_event(uuid, text) to authenticated;
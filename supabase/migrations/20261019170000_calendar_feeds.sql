@@ -0,0 +1,53 @@
+-- Subscribable calendar feeds. A feed is addressed by a secret token, so
+-- calendar apps can poll it without a session. Filters live on the row and
+-- the URL stays just the token.
+
+create table if not exists public.event_staff (
+  event_id uuid not null references public.events (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  assigned_at timestamptz not null default now(),
+  primary key (event_id, user_id)
+);
+
+create index if not exists event_staff_user_id_idx on public.event_staff (user_id);
+
+alter table public.event_staff enable row level security;
+
+create policy "event_staff: staff read" on public.event_staff
+  for select to authenticated
+  using (public.has_role('admin', 'coordinator', 'counter_staff'));
+create policy "event_staff: coordinators manage" on public.event_staff
+  for all to authenticated
+  using (public.has_role('admin', 'coordinator'))
+  with check (public.has_role('admin', 'coordinator'));
+
+create table if not exists public.calendar_feeds (
+  id uuid primary key default gen_random_uuid(),
+  token text not null unique,
+  label text not null,
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  starts_on date,
+  ends_on date,
+  package_id text,
+  staff_user_id uuid references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz,
+  constraint calendar_feeds_range_valid check (
+    starts_on is null or ends_on is null or ends_on >= starts_on
+  )
+);
+
+alter table public.calendar_feeds enable row level security;
+
+-- The feed route reads by token with the service role; through the API each
+-- staff member only sees and manages their own feeds.
+create policy "calendar_feeds: owners read" on public.calendar_feeds
+  for select to authenticated
+  using (owner_id = auth.uid() and public.has_role('admin', 'coordinator', 'counter_staff'));
+create policy "calendar_feeds: owners insert" on public.calendar_feeds
+  for insert to authenticated
+  with check (owner_id = auth.uid() and public.has_role('admin', 'coordinator', 'counter_staff'));
+create policy "calendar_feeds: owners update" on public.calendar_feeds
+  for update to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
@@ -0,0 +1,29 @@
+-- Calendar clients only replace an entry when its SEQUENCE goes up, so events
+-- track a revision that bumps whenever something a calendar shows changes.
+-- cancelled_at marks an event as cancelled; it is exported as STATUS:CANCELLED.
+
+alter table public.events
+  add column if not exists sequence integer not null default 0,
+  add column if not exists updated_at timestamptz not null default now(),
+  add column if not exists cancelled_at timestamptz;
+
+create or replace function public.bump_event_revision()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if (new.name, new.event_date, new.address, new.cancelled_at)
+    is distinct from (old.name, old.event_date, old.address, old.cancelled_at) then
+    new.sequence := old.sequence + 1;
+  end if;
+
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists events_bump_revision on public.events;
+create trigger events_bump_revision
+  before update on public.events
+  for each row execute function public.bump_event_revision();
@@ -0,0 +1,135 @@
+-- Every booking and event records the IANA time zone of its venue. Times are
+-- still stored as timestamptz; the zone decides how they are entered, shown
+-- and bucketed into days. The default matches DEFAULT_TIMEZONE in
+-- lib/timezone.ts.
+
+alter table public.booking_requests
+  add column if not exists timezone text not null default 'Europe/Rome';
+
+alter table public.events
+  add column if not exists timezone text not null default 'Europe/Rome';
+
+create or replace function public.is_valid_timezone(p_timezone text)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select exists (select 1 from pg_catalog.pg_timezone_names where name = p_timezone);
+$$;
+
+alter table public.booking_requests
+  add constraint booking_requests_timezone_valid
+  check (public.is_valid_timezone(timezone)) not valid;
+
+alter table public.events
+  add constraint events_timezone_valid
+  check (public.is_valid_timezone(timezone)) not valid;
+
+-- Moving an event to another zone changes its wall-clock times in calendars.
+create or replace function public.bump_event_revision()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if (new.name, new.event_date, new.ends_at, new.service_windows, new.setup_minutes,
+      new.teardown_minutes, new.timezone, new.address, new.cancelled_at)
+    is distinct from (old.name, old.event_date, old.ends_at, old.service_windows,
+      old.setup_minutes, old.teardown_minutes, old.timezone, old.address, old.cancelled_at) then
+    new.sequence := old.sequence + 1;
+  end if;
+
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop function if exists public.approve_booking(uuid, text, timestamptz, text, timestamptz, integer, integer, jsonb);
+
+create or replace function public.approve_booking(
+  p_booking_id uuid,
+  p_name text,
+  p_event_date timestamptz,
+  p_address text,
+  p_ends_at timestamptz default null,
+  p_setup_minutes integer default null,
+  p_teardown_minutes integer default null,
+  p_service_windows jsonb default null,
+  p_timezone text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.booking_requests;
+  v_event_id uuid;
+begin
+  if not public.has_role('admin') then
+    raise exception 'Only admins can approve bookings.' using errcode = '42501';
+  end if;
+
+  if btrim(coalesce(p_name, '')) = '' or btrim(coalesce(p_address, '')) = ''
+     or p_event_date is null then
+    raise exception 'Event name, date and address are required.' using errcode = '22023';
+  end if;
+
+  if p_ends_at is not null and p_ends_at <= p_event_date then
+    raise exception 'The event must end after it starts.' using errcode = '22023';
+  end if;
+
+  if p_timezone is not null and not public.is_valid_timezone(p_timezone) then
+    raise exception 'Unknown time zone %.', p_timezone using errcode = '22023';
+  end if;
+
+  select * into v_booking
+  from public.booking_requests
+  where id = p_booking_id
+  for update;
+
+  if not found then
+    raise exception 'Booking % not found.', p_booking_id using errcode = 'P0002';
+  end if;
+
+  if v_booking.status = 'converted' and v_booking.event_id is not null then
+    return v_booking.event_id;
+  end if;
+
+  if v_booking.status not in ('requested', 'approved') then
+    raise exception 'Booking % cannot be approved from status %.', p_booking_id, v_booking.status
+      using errcode = 'P0002';
+  end if;
+
+  insert into public.events (
+    name, event_date, ends_at, setup_minutes, teardown_minutes, service_windows,
+    timezone, address, status, package_id, guests, booking_id
+  )
+  values (
+    btrim(p_name),
+    p_event_date,
+    coalesce(p_ends_at, v_booking.ends_at),
+    coalesce(p_setup_minutes, v_booking.setup_minutes),
+    coalesce(p_teardown_minutes, v_booking.teardown_minutes),
+    coalesce(p_service_windows, v_booking.service_windows),
+    coalesce(p_timezone, v_booking.timezone),
+    btrim(p_address),
+    'approved',
+    v_booking.package,
+    v_booking.guests,
+    v_booking.id
+  )
+  returning id into v_event_id;
+
+  update public.booking_requests
+  set status = 'converted',
+      event_id = v_event_id
+  where id = v_booking.id;
+
+  return v_event_id;
+end;
+$$;
+
+revoke execute on function public.approve_booking(uuid, text, timestamptz, text, timestamptz, integer, integer, jsonb, text) from public, anon;
+grant execute on function public.approve_booking(uuid, text, timestamptz, text, timestamptz, integer, integer, jsonb, text) to authenticated;
@@ -0,0 +1,91 @@
+-- Admins can propose a different time for a requested booking, e.g. by
+-- dragging it in the admin calendar. The proposal is kept next to the
+-- customer's requested times until the booking is approved or the proposal is
+-- withdrawn, and the customer is notified through the outbox.
+
+alter table public.booking_requests
+  add column if not exists proposed_event_date timestamptz,
+  add column if not exists proposed_ends_at timestamptz,
+  add column if not exists proposed_service_windows jsonb,
+  add column if not exists proposed_by uuid references auth.users (id),
+  add column if not exists proposed_at timestamptz;
+
+alter table public.booking_requests
+  add constraint booking_requests_proposal_valid check (
+    (proposed_event_date is null) = (proposed_service_windows is null)
+    and (proposed_ends_at is null or proposed_ends_at > proposed_event_date)
+    and (proposed_service_windows is null or jsonb_typeof(proposed_service_windows) = 'array')
+  ) not valid;
+
+-- p_service_windows is [{ "starts_at", "ends_at", "label" }], already
+-- validated by the route handler. Null withdraws the proposal.
+create or replace function public.propose_booking_time(
+  p_booking_id uuid,
+  p_service_windows jsonb
+)
+returns public.booking_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.booking_requests;
+  v_starts_at timestamptz;
+  v_ends_at timestamptz;
+begin
+  if not public.has_role('admin') then
+    raise exception 'Only admins can propose booking times.' using errcode = '42501';
+  end if;
+
+  if p_service_windows is not null then
+    if jsonb_typeof(p_service_windows) <> 'array' or jsonb_array_length(p_service_windows) = 0 then
+      raise exception 'Propose at least one service window.' using errcode = '22023';
+    end if;
+
+    select min((window_row ->> 'starts_at')::timestamptz),
+           max((window_row ->> 'ends_at')::timestamptz)
+    into v_starts_at, v_ends_at
+    from jsonb_array_elements(p_service_windows) as window_row;
+
+    if v_starts_at is null or v_ends_at is null or v_ends_at <= v_starts_at then
+      raise exception 'The proposed time must end after it starts.' using errcode = '22023';
+    end if;
+  end if;
+
+  update public.booking_requests
+  set proposed_event_date = v_starts_at,
+      proposed_ends_at = v_ends_at,
+      proposed_service_windows = p_service_windows,
+      proposed_by = case when p_service_windows is null then null else auth.uid() end,
+      proposed_at = case when p_service_windows is null then null else now() end
+  where id = p_booking_id
+    and status in ('requested', 'approved')
+  returning * into v_booking;
+
+  if not found then
+    raise exception 'Booking % cannot be rescheduled from its current status.', p_booking_id
+      using errcode = 'P0002';
+  end if;
+
+  if p_service_windows is not null then
+    insert into public.notification_outbox (event_type, payload)
+    values (
+      'customer.booking_time_proposed',
+      jsonb_build_object(
+        'booking_id', v_booking.id,
+        'customer_name', v_booking.customer_name,
+        'customer_email', v_booking.customer_email,
+        'requested_event_date', v_booking.event_date,
+        'proposed_event_date', v_starts_at,
+        'proposed_ends_at', v_ends_at,
+        'timezone', v_booking.timezone
+      )
+    );
+  end if;
+
+  return v_booking;
+end;
+$$;
+
+revoke execute on function public.propose_booking_time(uuid, jsonb) from public, anon;
+grant execute on function public.propose_booking_time(uuid, jsonb) to authenticated;
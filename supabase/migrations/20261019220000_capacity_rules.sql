@@ -0,0 +1,57 @@
+-- Capacity limits checked before a booking is approved. capacity_settings
+-- holds the standing limits (one row); capacity_overrides lowers or raises
+-- the oven and crew counts for single venue days, e.g. when an oven is in
+-- for repair or half the crew is on holiday.
+
+create table if not exists public.capacity_settings (
+  id boolean primary key default true,
+  max_events_per_slot integer not null default 2,
+  max_guests_per_day integer not null default 300,
+  ovens integer not null default 2,
+  crews integer not null default 2,
+  guests_per_oven integer not null default 80,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users (id),
+  -- Single-row table.
+  constraint capacity_settings_singleton check (id),
+  constraint capacity_settings_positive check (
+    max_events_per_slot > 0
+    and max_guests_per_day > 0
+    and ovens >= 0
+    and crews >= 0
+    and guests_per_oven > 0
+  )
+);
+
+insert into public.capacity_settings (id) values (true) on conflict (id) do nothing;
+
+create table if not exists public.capacity_overrides (
+  day date primary key,
+  ovens integer check (ovens >= 0),
+  crews integer check (crews >= 0),
+  max_guests integer check (max_guests > 0),
+  note text,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users (id)
+);
+
+alter table public.capacity_settings enable row level security;
+alter table public.capacity_overrides enable row level security;
+
+-- Customers only ever see the "limited availability" hint, which the
+-- availability route works out with the service role.
+create policy "capacity_settings: staff read" on public.capacity_settings
+  for select to authenticated
+  using (public.has_role('admin', 'coordinator'));
+create policy "capacity_settings: admins update" on public.capacity_settings
+  for update to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+
+create policy "capacity_overrides: staff read" on public.capacity_overrides
+  for select to authenticated
+  using (public.has_role('admin', 'coordinator'));
+create policy "capacity_overrides: admins manage" on public.capacity_overrides
+  for all to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
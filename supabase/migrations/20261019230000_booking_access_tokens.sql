@@ -0,0 +1,44 @@
+-- Every booking request gets a secret access token. The status page at
+-- /bookings/<token> reads the booking with the service role, so the link
+-- works without an account; whoever holds it can see that one booking.
+
+alter table public.booking_requests
+  add column if not exists access_token text not null
+    default replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+create unique index if not exists booking_requests_access_token_key
+  on public.booking_requests (access_token);
+
+-- Customer notifications carry the token so emails can link to the page.
+create or replace function public.enqueue_booking_notification()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  insert into public.notification_outbox (event_type, payload)
+  values (
+    'booking.' || new.status,
+    jsonb_build_object(
+      'booking_id', new.id,
+      'status', new.status,
+      'previous_status', case when tg_op = 'UPDATE' then old.status end,
+      'event_id', new.event_id,
+      'customer_name', new.customer_name,
+      'customer_email', new.customer_email,
+      'event_date', new.event_date,
+      'package', new.package,
+      'guests', new.guests,
+      'rejection_reason', case when new.status = 'rejected' then new.rejection_reason end,
+      'access_token', new.access_token
+    )
+  );
+
+  return new;
+end;
+$$;
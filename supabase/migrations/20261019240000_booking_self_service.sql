@@ -0,0 +1,281 @@
+-- Customers change or cancel their own booking through the link in
+-- booking_requests.access_token. Cutoffs (how close to the event guests, times
+-- and cancellations are still accepted) are enforced by the route handlers,
+-- which call these functions with the service role.
+--
+-- Until a booking is converted its row is edited in place. After that the
+-- events row is what the crew works from, so changes wait in
+-- booking_amendments until an admin approves them into the event.
+
+alter table public.booking_requests
+  add column if not exists cancelled_at timestamptz,
+  add column if not exists cancellation_reason text;
+
+create table if not exists public.booking_amendments (
+  id uuid primary key default gen_random_uuid(),
+  booking_id uuid not null references public.booking_requests (id) on delete cascade,
+  event_id uuid references public.events (id) on delete set null,
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'rejected', 'withdrawn')),
+  -- Only the keys the customer changed: guests, notes, and the schedule as
+  -- event_date, ends_at, service_windows and timezone.
+  changes jsonb not null check (jsonb_typeof(changes) = 'object'),
+  -- The same keys as they were when the change was requested.
+  previous jsonb not null,
+  requested_at timestamptz not null default now(),
+  decided_at timestamptz,
+  decided_by uuid references auth.users (id),
+  decision_note text
+);
+
+-- At most one open change per booking; a new request withdraws the old one.
+create unique index if not exists booking_amendments_one_pending
+  on public.booking_amendments (booking_id)
+  where status = 'pending';
+
+alter table public.booking_amendments enable row level security;
+
+create policy "booking_amendments: staff read" on public.booking_amendments
+  for select to authenticated
+  using (public.has_role('admin', 'coordinator'));
+
+create or replace function public.customer_change_booking(p_token text, p_changes jsonb)
+returns public.booking_amendments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.booking_requests;
+  v_event public.events;
+  v_amendment public.booking_amendments;
+  v_previous jsonb := '{}'::jsonb;
+begin
+  if p_changes is null or jsonb_typeof(p_changes) <> 'object' or p_changes = '{}'::jsonb then
+    raise exception 'Nothing to change.' using errcode = '22023';
+  end if;
+
+  select * into v_booking
+  from public.booking_requests
+  where access_token = p_token
+  for update;
+
+  if not found then
+    raise exception 'Booking not found.' using errcode = 'P0002';
+  end if;
+
+  if v_booking.status in ('rejected', 'cancelled') then
+    raise exception 'Booking % can no longer be changed.', v_booking.id using errcode = 'P0002';
+  end if;
+
+  if v_booking.status = 'converted' and v_booking.event_id is not null then
+    select * into v_event from public.events where id = v_booking.event_id;
+
+    if v_event.cancelled_at is not null then
+      raise exception 'Event % is cancelled.', v_event.id using errcode = 'P0002';
+    end if;
+
+    if p_changes ? 'guests' then
+      v_previous := v_previous || jsonb_build_object('guests', v_event.guests);
+    end if;
+    if p_changes ? 'notes' then
+      v_previous := v_previous || jsonb_build_object('notes', v_booking.notes);
+    end if;
+    if p_changes ? 'service_windows' then
+      v_previous := v_previous || jsonb_build_object(
+        'event_date', v_event.event_date,
+        'ends_at', v_event.ends_at,
+        'service_windows', v_event.service_windows,
+        'timezone', v_event.timezone
+      );
+    end if;
+
+    update public.booking_amendments
+    set status = 'withdrawn',
+        decided_at = now()
+    where booking_id = v_booking.id
+      and status = 'pending';
+
+    insert into public.booking_amendments (booking_id, event_id, changes, previous)
+    values (v_booking.id, v_booking.event_id, p_changes, v_previous)
+    returning * into v_amendment;
+
+    insert into public.notification_outbox (event_type, payload)
+    values (
+      'booking.amendment_requested',
+      jsonb_build_object(
+        'amendment_id', v_amendment.id,
+        'booking_id', v_booking.id,
+        'event_id', v_booking.event_id,
+        'customer_name', v_booking.customer_name,
+        'changes', p_changes,
+        'previous', v_previous
+      )
+    );
+
+    return v_amendment;
+  end if;
+
+  -- Not converted yet: the request itself changes. A new time from the
+  -- customer replaces any time an admin proposed.
+  update public.booking_requests
+  set guests = coalesce((p_changes ->> 'guests')::integer, guests),
+      notes = case when p_changes ? 'notes' then p_changes ->> 'notes' else notes end,
+      event_date = coalesce((p_changes ->> 'event_date')::timestamptz, event_date),
+      ends_at = coalesce((p_changes ->> 'ends_at')::timestamptz, ends_at),
+      service_windows = coalesce(p_changes -> 'service_windows', service_windows),
+      timezone = coalesce(p_changes ->> 'timezone', timezone),
+      proposed_event_date = case when p_changes ? 'service_windows' then null else proposed_event_date end,
+      proposed_ends_at = case when p_changes ? 'service_windows' then null else proposed_ends_at end,
+      proposed_service_windows = case when p_changes ? 'service_windows' then null else proposed_service_windows end,
+      proposed_by = case when p_changes ? 'service_windows' then null else proposed_by end,
+      proposed_at = case when p_changes ? 'service_windows' then null else proposed_at end
+  where id = v_booking.id;
+
+  insert into public.notification_outbox (event_type, payload)
+  values (
+    'booking.changed',
+    jsonb_build_object(
+      'booking_id', v_booking.id,
+      'status', v_booking.status,
+      'customer_name', v_booking.customer_name,
+      'changes', p_changes
+    )
+  );
+
+  -- Nothing waits for approval; the caller only needs to know that.
+  return null;
+end;
+$$;
+
+create or replace function public.customer_cancel_booking(p_token text, p_reason text)
+returns public.booking_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.booking_requests;
+begin
+  -- The status change enqueues booking.cancelled through the trigger.
+  update public.booking_requests
+  set status = 'cancelled',
+      cancelled_at = now(),
+      cancellation_reason = nullif(btrim(p_reason), '')
+  where access_token = p_token
+    and status in ('requested', 'approved', 'converted')
+  returning * into v_booking;
+
+  if not found then
+    raise exception 'Booking cannot be cancelled.' using errcode = 'P0002';
+  end if;
+
+  update public.booking_amendments
+  set status = 'withdrawn',
+      decided_at = now()
+  where booking_id = v_booking.id
+    and status = 'pending';
+
+  if v_booking.event_id is not null then
+    update public.events
+    set cancelled_at = now()
+    where id = v_booking.event_id
+      and cancelled_at is null;
+  end if;
+
+  return v_booking;
+end;
+$$;
+
+create or replace function public.decide_booking_amendment(
+  p_amendment_id uuid,
+  p_approve boolean,
+  p_note text default null
+)
+returns public.booking_amendments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_amendment public.booking_amendments;
+  v_booking public.booking_requests;
+  v_changes jsonb;
+begin
+  if not public.has_role('admin') then
+    raise exception 'Only admins can decide booking changes.' using errcode = '42501';
+  end if;
+
+  update public.booking_amendments
+  set status = case when p_approve then 'approved' else 'rejected' end,
+      decided_at = now(),
+      decided_by = auth.uid(),
+      decision_note = nullif(btrim(p_note), '')
+  where id = p_amendment_id
+    and status = 'pending'
+  returning * into v_amendment;
+
+  if not found then
+    raise exception 'Change % is no longer pending.', p_amendment_id using errcode = 'P0002';
+  end if;
+
+  v_changes := v_amendment.changes;
+
+  if p_approve then
+    if exists (
+      select 1 from public.events
+      where id = v_amendment.event_id
+        and (finalized_at is not null or cancelled_at is not null)
+    ) then
+      raise exception 'Event % is finalized or cancelled.', v_amendment.event_id
+        using errcode = 'P0002';
+    end if;
+
+    update public.events
+    set guests = coalesce((v_changes ->> 'guests')::integer, guests),
+        event_date = coalesce((v_changes ->> 'event_date')::timestamptz, event_date),
+        ends_at = coalesce((v_changes ->> 'ends_at')::timestamptz, ends_at),
+        service_windows = coalesce(v_changes -> 'service_windows', service_windows),
+        timezone = coalesce(v_changes ->> 'timezone', timezone)
+    where id = v_amendment.event_id;
+
+    -- Keep the request in step so lists and the status page agree.
+    update public.booking_requests
+    set guests = coalesce((v_changes ->> 'guests')::integer, guests),
+        notes = case when v_changes ? 'notes' then v_changes ->> 'notes' else notes end,
+        event_date = coalesce((v_changes ->> 'event_date')::timestamptz, event_date),
+        ends_at = coalesce((v_changes ->> 'ends_at')::timestamptz, ends_at),
+        service_windows = coalesce(v_changes -> 'service_windows', service_windows),
+        timezone = coalesce(v_changes ->> 'timezone', timezone)
+    where id = v_amendment.booking_id;
+  end if;
+
+  select * into v_booking from public.booking_requests where id = v_amendment.booking_id;
+
+  insert into public.notification_outbox (event_type, payload)
+  values (
+    'customer.booking_amendment_' || v_amendment.status,
+    jsonb_build_object(
+      'amendment_id', v_amendment.id,
+      'booking_id', v_booking.id,
+      'customer_name', v_booking.customer_name,
+      'customer_email', v_booking.customer_email,
+      'changes', v_changes,
+      'note', v_amendment.decision_note,
+      'access_token', v_booking.access_token
+    )
+  );
+
+  return v_amendment;
+end;
+$$;
+
+-- Customer functions take the token as their only credential and are called
+-- by route handlers with the service role, after the cutoff checks.
+revoke execute on function public.customer_change_booking(text, jsonb) from public, anon, authenticated;
+revoke execute on function public.customer_cancel_booking(text, text) from public, anon, authenticated;
+grant execute on function public.customer_change_booking(text, jsonb) to service_role;
+grant execute on function public.customer_cancel_booking(text, text) to service_role;
+
+revoke execute on function public.decide_booking_amendment(uuid, boolean, text) from public, anon;
+grant execute on function public.decide_booking_amendment(uuid, boolean, text) to authenticated;
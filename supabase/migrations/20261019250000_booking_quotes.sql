@@ -0,0 +1,11 @@
+-- Bookings keep the travel zone (distance band) the customer picked and the quote shown to
+-- them when they submitted. The quote is a snapshot (see lib/pricing.ts):
+-- later price changes do not rewrite what the customer was told.
+
+alter table public.booking_requests
+  add column if not exists travel_zone text,
+  add column if not exists quote jsonb;
+
+alter table public.booking_requests
+  add constraint booking_requests_quote_object
+  check (quote is null or jsonb_typeof(quote) = 'object') not valid;
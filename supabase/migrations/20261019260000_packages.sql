@@ -0,0 +1,101 @@
+-- Packages move from code (the PackageId union and PACKAGE_MIN_GUESTS) into a
+-- table, so a new package is a row rather than a release. The booking form,
+-- validation, quotes, the counter and the summary all read it through
+-- lib/packages.ts.
+
+create table if not exists public.packages (
+  id text primary key check (id ~ '^[a-z0-9][a-z0-9_-]*$'),
+  label text not null check (length(btrim(label)) > 0),
+  description text,
+  min_guests integer not null default 1 check (min_guests > 0),
+  max_guests integer,
+  -- [{ "min_guests", "per_head_cents" }], lowest min_guests first; see
+  -- PriceTier in lib/pricing.ts.
+  price_tiers jsonb not null default '[]'::jsonb check (jsonb_typeof(price_tiers) = 'array'),
+  active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint packages_guest_range check (max_guests is null or max_guests >= min_guests)
+);
+
+insert into public.packages (id, label, description, min_guests, price_tiers, sort_order)
+values
+  (
+    'standard',
+    'Standard',
+    'Our classic pizzas, baked on site.',
+    25,
+    '[{"min_guests": 1, "per_head_cents": 1800}, {"min_guests": 50, "per_head_cents": 1600}, {"min_guests": 100, "per_head_cents": 1400}]',
+    10
+  ),
+  (
+    'premium',
+    'Premium',
+    'The full menu with speciality toppings.',
+    10,
+    '[{"min_guests": 1, "per_head_cents": 2800}, {"min_guests": 50, "per_head_cents": 2500}, {"min_guests": 100, "per_head_cents": 2200}]',
+    20
+  )
+on conflict (id) do nothing;
+
+alter table public.packages enable row level security;
+
+-- The booking form and the public menu list packages without signing in.
+create policy "packages: public read" on public.packages
+  for select to anon, authenticated
+  using (true);
+create policy "packages: admin writes" on public.packages
+  for all to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+
+-- Replaces the hardcoded minimums from 20261019090000.
+alter table public.booking_requests
+  drop constraint if exists booking_requests_guests_minimum;
+
+alter table public.booking_requests
+  add constraint booking_requests_package_fkey
+  foreign key (package) references public.packages (id) not valid;
+
+alter table public.events
+  add constraint events_package_id_fkey
+  foreign key (package_id) references public.packages (id) not valid;
+
+-- Guest limits come from the package row as it is at the time of writing;
+-- changing a package later does not invalidate existing bookings.
+create or replace function public.check_booking_guests()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_package public.packages;
+begin
+  if new.package is null then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE'
+    and new.package is not distinct from old.package
+    and new.guests is not distinct from old.guests then
+    return new;
+  end if;
+
+  select * into v_package from public.packages where id = new.package;
+
+  if new.guests is null
+    or new.guests < v_package.min_guests
+    or (v_package.max_guests is not null and new.guests > v_package.max_guests) then
+    raise exception 'Guest count % is outside the limits of package %.', new.guests, new.package
+      using errcode = '22023';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists booking_requests_check_guests on public.booking_requests;
+create trigger booking_requests_check_guests
+  before insert or update of package, guests on public.booking_requests
+  for each row execute function public.check_booking_guests();
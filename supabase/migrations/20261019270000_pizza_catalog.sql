@@ -0,0 +1,115 @@
+-- The pizza catalog becomes editable from /admin/catalog: pizzas gain the
+-- fields the admin form needs, and a pizza's package assignments are replaced
+-- in one call so a drag between packages never leaves it half moved.
+
+alter table public.pizzas
+  add column if not exists description text,
+  add column if not exists image_url text,
+  add column if not exists active boolean not null default true,
+  add column if not exists sort_order integer not null default 0,
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.pizzas
+  drop constraint if exists pizzas_image_url_http;
+alter table public.pizzas
+  add constraint pizzas_image_url_http
+  check (image_url is null or image_url ~* '^https?://');
+
+-- Vegan pizzas are vegetarian too; the form sets both.
+alter table public.pizzas
+  drop constraint if exists pizzas_vegan_is_vegetarian;
+alter table public.pizzas
+  add constraint pizzas_vegan_is_vegetarian
+  check (not vegan or vegetarian) not valid;
+
+create unique index if not exists package_pizzas_package_pizza_key
+  on public.package_pizzas (package_id, pizza_id);
+
+-- Sets the packages a pizza belongs to. Returns the package ids it was
+-- removed from; the route warns about upcoming events before calling this.
+create or replace function public.set_pizza_packages(
+  p_pizza_id public.pizzas.id%type,
+  p_package_ids text[]
+)
+returns text[]
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_removed text[];
+begin
+  if not public.has_role('admin') then
+    raise exception 'Only admins can change package contents.'
+      using errcode = '42501';
+  end if;
+
+  if not exists (select 1 from public.pizzas where id = p_pizza_id) then
+    raise exception 'Pizza % not found.', p_pizza_id
+      using errcode = 'P0002';
+  end if;
+
+  if exists (
+    select 1
+    from unnest(coalesce(p_package_ids, '{}')) as requested (id)
+    where not exists (select 1 from public.packages where packages.id = requested.id)
+  ) then
+    raise exception 'Unknown package in %.', p_package_ids
+      using errcode = '22023';
+  end if;
+
+  with removed as (
+    delete from public.package_pizzas
+    where pizza_id = p_pizza_id
+      and not (package_id = any (coalesce(p_package_ids, '{}')))
+    returning package_id
+  )
+  select coalesce(array_agg(package_id order by package_id), '{}') into v_removed
+  from removed;
+
+  insert into public.package_pizzas (package_id, pizza_id)
+  select distinct requested.id, p_pizza_id
+  from unnest(coalesce(p_package_ids, '{}')) as requested (id)
+  on conflict (package_id, pizza_id) do nothing;
+
+  update public.pizzas set updated_at = now() where id = p_pizza_id;
+
+  return v_removed;
+end;
+$$;
+
+revoke execute on function public.set_pizza_packages from public, anon;
+grant execute on function public.set_pizza_packages to authenticated;
+
+-- Deletes a pizza that was never counted. Counted pizzas are part of event
+-- history and can only be deactivated.
+create or replace function public.delete_pizza(p_pizza_id public.pizzas.id%type)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role('admin') then
+    raise exception 'Only admins can delete pizzas.'
+      using errcode = '42501';
+  end if;
+
+  if exists (select 1 from public.pizza_totals where pizza_id = p_pizza_id) then
+    raise exception 'This pizza has been counted at events. Deactivate it instead.'
+      using errcode = 'P0002';
+  end if;
+
+  delete from public.package_pizzas where pizza_id = p_pizza_id;
+  delete from public.pizzas where id = p_pizza_id;
+
+  if not found then
+    raise exception 'Pizza % not found.', p_pizza_id
+      using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+revoke execute on function public.delete_pizza from public, anon;
+grant execute on function public.delete_pizza to authenticated;
@@ -0,0 +1,37 @@
+-- Allergens (the EU 14) and dietary tags on pizzas, and the allergens a
+-- booking's guests must avoid. The id lists mirror ALLERGENS and DIETARY_TAGS
+-- in lib/allergens.ts.
+
+alter table public.pizzas
+  add column if not exists allergens text[] not null default '{}',
+  add column if not exists dietary_tags text[] not null default '{}';
+
+alter table public.pizzas
+  drop constraint if exists pizzas_allergens_known;
+alter table public.pizzas
+  add constraint pizzas_allergens_known check (
+    allergens <@ array[
+      'gluten', 'crustaceans', 'eggs', 'fish', 'peanuts', 'soybeans', 'milk',
+      'nuts', 'celery', 'mustard', 'sesame', 'sulphites', 'lupin', 'molluscs'
+    ]::text[]
+  );
+
+alter table public.pizzas
+  drop constraint if exists pizzas_dietary_tags_known;
+alter table public.pizzas
+  add constraint pizzas_dietary_tags_known check (
+    dietary_tags <@ array['halal', 'kosher', 'contains_pork', 'spicy']::text[]
+  );
+
+alter table public.booking_requests
+  add column if not exists allergen_needs text[] not null default '{}';
+
+alter table public.booking_requests
+  drop constraint if exists booking_requests_allergen_needs_known;
+alter table public.booking_requests
+  add constraint booking_requests_allergen_needs_known check (
+    allergen_needs <@ array[
+      'gluten', 'crustaceans', 'eggs', 'fish', 'peanuts', 'soybeans', 'milk',
+      'nuts', 'celery', 'mustard', 'sesame', 'sulphites', 'lupin', 'molluscs'
+    ]::text[]
+  );
@@ -0,0 +1,57 @@
+-- How many of a booking's guests are vegan or vegetarian; the rest are
+-- unrestricted. Events copy the numbers from their booking so the counter can
+-- set a production target per diet (lib/production.ts).
+
+alter table public.booking_requests
+  add column if not exists vegan_guests integer not null default 0,
+  add column if not exists vegetarian_guests integer not null default 0;
+
+alter table public.booking_requests
+  drop constraint if exists booking_requests_dietary_breakdown_valid;
+alter table public.booking_requests
+  add constraint booking_requests_dietary_breakdown_valid check (
+    vegan_guests >= 0
+    and vegetarian_guests >= 0
+    and vegan_guests + vegetarian_guests <= coalesce(guests, 0)
+  ) not valid;
+
+alter table public.events
+  add column if not exists vegan_guests integer not null default 0,
+  add column if not exists vegetarian_guests integer not null default 0;
+
+alter table public.events
+  drop constraint if exists events_dietary_breakdown_valid;
+alter table public.events
+  add constraint events_dietary_breakdown_valid check (
+    vegan_guests >= 0
+    and vegetarian_guests >= 0
+    and vegan_guests + vegetarian_guests <= coalesce(guests, 0)
+  ) not valid;
+
+-- approve_booking creates the event; copy the breakdown across here rather
+-- than repeating the whole function for two columns.
+create or replace function public.copy_booking_dietary_breakdown()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.booking_id is null then
+    return new;
+  end if;
+
+  select b.vegan_guests, b.vegetarian_guests
+    into new.vegan_guests, new.vegetarian_guests
+  from public.booking_requests b
+  where b.id = new.booking_id;
+
+  new.vegan_guests := coalesce(new.vegan_guests, 0);
+  new.vegetarian_guests := coalesce(new.vegetarian_guests, 0);
+  return new;
+end;
+$$;
+
+drop trigger if exists events_copy_dietary_breakdown on public.events;
+create trigger events_copy_dietary_breakdown
+  before insert on public.events
+  for each row execute function public.copy_booking_dietary_breakdown();
@@ -0,0 +1,194 @@
+-- Each event keeps its own copy of the menu (event_pizzas), taken from its
+-- package when the event is created. Catalog edits no longer reach existing
+-- events: summaries keep showing what was served, and an upcoming event only
+-- picks up catalog changes when an admin re-syncs it (sync_event_menu).
+
+create table if not exists public.event_pizzas (
+  event_id uuid not null references public.events (id) on delete cascade,
+  -- A pizza on any event's menu is part of that event's record; see
+  -- delete_pizza below.
+  pizza_id uuid not null references public.pizzas (id) on delete restrict,
+  -- The pizza as it was on the menu; see EventMenuPizza in lib/eventMenu.ts.
+  name text not null,
+  vegetarian boolean not null default false,
+  vegan boolean not null default false,
+  allergens text[] not null default '{}',
+  dietary_tags text[] not null default '{}',
+  sort_order integer not null default 0,
+  captured_at timestamptz not null default now(),
+  primary key (event_id, pizza_id)
+);
+
+alter table public.event_pizzas enable row level security;
+
+-- Stamped by sync_event_menu; open counters watch it to reload the menu.
+alter table public.events
+  add column if not exists menu_synced_at timestamptz;
+
+-- Written only by the functions below.
+create policy "event_pizzas: staff read" on public.event_pizzas
+  for select to authenticated
+  using (public.has_role('admin', 'coordinator', 'counter_staff'));
+
+-- Copies the active pizzas of the event's package into its menu. Pizzas that
+-- already have counts stay on the menu even when the package dropped them,
+-- so the counter never loses counted pizzas.
+create or replace function public.capture_event_menu(p_event_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.event_pizzas ep
+  where ep.event_id = p_event_id
+    and not exists (
+      select 1
+      from public.pizza_totals t
+      where t.event_id = ep.event_id and t.pizza_id = ep.pizza_id and t.qty > 0
+    );
+
+  insert into public.event_pizzas (
+    event_id, pizza_id, name, vegetarian, vegan, allergens, dietary_tags, sort_order
+  )
+  select e.id, p.id, p.name, p.vegetarian, p.vegan, p.allergens, p.dietary_tags, p.sort_order
+  from public.events e
+  join public.package_pizzas pp on pp.package_id = e.package_id
+  join public.pizzas p on p.id = pp.pizza_id and p.active
+  where e.id = p_event_id
+  on conflict (event_id, pizza_id) do update
+    set name = excluded.name,
+        vegetarian = excluded.vegetarian,
+        vegan = excluded.vegan,
+        allergens = excluded.allergens,
+        dietary_tags = excluded.dietary_tags,
+        sort_order = excluded.sort_order,
+        captured_at = now();
+end;
+$$;
+
+-- approve_booking creates the event; its menu is captured at that moment.
+-- Changing an event's package brings in the new package's pizzas.
+create or replace function public.capture_event_menu_on_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.package_id is distinct from old.package_id then
+    perform public.capture_event_menu(new.id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists events_capture_menu on public.events;
+create trigger events_capture_menu
+  after insert or update of package_id on public.events
+  for each row execute function public.capture_event_menu_on_change();
+
+-- Re-syncs an upcoming event with the current catalog. Finalised, cancelled
+-- and past events keep the menu they were served with.
+create or replace function public.sync_event_menu(p_event_id uuid)
+returns setof public.event_pizzas
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events;
+begin
+  if not public.has_role('admin') then
+    raise exception 'Only admins can re-sync event menus.'
+      using errcode = '42501';
+  end if;
+
+  select * into v_event
+  from public.events
+  where id = p_event_id
+  for update;
+
+  if not found then
+    raise exception 'Event % not found.', p_event_id
+      using errcode = 'P0002';
+  end if;
+
+  if v_event.finalized_at is not null or v_event.cancelled_at is not null then
+    raise exception 'This event is finalised or cancelled; its menu is kept as served.'
+      using errcode = 'P0002';
+  end if;
+
+  if coalesce(v_event.ends_at, v_event.event_date) < now() then
+    raise exception 'This event is over; its menu is kept as served.'
+      using errcode = 'P0002';
+  end if;
+
+  perform public.capture_event_menu(p_event_id);
+
+  update public.events
+  set menu_synced_at = now()
+  where id = p_event_id;
+
+  return query
+    select * from public.event_pizzas where event_id = p_event_id;
+end;
+$$;
+
+-- Replaces delete_pizza from 20261019270000: pizzas on an event's menu,
+-- counted or not, stay so the event keeps showing what it offered.
+create or replace function public.delete_pizza(p_pizza_id public.pizzas.id%type)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role('admin') then
+    raise exception 'Only admins can delete pizzas.'
+      using errcode = '42501';
+  end if;
+
+  if exists (select 1 from public.pizza_totals where pizza_id = p_pizza_id) then
+    raise exception 'This pizza has been counted at events. Deactivate it instead.'
+      using errcode = 'P0002';
+  end if;
+
+  if exists (select 1 from public.event_pizzas where pizza_id = p_pizza_id) then
+    raise exception 'This pizza is on the menu of existing events. Deactivate it instead.'
+      using errcode = 'P0002';
+  end if;
+
+  delete from public.package_pizzas where pizza_id = p_pizza_id;
+  delete from public.pizzas where id = p_pizza_id;
+
+  if not found then
+    raise exception 'Pizza % not found.', p_pizza_id
+      using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+-- Existing events get today's package contents plus whatever was counted,
+-- the closest record of their menu there is.
+insert into public.event_pizzas (
+  event_id, pizza_id, name, vegetarian, vegan, allergens, dietary_tags, sort_order
+)
+select source.event_id, p.id, p.name, p.vegetarian, p.vegan, p.allergens, p.dietary_tags, p.sort_order
+from (
+  select e.id as event_id, pp.pizza_id
+  from public.events e
+  join public.package_pizzas pp on pp.package_id = e.package_id
+  join public.pizzas active_pizza on active_pizza.id = pp.pizza_id and active_pizza.active
+  union
+  select t.event_id, t.pizza_id
+  from public.pizza_totals t
+  where t.qty > 0
+) as source
+join public.pizzas p on p.id = source.pizza_id
+on conflict (event_id, pizza_id) do nothing;
+
+revoke execute on function public.capture_event_menu from public, anon, authenticated;
+revoke execute on function public.capture_event_menu_on_change from public, anon, authenticated;
+revoke execute on function public.sync_event_menu from public, anon;
+grant execute on function public.sync_event_menu to authenticated;
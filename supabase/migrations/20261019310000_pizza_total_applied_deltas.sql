@@ -0,0 +1,118 @@
+-- The counter's undo history holds what the server actually changed, not
+-- what was tapped: totals never go below zero, so "-1" on an empty pizza
+-- changes nothing. Both counter RPCs now return the applied delta next to
+-- the new total. A replayed op reports the delta it was recorded with.
+
+drop function if exists public.adjust_pizza_total(
+  public.pizza_totals.event_id%type, public.pizza_totals.pizza_id%type, integer, text, uuid
+);
+drop function if exists public.set_pizza_total(
+  public.pizza_totals.event_id%type, public.pizza_totals.pizza_id%type, integer, text, uuid
+);
+drop function if exists public.apply_pizza_total(
+  public.pizza_totals.event_id%type, public.pizza_totals.pizza_id%type, text, integer, text, uuid
+);
+
+create or replace function public.apply_pizza_total(
+  p_event_id public.pizza_totals.event_id%type,
+  p_pizza_id public.pizza_totals.pizza_id%type,
+  p_kind text,
+  p_value integer,
+  p_device_id text,
+  p_client_op_id uuid,
+  out new_qty integer,
+  out applied integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old integer;
+begin
+  if not public.has_role('admin', 'coordinator', 'counter_staff') then
+    raise exception 'Only event staff can change pizza counts.' using errcode = '42501';
+  end if;
+
+  insert into public.pizza_totals (event_id, pizza_id, qty, updated_at)
+  values (p_event_id, p_pizza_id, 0, now())
+  on conflict (event_id, pizza_id) do nothing;
+
+  -- The row lock serializes writers for this pizza, so the op id check below
+  -- cannot race with a concurrent replay of the same op.
+  select qty into v_old
+  from public.pizza_totals
+  where event_id = p_event_id and pizza_id = p_pizza_id
+  for update;
+
+  v_old := greatest(0, coalesce(v_old, 0));
+
+  if p_client_op_id is not null then
+    select coalesce(a.delta, 0) into applied
+    from public.pizza_adjustments a
+    where a.client_op_id = p_client_op_id;
+
+    if found then
+      new_qty := v_old;
+      return;
+    end if;
+  end if;
+
+  new_qty := greatest(0, case when p_kind = 'delta' then v_old + p_value else p_value end);
+  applied := new_qty - v_old;
+
+  -- Ops with an id are always recorded, even when clamped to no change, so a
+  -- replay of the same op is recognised later.
+  if applied = 0 and p_client_op_id is null then
+    return;
+  end if;
+
+  update public.pizza_totals
+  set qty = new_qty,
+      updated_at = now()
+  where event_id = p_event_id and pizza_id = p_pizza_id;
+
+  insert into public.pizza_adjustments
+    (event_id, pizza_id, delta, new_qty, kind, device_id, user_id, client_op_id, at)
+  values
+    (p_event_id, p_pizza_id, applied, new_qty, p_kind, p_device_id, auth.uid(), p_client_op_id, now());
+end;
+$$;
+
+create or replace function public.adjust_pizza_total(
+  p_event_id public.pizza_totals.event_id%type,
+  p_pizza_id public.pizza_totals.pizza_id%type,
+  p_delta integer,
+  p_device_id text,
+  p_client_op_id uuid default null,
+  out new_qty integer,
+  out applied integer
+)
+language sql
+security definer
+set search_path = public
+as $$
+  select * from public.apply_pizza_total(p_event_id, p_pizza_id, 'delta', p_delta, p_device_id, p_client_op_id);
+$$;
+
+create or replace function public.set_pizza_total(
+  p_event_id public.pizza_totals.event_id%type,
+  p_pizza_id public.pizza_totals.pizza_id%type,
+  p_qty integer,
+  p_device_id text,
+  p_client_op_id uuid default null,
+  out new_qty integer,
+  out applied integer
+)
+language sql
+security definer
+set search_path = public
+as $$
+  select * from public.apply_pizza_total(p_event_id, p_pizza_id, 'set', p_qty, p_device_id, p_client_op_id);
+$$;
+
+revoke execute on function public.apply_pizza_total from public, anon, authenticated;
+revoke execute on function public.adjust_pizza_total from public, anon;
+revoke execute on function public.set_pizza_total from public, anon;
+grant execute on function public.adjust_pizza_total to authenticated;
+grant execute on function public.set_pizza_total to authenticated;
@@ -0,0 +1,79 @@
+-- Admins and coordinators assign staff to events (event_staff), which is what
+-- "only my events" calendar feeds filter on. Staff emails live in auth.users,
+-- so listing them goes through a function instead of a table read.
+
+create or replace function public.list_staff_members()
+returns table (user_id uuid, email text, role public.app_role)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role('admin', 'coordinator') then
+    raise exception 'Only admins and coordinators can list staff.'
+      using errcode = '42501';
+  end if;
+
+  return query
+    select m.user_id, u.email::text, m.role
+    from public.memberships m
+    join auth.users u on u.id = m.user_id
+    where m.role in ('admin', 'coordinator', 'counter_staff')
+    order by lower(u.email);
+end;
+$$;
+
+-- Replaces the event's assignments with exactly `p_user_ids`.
+create or replace function public.set_event_staff(p_event_id uuid, p_user_ids uuid[])
+returns setof public.event_staff
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_ids uuid[] := coalesce(p_user_ids, '{}');
+begin
+  if not public.has_role('admin', 'coordinator') then
+    raise exception 'Only admins and coordinators can assign staff.'
+      using errcode = '42501';
+  end if;
+
+  perform 1 from public.events where id = p_event_id for update;
+  if not found then
+    raise exception 'Event % not found.', p_event_id
+      using errcode = 'P0002';
+  end if;
+
+  if exists (
+    select 1
+    from unnest(v_user_ids) as assigned (user_id)
+    where not exists (
+      select 1
+      from public.memberships m
+      where m.user_id = assigned.user_id
+        and m.role in ('admin', 'coordinator', 'counter_staff')
+    )
+  ) then
+    raise exception 'Only staff members can be assigned to events.'
+      using errcode = '22023';
+  end if;
+
+  delete from public.event_staff
+  where event_id = p_event_id
+    and not (user_id = any (v_user_ids));
+
+  insert into public.event_staff (event_id, user_id)
+  select p_event_id, assigned.user_id
+  from unnest(v_user_ids) as assigned (user_id)
+  on conflict (event_id, user_id) do nothing;
+
+  return query
+    select * from public.event_staff where event_id = p_event_id;
+end;
+$$;
+
+revoke execute on function public.list_staff_members from public, anon;
+revoke execute on function public.set_event_staff from public, anon;
+grant execute on function public.list_staff_members to authenticated;
+grant execute on function public.set_event_staff to authenticated;